@@ -1 +1,286 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
 
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title BaseAnalytics
+ * @notice Registers yield strategies, tracks user deposits per strategy and streams a
+ * single reward token to depositors pro rata to their share of each strategy.
+ * @dev Rewards use the accumulated-reward-per-share pattern. Reward funding is kept
+ * in its own reserve so a strategy may accept the reward token as its deposit token.
+ */
+contract BaseAnalytics is Ownable, Pausable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    uint256 private constant ACC_PRECISION = 1e18;
+    uint8 public constant MAX_RISK_LEVEL = 10;
+
+    struct Strategy {
+        string name;
+        IERC20 depositToken;
+        uint8 riskLevel;
+        bool active;
+        uint256 rewardRate; // reward tokens per second across the whole strategy
+        uint256 totalDeposited;
+        uint256 accRewardPerShare;
+        uint256 lastRewardTime;
+    }
+
+    struct Position {
+        uint256 amount;
+        uint256 rewardDebt;
+        uint256 pendingRewards; // accrued but not yet claimed, excluding the live accrual
+        uint256 rewardsClaimed;
+        uint64 entryDate;
+        uint64 lastRewardClaim;
+    }
+
+    IERC20 public immutable rewardToken;
+
+    Strategy[] public strategies;
+    mapping(uint256 => mapping(address => Position)) public positions;
+    mapping(address => uint256[]) private userStrategyIds;
+    mapping(uint256 => mapping(address => bool)) private hasPosition;
+
+    uint256 public activeStrategies;
+    uint256 public totalRewardsDistributed;
+    uint256 public rewardReserve;
+
+    event StrategyRegistered(
+        uint256 indexed strategyId,
+        string name,
+        address indexed depositToken,
+        uint8 riskLevel,
+        uint256 rewardRate
+    );
+    event StrategyUpdated(uint256 indexed strategyId, uint256 rewardRate, uint8 riskLevel, bool active);
+    event RewardsFunded(address indexed funder, uint256 amount);
+    event Deposited(address indexed user, uint256 indexed strategyId, uint256 amount);
+    event Withdrawn(address indexed user, uint256 indexed strategyId, uint256 amount);
+    event RewardsClaimed(address indexed user, uint256 indexed strategyId, uint256 amount);
+
+    error InvalidStrategy(uint256 strategyId);
+    error StrategyInactive(uint256 strategyId);
+    error InvalidRiskLevel(uint8 riskLevel);
+    error ZeroAmount();
+    error InsufficientBalance(uint256 requested, uint256 available);
+    error InsufficientRewardReserve(uint256 requested, uint256 available);
+
+    constructor(IERC20 _rewardToken) {
+        rewardToken = _rewardToken;
+    }
+
+    modifier validStrategy(uint256 strategyId) {
+        if (strategyId >= strategies.length) revert InvalidStrategy(strategyId);
+        _;
+    }
+
+    // ---------------------------------------------------------------------
+    // Admin
+    // ---------------------------------------------------------------------
+
+    function registerStrategy(
+        string calldata name,
+        IERC20 depositToken,
+        uint8 riskLevel,
+        uint256 rewardRate
+    ) external onlyOwner returns (uint256 strategyId) {
+        if (riskLevel == 0 || riskLevel > MAX_RISK_LEVEL) revert InvalidRiskLevel(riskLevel);
+
+        strategyId = strategies.length;
+        strategies.push(Strategy({
+            name: name,
+            depositToken: depositToken,
+            riskLevel: riskLevel,
+            active: true,
+            rewardRate: rewardRate,
+            totalDeposited: 0,
+            accRewardPerShare: 0,
+            lastRewardTime: block.timestamp
+        }));
+        activeStrategies += 1;
+
+        emit StrategyRegistered(strategyId, name, address(depositToken), riskLevel, rewardRate);
+    }
+
+    function updateStrategy(
+        uint256 strategyId,
+        uint256 rewardRate,
+        uint8 riskLevel,
+        bool active
+    ) external onlyOwner validStrategy(strategyId) {
+        if (riskLevel == 0 || riskLevel > MAX_RISK_LEVEL) revert InvalidRiskLevel(riskLevel);
+
+        // Settle accrual at the old rate before changing it
+        _updateStrategy(strategyId);
+        Strategy storage strategy = strategies[strategyId];
+        if (strategy.active != active) {
+            if (active) {
+                activeStrategies += 1;
+            } else {
+                activeStrategies -= 1;
+            }
+        }
+        strategy.rewardRate = rewardRate;
+        strategy.riskLevel = riskLevel;
+        strategy.active = active;
+
+        emit StrategyUpdated(strategyId, rewardRate, riskLevel, active);
+    }
+
+    function fundRewards(uint256 amount) external {
+        if (amount == 0) revert ZeroAmount();
+        uint256 received = _pullTokens(rewardToken, amount);
+        rewardReserve += received;
+        emit RewardsFunded(msg.sender, received);
+    }
+
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    // ---------------------------------------------------------------------
+    // User actions
+    // ---------------------------------------------------------------------
+
+    function deposit(uint256 strategyId, uint256 amount)
+        external
+        nonReentrant
+        whenNotPaused
+        validStrategy(strategyId)
+    {
+        if (amount == 0) revert ZeroAmount();
+        Strategy storage strategy = strategies[strategyId];
+        if (!strategy.active) revert StrategyInactive(strategyId);
+
+        _updateStrategy(strategyId);
+        Position storage position = positions[strategyId][msg.sender];
+        _accrue(strategy, position);
+
+        uint256 received = _pullTokens(strategy.depositToken, amount);
+        if (!hasPosition[strategyId][msg.sender]) {
+            hasPosition[strategyId][msg.sender] = true;
+            userStrategyIds[msg.sender].push(strategyId);
+            position.entryDate = uint64(block.timestamp);
+        }
+        position.amount += received;
+        strategy.totalDeposited += received;
+        position.rewardDebt = (position.amount * strategy.accRewardPerShare) / ACC_PRECISION;
+
+        emit Deposited(msg.sender, strategyId, received);
+    }
+
+    /// @notice Withdrawals stay open while paused so funds can always leave
+    function withdraw(uint256 strategyId, uint256 amount) external nonReentrant validStrategy(strategyId) {
+        if (amount == 0) revert ZeroAmount();
+        Strategy storage strategy = strategies[strategyId];
+        Position storage position = positions[strategyId][msg.sender];
+        if (amount > position.amount) revert InsufficientBalance(amount, position.amount);
+
+        _updateStrategy(strategyId);
+        _accrue(strategy, position);
+
+        position.amount -= amount;
+        strategy.totalDeposited -= amount;
+        position.rewardDebt = (position.amount * strategy.accRewardPerShare) / ACC_PRECISION;
+        strategy.depositToken.safeTransfer(msg.sender, amount);
+
+        emit Withdrawn(msg.sender, strategyId, amount);
+    }
+
+    function claimRewards(uint256 strategyId)
+        external
+        nonReentrant
+        whenNotPaused
+        validStrategy(strategyId)
+        returns (uint256 amount)
+    {
+        Strategy storage strategy = strategies[strategyId];
+        Position storage position = positions[strategyId][msg.sender];
+
+        _updateStrategy(strategyId);
+        _accrue(strategy, position);
+        position.rewardDebt = (position.amount * strategy.accRewardPerShare) / ACC_PRECISION;
+
+        amount = position.pendingRewards;
+        if (amount == 0) revert ZeroAmount();
+        if (amount > rewardReserve) revert InsufficientRewardReserve(amount, rewardReserve);
+
+        position.pendingRewards = 0;
+        position.rewardsClaimed += amount;
+        position.lastRewardClaim = uint64(block.timestamp);
+        rewardReserve -= amount;
+        totalRewardsDistributed += amount;
+        rewardToken.safeTransfer(msg.sender, amount);
+
+        emit RewardsClaimed(msg.sender, strategyId, amount);
+    }
+
+    // ---------------------------------------------------------------------
+    // Views
+    // ---------------------------------------------------------------------
+
+    function strategyCount() external view returns (uint256) {
+        return strategies.length;
+    }
+
+    function getUserStrategyIds(address user) external view returns (uint256[] memory) {
+        return userStrategyIds[user];
+    }
+
+    function pendingRewards(uint256 strategyId, address user)
+        external
+        view
+        validStrategy(strategyId)
+        returns (uint256)
+    {
+        Strategy storage strategy = strategies[strategyId];
+        Position storage position = positions[strategyId][user];
+
+        uint256 accRewardPerShare = strategy.accRewardPerShare;
+        if (block.timestamp > strategy.lastRewardTime && strategy.active && strategy.totalDeposited > 0) {
+            uint256 reward = (block.timestamp - strategy.lastRewardTime) * strategy.rewardRate;
+            accRewardPerShare += (reward * ACC_PRECISION) / strategy.totalDeposited;
+        }
+        return position.pendingRewards
+            + (position.amount * accRewardPerShare) / ACC_PRECISION
+            - position.rewardDebt;
+    }
+
+    // ---------------------------------------------------------------------
+    // Internal
+    // ---------------------------------------------------------------------
+
+    function _updateStrategy(uint256 strategyId) internal {
+        Strategy storage strategy = strategies[strategyId];
+        if (block.timestamp <= strategy.lastRewardTime) return;
+
+        // Deactivated strategies stop streaming; the time they sit inactive is skipped
+        if (strategy.active && strategy.totalDeposited > 0) {
+            uint256 reward = (block.timestamp - strategy.lastRewardTime) * strategy.rewardRate;
+            strategy.accRewardPerShare += (reward * ACC_PRECISION) / strategy.totalDeposited;
+        }
+        strategy.lastRewardTime = block.timestamp;
+    }
+
+    function _accrue(Strategy storage strategy, Position storage position) internal {
+        if (position.amount == 0) return;
+        position.pendingRewards += (position.amount * strategy.accRewardPerShare) / ACC_PRECISION - position.rewardDebt;
+    }
+
+    // Credits what actually arrived, so fee-on-transfer tokens cannot inflate balances
+    function _pullTokens(IERC20 token, uint256 amount) internal returns (uint256) {
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        return token.balanceOf(address(this)) - balanceBefore;
+    }
+}
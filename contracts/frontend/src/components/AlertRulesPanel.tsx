@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, Badge, Button } from '@/components/ui';
+import { AlertTriangle, Bell, Plus, Send, Trash2 } from 'lucide-react';
+import { shortenAddress } from '@/utils/portfolio';
+import type { useAlerts } from '@/hooks/useAlerts';
+import type { AlertCondition, AlertKind, ProtocolData } from '@/types/analytics';
+
+/**
+ * @title AlertRulesPanel
+ * @description Create, pause, test and delete server-side alert rules and review recent alerts
+ * @author Base DeFi Analytics Team
+ */
+
+interface AlertRulesPanelProps {
+  alerts: ReturnType<typeof useAlerts>;
+  protocols: ProtocolData[];
+  // Prefilled for position and health-factor rules
+  defaultAddress?: string | null;
+}
+
+const KIND_LABELS: Record<AlertKind, string> = {
+  protocolApy: 'Protocol APY crosses',
+  protocolChange: '24h change drops below',
+  arbitrageProfit: 'Arbitrage profit exceeds',
+  positionRisk: 'Position risk rises',
+  healthFactor: 'Health factor falls below'
+};
+
+const DEFAULT_THRESHOLDS: Record<AlertKind, string> = {
+  protocolApy: '10',
+  protocolChange: '-10',
+  arbitrageProfit: '100',
+  positionRisk: '',
+  healthFactor: '1.2'
+};
+
+// Select has no empty value, so "every protocol" needs a sentinel
+const ANY_PROTOCOL = 'any';
+
+const describeCondition = (condition: AlertCondition, protocols: ProtocolData[]): string => {
+  const protocolName = (id?: string) => protocols.find(protocol => protocol.id === id)?.name ?? id ?? 'Any protocol';
+  switch (condition.kind) {
+    case 'protocolApy':
+      return `${protocolName(condition.protocolId)} APY ${condition.direction} ${condition.threshold}%`;
+    case 'protocolChange':
+      return `${protocolName(condition.protocolId)} 24h change below ${condition.threshold}%`;
+    case 'arbitrageProfit':
+      return `Arbitrage profit of $${condition.minProfit} or more`;
+    case 'positionRisk':
+      return `Risk rises on ${shortenAddress(condition.address)}`;
+    case 'healthFactor':
+      return `Health factor below ${condition.threshold} on ${shortenAddress(condition.address)}`;
+  }
+};
+
+const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ alerts, protocols, defaultAddress }) => {
+  const { rules, events, error, createRule, toggleRule, deleteRule, testRule } = alerts;
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AlertKind>('protocolApy');
+  const [protocolId, setProtocolId] = useState(ANY_PROTOCOL);
+  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLDS.protocolApy);
+  const [address, setAddress] = useState(defaultAddress || '');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [testResult, setTestResult] = useState<string | null>(null);
+
+  const handleKindChange = (nextKind: AlertKind) => {
+    setKind(nextKind);
+    setThreshold(DEFAULT_THRESHOLDS[nextKind]);
+    if (nextKind === 'protocolApy' && protocolId === ANY_PROTOCOL && protocols.length) setProtocolId(protocols[0].id);
+  };
+
+  const buildCondition = (): AlertCondition => {
+    const value = Number(threshold);
+    const selectedProtocol = protocolId === ANY_PROTOCOL ? undefined : protocolId;
+    switch (kind) {
+      case 'protocolApy':
+        return { kind, protocolId, direction, threshold: value };
+      case 'protocolChange':
+        return { kind, ...(selectedProtocol ? { protocolId: selectedProtocol } : {}), threshold: value };
+      case 'arbitrageProfit':
+        return { kind, minProfit: value };
+      case 'positionRisk':
+        return { kind, address: address.trim() };
+      case 'healthFactor':
+        return { kind, address: address.trim(), threshold: value };
+    }
+  };
+
+  const handleCreate = async () => {
+    const condition = buildCondition();
+    const created = await createRule(name.trim() || describeCondition(condition, protocols), condition, webhookUrl.trim() || undefined);
+    if (created) setName('');
+  };
+
+  const handleTest = async (id: string) => {
+    const result = await testRule(id);
+    if (!result) return;
+    setTestResult(result.deliveries.map(delivery =>
+      `${delivery.sink}: ${delivery.ok ? 'delivered' : delivery.error}`).join(' · '));
+  };
+
+  const needsAddress = kind === 'positionRisk' || kind === 'healthFactor';
+  const needsProtocol = kind === 'protocolApy' || kind === 'protocolChange';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />Alert Rules
+          </CardTitle>
+          <CardDescription>Evaluated on the server at every refresh, delivered here and to your webhook</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Input placeholder="Rule name (optional)" value={name}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setName(event.target.value)} />
+            <Select value={kind} onValueChange={(value: string) => handleKindChange(value as AlertKind)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(KIND_LABELS) as AlertKind[]).map(candidate => (
+                  <SelectItem key={candidate} value={candidate}>{KIND_LABELS[candidate]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {needsProtocol && (
+              <Select value={protocolId} onValueChange={setProtocolId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {kind === 'protocolChange' && <SelectItem value={ANY_PROTOCOL}>Any protocol</SelectItem>}
+                  {protocols.map(protocol => (
+                    <SelectItem key={protocol.id} value={protocol.id}>{protocol.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {kind === 'protocolApy' && (
+              <Select value={direction} onValueChange={(value: string) => setDirection(value as 'above' | 'below')}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="above">Above</SelectItem>
+                  <SelectItem value="below">Below</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {needsAddress && (
+              <Input placeholder="0x… address" value={address}
+                onChange={(event: React.ChangeEvent<HTMLInputElement>) => setAddress(event.target.value)} />
+            )}
+            {kind !== 'positionRisk' && (
+              <Input type="number" step="0.1" value={threshold}
+                onChange={(event: React.ChangeEvent<HTMLInputElement>) => setThreshold(event.target.value)} />
+            )}
+            <Input className="col-span-2" placeholder="Webhook URL (optional)" value={webhookUrl}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setWebhookUrl(event.target.value)} />
+          </div>
+          <Button size="sm" onClick={handleCreate} disabled={kind === 'protocolApy' && protocolId === ANY_PROTOCOL}>
+            <Plus className="h-4 w-4 mr-1" />Add Rule
+          </Button>
+
+          {(error || testResult) && (
+            <Alert variant={error ? 'destructive' : undefined}>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error || testResult}</AlertDescription>
+            </Alert>
+          )}
+
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-600">No alert rules yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <p className="font-semibold">{rule.name}</p>
+                      <p className="text-xs text-gray-500">{describeCondition(rule.condition, protocols)}</p>
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant={rule.enabled ? 'default' : 'outline'} size="sm" onClick={() => toggleRule(rule)}>
+                        {rule.enabled ? 'On' : 'Paused'}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleTest(rule.id)}>
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteRule(rule.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Alerts</CardTitle>
+          <CardDescription>Raised once each time a condition starts to hold</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-600">Nothing has triggered yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {events.map(event => (
+                <div key={event.id} className="flex items-start justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-semibold text-sm">{event.ruleName}</p>
+                    <p className="text-sm text-gray-600">{event.message}</p>
+                    {event.deliveries?.filter(delivery => !delivery.ok).map(delivery => (
+                      <p key={delivery.sink} className="text-xs text-red-600">
+                        Not delivered by {delivery.sink}: {delivery.error}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="text-right">
+                    <Badge variant="secondary">{KIND_LABELS[event.kind]}</Badge>
+                    <p className="text-xs text-gray-500 mt-1">{event.triggeredAt.toLocaleTimeString()}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
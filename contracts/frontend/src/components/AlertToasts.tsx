@@ -0,0 +1,47 @@
+import React, { useEffect } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui';
+import { BellRing, X } from 'lucide-react';
+import type { AlertEvent } from '@/types/analytics';
+
+/**
+ * @title AlertToasts
+ * @description Stack of transient notifications for alerts raised while the dashboard is open
+ * @author Base DeFi Analytics Team
+ */
+
+const TOAST_DURATION = 8000;
+
+interface AlertToastsProps {
+  toasts: AlertEvent[];
+  onDismiss: (id: string) => void;
+}
+
+const AlertToast: React.FC<{ toast: AlertEvent; onDismiss: (id: string) => void }> = ({ toast, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <Alert className="bg-white shadow-lg">
+      <BellRing className="h-4 w-4" />
+      <AlertTitle className="flex justify-between items-center">
+        {toast.ruleName}
+        <button onClick={() => onDismiss(toast.id)} aria-label="Dismiss alert">
+          <X className="h-4 w-4 text-gray-500" />
+        </button>
+      </AlertTitle>
+      <AlertDescription>{toast.message}</AlertDescription>
+    </Alert>
+  );
+};
+
+const AlertToasts: React.FC<AlertToastsProps> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-4 right-4 z-50 w-96 space-y-2">
+    {toasts.slice(-4).map(toast => (
+      <AlertToast key={toast.id} toast={toast} onDismiss={onDismiss} />
+    ))}
+  </div>
+);
+
+export default AlertToasts;
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, Progress } from '@/components/ui';
+import { AlertTriangle, Target } from 'lucide-react';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { calculateOptimalAllocation } from '@/utils/allocation';
+import type { ProtocolData } from '@/types/analytics';
+import RiskBadge from '@/components/RiskBadge';
+import RiskBreakdownTooltip from '@/components/RiskBreakdownTooltip';
+
+/**
+ * @title AllocationPlanner
+ * @description Proposes a capital split across protocols for a given risk tolerance and
+ * compares it with the user's current portfolio
+ * @author Base DeFi Analytics Team
+ */
+
+interface AllocationPlannerProps {
+  protocols: ProtocolData[];
+  currentPortfolio: { weightedAPY: number; averageRisk: number } | null;
+}
+
+const parseNumber = (value: string, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && value.trim() !== '' ? parsed : fallback;
+};
+
+const AllocationPlanner: React.FC<AllocationPlannerProps> = ({ protocols, currentPortfolio }) => {
+  const [capital, setCapital] = useState('10000');
+  const [riskTolerance, setRiskTolerance] = useState('5');
+  const [maxPerProtocol, setMaxPerProtocol] = useState('40');
+  const [minProtocols, setMinProtocols] = useState('3');
+
+  const plan = useMemo(() => {
+    return calculateOptimalAllocation(protocols, Math.max(0, parseNumber(capital, 0)), {
+      maxRisk: Math.min(10, Math.max(1, parseNumber(riskTolerance, 5))),
+      maxAllocationPerProtocol: Math.min(100, Math.max(0, parseNumber(maxPerProtocol, 40))) / 100,
+      minProtocols: Math.max(1, Math.floor(parseNumber(minProtocols, 3)))
+    });
+  }, [protocols, capital, riskTolerance, maxPerProtocol, minProtocols]);
+
+  // The proposed figure turns green when it improves on the current portfolio
+  const renderComparison = (label: string, proposed: string, current: string | null, isImprovement: boolean) => (
+    <div>
+      <p className="text-sm text-gray-600">{label}</p>
+      <p className={`text-xl font-bold ${isImprovement ? 'text-green-600' : ''}`}>{proposed}</p>
+      {current !== null && <p className="text-xs text-gray-500">Current: {current}</p>}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />Allocation Planner
+        </CardTitle>
+        <CardDescription>Highest expected yield within your risk tolerance and diversification limits</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">Capital (USD)</label>
+            <Input type="number" min="0" value={capital}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setCapital(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">Risk tolerance (1-10)</label>
+            <Input type="number" min="1" max="10" step="0.5" value={riskTolerance}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setRiskTolerance(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">Max per protocol (%)</label>
+            <Input type="number" min="0" max="100" value={maxPerProtocol}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setMaxPerProtocol(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">Min protocols</label>
+            <Input type="number" min="1" value={minProtocols}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setMinProtocols(event.target.value)} />
+          </div>
+        </div>
+
+        {!plan.isFeasible && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              No allocation stays under this risk tolerance; showing the least risky split instead.
+            </AlertDescription>
+          </Alert>
+        )}
+        {plan.unallocated > 0.01 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {formatCurrency(plan.unallocated)} cannot be placed within the per-protocol caps.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-3 gap-4">
+          {renderComparison(
+            'Weighted APY',
+            formatPercentage(plan.weightedAPY),
+            currentPortfolio ? formatPercentage(currentPortfolio.weightedAPY) : null,
+            !!currentPortfolio && plan.weightedAPY > currentPortfolio.weightedAPY
+          )}
+          {renderComparison(
+            'Weighted Risk',
+            `${plan.weightedRisk.toFixed(1)}/10`,
+            currentPortfolio ? `${currentPortfolio.averageRisk.toFixed(1)}/10` : null,
+            !!currentPortfolio && plan.weightedRisk < currentPortfolio.averageRisk
+          )}
+          {renderComparison('Expected Yearly Yield', formatCurrency(plan.expectedYearlyYield), null, false)}
+        </div>
+
+        {plan.allocations.length === 0 ? (
+          <p className="text-sm text-gray-600">No active protocols to allocate to.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Protocol</TableHead>
+                <TableHead>Share</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">APY</TableHead>
+                <TableHead>Risk</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.allocations.map((allocation) => (
+                <TableRow key={allocation.protocolId}>
+                  <TableCell className="font-semibold">{allocation.name}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Progress value={allocation.weight * 100} className="w-24" />
+                      <span className="text-sm">{formatPercentage(allocation.weight * 100)}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(allocation.amount)}</TableCell>
+                  <TableCell className="text-right text-green-600">{formatPercentage(allocation.apy)}</TableCell>
+                  <TableCell>
+                    <RiskBreakdownTooltip assessment={protocols.find(protocol => protocol.id === allocation.protocolId)?.riskAssessment}>
+                      <RiskBadge risk={allocation.riskScore} />
+                    </RiskBreakdownTooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AllocationPlanner;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, Button } from '@/components/ui';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { formatCurrency } from '@/utils/formatters';
+import {
+  executeArbitrage,
+  getDefaultTradeAmount,
+  parseTradeAmount,
+  simulateArbitrage,
+  type ArbitrageSimulation
+} from '@/services/arbitrageExecutor';
+import type { ArbitrageOpportunity, TokenPrices } from '@/types/analytics';
+
+/**
+ * @title ArbitrageExecuteDialog
+ * @description Simulate-then-confirm flow for executing an arbitrage opportunity. The parent keys
+ * the dialog by opportunity id, so opening a different opportunity starts a fresh flow.
+ * @author Base DeFi Analytics Team
+ */
+
+interface ArbitrageExecuteDialogProps {
+  opportunity: ArbitrageOpportunity | null;
+  prices: TokenPrices;
+  onClose: () => void;
+  onExecuted: (opportunityId: string, txHash: string) => void;
+}
+
+type ExecutionStep = 'idle' | 'simulating' | 'simulated' | 'executing' | 'executed';
+
+const ArbitrageExecuteDialog: React.FC<ArbitrageExecuteDialogProps> = ({ opportunity, prices, onClose, onExecuted }) => {
+  const { account, signer } = useWeb3();
+
+  // Sized once when opened; later price updates do not overwrite what the user typed
+  const [amount, setAmount] = useState(() => opportunity ? getDefaultTradeAmount(opportunity, prices) : '');
+  const [step, setStep] = useState<ExecutionStep>('idle');
+  const [simulation, setSimulation] = useState<ArbitrageSimulation | null>(null);
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!opportunity) return null;
+
+  const handleSimulate = async () => {
+    setStep('simulating');
+    setError(null);
+    try {
+      setSimulation(await simulateArbitrage({
+        opportunity,
+        amountIn: parseTradeAmount(opportunity, amount),
+        account,
+        prices
+      }));
+      setStep('simulated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Simulation failed');
+      setStep('idle');
+    }
+  };
+
+  const handleExecute = async () => {
+    if (!simulation || !signer) return;
+    setStep('executing');
+    setError(null);
+    try {
+      const execution = await executeArbitrage({ signer, opportunity, simulation });
+      setTxHash(execution.txHash);
+      setStep('executed');
+      onExecuted(opportunity.id, execution.txHash);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Execution failed');
+      setStep('simulated');
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open: boolean) => { if (!open && step !== 'executing') onClose(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Execute {opportunity.tokenA}/{opportunity.tokenB} Arbitrage</DialogTitle>
+          <DialogDescription>
+            Buy {opportunity.tokenB} on {opportunity.dexA} and sell it on {opportunity.dexB}.
+            The trade is simulated on a local fork of the latest block before anything is signed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm text-gray-600">Trade size ({opportunity.tokenA})</label>
+            <Input value={amount} disabled={step !== 'idle' && step !== 'simulated'}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => {
+                setAmount(event.target.value);
+                setSimulation(null);
+                setStep('idle');
+              }} />
+          </div>
+
+          {simulation && (
+            <div className="grid grid-cols-2 gap-4 p-4 border rounded-lg text-sm">
+              <div>
+                <p className="text-gray-600">Expected profit</p>
+                <p className="font-semibold">{formatCurrency(simulation.expectedProfitUsd)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Simulated profit</p>
+                <p className={`font-semibold ${simulation.isProfitable ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(simulation.simulatedProfitUsd)}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-600">Gross (before gas)</p>
+                <p className="font-semibold">{formatCurrency(simulation.grossProfitUsd)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Gas ({simulation.gasUsed.toString()} units)</p>
+                <p className="font-semibold">{formatCurrency(simulation.gasCostUsd)}</p>
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">Simulated at block {simulation.forkBlock}</p>
+            </div>
+          )}
+
+          {simulation?.isProfitable && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                The two legs are sent as separate transactions. If the price moves after the first,
+                the second reverts and you keep the {opportunity.tokenB} bought in the first leg.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {simulation && !simulation.isProfitable && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>This trade loses money after gas at the current fork state.</AlertDescription>
+            </Alert>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {txHash && (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription className="font-mono break-all">Executed in {txHash}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          {step === 'executed' ? (
+            <Button onClick={onClose}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleSimulate} disabled={!account || step === 'simulating' || step === 'executing'}>
+                {step === 'simulating' ? 'Simulating...' : 'Simulate'}
+              </Button>
+              <Button onClick={handleExecute}
+                disabled={!signer || !simulation?.isProfitable || step === 'executing'}>
+                {step === 'executing' ? 'Executing...' : 'Confirm & Execute'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ArbitrageExecuteDialog;
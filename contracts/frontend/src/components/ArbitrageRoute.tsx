@@ -0,0 +1,41 @@
+import React from 'react';
+import { Badge } from '@/components/ui';
+import { ArrowRight } from 'lucide-react';
+import type { ArbitrageOpportunity } from '@/types/analytics';
+
+/**
+ * @title ArbitrageRoute
+ * @description Token path of an arbitrage opportunity with the venue of each hop
+ * @author Base DeFi Analytics Team
+ */
+
+interface ArbitrageRouteProps {
+  opportunity: ArbitrageOpportunity;
+}
+
+// Direct pairs have no route and are drawn as their two legs
+const getHops = (opportunity: ArbitrageOpportunity) => opportunity.route ?? [
+  { dex: opportunity.dexA, tokenIn: opportunity.tokenA, tokenOut: opportunity.tokenB, fee: undefined },
+  { dex: opportunity.dexB, tokenIn: opportunity.tokenB, tokenOut: opportunity.tokenA, fee: undefined }
+];
+
+const ArbitrageRoute: React.FC<ArbitrageRouteProps> = ({ opportunity }) => {
+  const hops = getHops(opportunity);
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-sm">
+      <span className="font-semibold">{hops[0].tokenIn}</span>
+      {hops.map((hop, index) => (
+        <React.Fragment key={index}>
+          <ArrowRight className="h-3 w-3 text-gray-400" />
+          <Badge variant="outline" className="text-xs font-normal">
+            {hop.dex}{hop.fee ? ` ${hop.fee / 10000}%` : ''}
+          </Badge>
+          <ArrowRight className="h-3 w-3 text-gray-400" />
+          <span className="font-semibold">{hop.tokenOut}</span>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default ArbitrageRoute;
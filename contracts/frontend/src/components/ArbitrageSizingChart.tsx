@@ -0,0 +1,56 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatNumber } from '@/utils/formatters';
+import { COLORS } from '@/utils/colors';
+import type { ArbitrageOpportunity } from '@/types/analytics';
+
+/**
+ * @title ArbitrageSizingChart
+ * @description Net profit of an opportunity against the capital committed, with the
+ * profit-maximizing size marked
+ * @author Base DeFi Analytics Team
+ */
+
+interface ArbitrageSizingChartProps {
+  opportunity: ArbitrageOpportunity;
+}
+
+const ArbitrageSizingChart: React.FC<ArbitrageSizingChartProps> = ({ opportunity }) => {
+  const sizing = opportunity.sizing;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trade Size</CardTitle>
+        <CardDescription>
+          {!sizing
+            ? 'Pool liquidity for this opportunity could not be read'
+            : sizing.optimalInput > 0
+              ? `Commit ${formatNumber(sizing.optimalInput)} ${opportunity.tokenA} (${formatCurrency(sizing.optimalInputUsd)}) for up to ${formatCurrency(sizing.maxProfit)} net`
+              : 'No trade size is profitable after pool fees and price impact'}
+        </CardDescription>
+      </CardHeader>
+      {sizing && sizing.curve.length > 0 && (
+        <CardContent>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={sizing.curve}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="inputUsd" type="number" domain={[0, 'dataMax']} tickFormatter={(value) => formatCurrency(value)} />
+              <YAxis tickFormatter={(value) => formatCurrency(value)} />
+              <Tooltip labelFormatter={(value) => `Input ${formatCurrency(value as number)}`}
+                formatter={(value) => [formatCurrency(value as number), 'Net profit']} />
+              <ReferenceLine y={0} stroke={COLORS.danger} strokeDasharray="3 3" />
+              {sizing.optimalInput > 0 && (
+                <ReferenceLine x={sizing.optimalInputUsd} stroke={COLORS.success} strokeDasharray="3 3" label="Optimal" />
+              )}
+              <Line type="monotone" dataKey="profit" stroke={COLORS.primary} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default ArbitrageSizingChart;
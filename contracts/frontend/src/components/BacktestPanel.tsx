@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { History } from 'lucide-react';
+import { formatCurrency, formatNumber, formatPercentage } from '@/utils/formatters';
+import { formatTimestamp } from '@/utils/timeseries';
+import { COLORS } from '@/utils/colors';
+import { runBacktest, toBacktestStrategy, type AllocationRule, type BacktestFrequency, type BacktestStrategy } from '@/utils/backtest';
+import { parseStrategy } from '@/utils/strategy';
+import type { ProtocolData, ProtocolHistory, Timeframe } from '@/types/analytics';
+
+/**
+ * @title BacktestPanel
+ * @description Replays the loaded protocol history through an allocation strategy and shows
+ * its equity curve and performance
+ * @author Base DeFi Analytics Team
+ */
+
+interface BacktestPanelProps {
+  protocols: ProtocolData[];
+  history: ProtocolHistory;
+  timeframe: Timeframe;
+}
+
+type RuleKind = AllocationRule['kind'];
+
+const RULE_LABELS: Record<RuleKind, string> = {
+  optimal: 'Optimal within risk',
+  topApy: 'Top APY, equal weight',
+  fixed: 'Equal weight, all protocols',
+  targets: 'Strategy document'
+};
+
+const EXAMPLE_DOCUMENT = `version: 1
+name: Lending rotation
+maxRisk: 5
+allocations:
+  - { category: Lending, weight: 0.7, top: 2, by: apy }
+  - { category: DEX, weight: 0.3 }
+rebalance: { schedule: weekly, drift: 0.05 }
+compound: daily
+exits: { stopLoss: 10, trailing: true }
+`;
+
+const FREQUENCY_LABELS: Record<BacktestFrequency, string> = {
+  never: 'Never',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+};
+
+const parseNumber = (value: string, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && value.trim() !== '' ? parsed : fallback;
+};
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ protocols, history, timeframe }) => {
+  const [ruleKind, setRuleKind] = useState<RuleKind>('optimal');
+  const [maxRisk, setMaxRisk] = useState('5');
+  const [topCount, setTopCount] = useState('3');
+  const [rebalance, setRebalance] = useState<BacktestFrequency>('weekly');
+  const [compound, setCompound] = useState<BacktestFrequency>('daily');
+  const [capital, setCapital] = useState('10000');
+  const [gasCost, setGasCost] = useState('0.05');
+  const [source, setSource] = useState(EXAMPLE_DOCUMENT);
+
+  const backtest = useMemo(() => {
+    const risk = Math.min(10, Math.max(1, parseNumber(maxRisk, 5)));
+    const initialCapital = Math.max(0, parseNumber(capital, 0));
+    const gasCostPerTx = Math.max(0, parseNumber(gasCost, 0));
+
+    const buildStrategy = (): BacktestStrategy => {
+      // Documents set their own allocations, schedules, entry conditions and exits
+      if (ruleKind === 'targets') return toBacktestStrategy(parseStrategy(source), { initialCapital, gasCostPerTx });
+      const allocation: AllocationRule = ruleKind === 'optimal'
+        ? { kind: 'optimal', constraints: { maxRisk: risk } }
+        : ruleKind === 'topApy'
+          ? { kind: 'topApy', count: Math.max(1, Math.floor(parseNumber(topCount, 3))), maxRisk: risk }
+          : { kind: 'fixed', weights: Object.fromEntries(protocols.map(protocol => [protocol.id, 1 / protocols.length])) };
+      return { name: RULE_LABELS[ruleKind], initialCapital, allocation, rebalance, compound, gasCostPerTx };
+    };
+
+    try {
+      const strategy = buildStrategy();
+      const result = runBacktest({ protocols, snapshots: Object.values(history).flat() }, strategy);
+      return { result, error: null };
+    } catch (err) {
+      return { result: null, error: err instanceof Error ? err.message : 'Backtest failed' };
+    }
+  }, [protocols, history, ruleKind, maxRisk, topCount, rebalance, compound, capital, gasCost, source]);
+
+  const equityData = useMemo(() => {
+    return backtest.result?.equityCurve.map(point => ({ timestamp: point.timestamp.getTime(), equity: point.equity })) || [];
+  }, [backtest.result]);
+
+  const renderMetric = (label: string, value: string, className = '') => (
+    <div>
+      <p className="text-sm text-gray-600">{label}</p>
+      <p className={`text-xl font-bold ${className}`}>{value}</p>
+    </div>
+  );
+
+  const { result } = backtest;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />Strategy Backtest
+        </CardTitle>
+        <CardDescription>Replays the last {timeframe} of protocol APY and TVL through the strategy, net of gas</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">Allocation</label>
+            <Select value={ruleKind} onValueChange={(value: string) => setRuleKind(value as RuleKind)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RULE_LABELS) as RuleKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{RULE_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {(ruleKind === 'optimal' || ruleKind === 'topApy') && (
+            <div className="space-y-1">
+              <label className="text-sm text-gray-600">Max risk (1-10)</label>
+              <Input type="number" min="1" max="10" step="0.5" value={maxRisk}
+                onChange={(event: React.ChangeEvent<HTMLInputElement>) => setMaxRisk(event.target.value)} />
+            </div>
+          )}
+          {ruleKind === 'topApy' && (
+            <div className="space-y-1">
+              <label className="text-sm text-gray-600">Protocols</label>
+              <Input type="number" min="1" step="1" value={topCount}
+                onChange={(event: React.ChangeEvent<HTMLInputElement>) => setTopCount(event.target.value)} />
+            </div>
+          )}
+          {ruleKind !== 'targets' && (
+            <>
+              <div className="space-y-1">
+                <label className="text-sm text-gray-600">Rebalance</label>
+                <Select value={rebalance} onValueChange={(value: string) => setRebalance(value as BacktestFrequency)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FREQUENCY_LABELS) as BacktestFrequency[]).map(frequency => (
+                      <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-sm text-gray-600">Compound rewards</label>
+                <Select value={compound} onValueChange={(value: string) => setCompound(value as BacktestFrequency)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FREQUENCY_LABELS) as BacktestFrequency[]).map(frequency => (
+                      <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">Capital ($)</label>
+            <Input type="number" min="0" value={capital}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setCapital(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">Gas per transaction ($)</label>
+            <Input type="number" min="0" step="0.01" value={gasCost}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setGasCost(event.target.value)} />
+          </div>
+        </div>
+
+        {ruleKind === 'targets' && (
+          <textarea
+            className="w-full h-48 rounded-md border p-2 font-mono text-sm"
+            spellCheck={false}
+            value={source}
+            onChange={(event: React.ChangeEvent<HTMLTextAreaElement>) => setSource(event.target.value)}
+          />
+        )}
+
+        {backtest.error && <p className="text-sm text-gray-600">{backtest.error}</p>}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {renderMetric('Final equity', formatCurrency(result.finalEquity))}
+              {renderMetric('Realized APY', formatPercentage(result.realizedAPY), result.realizedAPY >= 0 ? 'text-green-600' : 'text-red-600')}
+              {renderMetric('Max drawdown', formatPercentage(result.maxDrawdown), result.maxDrawdown > 0 ? 'text-red-600' : '')}
+              {renderMetric('Sharpe ratio', formatNumber(result.sharpeRatio))}
+              {renderMetric('Gas spent', formatCurrency(result.gasSpent))}
+            </div>
+            <p className="text-xs text-gray-500">
+              {result.rebalances} rebalances and {result.compounds} compounds after the initial deposit
+              {result.exit && `; exited on ${result.exit.reason === 'stopLoss' ? 'stop-loss' : 'take-profit'} ${formatTimestamp(result.exit.timestamp.getTime(), timeframe)}`}
+              {!result.enteredAt && '; entry conditions never held'}
+            </p>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={equityData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="timestamp" tickFormatter={(value) => formatTimestamp(value, timeframe)} />
+                <YAxis domain={['auto', 'auto']} tickFormatter={(value) => formatCurrency(value)} />
+                <Tooltip labelFormatter={(value) => formatTimestamp(value as number, timeframe)}
+                  formatter={(value) => [formatCurrency(value as number), 'Equity']} />
+                <Line type="monotone" dataKey="equity" stroke={COLORS.primary} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BacktestPanel;
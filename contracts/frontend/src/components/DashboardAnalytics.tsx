@@ -6,6 +6,7 @@ import {
   Area,
   BarChart,
   Bar,
+  ComposedChart,
   PieChart,
   Pie,
   Cell,
@@ -14,8 +15,7 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
-  ResponsiveContainer,
-  ReferenceLine
+  ResponsiveContainer
 } from 'recharts';
 import {
   Card,
@@ -30,6 +30,7 @@ import {
   TabsList,
   TabsTrigger,
 } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
 import {
   Badge,
   Button,
@@ -52,1310 +53,37 @@ import {
   Clock,
   Zap,
   Target,
-  Shield
+  Shield,
+  ChevronRight
 } from 'lucide-react';
 import { useWeb3 } from '@/hooks/useWeb3';
 import { useBaseAnalytics } from '@/hooks/useBaseAnalytics';
+import { useWatchPortfolios } from '@/hooks/useWatchPortfolios';
+import { useAlerts } from '@/hooks/useAlerts';
+import { matchProtocolRoute, useHashRoute } from '@/hooks/useHashRoute';
 import { formatCurrency, formatPercentage, formatNumber } from '@/utils/formatters';
-import { calculateAPY, calculateRisk, calculateOptimalAllocation } from '@/utils/defi';
-
-// Types
-interface ProtocolData {
-  id: string;
-  name: string;
-  tvl: number;
-  apy: number;
-  riskScore: number;
-  volume24h: number;
-  change24h: number;
-  isActive: boolean;
-  category: 'DEX' | 'Lending' | 'Yield' | 'Derivatives';
-}
-
-interface UserPosition {
-  strategyId: string;
-  strategyName: string;
-  amount: number;
-  currentValue: number;
-  pnl: number;
-  pnlPercentage: number;
-  apy: number;
-  riskLevel: number;
-  entryDate: Date;
-  lastRewardClaim: Date;
-  pendingRewards: number;
-}
-
-interface ArbitrageOpportunity {
-  id: string;
-  tokenA: string;
-  tokenB: string;
-  dexA: string;
-  dexB: string;
-  profitPotential: number;
-  profitPercentage: number;
-  timestamp: Date;
-  isExecuted: boolean;
-  estimatedGas: number;
-}
-
-interface DashboardMetrics {
-  totalTVL: number;
-  totalUsers: number;
-  totalVolume24h: number;
-  totalRewardsDistributed: number;
-  averageAPY: number;
-  activeStrategies: number;
-  arbitrageOpportunities: number;
-  riskScore: number;
-}
-
-const COLORS = {
-  primary: '#3B82F6',
-  secondary: '#10B981',
-  warning: '#F59E0B',
-  danger: '#EF4444',
-  success: '#22C55E',
-  info: '#06B6D4',
-  purple: '#8B5CF6',
-  pink: '#EC4899'
-};
-
-const RISK_COLORS = {
-  1: '#22C55E', // Low risk - Green
-  2: '#22C55E',
-  3: '#84CC16', // Medium-low - Lime
-  4: '#84CC16',
-  5: '#F59E0B', // Medium - Amber
-  6: '#F59E0B',
-  7: '#F97316', // Medium-high - Orange
-  8: '#F97316',
-  9: '#EF4444', // High risk - Red
-  10: '#EF4444'
-};
-
-const DashboardAnalytics: React.FC = () => {
-  const { account, isConnected } = useWeb3();
-  const {
-    protocols,
-    userPositions,
-    arbitrageOpportunities,
-    dashboardMetrics,
-    isLoading,
-    error,
-    refreshData
-  } = useBaseAnalytics();
-
-  const [selectedTimeframe, setSelectedTimeframe] = useState<'24h' | '7d' | '30d' | '90d'>('7d');
-  const [selectedCategory, setSelectedCategory] = useState<'all' | 'DEX' | 'Lending' | 'Yield'>('all');
-  const [autoRefresh, setAutoRefresh] = useState(true);
-
-  // Auto-refresh data every 30 seconds
-  useEffect(() => {
-    if (autoRefresh) {
-      const interval = setInterval(() => {
-        refreshData();
-      }, 30000);
-      return () => clearInterval(interval);
-    }
-  }, [autoRefresh, refreshData]);
-
-  // Filter protocols by category
-  const filteredProtocols = useMemo(() => {
-    if (selectedCategory === 'all') return protocols;
-    return protocols.filter(protocol => protocol.category === selectedCategory);
-  }, [protocols, selectedCategory]);
-
-  // Calculate portfolio metrics
-  const portfolioMetrics = useMemo(() => {
-    if (!userPositions.length) return null;
-
-    const totalValue = userPositions.reduce((sum, pos) => sum + pos.currentValue, 0);
-    const totalPnL = userPositions.reduce((sum, pos) => sum + pos.pnl, 0);
-    const totalPendingRewards = userPositions.reduce((sum, pos) => sum + pos.pendingRewards, 0);
-    const weightedAPY = userPositions.reduce((sum, pos) => {
-      return sum + (pos.apy * pos.currentValue / totalValue);
-    }, 0);
-    const averageRisk = userPositions.reduce((sum, pos) => sum + pos.riskLevel, 0) / userPositions.length;
-
-    return {
-      totalValue,
-      totalPnL,
-      totalPnLPercentage: totalValue > 0 ? (totalPnL / (totalValue - totalPnL)) * 100 : 0,
-      totalPendingRewards,
-      weightedAPY,
-      averageRisk,
-      positionCount: userPositions.length
-    };
-  }, [userPositions]);
-
-  // Prepare chart data
-  const protocolChartData = useMemo(() => {
-    return filteredProtocols.map(protocol => ({
-      name: protocol.name,
-      tvl: protocol.tvl,
-      apy: protocol.apy,
-      volume: protocol.volume24h,
-      risk: protocol.riskScore,
-      change: protocol.change24h
-    }));
-  }, [filteredProtocols]);
-
-  const riskDistributionData = useMemo(() => {
-    const distribution = protocols.reduce((acc, protocol) => {
-      const riskCategory = protocol.riskScore <= 3 ? 'Low' :
-                          protocol.riskScore <= 6 ? 'Medium' : 'High';
-      acc[riskCategory] = (acc[riskCategory] || 0) + protocol.tvl;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return Object.entries(distribution).map(([risk, value]) => ({
-      name: risk,
-      value,
-      color: risk === 'Low' ? COLORS.success :
-             risk === 'Medium' ? COLORS.warning : COLORS.danger
-    }));
-  }, [protocols]);
-
-  const topArbitrageOpportunities = useMemo(() => {
-    return arbitrageOpportunities
-      .filter(opp => !opp.isExecuted)
-      .sort((a, b) => b.profitPotential - a.profitPotential)
-      .slice(0, 5);
-  }, [arbitrageOpportunities]);
-
-  if (!isConnected) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <Card className="w-96">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Shield className="h-5 w-5" />
-              Connect Wallet
-            </CardTitle>
-            <CardDescription>
-              Connect your wallet to access Base DeFi Analytics
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button className="w-full" onClick={() => window.ethereum?.request({ method: 'eth_requestAccounts' })}>
-              Connect Wallet
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading analytics data...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <Alert variant="destructive" className="m-4">
-        <AlertTriangle className="h-4 w-4" />
-        <AlertTitle>Error Loading Data</AlertTitle>
-        <AlertDescription>
-          {error}
-          <Button variant="outline" size="sm" className="ml-2" onClick={refreshData}>
-            Retry
-          </Button>
-        </AlertDescription>
-      </Alert>
-    );
-  }
-
-  return (
-    <div className="p-6 space-y-6">
-      {/* Header */}
-      <div className="flex justify-between items-center">
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">Base DeFi Analytics</h1>
-          <p className="text-gray-600 mt-1">
-            Comprehensive analytics for Base blockchain DeFi protocols
-          </p>
-        </div>
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2">
-            <Clock className="h-4 w-4 text-gray-500" />
-            <span className="text-sm text-gray-500">
-              Last updated: {new Date().toLocaleTimeString()}
-            </span>
-          </div>
-          <Button
-            variant={autoRefresh ? 'default' : 'outline'}
-            size="sm"
-            onClick={() => setAutoRefresh(!autoRefresh)}
-          >
-            <Zap className={`h-4 w-4 mr-2 ${autoRefresh ? 'animate-pulse' : ''}`} />
-            Auto Refresh
-          </Button>
-          <Button variant="outline" size="sm" onClick={refreshData}>
-            Refresh Data
-          </Button>
-        </div>
-      </div>
-
-      {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total TVL</CardTitle>
-            <DollarSign className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(dashboardMetrics.totalTVL)}</div>
-            <p className="text-xs text-muted-foreground">
-              Across {dashboardMetrics.activeStrategies} active strategies
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Users</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatNumber(dashboardMetrics.totalUsers)}</div>
-            <p className="text-xs text-muted-foreground">
-              +12% from last week
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">24h Volume</CardTitle>
-            <Activity className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(dashboardMetrics.totalVolume24h)}</div>
-            <p className="text-xs text-muted-foreground">
-              {dashboardMetrics.arbitrageOpportunities} arbitrage opportunities
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Average APY</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatPercentage(dashboardMetrics.averageAPY)}</div>
-            <p className="text-xs text-muted-foreground">
-              Risk Score: {dashboardMetrics.riskScore}/10
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Portfolio Overview */}
-      {portfolioMetrics && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Target className="h-5 w-5" />
-              Your Portfolio
-            </CardTitle>
-            <CardDescription>
-              Overview of your DeFi positions and performance
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
-              <div>
-                <p className="text-sm text-gray-600">Total Value</p>
-                <p className="text-xl font-bold">{formatCurrency(portfolioMetrics.totalValue)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">P&L</p>
-                <p className={`text-xl font-bold ${portfolioMetrics.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {formatCurrency(portfolioMetrics.totalPnL)}
-                  <span className="text-sm ml-1">
-                    ({formatPercentage(portfolioMetrics.totalPnLPercentage)})
-                  </span>
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Pending Rewards</p>
-                <p className="text-xl font-bold text-blue-600">
-                  {formatCurrency(portfolioMetrics.totalPendingRewards)}
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Weighted APY</p>
-                <p className="text-xl font-bold">{formatPercentage(portfolioMetrics.weightedAPY)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Risk Level</p>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: RISK_COLORS[Math.round(portfolioMetrics.averageRisk)] }}></div>
-                  <p className="text-xl font-bold">{portfolioMetrics.averageRisk.toFixed(1)}/10</p>
-                </div>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Positions</p>
-                <p className="text-xl font-bold">{portfolioMetrics.positionCount}</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Main Analytics Tabs */}
-      <Tabs defaultValue="protocols" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="protocols">Protocols</TabsTrigger>
-          <TabsTrigger value="strategies">Strategies</TabsTrigger>
-          <TabsTrigger value="arbitrage">Arbitrage</TabsTrigger>
-          <TabsTrigger value="analytics">Analytics</TabsTrigger>
-        </TabsList>
-
-        {/* Protocols Tab */}
-        <TabsContent value="protocols" className="space-y-4">
-          <div className="flex justify-between items-center">
-            <div className="flex gap-2">
-              {['all', 'DEX', 'Lending', 'Yield'].map((category) => (
-                <Button
-                  key={category}
-                  variant={selectedCategory === category ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setSelectedCategory(category as any)}
-                >
-                  {category === 'all' ? 'All Protocols' : category}
-                </Button>
-              ))}
-            </div>
-          </div>
-
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* TVL Chart */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Protocol TVL Comparison</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={protocolChartData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="name" />
-                    <YAxis />
-                    <Tooltip formatter={(value) => formatCurrency(value as number)} />
-                    <Bar dataKey="tvl" fill={COLORS.primary} />
-                  </BarChart>
-                </ResponsiveContainer>
-              </CardContent>
-            </Card>
-
-            {/* APY vs Risk Chart */}
-            <Card>
-              <CardHeader>
-                <CardTitle>APY vs Risk Analysis</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={protocolChartData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="name" />
-                    <YAxis yAxisId="left" />
-                    <YAxis yAxisId="right" orientation="right" />
-                    <Tooltip />
-                    <Legend />
-                    <Line yAxisId="left" type="monotone" dataKey="apy" stroke={COLORS.success} name="APY (%)" />
-                    <Line yAxisId="right" type="monotone" dataKey="risk" stroke={COLORS.danger} name="Risk Score" />
-                  </LineChart>
-                </ResponsiveContainer>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Protocol List */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Protocol Details</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {filteredProtocols.map((protocol) => (
-                  <div key={protocol.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div className="flex items-center gap-4">
-                      <div>
-                        <h3 className="font-semibold">{protocol.name}</h3>
-                        <Badge variant="secondary">{protocol.category}</Badge>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-6 text-sm">
-                      <div>
-                        <p className="text-gray-600">TVL</p>
-                        <p className="font-semibold">{formatCurrency(protocol.tvl)}</p>
-                      </div>
-                      <div>
-                        <p className="text-gray-600">APY</p>
-                        <p className="font-semibold text-green-600">{formatPercentage(protocol.apy)}</p>
-                      </div>
-                      <div>
-                        <p className="text-gray-600">Risk</p>
-                        <div className="flex items-center gap-1">
-                          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: RISK_COLORS[protocol.riskScore] }}></div>
-                          <p className="font-semibold">{protocol.riskScore}/10</p>
-                        </div>
-                      </div>
-                      <div>
-                        <p className="text-gray-600">24h Change</p>
-                        <p className={`font-semibold ${protocol.change24h >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                          {protocol.change24h >= 0 ? '+' : ''}{formatPercentage(protocol.change24h)}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {/* Arbitrage Tab */}
-        <TabsContent value="arbitrage" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Zap className="h-5 w-5" />
-                Top Arbitrage Opportunities
-              </CardTitle>
-              <CardDescription>
-                Real-time arbitrage opportunities across Base DEXs
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {topArbitrageOpportunities.map((opportunity) => (
-                  <div key={opportunity.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div>
-                      <h3 className="font-semibold">
-                        {opportunity.tokenA}/{opportunity.tokenB}
-                      </h3>
-                      <p className="text-sm text-gray-600">
-                        {opportunity.dexA} import React, { useState, useEffect, useMemo } from 'react';
-import { LineChart, Line, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Badge, Button, Progress, Alert, AlertDescription, AlertTitle } from '@/components/ui';
-import { TrendingUp, TrendingDown, DollarSign, Users, Activity, PieChart as PieChartIcon, BarChart3, LineChart as LineChartIcon, AlertTriangle, CheckCircle, Clock, Zap, Target, Shield } from 'lucide-react';
-import { useWeb3 } from '@/hooks/useWeb3';
-import { useBaseAnalytics } from '@/hooks/useBaseAnalytics';
-import { formatCurrency, formatPercentage, formatNumber } from '@/utils/formatters';
-import { calculateAPY, calculateRisk, calculateOptimalAllocation } from '@/utils/defi';
-
-/**
- * @title DashboardAnalytics
- * @description Comprehensive analytics dashboard for Base DeFi protocols
- * @author Base DeFi Analytics Team
- */
-
-// Types and Interfaces
-interface ProtocolData {
-  id: string;
-  name: string;
-  tvl: number;
-  apy: number;
-  riskScore: number;
-  volume24h: number;
-  change24h: number;
-  isActive: boolean;
-  category: 'DEX' | 'Lending' | 'Yield' | 'Derivatives';
-}
-
-interface UserPosition {
-  strategyId: string;
-  strategyName: string;
-  amount: number;
-  currentValue: number;
-  pnl: number;
-  pnlPercentage: number;
-  apy: number;
-  riskLevel: number;
-  entryDate: Date;
-  lastRewardClaim: Date;
-  pendingRewards: number;
-}
-
-interface ArbitrageOpportunity {
-  id: string;
-  tokenA: string;
-  tokenB: string;
-  dexA: string;
-  dexB: string;
-  profitPotential: number;
-  profitPercentage: number;
-  timestamp: Date;
-  isExecuted: boolean;
-  estimatedGas: number;
-}
-
-interface DashboardMetrics {
-  totalTVL: number;
-  totalUsers: number;
-  totalVolume24h: number;
-  totalRewardsDistributed: number;
-  averageAPY: number;
-  activeStrategies: number;
-  arbitrageOpportunities: number;
-  riskScore: number;
-}
-
-const COLORS = {
-  primary: '#3B82F6',
-  secondary: '#10B981',
-  warning: '#F59E0B',
-  danger: '#EF4444',
-  success: '#22C55E',
-  info: '#06B6D4',
-  purple: '#8B5CF6',
-  pink: '#EC4899'
-};
-
-const RISK_COLORS = {
-  1: '#22C55E', 2: '#22C55E', 3: '#84CC16', 4: '#84CC16',
-  5: '#F59E0B', 6: '#F59E0B', 7: '#F97316', 8: '#F97316',
-  9: '#EF4444', 10: '#EF4444'
-};
-
-const DashboardAnalytics: React.FC = () => {
-  const { account, isConnected } = useWeb3();
-  const { protocols, userPositions, arbitrageOpportunities, dashboardMetrics, isLoading, error, refreshData } = useBaseAnalytics();
-
-  const [selectedTimeframe, setSelectedTimeframe] = useState<'24h' | '7d' | '30d' | '90d'>('7d');
-  const [selectedCategory, setSelectedCategory] = useState<'all' | 'DEX' | 'Lending' | 'Yield'>('all');
-  const [autoRefresh, setAutoRefresh] = useState(true);
-
-  // Auto-refresh data every 30 seconds
-  useEffect(() => {
-    if (autoRefresh) {
-      const interval = setInterval(() => { refreshData(); }, 30000);
-      return () => clearInterval(interval);
-    }
-  }, [autoRefresh, refreshData]);
-
-  // Filter protocols by category
-  const filteredProtocols = useMemo(() => {
-    if (selectedCategory === 'all') return protocols;
-    return protocols.filter(protocol => protocol.category === selectedCategory);
-  }, [protocols, selectedCategory]);
-
-  // Calculate portfolio metrics
-  const portfolioMetrics = useMemo(() => {
-    if (!userPositions.length) return null;
-    const totalValue = userPositions.reduce((sum, pos) => sum + pos.currentValue, 0);
-    const totalPnL = userPositions.reduce((sum, pos) => sum + pos.pnl, 0);
-    const totalPendingRewards = userPositions.reduce((sum, pos) => sum + pos.pendingRewards, 0);
-    const weightedAPY = userPositions.reduce((sum, pos) => sum + (pos.apy * pos.currentValue / totalValue), 0);
-    const averageRisk = userPositions.reduce((sum, pos) => sum + pos.riskLevel, 0) / userPositions.length;
-
-    return {
-      totalValue, totalPnL,
-      totalPnLPercentage: totalValue > 0 ? (totalPnL / (totalValue - totalPnL)) * 100 : 0,
-      totalPendingRewards, weightedAPY, averageRisk,
-      positionCount: userPositions.length
-    };
-  }, [userPositions]);
-
-  // Prepare chart data
-  const protocolChartData = useMemo(() => {
-    return filteredProtocols.map(protocol => ({
-      name: protocol.name, tvl: protocol.tvl, apy: protocol.apy,
-      volume: protocol.volume24h, risk: protocol.riskScore, change: protocol.change24h
-    }));
-  }, [filteredProtocols]);
-
-  const riskDistributionData = useMemo(() => {
-    const distribution = protocols.reduce((acc, protocol) => {
-      const riskCategory = protocol.riskScore <= 3 ? 'Low' : protocol.riskScore <= 6 ? 'Medium' : 'High';
-      acc[riskCategory] = (acc[riskCategory] || 0) + protocol.tvl;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return Object.entries(distribution).map(([risk, value]) => ({
-      name: risk, value,
-      color: risk === 'Low' ? COLORS.success : risk === 'Medium' ? COLORS.warning : COLORS.danger
-    }));
-  }, [protocols]);
-
-  const topArbitrageOpportunities = useMemo(() => {
-    return arbitrageOpportunities.filter(opp => !opp.isExecuted)
-      .sort((a, b) => b.profitPotential - a.profitPotential).slice(0, 5);
-  }, [arbitrageOpportunities]);
-
-  if (!isConnected) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <Card className="w-96">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Shield className="h-5 w-5" />Connect Wallet
-            </CardTitle>
-            <CardDescription>Connect your wallet to access Base DeFi Analytics</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button className="w-full" onClick={() => window.ethereum?.request({ method: 'eth_requestAccounts' })}>
-              Connect Wallet
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading analytics data...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <Alert variant="destructive" className="m-4">
-        <AlertTriangle className="h-4 w-4" />
-        <AlertTitle>Error Loading Data</AlertTitle>
-        <AlertDescription>
-          {error}
-          <Button variant="outline" size="sm" className="ml-2" onClick={refreshData}>Retry</Button>
-        </AlertDescription>
-      </Alert>
-    );
-  }
-
-  return (
-    <div className="p-6 space-y-6">
-      {/* Header */}
-      <div className="flex justify-between items-center">
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">Base DeFi Analytics</h1>
-          <p className="text-gray-600 mt-1">Comprehensive analytics for Base blockchain DeFi protocols</p>
-        </div>
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2">
-            <Clock className="h-4 w-4 text-gray-500" />
-            <span className="text-sm text-gray-500">Last updated: {new Date().toLocaleTimeString()}</span>
-          </div>
-          <Button variant={autoRefresh ? 'default' : 'outline'} size="sm" onClick={() => setAutoRefresh(!autoRefresh)}>
-            <Zap className={`h-4 w-4 mr-2 ${autoRefresh ? 'animate-pulse' : ''}`} />Auto Refresh
-          </Button>
-          <Button variant="outline" size="sm" onClick={refreshData}>Refresh Data</Button>
-        </div>
-      </div>
-
-      {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total TVL</CardTitle>
-            <DollarSign className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(dashboardMetrics.totalTVL)}</div>
-            <p className="text-xs text-muted-foreground">Across {dashboardMetrics.activeStrategies} active strategies</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Users</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatNumber(dashboardMetrics.totalUsers)}</div>
-            <p className="text-xs text-muted-foreground">+12% from last week</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">24h Volume</CardTitle>
-            <Activity className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(dashboardMetrics.totalVolume24h)}</div>
-            <p className="text-xs text-muted-foreground">{dashboardMetrics.arbitrageOpportunities} arbitrage opportunities</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Average APY</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatPercentage(dashboardMetrics.averageAPY)}</div>
-            <p className="text-xs text-muted-foreground">Risk Score: {dashboardMetrics.riskScore}/10</p>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Portfolio Overview */}
-      {portfolioMetrics && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Target className="h-5 w-5" />Your Portfolio
-            </CardTitle>
-            <CardDescription>Overview of your DeFi positions and performance</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
-              <div>
-                <p className="text-sm text-gray-600">Total Value</p>
-                <p className="text-xl font-bold">{formatCurrency(portfolioMetrics.totalValue)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">P&L</p>
-                <p className={`text-xl font-bold ${portfolioMetrics.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {formatCurrency(portfolioMetrics.totalPnL)}
-                  <span className="text-sm ml-1">({formatPercentage(portfolioMetrics.totalPnLPercentage)})</span>
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Pending Rewards</p>
-                <p className="text-xl font-bold text-blue-600">{formatCurrency(portfolioMetrics.totalPendingRewards)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Weighted APY</p>
-                <p className="text-xl font-bold">{formatPercentage(portfolioMetrics.weightedAPY)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Risk Level</p>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: RISK_COLORS[Math.round(portfolioMetrics.averageRisk)] }}></div>
-                  <p className="text-xl font-bold">{portfolioMetrics.averageRisk.toFixed(1)}/10</p>
-                </div>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Positions</p>
-                <p className="text-xl font-bold">{portfolioMetrics.positionCount}</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Main Analytics Tabs */}
-      <Tabs defaultValue="protocols" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="protocols">Protocols</TabsTrigger>
-          <TabsTrigger value="strategies">Strategies</TabsTrigger>
-          <TabsTrigger value="arbitrage">Arbitrage</TabsTrigger>
-          <TabsTrigger value="analytics">Analytics</TabsTrigger>
-        </TabsList>
-
-        {/* Protocols Tab */}
-        <TabsContent value="protocols" className="space-y-4">
-          <div className="flex justify-between items-center">
-            <div className="flex gap-2">
-              {['all', 'DEX', 'Lending', 'Yield'].map((category) => (
-                <Button key={category} variant={selectedCategory === category ? 'default' : 'outline'} size="sm"
-                  onClick={() => setSelectedCategory(category as any)}>
-                  {category === 'all' ? 'All Protocols' : category}
-                </Button>
-              ))}
-            </div>
-          </div>
-
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader><CardTitle>Protocol TVL Comparison</CardTitle></CardHeader>
-              <CardContent>
-                <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={protocolChartData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="name" />
-                    <YAxis />
-                    <Tooltip formatter={(value) => formatCurrency(value as number)} />
-                    <Bar dataKey="tvl" fill={COLORS.primary} />
-                  </BarChart>
-                </ResponsiveContainer>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader><CardTitle>APY vs Risk Analysis</CardTitle></CardHeader>
-              <CardContent>
-                <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={protocolChartData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="name" />
-                    <YAxis yAxisId="left" />
-                    <YAxis yAxisId="right" orientation="right" />
-                    <Tooltip />
-                    <Legend />
-                    <Line yAxisId="left" type="monotone" dataKey="apy" stroke={COLORS.success} name="APY (%)" />
-                    <Line yAxisId="right" type="monotone" dataKey="risk" stroke={COLORS.danger} name="Risk Score" />
-                  </LineChart>
-                </ResponsiveContainer>
-              </CardContent>
-            </Card>
-          </div>
-
-          <Card>
-            <CardHeader><CardTitle>Protocol Details</CardTitle></CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {filteredProtocols.map((protocol) => (
-                  <div key={protocol.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div className="flex items-center gap-4">
-                      <div>
-                        <h3 className="font-semibold">{protocol.name}</h3>
-                        <Badge variant="secondary">{protocol.category}</Badge>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-6 text-sm">
-                      <div>
-                        <p className="text-gray-600">TVL</p>
-                        <p className="font-semibold">{formatCurrency(protocol.tvl)}</p>
-                      </div>
-                      <div>
-                        <p className="text-gray-600">APY</p>
-                        <p className="font-semibold text-green-600">{formatPercentage(protocol.apy)}</p>
-                      </div>
-                      <div>
-                        <p className="text-gray-600">Risk</p>
-                        <div className="flex items-center gap-1">
-                          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: RISK_COLORS[protocol.riskScore] }}></div>
-                          <p className="font-semibold">{protocol.riskScore}/10</p>
-                        </div>
-                      </div>
-                      <div>
-                        <p className="text-gray-600">24h Change</p>
-                        <p className={`font-semibold ${protocol.change24h >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                          {protocol.change24h >= 0 ? '+' : ''}{formatPercentage(protocol.change24h)}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {/* Arbitrage Tab */}
-        <TabsContent value="arbitrage" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Zap className="h-5 w-5" />Top Arbitrage Opportunities
-              </CardTitle>
-              <CardDescription>Real-time arbitrage opportunities across Base DEXs</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {topArbitrageOpportunities.map((opportunity) => (
-                  <div key={opportunity.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div>
-                      <h3 className="font-semibold">{opportunity.tokenA}/{opportunity.tokenB}</h3>
-                      <p className="text-sm text-gray-600">{opportunity.dexA} import React, { useState, useEffect, useMemo } from 'react';
-import { LineChart, Line, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Badge, Button, Progress, Alert, AlertDescription, AlertTitle } from '@/components/ui';
-import { TrendingUp, TrendingDown, DollarSign, Users, Activity, PieChart as PieChartIcon, BarChart3, LineChart as LineChartIcon, AlertTriangle, CheckCircle, Clock, Zap, Target, Shield } from 'lucide-react';
-import { useWeb3 } from '@/hooks/useWeb3';
-import { useBaseAnalytics } from '@/hooks/useBaseAnalytics';
-import { formatCurrency, formatPercentage, formatNumber } from '@/utils/formatters';
-import { calculateAPY, calculateRisk, calculateOptimalAllocation } from '@/utils/defi';
-
-/**
- * @title DashboardAnalytics
- * @description Comprehensive analytics dashboard for Base DeFi protocols
- * @author Base DeFi Analytics Team
- */
-
-// Types and Interfaces
-interface ProtocolData {
-  id: string;
-  name: string;
-  tvl: number;
-  apy: number;
-  riskScore: number;
-  volume24h: number;
-  change24h: number;
-  isActive: boolean;
-  category: 'DEX' | 'Lending' | 'Yield' | 'Derivatives';
-}
-
-interface UserPosition {
-  strategyId: string;
-  strategyName: string;
-  amount: number;
-  currentValue: number;
-  pnl: number;
-  pnlPercentage: number;
-  apy: number;
-  riskLevel: number;
-  entryDate: Date;
-  lastRewardClaim: Date;
-  pendingRewards: number;
-}
-
-interface ArbitrageOpportunity {
-  id: string;
-  tokenA: string;
-  tokenB: string;
-  dexA: string;
-  dexB: string;
-  profitPotential: number;
-  profitPercentage: number;
-  timestamp: Date;
-  isExecuted: boolean;
-  estimatedGas: number;
-}
-
-interface DashboardMetrics {
-  totalTVL: number;
-  totalUsers: number;
-  totalVolume24h: number;
-  totalRewardsDistributed: number;
-  averageAPY: number;
-  activeStrategies: number;
-  arbitrageOpportunities: number;
-  riskScore: number;
-}
-
-const COLORS = {
-  primary: '#3B82F6',
-  secondary: '#10B981',
-  warning: '#F59E0B',
-  danger: '#EF4444',
-  success: '#22C55E',
-  info: '#06B6D4',
-  purple: '#8B5CF6',
-  pink: '#EC4899'
-};
-
-const RISK_COLORS = {
-  1: '#22C55E', 2: '#22C55E', 3: '#84CC16', 4: '#84CC16',
-  5: '#F59E0B', 6: '#F59E0B', 7: '#F97316', 8: '#F97316',
-  9: '#EF4444', 10: '#EF4444'
-};
-
-const DashboardAnalytics: React.FC = () => {
-  const { account, isConnected } = useWeb3();
-  const { protocols, userPositions, arbitrageOpportunities, dashboardMetrics, isLoading, error, refreshData } = useBaseAnalytics();
-
-  const [selectedTimeframe, setSelectedTimeframe] = useState<'24h' | '7d' | '30d' | '90d'>('7d');
-  const [selectedCategory, setSelectedCategory] = useState<'all' | 'DEX' | 'Lending' | 'Yield'>('all');
-  const [autoRefresh, setAutoRefresh] = useState(true);
-
-  // Auto-refresh data every 30 seconds
-  useEffect(() => {
-    if (autoRefresh) {
-      const interval = setInterval(() => { refreshData(); }, 30000);
-      return () => clearInterval(interval);
-    }
-  }, [autoRefresh, refreshData]);
-
-  // Filter protocols by category
-  const filteredProtocols = useMemo(() => {
-    if (selectedCategory === 'all') return protocols;
-    return protocols.filter(protocol => protocol.category === selectedCategory);
-  }, [protocols, selectedCategory]);
-
-  // Calculate portfolio metrics
-  const portfolioMetrics = useMemo(() => {
-    if (!userPositions.length) return null;
-    const totalValue = userPositions.reduce((sum, pos) => sum + pos.currentValue, 0);
-    const totalPnL = userPositions.reduce((sum, pos) => sum + pos.pnl, 0);
-    const totalPendingRewards = userPositions.reduce((sum, pos) => sum + pos.pendingRewards, 0);
-    const weightedAPY = userPositions.reduce((sum, pos) => sum + (pos.apy * pos.currentValue / totalValue), 0);
-    const averageRisk = userPositions.reduce((sum, pos) => sum + pos.riskLevel, 0) / userPositions.length;
-
-    return {
-      totalValue, totalPnL,
-      totalPnLPercentage: totalValue > 0 ? (totalPnL / (totalValue - totalPnL)) * 100 : 0,
-      totalPendingRewards, weightedAPY, averageRisk,
-      positionCount: userPositions.length
-    };
-  }, [userPositions]);
-
-  // Prepare chart data
-  const protocolChartData = useMemo(() => {
-    return filteredProtocols.map(protocol => ({
-      name: protocol.name, tvl: protocol.tvl, apy: protocol.apy,
-      volume: protocol.volume24h, risk: protocol.riskScore, change: protocol.change24h
-    }));
-  }, [filteredProtocols]);
-
-  const riskDistributionData = useMemo(() => {
-    const distribution = protocols.reduce((acc, protocol) => {
-      const riskCategory = protocol.riskScore <= 3 ? 'Low' : protocol.riskScore <= 6 ? 'Medium' : 'High';
-      acc[riskCategory] = (acc[riskCategory] || 0) + protocol.tvl;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return Object.entries(distribution).map(([risk, value]) => ({
-      name: risk, value,
-      color: risk === 'Low' ? COLORS.success : risk === 'Medium' ? COLORS.warning : COLORS.danger
-    }));
-  }, [protocols]);
-
-  const topArbitrageOpportunities = useMemo(() => {
-    return arbitrageOpportunities.filter(opp => !opp.isExecuted)
-      .sort((a, b) => b.profitPotential - a.profitPotential).slice(0, 5);
-  }, [arbitrageOpportunities]);
-
-  if (!isConnected) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <Card className="w-96">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Shield className="h-5 w-5" />Connect Wallet
-            </CardTitle>
-            <CardDescription>Connect your wallet to access Base DeFi Analytics</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button className="w-full" onClick={() => window.ethereum?.request({ method: 'eth_requestAccounts' })}>
-              Connect Wallet
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading analytics data...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <Alert variant="destructive" className="m-4">
-        <AlertTriangle className="h-4 w-4" />
-        <AlertTitle>Error Loading Data</AlertTitle>
-        <AlertDescription>
-          {error}
-          <Button variant="outline" size="sm" className="ml-2" onClick={refreshData}>Retry</Button>
-        </AlertDescription>
-      </Alert>
-    );
-  }
-
-  return (
-    <div className="p-6 space-y-6">
-      {/* Header */}
-      <div className="flex justify-between items-center">
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">Base DeFi Analytics</h1>
-          <p className="text-gray-600 mt-1">Comprehensive analytics for Base blockchain DeFi protocols</p>
-        </div>
-        <div className="flex items-center gap-4">
-          <div className="flex items-center gap-2">
-            <Clock className="h-4 w-4 text-gray-500" />
-            <span className="text-sm text-gray-500">Last updated: {new Date().toLocaleTimeString()}</span>
-          </div>
-          <Button variant={autoRefresh ? 'default' : 'outline'} size="sm" onClick={() => setAutoRefresh(!autoRefresh)}>
-            <Zap className={`h-4 w-4 mr-2 ${autoRefresh ? 'animate-pulse' : ''}`} />Auto Refresh
-          </Button>
-          <Button variant="outline" size="sm" onClick={refreshData}>Refresh Data</Button>
-        </div>
-      </div>
-
-      {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total TVL</CardTitle>
-            <DollarSign className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(dashboardMetrics.totalTVL)}</div>
-            <p className="text-xs text-muted-foreground">Across {dashboardMetrics.activeStrategies} active strategies</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Users</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatNumber(dashboardMetrics.totalUsers)}</div>
-            <p className="text-xs text-muted-foreground">+12% from last week</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">24h Volume</CardTitle>
-            <Activity className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(dashboardMetrics.totalVolume24h)}</div>
-            <p className="text-xs text-muted-foreground">{dashboardMetrics.arbitrageOpportunities} arbitrage opportunities</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Average APY</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{formatPercentage(dashboardMetrics.averageAPY)}</div>
-            <p className="text-xs text-muted-foreground">Risk Score: {dashboardMetrics.riskScore}/10</p>
-          </CardContent>
-        </Card>
-      </div>
-
-      {/* Portfolio Overview */}
-      {portfolioMetrics && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Target className="h-5 w-5" />Your Portfolio
-            </CardTitle>
-            <CardDescription>Overview of your DeFi positions and performance</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
-              <div>
-                <p className="text-sm text-gray-600">Total Value</p>
-                <p className="text-xl font-bold">{formatCurrency(portfolioMetrics.totalValue)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">P&L</p>
-                <p className={`text-xl font-bold ${portfolioMetrics.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {formatCurrency(portfolioMetrics.totalPnL)}
-                  <span className="text-sm ml-1">({formatPercentage(portfolioMetrics.totalPnLPercentage)})</span>
-                </p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Pending Rewards</p>
-                <p className="text-xl font-bold text-blue-600">{formatCurrency(portfolioMetrics.totalPendingRewards)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Weighted APY</p>
-                <p className="text-xl font-bold">{formatPercentage(portfolioMetrics.weightedAPY)}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Risk Level</p>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: RISK_COLORS[Math.round(portfolioMetrics.averageRisk)] }}></div>
-                  <p className="text-xl font-bold">{portfolioMetrics.averageRisk.toFixed(1)}/10</p>
-                </div>
-              </div>
-              <div>
-                <p className="text-sm text-gray-600">Positions</p>
-                <p className="text-xl font-bold">{portfolioMetrics.positionCount}</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Main Analytics Tabs */}
-      <Tabs defaultValue="protocols" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="protocols">Protocols</TabsTrigger>
-          <TabsTrigger value="strategies">Strategies</TabsTrigger>
-          <TabsTrigger value="arbitrage">Arbitrage</TabsTrigger>
-          <TabsTrigger value="analytics">Analytics</TabsTrigger>
-        </TabsList>
-
-        {/* Protocols Tab */}
-        <TabsContent value="protocols" className="space-y-4">
-          <div className="flex justify-between items-center">
-            <div className="flex gap-2">
-              {['all', 'DEX', 'Lending', 'Yield'].map((category) => (
-                <Button key={category} variant={selectedCategory === category ? 'default' : 'outline'} size="sm"
-                  onClick={() => setSelectedCategory(category as any)}>
-                  {category === 'all' ? 'All Protocols' : category}
-                </Button>
-              ))}
-            </div>
-          </div>
-
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader><CardTitle>Protocol TVL Comparison</CardTitle></CardHeader>
-              <CardContent>
-                <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={protocolChartData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="name" />
-                    <YAxis />
-                    <Tooltip formatter={(value) => formatCurrency(value as number)} />
-                    <Bar dataKey="tvl" fill={COLORS.primary} />
-                  </BarChart>
-                </ResponsiveContainer>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader><CardTitle>APY vs Risk Analysis</CardTitle></CardHeader>
-              <CardContent>
-                <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={protocolChartData}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="name" />
-                    <YAxis yAxisId="left" />
-                    <YAxis yAxisId="right" orientation="right" />
-                    <Tooltip />
-                    <Legend />
-                    <Line yAxisId="left" type="monotone" dataKey="apy" stroke={COLORS.success} name="APY (%)" />
-                    <Line yAxisId="right" type="monotone" dataKey="risk" stroke={COLORS.danger} name="Risk Score" />
-                  </LineChart>
-                </ResponsiveContainer>
-              </CardContent>
-            </Card>
-          </div>
-        </TabsContent>
-
-        {/* Arbitrage Tab */}
-        <TabsContent value="arbitrage" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Zap className="h-5 w-5" />Top Arbitrage Opportunities
-              </CardTitle>
-              <CardDescription>Real-time arbitrage opportunities across Base DEXs</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {topArbitrageOpportunities.map((opportunity) => (
-                  <div key={opportunity.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div>
-                      <h3 className="font-semibold">{opportunity.tokenA}/{opportunity.tokenB}</h3>
-                      <p className="text-sm text-gray-600">{opportunity.dexA} import React, { useState, useEffect, useMemo } from 'react';
-import { LineChart, Line, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Badge, Button, Progress, Alert, AlertDescription, AlertTitle } from '@/components/ui';
-import { TrendingUp, TrendingDown, DollarSign, Users, Activity, PieChart as PieChartIcon, BarChart3, LineChart as LineChartIcon, AlertTriangle, CheckCircle, Clock, Zap, Target, Shield } from 'lucide-react';
-import { useWeb3 } from '@/hooks/useWeb3';
-import { useBaseAnalytics } from '@/hooks/useBaseAnalytics';
-import { formatCurrency, formatPercentage, formatNumber } from '@/utils/formatters';
-import { calculateAPY, calculateRisk, calculateOptimalAllocation } from '@/utils/defi';
+import { TIMEFRAMES, buildTimeSeries, totalTimeSeries, formatTimestamp } from '@/utils/timeseries';
+import { COLORS, getRiskColor, getRiskLabel } from '@/utils/colors';
+import { summarizePositions } from '@/utils/portfolio';
+import { calculateHealthFactor, getHealthStatus, groupLendingAccounts } from '@/utils/lending';
+import { calculateAPY } from '@/utils/defi';
+import type { ProtocolCategory, Timeframe } from '@/types/analytics';
+import StrategiesTab from '@/components/StrategiesTab';
+import ArbitrageExecuteDialog from '@/components/ArbitrageExecuteDialog';
+import ArbitrageRoute from '@/components/ArbitrageRoute';
+import ArbitrageSizingChart from '@/components/ArbitrageSizingChart';
+import AllocationPlanner from '@/components/AllocationPlanner';
+import BacktestPanel from '@/components/BacktestPanel';
+import DerivativesPanel from '@/components/DerivativesPanel';
+import RiskBreakdownTooltip from '@/components/RiskBreakdownTooltip';
+import PortfolioSelector, { CONNECTED_WALLET } from '@/components/PortfolioSelector';
+import ProtocolPoolsPage from '@/components/ProtocolPoolsPage';
+import WalletBreakdown from '@/components/WalletBreakdown';
+import LendingHealthPanel from '@/components/LendingHealthPanel';
+import HealthFactorBadge from '@/components/HealthFactorBadge';
+import AlertRulesPanel from '@/components/AlertRulesPanel';
+import AlertToasts from '@/components/AlertToasts';
+import VoteEscrowPanel from '@/components/VoteEscrowPanel';
 
 /**
  * @title DashboardAnalytics
@@ -1363,89 +91,49 @@ import { calculateAPY, calculateRisk, calculateOptimalAllocation } from '@/utils
  * @author Base DeFi Analytics Team
  */
 
-// Types and Interfaces
-interface ProtocolData {
-  id: string;
-  name: string;
-  tvl: number;
-  apy: number;
-  riskScore: number;
-  volume24h: number;
-  change24h: number;
-  isActive: boolean;
-  category: 'DEX' | 'Lending' | 'Yield' | 'Derivatives';
-}
-
-interface UserPosition {
-  strategyId: string;
-  strategyName: string;
-  amount: number;
-  currentValue: number;
-  pnl: number;
-  pnlPercentage: number;
-  apy: number;
-  riskLevel: number;
-  entryDate: Date;
-  lastRewardClaim: Date;
-  pendingRewards: number;
-}
+// One line/area color per protocol in the historical charts
+const SERIES_COLORS = Object.values(COLORS);
 
-interface ArbitrageOpportunity {
-  id: string;
-  tokenA: string;
-  tokenB: string;
-  dexA: string;
-  dexB: string;
-  profitPotential: number;
-  profitPercentage: number;
-  timestamp: Date;
-  isExecuted: boolean;
-  estimatedGas: number;
-}
+const CATEGORY_FILTERS: ('all' | ProtocolCategory)[] = ['all', 'DEX', 'Lending', 'Yield', 'Derivatives'];
 
-interface DashboardMetrics {
-  totalTVL: number;
-  totalUsers: number;
-  totalVolume24h: number;
-  totalRewardsDistributed: number;
-  averageAPY: number;
-  activeStrategies: number;
-  arbitrageOpportunities: number;
-  riskScore: number;
-}
+const DashboardAnalytics: React.FC = () => {
+  const { account, isConnected } = useWeb3();
+  const [selectedTimeframe, setSelectedTimeframe] = useState<Timeframe>('7d');
+  const watchPortfolios = useWatchPortfolios();
+  const alerts = useAlerts();
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<string>(CONNECTED_WALLET);
+  const selectedPortfolio = watchPortfolios.portfolios.find(portfolio => portfolio.id === selectedPortfolioId) || null;
 
-const COLORS = {
-  primary: '#3B82F6',
-  secondary: '#10B981',
-  warning: '#F59E0B',
-  danger: '#EF4444',
-  success: '#22C55E',
-  info: '#06B6D4',
-  purple: '#8B5CF6',
-  pink: '#EC4899'
-};
+  // A watch-only portfolio replaces the connected wallet as the source of positions
+  const portfolioAddresses = useMemo(() => {
+    return selectedPortfolio?.wallets.map(wallet => wallet.address);
+  }, [selectedPortfolio]);
 
-const RISK_COLORS = {
-  1: '#22C55E', 2: '#22C55E', 3: '#84CC16', 4: '#84CC16',
-  5: '#F59E0B', 6: '#F59E0B', 7: '#F97316', 8: '#F97316',
-  9: '#EF4444', 10: '#EF4444'
-};
+  const {
+    protocols, protocolHistory, userPositions, arbitrageOpportunities, dashboardMetrics, prices,
+    isLoading, isStreaming, error, refreshData, markOpportunityExecuted
+  } = useBaseAnalytics({ timeframe: selectedTimeframe, addresses: portfolioAddresses });
 
-const DashboardAnalytics: React.FC = () => {
-  const { account, isConnected } = useWeb3();
-  const { protocols, userPositions, arbitrageOpportunities, dashboardMetrics, isLoading, error, refreshData } = useBaseAnalytics();
+  // #/protocols/:id opens that protocol's pool drill-down in place of the tabs
+  const { path, navigate } = useHashRoute();
+  const routedProtocolId = matchProtocolRoute(path);
 
-  const [selectedTimeframe, setSelectedTimeframe] = useState<'24h' | '7d' | '30d' | '90d'>('7d');
-  const [selectedCategory, setSelectedCategory] = useState<'all' | 'DEX' | 'Lending' | 'Yield'>('all');
+  const [selectedCategory, setSelectedCategory] = useState<'all' | ProtocolCategory>('all');
   const [autoRefresh, setAutoRefresh] = useState(true);
-
-  // Auto-refresh data every 30 seconds
+  const [executingOpportunityId, setExecutingOpportunityId] = useState<string | null>(null);
+  // USD; opportunities the server could not price are compared on gross profit
+  const [minNetProfit, setMinNetProfit] = useState('0');
+  const [sizingOpportunityId, setSizingOpportunityId] = useState<string | null>(null);
+  // Percent move applied to incentive token prices in the APY breakdown
+  const [rewardPriceChange, setRewardPriceChange] = useState('0');
+
+  // Auto-refresh data every 30 seconds while the live streams are down
   useEffect(() => {
-    if (autoRefresh) {
+    if (autoRefresh && !isStreaming) {
       const interval = setInterval(() => { refreshData(); }, 30000);
       return () => clearInterval(interval);
     }
-  }, [autoRefresh, refreshData]);
+  }, [autoRefresh, isStreaming, refreshData]);
 
   // Filter protocols by category
   const filteredProtocols = useMemo(() => {
@@ -1453,34 +141,59 @@ const DashboardAnalytics: React.FC = () => {
     return protocols.filter(protocol => protocol.category === selectedCategory);
   }, [protocols, selectedCategory]);
 
-  // Calculate portfolio metrics
-  const portfolioMetrics = useMemo(() => {
-    if (!userPositions.length) return null;
-    const totalValue = userPositions.reduce((sum, pos) => sum + pos.currentValue, 0);
-    const totalPnL = userPositions.reduce((sum, pos) => sum + pos.pnl, 0);
-    const totalPendingRewards = userPositions.reduce((sum, pos) => sum + pos.pendingRewards, 0);
-    const weightedAPY = userPositions.reduce((sum, pos) => sum + (pos.apy * pos.currentValue / totalValue), 0);
-    const averageRisk = userPositions.reduce((sum, pos) => sum + pos.riskLevel, 0) / userPositions.length;
+  // Calculate portfolio metrics, aggregated across every wallet of a watch-only portfolio
+  const portfolioMetrics = useMemo(() => summarizePositions(userPositions, prices), [userPositions, prices]);
 
-    return {
-      totalValue, totalPnL,
-      totalPnLPercentage: totalValue > 0 ? (totalPnL / (totalValue - totalPnL)) * 100 : 0,
-      totalPendingRewards, weightedAPY, averageRisk,
-      positionCount: userPositions.length
-    };
-  }, [userPositions]);
+  // Lending accounts close enough to liquidation to flag in the portfolio card
+  const lendingWarnings = useMemo(() => {
+    return groupLendingAccounts(userPositions)
+      .map(account => ({ account, healthFactor: calculateHealthFactor(account, prices) }))
+      .filter(({ healthFactor }) => getHealthStatus(healthFactor) !== 'safe');
+  }, [userPositions, prices]);
 
   // Prepare chart data
   const protocolChartData = useMemo(() => {
-    return filteredProtocols.map(protocol => ({
-      name: protocol.name, tvl: protocol.tvl, apy: protocol.apy,
-      volume: protocol.volume24h, risk: protocol.riskScore, change: protocol.change24h
-    }));
-  }, [filteredProtocols]);
+    const change = Math.max(-100, Number(rewardPriceChange) || 0);
+    return filteredProtocols.map(protocol => {
+      const breakdown = calculateAPY(protocol, prices, { rewardPriceChange: change });
+      return {
+        name: protocol.name, tvl: protocol.tvl, apy: breakdown.apy,
+        volume: protocol.volume24h, risk: protocol.riskScore, change: protocol.change24h,
+        tradingFees: breakdown.tradingFeeApr, lendingInterest: breakdown.lendingInterestApr,
+        rewards: breakdown.rewardApr, compounding: breakdown.compoundingUplift,
+        assumptions: breakdown.assumptions
+      };
+    });
+  }, [filteredProtocols, prices, rewardPriceChange]);
+
+  // Reward tokens and their valuation, listed under the APY breakdown
+  const rewardPriceNotes = useMemo(() => {
+    const rewardPrices: Record<string, number> = {};
+    protocolChartData.forEach(row => Object.assign(rewardPrices, row.assumptions.rewardPrices));
+    return Object.entries(rewardPrices).map(([token, price]) => `${token} at ${formatCurrency(price)}`).join(', ');
+  }, [protocolChartData]);
+
+  const headlineOnlyProtocols = protocolChartData.filter(row => row.assumptions.source === 'headline').map(row => row.name);
+
+  // Historical series for the selected timeframe, one column per filtered protocol
+  const filteredProtocolIds = useMemo(() => filteredProtocols.map(protocol => protocol.id), [filteredProtocols]);
+
+  const tvlHistoryData = useMemo(() => {
+    return buildTimeSeries(protocolHistory, filteredProtocolIds, 'tvl', selectedTimeframe);
+  }, [protocolHistory, filteredProtocolIds, selectedTimeframe]);
+
+  const apyHistoryData = useMemo(() => {
+    return buildTimeSeries(protocolHistory, filteredProtocolIds, 'apy', selectedTimeframe);
+  }, [protocolHistory, filteredProtocolIds, selectedTimeframe]);
+
+  const volumeHistoryData = useMemo(() => {
+    const protocolIds = protocols.map(protocol => protocol.id);
+    return totalTimeSeries(buildTimeSeries(protocolHistory, protocolIds, 'volume24h', selectedTimeframe), protocolIds);
+  }, [protocolHistory, protocols, selectedTimeframe]);
 
   const riskDistributionData = useMemo(() => {
     const distribution = protocols.reduce((acc, protocol) => {
-      const riskCategory = protocol.riskScore <= 3 ? 'Low' : protocol.riskScore <= 6 ? 'Medium' : 'High';
+      const riskCategory = getRiskLabel(protocol.riskScore);
       acc[riskCategory] = (acc[riskCategory] || 0) + protocol.tvl;
       return acc;
     }, {} as Record<string, number>);
@@ -1492,29 +205,20 @@ const DashboardAnalytics: React.FC = () => {
   }, [protocols]);
 
   const topArbitrageOpportunities = useMemo(() => {
-    return arbitrageOpportunities.filter(opp => !opp.isExecuted)
-      .sort((a, b) => b.profitPotential - a.profitPotential).slice(0, 5);
-  }, [arbitrageOpportunities]);
+    const minimum = Number(minNetProfit) || 0;
+    return arbitrageOpportunities
+      .filter(opp => !opp.isExecuted && (opp.netProfit ?? opp.profitPotential) >= minimum)
+      .sort((a, b) => (b.netProfit ?? b.profitPotential) - (a.netProfit ?? a.profitPotential)).slice(0, 5);
+  }, [arbitrageOpportunities, minNetProfit]);
 
-  if (!isConnected) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <Card className="w-96">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Shield className="h-5 w-5" />Connect Wallet
-            </CardTitle>
-            <CardDescription>Connect your wallet to access Base DeFi Analytics</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button className="w-full" onClick={() => window.ethereum?.request({ method: 'eth_requestAccounts' })}>
-              Connect Wallet
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
+  // The trade size chart follows the clicked opportunity, or the best one
+  const sizingOpportunity = useMemo(() => {
+    return topArbitrageOpportunities.find(opp => opp.id === sizingOpportunityId) || topArbitrageOpportunities[0] || null;
+  }, [topArbitrageOpportunities, sizingOpportunityId]);
+
+  const executingOpportunity = useMemo(() => {
+    return arbitrageOpportunities.find(opp => opp.id === executingOpportunityId) || null;
+  }, [arbitrageOpportunities, executingOpportunityId]);
 
   if (isLoading) {
     return (
@@ -1549,9 +253,25 @@ const DashboardAnalytics: React.FC = () => {
           <p className="text-gray-600 mt-1">Comprehensive analytics for Base blockchain DeFi protocols</p>
         </div>
         <div className="flex items-center gap-4">
+          <PortfolioSelector watchPortfolios={watchPortfolios} selectedId={selectedPortfolioId}
+            onSelect={setSelectedPortfolioId} isConnected={isConnected} />
+          {!isConnected && (
+            <Button size="sm" onClick={() => window.ethereum?.request({ method: 'eth_requestAccounts' })}>
+              <Shield className="h-4 w-4 mr-2" />Connect Wallet
+            </Button>
+          )}
+          <div className="flex gap-1">
+            {TIMEFRAMES.map((timeframe) => (
+              <Button key={timeframe} variant={selectedTimeframe === timeframe ? 'default' : 'outline'} size="sm"
+                onClick={() => setSelectedTimeframe(timeframe)}>
+                {timeframe}
+              </Button>
+            ))}
+          </div>
           <div className="flex items-center gap-2">
             <Clock className="h-4 w-4 text-gray-500" />
             <span className="text-sm text-gray-500">Last updated: {new Date().toLocaleTimeString()}</span>
+            {isStreaming && <Badge variant="secondary">Live</Badge>}
           </div>
           <Button variant={autoRefresh ? 'default' : 'outline'} size="sm" onClick={() => setAutoRefresh(!autoRefresh)}>
             <Zap className={`h-4 w-4 mr-2 ${autoRefresh ? 'animate-pulse' : ''}`} />Auto Refresh
@@ -1612,11 +332,24 @@ const DashboardAnalytics: React.FC = () => {
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <Target className="h-5 w-5" />Your Portfolio
+              <Target className="h-5 w-5" />{selectedPortfolio ? selectedPortfolio.name : 'Your Portfolio'}
             </CardTitle>
-            <CardDescription>Overview of your DeFi positions and performance</CardDescription>
+            <CardDescription>
+              {selectedPortfolio
+                ? `Combined positions of ${selectedPortfolio.wallets.length} watched wallets`
+                : 'Overview of your DeFi positions and performance'}
+            </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-6">
+            {lendingWarnings.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                <AlertTriangle className="h-4 w-4 text-orange-600" />
+                {lendingWarnings.map(({ account, healthFactor }) => (
+                  <HealthFactorBadge key={account.id} healthFactor={healthFactor}
+                    label={protocols.find(protocol => protocol.id === account.protocolId)?.name ?? account.accountId} />
+                ))}
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <div>
                 <p className="text-sm text-gray-600">Total Value</p>
@@ -1640,7 +373,7 @@ const DashboardAnalytics: React.FC = () => {
               <div>
                 <p className="text-sm text-gray-600">Risk Level</p>
                 <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: RISK_COLORS[Math.round(portfolioMetrics.averageRisk)] }}></div>
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: getRiskColor(portfolioMetrics.averageRisk) }}></div>
                   <p className="text-xl font-bold">{portfolioMetrics.averageRisk.toFixed(1)}/10</p>
                 </div>
               </div>
@@ -1649,26 +382,37 @@ const DashboardAnalytics: React.FC = () => {
                 <p className="text-xl font-bold">{portfolioMetrics.positionCount}</p>
               </div>
             </div>
+            {selectedPortfolio && (
+              <WalletBreakdown wallets={selectedPortfolio.wallets} positions={userPositions} prices={prices} />
+            )}
           </CardContent>
         </Card>
       )}
 
-      {/* Main Analytics Tabs */}
-      <Tabs defaultValue="protocols" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+      {routedProtocolId && (
+        <ProtocolPoolsPage protocolId={routedProtocolId} onBack={() => navigate('/')}
+          protocol={protocols.find(protocol => protocol.id === routedProtocolId)} />
+      )}
+
+      {/* Main Analytics Tabs, kept mounted under a drill-down page so the selected tab survives */}
+      <Tabs defaultValue="protocols" className={routedProtocolId ? 'hidden' : 'space-y-4'}>
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="protocols">Protocols</TabsTrigger>
           <TabsTrigger value="strategies">Strategies</TabsTrigger>
+          <TabsTrigger value="planner">Planner</TabsTrigger>
           <TabsTrigger value="arbitrage">Arbitrage</TabsTrigger>
+          <TabsTrigger value="voting">veAERO</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          <TabsTrigger value="alerts">Alerts</TabsTrigger>
         </TabsList>
 
         {/* Protocols Tab */}
         <TabsContent value="protocols" className="space-y-4">
           <div className="flex justify-between items-center">
             <div className="flex gap-2">
-              {['all', 'DEX', 'Lending', 'Yield'].map((category) => (
+              {CATEGORY_FILTERS.map((category) => (
                 <Button key={category} variant={selectedCategory === category ? 'default' : 'outline'} size="sm"
-                  onClick={() => setSelectedCategory(category as any)}>
+                  onClick={() => setSelectedCategory(category)}>
                   {category === 'all' ? 'All Protocols' : category}
                 </Button>
               ))}
@@ -1677,38 +421,157 @@ const DashboardAnalytics: React.FC = () => {
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
-              <CardHeader><CardTitle>Protocol TVL Comparison</CardTitle></CardHeader>
+              <CardHeader>
+                <CardTitle>Protocol TVL Over Time</CardTitle>
+                <CardDescription>Stacked TVL per protocol over the last {selectedTimeframe}</CardDescription>
+              </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={protocolChartData}>
+                  <AreaChart data={tvlHistoryData}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="name" />
+                    <XAxis dataKey="timestamp" tickFormatter={(value) => formatTimestamp(value, selectedTimeframe)} />
+                    <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                    <Tooltip labelFormatter={(value) => formatTimestamp(value as number, selectedTimeframe)}
+                      formatter={(value) => formatCurrency(value as number)} />
+                    <Legend />
+                    {filteredProtocols.map((protocol, index) => (
+                      <Area key={protocol.id} type="monotone" dataKey={protocol.id} name={protocol.name} stackId="tvl"
+                        stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                        fill={SERIES_COLORS[index % SERIES_COLORS.length]} fillOpacity={0.3} />
+                    ))}
+                  </AreaChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>APY Trends</CardTitle>
+                <CardDescription>Protocol APY over the last {selectedTimeframe}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={apyHistoryData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="timestamp" tickFormatter={(value) => formatTimestamp(value, selectedTimeframe)} />
                     <YAxis />
-                    <Tooltip formatter={(value) => formatCurrency(value as number)} />
-                    <Bar dataKey="tvl" fill={COLORS.primary} />
-                  </BarChart>
+                    <Tooltip labelFormatter={(value) => formatTimestamp(value as number, selectedTimeframe)}
+                      formatter={(value) => formatPercentage(value as number)} />
+                    <Legend />
+                    {filteredProtocols.map((protocol, index) => (
+                      <Line key={protocol.id} type="monotone" dataKey={protocol.id} name={protocol.name}
+                        stroke={SERIES_COLORS[index % SERIES_COLORS.length]} dot={false} />
+                    ))}
+                  </LineChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
 
             <Card>
-              <CardHeader><CardTitle>APY vs Risk Analysis</CardTitle></CardHeader>
+              <CardHeader>
+                <CardTitle>APY vs Risk Analysis</CardTitle>
+                <CardDescription>
+                  APY split into its sources; vault yields compound daily
+                  {rewardPriceNotes && `, rewards valued with ${rewardPriceNotes}`}
+                  {headlineOnlyProtocols.length > 0 && `. No pool data for ${headlineOnlyProtocols.join(', ')}, so their headline APY is shown as base yield`}
+                </CardDescription>
+              </CardHeader>
               <CardContent>
+                <div className="flex items-center gap-2 mb-4">
+                  <label className="text-sm text-gray-600">Incentive token price change (%)</label>
+                  <Input type="number" step="10" min="-100" className="w-28" value={rewardPriceChange}
+                    onChange={(event: React.ChangeEvent<HTMLInputElement>) => setRewardPriceChange(event.target.value)} />
+                </div>
                 <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={protocolChartData}>
+                  <ComposedChart data={protocolChartData}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="name" />
-                    <YAxis yAxisId="left" />
-                    <YAxis yAxisId="right" orientation="right" />
-                    <Tooltip />
+                    <YAxis yAxisId="left" tickFormatter={(value) => formatPercentage(value)} />
+                    <YAxis yAxisId="right" orientation="right" domain={[0, 10]} />
+                    <Tooltip formatter={(value, name) => name === 'Risk Score' ? value : formatPercentage(value as number)} />
                     <Legend />
-                    <Line yAxisId="left" type="monotone" dataKey="apy" stroke={COLORS.success} name="APY (%)" />
+                    <Bar yAxisId="left" dataKey="tradingFees" stackId="apy" fill={COLORS.primary} name="Trading fees" />
+                    <Bar yAxisId="left" dataKey="lendingInterest" stackId="apy" fill={COLORS.secondary} name="Lending interest" />
+                    <Bar yAxisId="left" dataKey="rewards" stackId="apy" fill={COLORS.purple} name="Rewards" />
+                    <Bar yAxisId="left" dataKey="compounding" stackId="apy" fill={COLORS.info} name="Compounding" />
                     <Line yAxisId="right" type="monotone" dataKey="risk" stroke={COLORS.danger} name="Risk Score" />
-                  </LineChart>
+                  </ComposedChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
           </div>
+
+          <DerivativesPanel protocols={filteredProtocols} />
+
+          <Card>
+            <CardHeader><CardTitle>Protocol Details</CardTitle></CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {filteredProtocols.map((protocol) => (
+                  <div key={protocol.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex items-center gap-4">
+                      <div>
+                        <h3 className="font-semibold">{protocol.name}</h3>
+                        <Badge variant="secondary">{protocol.category}</Badge>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-6 text-sm">
+                      <div>
+                        <p className="text-gray-600">TVL</p>
+                        <p className="font-semibold">{formatCurrency(protocol.tvl)}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-600">APY</p>
+                        <p className="font-semibold text-green-600">{formatPercentage(protocol.apy)}</p>
+                      </div>
+                      {protocol.derivatives && (
+                        <>
+                          <div>
+                            <p className="text-gray-600">Open Interest</p>
+                            <p className="font-semibold">{formatCurrency(protocol.derivatives.openInterest)}</p>
+                          </div>
+                          <div>
+                            <p className="text-gray-600">Funding (24h)</p>
+                            <p className="font-semibold">{formatPercentage(protocol.derivatives.fundingRate)}</p>
+                          </div>
+                        </>
+                      )}
+                      <div>
+                        <p className="text-gray-600">Risk</p>
+                        <RiskBreakdownTooltip assessment={protocol.riskAssessment}>
+                          <div className="flex items-center gap-1">
+                            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: getRiskColor(protocol.riskScore) }}></div>
+                            <p className="font-semibold">{protocol.riskScore}/10</p>
+                          </div>
+                        </RiskBreakdownTooltip>
+                      </div>
+                      <div>
+                        <p className="text-gray-600">24h Change</p>
+                        <p className={`font-semibold ${protocol.change24h >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {protocol.change24h >= 0 ? '+' : ''}{formatPercentage(protocol.change24h)}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => navigate(`/protocols/${encodeURIComponent(protocol.id)}`)}>
+                        Pools<ChevronRight className="h-4 w-4 ml-1" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Strategies Tab */}
+        <TabsContent value="strategies" className="space-y-4">
+          <StrategiesTab positions={userPositions} prices={prices} />
+          <LendingHealthPanel positions={userPositions} prices={prices} protocols={protocols} />
+          <BacktestPanel protocols={protocols} history={protocolHistory} timeframe={selectedTimeframe} />
+        </TabsContent>
+
+        {/* Planner Tab */}
+        <TabsContent value="planner" className="space-y-4">
+          <AllocationPlanner protocols={protocols} currentPortfolio={portfolioMetrics} />
         </TabsContent>
 
         {/* Arbitrage Tab */}
@@ -1718,26 +581,63 @@ const DashboardAnalytics: React.FC = () => {
               <CardTitle className="flex items-center gap-2">
                 <Zap className="h-5 w-5" />Top Arbitrage Opportunities
               </CardTitle>
-              <CardDescription>Real-time arbitrage opportunities across Base DEXs</CardDescription>
+              <CardDescription>Ranked by profit after pool fees, price impact and Base L2 + L1 gas</CardDescription>
             </CardHeader>
             <CardContent>
+              <div className="flex items-center gap-2 mb-4">
+                <label className="text-sm text-gray-600">Minimum net profit ($)</label>
+                <Input type="number" step="1" className="w-28" value={minNetProfit}
+                  onChange={(event: React.ChangeEvent<HTMLInputElement>) => setMinNetProfit(event.target.value)} />
+              </div>
               <div className="space-y-4">
+                {topArbitrageOpportunities.length === 0 && (
+                  <p className="text-sm text-gray-600">No opportunities clear the minimum net profit.</p>
+                )}
                 {topArbitrageOpportunities.map((opportunity) => (
-                  <div key={opportunity.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div>
-                      <h3 className="font-semibold">{opportunity.tokenA}/{opportunity.tokenB}</h3>
-                      <p className="text-sm text-gray-600">{opportunity.dexA} to {opportunity.dexB}</p>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-semibold text-green-600">+{formatCurrency(opportunity.profitPotential)}</p>
-                      <p className="text-sm text-gray-600">{formatPercentage(opportunity.profitPercentage)} profit</p>
+                  <div key={opportunity.id} onClick={() => setSizingOpportunityId(opportunity.id)}
+                    className={`flex items-center justify-between p-4 border rounded-lg cursor-pointer ${opportunity.id === sizingOpportunity?.id ? 'border-blue-500' : ''}`}>
+                    <div className="space-y-1">
+                      <h3 className="font-semibold">
+                        {opportunity.route ? `${opportunity.route.length}-hop route` : `${opportunity.tokenA}/${opportunity.tokenB}`}
+                      </h3>
+                      <ArbitrageRoute opportunity={opportunity} />
                     </div>
-                    <Button size="sm">Execute</Button>
+                    {opportunity.costs && opportunity.netProfit !== undefined ? (
+                      <div className="text-right">
+                        <p className={`font-semibold ${opportunity.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {opportunity.netProfit >= 0 ? '+' : ''}{formatCurrency(opportunity.netProfit)} net
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatCurrency(opportunity.profitPotential)} gross − {formatCurrency(opportunity.costs.swapFees)} fees
+                          − {formatCurrency(opportunity.costs.priceImpact)} impact
+                          − {formatCurrency(opportunity.costs.l2Gas + opportunity.costs.l1DataFee)} gas
+                        </p>
+                        <p className="text-xs text-gray-500">on {formatCurrency(opportunity.costs.tradeSizeUsd)} trade</p>
+                      </div>
+                    ) : (
+                      <div className="text-right">
+                        <p className="font-semibold text-green-600">+{formatCurrency(opportunity.profitPotential)}</p>
+                        <p className="text-sm text-gray-600">{formatPercentage(opportunity.profitPercentage)} profit before costs</p>
+                      </div>
+                    )}
+                    {/* The executor sends direct pairs through each DEX's default pool only */}
+                    <Button size="sm" disabled={!!opportunity.route} title={opportunity.route ? 'Routes are monitored only' : undefined}
+                      onClick={(event: React.MouseEvent) => { event.stopPropagation(); setExecutingOpportunityId(opportunity.id); }}>Execute</Button>
                   </div>
                 ))}
               </div>
             </CardContent>
           </Card>
+
+          {sizingOpportunity && <ArbitrageSizingChart opportunity={sizingOpportunity} />}
+
+          <ArbitrageExecuteDialog key={executingOpportunity?.id ?? 'closed'} opportunity={executingOpportunity} prices={prices}
+            onClose={() => setExecutingOpportunityId(null)} onExecuted={markOpportunityExecuted} />
+        </TabsContent>
+
+        {/* veAERO Tab */}
+        <TabsContent value="voting" className="space-y-4">
+          <VoteEscrowPanel owners={portfolioAddresses ?? (account ? [account] : [])} />
         </TabsContent>
 
         {/* Analytics Tab */}
@@ -1762,22 +662,33 @@ const DashboardAnalytics: React.FC = () => {
             </Card>
 
             <Card>
-              <CardHeader><CardTitle>Volume Trends</CardTitle></CardHeader>
+              <CardHeader>
+                <CardTitle>Volume Trends</CardTitle>
+                <CardDescription>Rolling 24h volume across all protocols over the last {selectedTimeframe}</CardDescription>
+              </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <AreaChart data={protocolChartData}>
+                  <AreaChart data={volumeHistoryData}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="name" />
-                    <YAxis />
-                    <Tooltip formatter={(value) => formatCurrency(value as number)} />
-                    <Area type="monotone" dataKey="volume" stroke={COLORS.info} fill={COLORS.info} fillOpacity={0.3} />
+                    <XAxis dataKey="timestamp" tickFormatter={(value) => formatTimestamp(value, selectedTimeframe)} />
+                    <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                    <Tooltip labelFormatter={(value) => formatTimestamp(value as number, selectedTimeframe)}
+                      formatter={(value) => formatCurrency(value as number)} />
+                    <Area type="monotone" dataKey="total" name="Volume" stroke={COLORS.info} fill={COLORS.info} fillOpacity={0.3} />
                   </AreaChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
           </div>
         </TabsContent>
+
+        {/* Alerts Tab */}
+        <TabsContent value="alerts" className="space-y-4">
+          <AlertRulesPanel alerts={alerts} protocols={protocols} defaultAddress={account} />
+        </TabsContent>
       </Tabs>
+
+      <AlertToasts toasts={alerts.toasts} onDismiss={alerts.dismissToast} />
     </div>
   );
 };
@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { COLORS } from '@/utils/colors';
+import { buildDerivativesChartData } from '@/utils/derivatives';
+import type { ProtocolData } from '@/types/analytics';
+
+/**
+ * @title DerivativesPanel
+ * @description Open interest, funding, long/short skew and insurance fund of the perp protocols
+ * @author Base DeFi Analytics Team
+ */
+
+interface DerivativesPanelProps {
+  protocols: ProtocolData[];
+}
+
+const DerivativesPanel: React.FC<DerivativesPanelProps> = ({ protocols }) => {
+  const chartData = useMemo(() => buildDerivativesChartData(protocols), [protocols]);
+  const insuredData = useMemo(() => chartData.filter(row => row.insuranceFund !== null), [chartData]);
+
+  if (chartData.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Interest</CardTitle>
+          <CardDescription>Long and short notional at the mark price</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis tickFormatter={(value) => formatCurrency(value)} />
+              <Tooltip formatter={(value) => formatCurrency(value as number)} />
+              <Legend />
+              <Bar dataKey="longOpenInterest" name="Long" stackId="oi" fill={COLORS.success} />
+              <Bar dataKey="shortOpenInterest" name="Short" stackId="oi" fill={COLORS.danger} />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Funding Rates</CardTitle>
+          <CardDescription>Annualized; positive when longs pay shorts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis tickFormatter={(value) => formatPercentage(value)} />
+              <Tooltip formatter={(value) => [formatPercentage(value as number), 'Funding (APR)']} />
+              <ReferenceLine y={0} stroke={COLORS.danger} strokeDasharray="3 3" />
+              <Bar dataKey="annualizedFunding" name="Funding (APR)">
+                {chartData.map(row => (
+                  <Cell key={row.protocolId} fill={row.annualizedFunding >= 0 ? COLORS.primary : COLORS.warning} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Long/Short Skew</CardTitle>
+          <CardDescription>Net long share of open interest; negative when shorts dominate</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis domain={[-100, 100]} tickFormatter={(value) => formatPercentage(value)} />
+              <Tooltip formatter={(value) => [formatPercentage(value as number), 'Skew']} />
+              <ReferenceLine y={0} stroke="#9CA3AF" />
+              <Bar dataKey="skew" name="Skew">
+                {chartData.map(row => (
+                  <Cell key={row.protocolId} fill={row.skew >= 0 ? COLORS.success : COLORS.danger} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Insurance Funds</CardTitle>
+          <CardDescription>Fund size against the open interest it backs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {insuredData.length === 0 ? (
+            <p className="text-sm text-gray-600">None of these protocols publishes an insurance fund.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={insuredData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis yAxisId="left" tickFormatter={(value) => formatCurrency(value)} />
+                <YAxis yAxisId="right" orientation="right" tickFormatter={(value) => formatPercentage(value)} />
+                <Tooltip formatter={(value, name) => name === 'Coverage' ? formatPercentage(value as number) : formatCurrency(value as number)} />
+                <Legend />
+                <Bar yAxisId="left" dataKey="insuranceFund" name="Insurance Fund" fill={COLORS.purple} />
+                <Bar yAxisId="right" dataKey="insuranceCoverage" name="Coverage" fill={COLORS.info} />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DerivativesPanel;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Badge } from '@/components/ui';
+import { HEALTH_STATUS_COLORS } from '@/utils/colors';
+import { formatHealthFactor, getHealthStatus } from '@/utils/lending';
+
+interface HealthFactorBadgeProps {
+  healthFactor: number;
+  label?: string;
+}
+
+const STATUS_LABELS = {
+  safe: 'Safe',
+  warning: 'Watch',
+  danger: 'Near liquidation',
+  liquidatable: 'Liquidatable'
+};
+
+const HealthFactorBadge: React.FC<HealthFactorBadgeProps> = ({ healthFactor, label }) => {
+  const status = getHealthStatus(healthFactor);
+  return (
+    <Badge variant="outline" className="gap-1">
+      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: HEALTH_STATUS_COLORS[status] }}></span>
+      {label ? `${label}: ` : ''}{STATUS_LABELS[status]} (HF {formatHealthFactor(healthFactor)})
+    </Badge>
+  );
+};
+
+export default HealthFactorBadge;
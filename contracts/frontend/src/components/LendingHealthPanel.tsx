@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { HeartPulse } from 'lucide-react';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { shortenAddress } from '@/utils/portfolio';
+import {
+  CORRELATED_ASSETS,
+  analyzeLendingAccount,
+  applyPriceShock,
+  calculateHealthFactor,
+  groupLendingAccounts
+} from '@/utils/lending';
+import type { ProtocolData, TokenPrices, UserPosition } from '@/types/analytics';
+import HealthFactorBadge from '@/components/HealthFactorBadge';
+
+/**
+ * @title LendingHealthPanel
+ * @description Health factor and liquidation prices of each lending account, with a
+ * simulator for how a price move in one asset would change them
+ * @author Base DeFi Analytics Team
+ */
+
+interface LendingHealthPanelProps {
+  positions: UserPosition[];
+  prices: TokenPrices;
+  protocols: ProtocolData[];
+}
+
+// Liquidation prices within this move of the current price are highlighted
+const NEAR_LIQUIDATION_MOVE = 20;
+
+const LendingHealthPanel: React.FC<LendingHealthPanelProps> = ({ positions, prices, protocols }) => {
+  const [shockAsset, setShockAsset] = useState('ETH');
+  const [shockPercentage, setShockPercentage] = useState('-20');
+
+  const accounts = useMemo(() => groupLendingAccounts(positions), [positions]);
+
+  const analyses = useMemo(() => {
+    return accounts.map(account => ({ account, analysis: analyzeLendingAccount(account, prices) }));
+  }, [accounts, prices]);
+
+  // Correlated groups are offered once under their group name instead of per token
+  const shockAssets = useMemo(() => {
+    const grouped = new Set(Object.values(CORRELATED_ASSETS).flat());
+    const assets = accounts.flatMap(account => account.positions.map(leg => leg.asset));
+    return [...Object.keys(CORRELATED_ASSETS), ...Array.from(new Set(assets)).filter(asset => !grouped.has(asset))];
+  }, [accounts]);
+
+  const shockedPrices = useMemo(() => {
+    const change = Number(shockPercentage);
+    return applyPriceShock(prices, shockAsset, Number.isFinite(change) ? Math.max(-100, change) : 0);
+  }, [prices, shockAsset, shockPercentage]);
+
+  const getAccountName = (protocolId: string | undefined, accountId: string): string => {
+    return protocols.find(protocol => protocol.id === protocolId)?.name ?? accountId;
+  };
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HeartPulse className="h-5 w-5" />Lending Health
+        </CardTitle>
+        <CardDescription>Health factor below 1 means the account can be liquidated</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-4">
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">What if</label>
+            <Select value={shockAsset} onValueChange={setShockAsset}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {shockAssets.map(asset => (
+                  <SelectItem key={asset} value={asset}>{asset}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm text-gray-600">moves by (%)</label>
+            <Input type="number" min="-100" step="5" className="w-28" value={shockPercentage}
+              onChange={(event: React.ChangeEvent<HTMLInputElement>) => setShockPercentage(event.target.value)} />
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Account</TableHead>
+              <TableHead className="text-right">Collateral</TableHead>
+              <TableHead className="text-right">Debt</TableHead>
+              <TableHead>Health Factor</TableHead>
+              <TableHead>Simulated</TableHead>
+              <TableHead>Liquidation Price</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analyses.map(({ account, analysis }) => (
+              <TableRow key={account.id}>
+                <TableCell>
+                  <p className="font-semibold">{getAccountName(account.protocolId, account.accountId)}</p>
+                  {account.owner && <p className="text-xs text-gray-500 font-mono">{shortenAddress(account.owner)}</p>}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(analysis.collateralValue)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(analysis.debtValue)}</TableCell>
+                <TableCell><HealthFactorBadge healthFactor={analysis.healthFactor} /></TableCell>
+                <TableCell><HealthFactorBadge healthFactor={calculateHealthFactor(account, shockedPrices)} /></TableCell>
+                <TableCell>
+                  {analysis.liquidationPrices.length === 0 && <span className="text-gray-400">—</span>}
+                  {analysis.liquidationPrices.map(liquidation => (
+                    <p key={liquidation.asset} className="text-sm">
+                      {liquidation.asset}{' '}
+                      {liquidation.liquidationPrice === null ? (
+                        <span className="text-gray-400">none</span>
+                      ) : (
+                        <>
+                          {formatCurrency(liquidation.liquidationPrice)}
+                          {liquidation.changePercentage !== null && (
+                            <span className={`text-xs ml-1 ${Math.abs(liquidation.changePercentage) < NEAR_LIQUIDATION_MOVE ? 'text-red-600' : 'text-gray-500'}`}>
+                              ({formatPercentage(liquidation.changePercentage)})
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </p>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LendingHealthPanel;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, Button } from '@/components/ui';
+import { AlertTriangle, Eye, Plus, Settings, Trash2 } from 'lucide-react';
+import { shortenAddress } from '@/utils/portfolio';
+import type { useWatchPortfolios } from '@/hooks/useWatchPortfolios';
+
+/**
+ * @title PortfolioSelector
+ * @description Switches the dashboard between the connected wallet and named watch-only
+ * portfolios, with a dialog to manage each portfolio's addresses
+ * @author Base DeFi Analytics Team
+ */
+
+// Select value standing for the connected wallet rather than a saved portfolio
+export const CONNECTED_WALLET = 'connected-wallet';
+
+interface PortfolioSelectorProps {
+  watchPortfolios: ReturnType<typeof useWatchPortfolios>;
+  selectedId: string;
+  onSelect: (id: string) => void;
+  isConnected: boolean;
+}
+
+const PortfolioSelector: React.FC<PortfolioSelectorProps> = ({ watchPortfolios, selectedId, onSelect, isConnected }) => {
+  const { portfolios, createPortfolio, renamePortfolio, deletePortfolio, addWallet, removeWallet } = watchPortfolios;
+  const [isManaging, setIsManaging] = useState(false);
+  const [newAddress, setNewAddress] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const selectedPortfolio = portfolios.find(portfolio => portfolio.id === selectedId) || null;
+
+  const handleCreate = () => {
+    const portfolio = createPortfolio(`Portfolio ${portfolios.length + 1}`);
+    onSelect(portfolio.id);
+    setIsManaging(true);
+  };
+
+  const handleAddWallet = () => {
+    if (!selectedPortfolio) return;
+    try {
+      addWallet(selectedPortfolio.id, newAddress, newLabel);
+      setNewAddress('');
+      setNewLabel('');
+      setFormError(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to add wallet');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selectedPortfolio) return;
+    deletePortfolio(selectedPortfolio.id);
+    onSelect(CONNECTED_WALLET);
+    setIsManaging(false);
+  };
+
+  const closeDialog = () => {
+    setIsManaging(false);
+    setFormError(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Eye className="h-4 w-4 text-gray-500" />
+      <Select value={selectedId} onValueChange={onSelect}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Select portfolio" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CONNECTED_WALLET} disabled={!isConnected}>Connected wallet</SelectItem>
+          {portfolios.map((portfolio) => (
+            <SelectItem key={portfolio.id} value={portfolio.id}>
+              {portfolio.name} ({portfolio.wallets.length})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selectedPortfolio && (
+        <Button variant="outline" size="sm" onClick={() => setIsManaging(true)}>
+          <Settings className="h-4 w-4" />
+        </Button>
+      )}
+      <Button variant="outline" size="sm" onClick={handleCreate}>
+        <Plus className="h-4 w-4 mr-1" />Watch
+      </Button>
+
+      <Dialog open={isManaging && selectedPortfolio !== null} onOpenChange={(open: boolean) => { if (!open) closeDialog(); }}>
+        <DialogContent>
+          {selectedPortfolio && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Manage Portfolio</DialogTitle>
+                <DialogDescription>Watch-only addresses are read from chain and the API; nothing is signed.</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <label className="text-sm text-gray-600">Name</label>
+                  <Input value={selectedPortfolio.name}
+                    onChange={(event: React.ChangeEvent<HTMLInputElement>) => renamePortfolio(selectedPortfolio.id, event.target.value)} />
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">Wallets</p>
+                  {selectedPortfolio.wallets.length === 0 && (
+                    <p className="text-sm text-gray-500">No wallets yet. Add an address below.</p>
+                  )}
+                  {selectedPortfolio.wallets.map((wallet) => (
+                    <div key={wallet.address} className="flex items-center justify-between p-2 border rounded-lg">
+                      <div>
+                        <p className="font-semibold text-sm">{wallet.label}</p>
+                        <p className="text-xs text-gray-500 font-mono">{shortenAddress(wallet.address)}</p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => removeWallet(selectedPortfolio.id, wallet.address)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <Input placeholder="0x… address" value={newAddress}
+                    onChange={(event: React.ChangeEvent<HTMLInputElement>) => setNewAddress(event.target.value)} />
+                  <Input placeholder="Label (optional)" value={newLabel}
+                    onChange={(event: React.ChangeEvent<HTMLInputElement>) => setNewLabel(event.target.value)} />
+                </div>
+                <Button variant="outline" size="sm" onClick={handleAddWallet} disabled={!newAddress.trim()}>
+                  <Plus className="h-4 w-4 mr-1" />Add Wallet
+                </Button>
+
+                {formError && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{formError}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={handleDelete}>Delete Portfolio</Button>
+                <Button onClick={closeDialog}>Done</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PortfolioSelector;
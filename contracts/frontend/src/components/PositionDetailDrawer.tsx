@@ -0,0 +1,211 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Gift } from 'lucide-react';
+import { usePositionHistory } from '@/hooks/usePositionHistory';
+import { formatCurrency, formatNumber, formatPercentage } from '@/utils/formatters';
+import { COLORS } from '@/utils/colors';
+import { getLiquidationDistance, getPerpLeverage } from '@/utils/derivatives';
+import { getPendingRewardValue, valueRewards } from '@/utils/rewards';
+import type { RewardPlan, TokenPrices, UserPosition } from '@/types/analytics';
+import RiskBadge from '@/components/RiskBadge';
+import PositionOrdersPanel from '@/components/PositionOrdersPanel';
+
+/**
+ * @title PositionDetailDrawer
+ * @description Side drawer with P&L history, reward-claim timeline and exit orders for one strategy position,
+ * plus size, prices and funding of a perp position and the claim plan for its pending rewards
+ * @author Base DeFi Analytics Team
+ */
+
+interface PositionDetailDrawerProps {
+  position: UserPosition | null;
+  prices: TokenPrices;
+  // Undefined while claim costs load or when the position has no rewards
+  rewardPlan?: RewardPlan;
+  claimCostsError?: string | null;
+  onClose: () => void;
+}
+
+const PositionDetailDrawer: React.FC<PositionDetailDrawerProps> = ({ position, prices, rewardPlan, claimCostsError, onClose }) => {
+  const { history, isLoading, error } = usePositionHistory(position?.strategyId ?? null, position?.owner);
+
+  const pnlChartData = useMemo(() => {
+    return (history?.pnlHistory || []).map(point => ({
+      timestamp: point.timestamp.getTime(),
+      pnl: point.pnl,
+      value: point.currentValue
+    }));
+  }, [history]);
+
+  // Most recent claims first
+  const rewardClaims = useMemo(() => {
+    return [...(history?.rewardClaims || [])].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }, [history]);
+
+  const rewards = useMemo(() => valueRewards(position?.rewards || [], prices), [position, prices]);
+
+  const perp = position?.perpPosition;
+  const liquidationDistance = perp ? getLiquidationDistance(perp) : null;
+  const leverage = perp ? getPerpLeverage(perp) : null;
+
+  return (
+    <Sheet open={position !== null} onOpenChange={(open: boolean) => { if (!open) onClose(); }}>
+      <SheetContent side="right" className="w-full sm:max-w-xl overflow-y-auto">
+        {position && (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2">
+                {position.strategyName}
+                <RiskBadge risk={position.riskLevel} />
+              </SheetTitle>
+              <SheetDescription>Entered {position.entryDate.toLocaleDateString()}</SheetDescription>
+            </SheetHeader>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-gray-600">Current Value</p>
+                <p className="text-xl font-bold">{formatCurrency(position.currentValue)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">P&L</p>
+                <p className={`text-xl font-bold ${position.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(position.pnl)}
+                  <span className="text-sm ml-1">({formatPercentage(position.pnlPercentage)})</span>
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">APY</p>
+                <p className="text-xl font-bold">{formatPercentage(position.apy)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Pending Rewards</p>
+                <p className="text-xl font-bold text-blue-600">{formatCurrency(getPendingRewardValue(position, prices))}</p>
+              </div>
+            </div>
+
+            {perp && (
+              <div>
+                <h3 className="font-semibold mb-2">{perp.side === 'long' ? 'Long' : 'Short'} {perp.market}</h3>
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-600">Size</p>
+                    <p className="font-semibold">{formatNumber(perp.size)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Entry</p>
+                    <p className="font-semibold">{formatCurrency(perp.entryPrice)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Mark</p>
+                    <p className="font-semibold">{formatCurrency(perp.markPrice)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Liquidation</p>
+                    <p className="font-semibold text-red-600">
+                      {perp.liquidationPrice === null ? '—' : formatCurrency(perp.liquidationPrice)}
+                      {liquidationDistance !== null && <span className="text-xs ml-1">({formatPercentage(liquidationDistance)})</span>}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Funding Paid</p>
+                    <p className={`font-semibold ${perp.fundingPaid > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatCurrency(perp.fundingPaid)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Leverage</p>
+                    <p className="font-semibold">{leverage === null ? '—' : `${leverage.toFixed(1)}x`}</p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isLoading && <p className="text-sm text-gray-600">Loading position history...</p>}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div>
+              <h3 className="font-semibold mb-2">P&L History</h3>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={pnlChartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="timestamp" tickFormatter={(value) => new Date(value).toLocaleDateString()} />
+                  <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                  <Tooltip labelFormatter={(value) => new Date(value as number).toLocaleString()}
+                    formatter={(value) => formatCurrency(value as number)} />
+                  <ReferenceLine y={0} stroke={COLORS.danger} strokeDasharray="3 3" />
+                  <Line type="monotone" dataKey="pnl" name="P&L" stroke={COLORS.success} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-2">Reward Claims</h3>
+              <p className="text-sm text-gray-600 mb-3">
+                Last claimed {position.lastRewardClaim.toLocaleString()}
+              </p>
+              {rewards.length > 0 && (
+                <div className="space-y-1 mb-3 text-sm">
+                  {rewards.map((reward) => (
+                    <div key={reward.token} className="flex justify-between">
+                      <span>{formatNumber(reward.amount)} {reward.token}</span>
+                      {reward.priceSource === 'feed' ? (
+                        <span>{formatCurrency(reward.value)} <span className="text-xs text-gray-500">at {formatCurrency(reward.price)}</span></span>
+                      ) : (
+                        <span className="text-xs text-orange-600">No price feed</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {rewardPlan && (
+                <div className="rounded-md border p-3 mb-3 text-sm space-y-1">
+                  <p>
+                    Claiming costs {formatCurrency(rewardPlan.claimCost)} in gas; rewards accrue
+                    {' '}{formatCurrency(rewardPlan.dailyRewardValue)} a day.
+                  </p>
+                  {rewardPlan.schedule ? (
+                    <>
+                      <p className="font-semibold">
+                        {rewardPlan.schedule.kind === 'claim' ? 'Claim' : 'Compound'} every {rewardPlan.schedule.intervalDays.toFixed(1)} days
+                        {' '}for {formatCurrency(rewardPlan.schedule.netYearlyValue)} a year after gas
+                      </p>
+                      <p className={rewardPlan.action === 'wait' ? 'text-gray-600' : 'text-green-600'}>
+                        {rewardPlan.action === 'wait'
+                          ? `Next ${rewardPlan.schedule.kind} ${rewardPlan.nextClaimAt?.toLocaleDateString()}`
+                          : `${rewardPlan.action === 'claim' ? 'Claim' : 'Compound'} now`}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-orange-600">Rewards do not cover the gas of claiming them yet.</p>
+                  )}
+                </div>
+              )}
+              {claimCostsError && <p className="text-sm text-gray-600 mb-3">Claim plan unavailable: {claimCostsError}</p>}
+              {rewardClaims.length === 0 ? (
+                <p className="text-sm text-gray-600">No rewards claimed yet.</p>
+              ) : (
+                <ol className="relative border-l border-gray-200 space-y-4 ml-2">
+                  {rewardClaims.map((claim) => (
+                    <li key={claim.txHash || claim.timestamp.getTime()} className="ml-4">
+                      <div className="absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-blue-100">
+                        <Gift className="h-3 w-3 text-blue-600" />
+                      </div>
+                      <p className="font-semibold">{formatCurrency(claim.amount)}</p>
+                      <p className="text-xs text-gray-600">{claim.timestamp.toLocaleString()}</p>
+                      {claim.txHash && <p className="text-xs text-gray-500 font-mono truncate">{claim.txHash}</p>}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <PositionOrdersPanel position={position} />
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default PositionDetailDrawer;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, Badge, Button } from '@/components/ui';
+import { AlertTriangle, PenLine, Plus, RefreshCw, X } from 'lucide-react';
+import { usePositionOrders } from '@/hooks/usePositionOrders';
+import { BASE_TOKENS } from '@/services/dexRegistry';
+import type { OrderStatus, OrderTrigger, OrderType, PositionOrder, UserPosition } from '@/types/analytics';
+
+/**
+ * @title PositionOrdersPanel
+ * @description Attach stop-loss and take-profit orders to a position, follow their state
+ * history and sign the unwind of a triggered order
+ * @author Base DeFi Analytics Team
+ */
+
+interface PositionOrdersPanelProps {
+  position: UserPosition;
+}
+
+type TriggerKind = OrderTrigger['kind'];
+
+const TYPE_LABELS: Record<OrderType, string> = {
+  stopLoss: 'Stop-loss',
+  takeProfit: 'Take-profit'
+};
+
+const STATUS_VARIANTS: Record<OrderStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  active: 'default',
+  triggered: 'destructive',
+  executed: 'secondary',
+  cancelled: 'outline',
+  failed: 'destructive'
+};
+
+const describeOrder = (order: PositionOrder): string => {
+  const comparison = order.type === 'stopLoss' ? '≤' : '≥';
+  return order.trigger.kind === 'price'
+    ? `${TYPE_LABELS[order.type]} at ${order.trigger.token} ${comparison} $${order.trigger.price}`
+    : `${TYPE_LABELS[order.type]} at PnL ${comparison} ${order.trigger.threshold}%`;
+};
+
+const PositionOrdersPanel: React.FC<PositionOrdersPanelProps> = ({ position }) => {
+  const { orders, signingId, error, createOrder, cancelOrder, rebuildUnwind, signUnwind } =
+    usePositionOrders(position.strategyId, position.owner);
+
+  const [type, setType] = useState<OrderType>('stopLoss');
+  const [triggerKind, setTriggerKind] = useState<TriggerKind>('pnlPercentage');
+  const [token, setToken] = useState(position.liquidityPosition?.token0 ?? position.lendingPosition?.asset ?? 'WETH');
+  const [level, setLevel] = useState('-10');
+  const [settleToken, setSettleToken] = useState('USDC');
+
+  const handleCreate = () => {
+    const value = Number(level);
+    if (!Number.isFinite(value) || level.trim() === '') return;
+    const trigger: OrderTrigger = triggerKind === 'price' ? { kind: 'price', token, price: value } : { kind: 'pnlPercentage', threshold: value };
+    createOrder(type, trigger, settleToken);
+  };
+
+  const tokens = Object.keys(BASE_TOKENS);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold">Exit Orders</h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={type} onValueChange={(value: string) => setType(value as OrderType)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TYPE_LABELS) as OrderType[]).map(option => (
+              <SelectItem key={option} value={option}>{TYPE_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={triggerKind} onValueChange={(value: string) => setTriggerKind(value as TriggerKind)}>
+          <SelectTrigger><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pnlPercentage">PnL %</SelectItem>
+            <SelectItem value="price">Token price</SelectItem>
+          </SelectContent>
+        </Select>
+        {triggerKind === 'price' && (
+          <Select value={token} onValueChange={setToken}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {tokens.map(symbol => <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        <Input type="number" value={level} placeholder={triggerKind === 'price' ? 'Price ($)' : 'PnL (%)'}
+          onChange={(event: React.ChangeEvent<HTMLInputElement>) => setLevel(event.target.value)} />
+        <div className="space-y-1">
+          <label className="text-sm text-gray-600">Settle into</label>
+          <Select value={settleToken} onValueChange={setSettleToken}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {tokens.map(symbol => <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <Button size="sm" onClick={handleCreate}>
+        <Plus className="h-4 w-4 mr-1" />Add order
+      </Button>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {orders.length === 0 ? (
+        <p className="text-sm text-gray-600">No orders on this position.</p>
+      ) : (
+        <div className="space-y-3">
+          {orders.map(order => (
+            <div key={order.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">{describeOrder(order)}</p>
+                <Badge variant={STATUS_VARIANTS[order.status]}>{order.status}</Badge>
+              </div>
+
+              <ol className="text-xs text-gray-600 space-y-1">
+                {order.history.map((change, index) => (
+                  <li key={index}>
+                    {change.timestamp.toLocaleString()}: {change.status}{change.message ? ` (${change.message})` : ''}
+                  </li>
+                ))}
+              </ol>
+
+              {order.status === 'triggered' && order.unwind && (
+                <ol className="text-xs list-decimal ml-4">
+                  {order.unwind.map((transaction, index) => <li key={index}>{transaction.description}</li>)}
+                </ol>
+              )}
+
+              <div className="flex gap-2">
+                {order.status === 'triggered' && order.unwind && (
+                  <Button size="sm" onClick={() => signUnwind(order)} disabled={signingId !== null}>
+                    <PenLine className="h-4 w-4 mr-1" />{signingId === order.id ? 'Signing...' : 'Sign unwind'}
+                  </Button>
+                )}
+                {(order.status === 'triggered' || order.status === 'failed') && (
+                  <Button variant="outline" size="sm" onClick={() => rebuildUnwind(order.id)} disabled={signingId === order.id}>
+                    <RefreshCw className="h-4 w-4 mr-1" />Rebuild
+                  </Button>
+                )}
+                {(order.status === 'active' || order.status === 'triggered' || order.status === 'failed') && (
+                  <Button variant="ghost" size="sm" onClick={() => cancelOrder(order.id)} disabled={signingId === order.id}>
+                    <X className="h-4 w-4 mr-1" />Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PositionOrdersPanel;
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge, Button } from '@/components/ui';
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, Star } from 'lucide-react';
+import { useProtocolPools } from '@/hooks/useProtocolPools';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import type { PoolData, ProtocolData } from '@/types/analytics';
+
+/**
+ * @title ProtocolPoolsPage
+ * @description Drill-down page listing the pools and lending markets behind one protocol's
+ * TVL and APY, sortable by any column
+ * @author Base DeFi Analytics Team
+ */
+
+interface ProtocolPoolsPageProps {
+  protocolId: string;
+  // Undefined while protocols are loading or for an unknown id
+  protocol?: ProtocolData;
+  onBack: () => void;
+}
+
+type SortKey = 'name' | 'feeTier' | 'tvl' | 'volume24h' | 'feeApr' | 'rewardApr' | 'totalApr' | 'utilization';
+
+const COLUMNS: { key: SortKey; label: string; align?: 'right' }[] = [
+  { key: 'name', label: 'Pool / Market' },
+  { key: 'feeTier', label: 'Fee Tier', align: 'right' },
+  { key: 'tvl', label: 'TVL', align: 'right' },
+  { key: 'volume24h', label: '24h Volume', align: 'right' },
+  { key: 'feeApr', label: 'Fee APR', align: 'right' },
+  { key: 'rewardApr', label: 'Reward APR', align: 'right' },
+  { key: 'totalApr', label: 'Total APR', align: 'right' },
+  { key: 'utilization', label: 'Utilization', align: 'right' }
+];
+
+const getTotalApr = (pool: PoolData): number => pool.feeApr + pool.rewardApr;
+
+// Fields a venue kind does not have sort below every venue that has them
+const getSortValue = (pool: PoolData, key: SortKey): string | number => {
+  if (key === 'name') return pool.name;
+  if (key === 'totalApr') return getTotalApr(pool);
+  return pool[key] ?? Number.NEGATIVE_INFINITY;
+};
+
+const ProtocolPoolsPage: React.FC<ProtocolPoolsPageProps> = ({ protocolId, protocol, onBack }) => {
+  const { pools, isLoading, error } = useProtocolPools(protocolId);
+  const [sortKey, setSortKey] = useState<SortKey>('tvl');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  const sortedPools = useMemo(() => {
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return [...pools].sort((a, b) => {
+      const left = getSortValue(a, sortKey);
+      const right = getSortValue(b, sortKey);
+      if (typeof left === 'string' && typeof right === 'string') return left.localeCompare(right) * direction;
+      return left === right ? 0 : (left < right ? -1 : 1) * direction;
+    });
+  }, [pools, sortKey, sortDirection]);
+
+  // The venue paying the best rate, usually the one behind the protocol's headline APY
+  const topPoolId = useMemo(() => {
+    return pools.reduce<PoolData | null>((best, pool) => !best || getTotalApr(pool) > getTotalApr(best) ? pool : best, null)?.id;
+  }, [pools]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'name' ? 'asc' : 'desc');
+    }
+  };
+
+  const renderSortIcon = (key: SortKey) => {
+    if (key !== sortKey) return <ArrowUpDown className="h-3 w-3 text-gray-400" />;
+    return sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button variant="ghost" size="sm" onClick={onBack}>
+        <ArrowLeft className="h-4 w-4 mr-1" />All protocols
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {protocol?.name ?? protocolId}
+            {protocol && <Badge variant="secondary">{protocol.category}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            {protocol
+              ? `${formatCurrency(protocol.tvl)} TVL at ${formatPercentage(protocol.apy)} APY across ${pools.length} pools and markets`
+              : 'Pools and markets of this protocol'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && <p className="text-sm text-gray-600">Loading pools...</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {pools.length === 0 ? (
+            !isLoading && !error && <p className="text-sm text-gray-600">No pools or markets are tracked for this protocol.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map((column) => (
+                    <TableHead key={column.key} className={column.align === 'right' ? 'text-right' : ''}>
+                      <button className="inline-flex items-center gap-1" onClick={() => handleSort(column.key)}>
+                        {column.label}
+                        {renderSortIcon(column.key)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedPools.map((pool) => (
+                  <TableRow key={pool.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{pool.name}</span>
+                        <Badge variant="outline">{pool.kind === 'pool' ? 'Pool' : 'Market'}</Badge>
+                        {pool.id === topPoolId && <Star className="h-4 w-4 text-yellow-500" />}
+                      </div>
+                      <p className="text-xs text-gray-500 font-mono truncate">{pool.address}</p>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {pool.feeTier !== undefined ? formatPercentage(pool.feeTier / 10000) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(pool.tvl)}</TableCell>
+                    <TableCell className="text-right">{pool.kind === 'pool' ? formatCurrency(pool.volume24h) : '—'}</TableCell>
+                    <TableCell className="text-right text-green-600">{formatPercentage(pool.feeApr)}</TableCell>
+                    <TableCell className="text-right text-blue-600">{formatPercentage(pool.rewardApr)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatPercentage(getTotalApr(pool))}</TableCell>
+                    <TableCell className="text-right">
+                      {pool.utilization !== undefined ? formatPercentage(pool.utilization * 100) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ProtocolPoolsPage;
@@ -0,0 +1,16 @@
+import React from 'react';
+import { Badge } from '@/components/ui';
+import { getRiskColor, getRiskLabel } from '@/utils/colors';
+
+interface RiskBadgeProps {
+  risk: number;
+}
+
+const RiskBadge: React.FC<RiskBadgeProps> = ({ risk }) => (
+  <Badge variant="outline" className="gap-1">
+    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getRiskColor(risk) }}></span>
+    {getRiskLabel(risk)} ({risk}/10)
+  </Badge>
+);
+
+export default RiskBadge;
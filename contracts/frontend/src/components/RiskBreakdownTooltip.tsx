@@ -0,0 +1,43 @@
+import React from 'react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { getRiskColor } from '@/utils/colors';
+import type { RiskAssessment } from '@/types/analytics';
+
+interface RiskBreakdownTooltipProps {
+  assessment?: RiskAssessment;
+  children: React.ReactNode;
+}
+
+// Explains a risk score factor by factor on hover; renders the trigger alone without a breakdown
+const RiskBreakdownTooltip: React.FC<RiskBreakdownTooltipProps> = ({ assessment, children }) => {
+  if (!assessment) return <>{children}</>;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="cursor-help">{children}</div>
+        </TooltipTrigger>
+        <TooltipContent className="w-80">
+          <p className="font-semibold mb-2">{assessment.label} risk ({assessment.score}/10)</p>
+          <div className="space-y-2">
+            {assessment.factors.map((factor) => (
+              <div key={factor.key}>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="flex items-center gap-1 font-medium">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getRiskColor(factor.score) }}></span>
+                    {factor.label}
+                  </span>
+                  <span>{factor.score}/10 · {Math.round(factor.weight * 100)}% weight</span>
+                </div>
+                <p className="text-xs text-gray-500">{factor.detail}</p>
+              </div>
+            ))}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
+
+export default RiskBreakdownTooltip;
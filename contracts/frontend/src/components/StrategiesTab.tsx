@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui';
+import { ArrowDown, ArrowUp, ArrowUpDown, Layers } from 'lucide-react';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { analyzeLiquidityPosition, type LiquidityPositionAnalysis } from '@/utils/liquidity';
+import { getPendingRewardValue, hasClaimableRewards, planRewardClaims } from '@/utils/rewards';
+import { useClaimCosts } from '@/hooks/useClaimCosts';
+import type { RewardPlan, TokenPrices, UserPosition } from '@/types/analytics';
+import PositionDetailDrawer from '@/components/PositionDetailDrawer';
+import RiskBadge from '@/components/RiskBadge';
+
+/**
+ * @title StrategiesTab
+ * @description Sortable table of the user's strategy positions with a per-position detail drawer
+ * and the recommended reward claim or compound for each
+ * @author Base DeFi Analytics Team
+ */
+
+type PositionSortKey = 'strategyName' | 'amount' | 'currentValue' | 'pnl' | 'apy' | 'riskLevel' | 'entryDate' | 'pendingRewards';
+type LiquiditySortKey = 'impermanentLoss' | 'feesValue' | 'netVsHodl';
+type SortKey = PositionSortKey | LiquiditySortKey;
+
+interface StrategiesTabProps {
+  positions: UserPosition[];
+  prices: TokenPrices;
+}
+
+const COLUMNS: { key: SortKey; label: string; align?: 'right' }[] = [
+  { key: 'strategyName', label: 'Strategy' },
+  { key: 'amount', label: 'Deposited', align: 'right' },
+  { key: 'currentValue', label: 'Value', align: 'right' },
+  { key: 'pnl', label: 'P&L', align: 'right' },
+  { key: 'apy', label: 'APY', align: 'right' },
+  { key: 'riskLevel', label: 'Risk' },
+  { key: 'pendingRewards', label: 'Pending Rewards', align: 'right' },
+  { key: 'entryDate', label: 'Entered' }
+];
+
+// Only shown when at least one position is a concentrated-liquidity LP
+const LIQUIDITY_COLUMNS: { key: LiquiditySortKey; label: string; align?: 'right' }[] = [
+  { key: 'impermanentLoss', label: 'IL vs HODL', align: 'right' },
+  { key: 'feesValue', label: 'Fees Earned', align: 'right' },
+  { key: 'netVsHodl', label: 'Net vs HODL', align: 'right' }
+];
+
+type LiquidityAnalyses = Record<string, LiquidityPositionAnalysis>;
+// Why a position could not be analyzed, shown in its row
+type LiquidityErrors = Record<string, string>;
+
+// Strategy ids repeat across wallets when a multi-wallet portfolio is loaded
+const getPositionKey = (position: UserPosition): string => `${position.owner ?? ''}:${position.strategyId}`;
+
+const isLiquiditySortKey = (key: SortKey): key is LiquiditySortKey => {
+  return LIQUIDITY_COLUMNS.some(column => column.key === key);
+};
+
+const getSortValue = (position: UserPosition, key: SortKey, analyses: LiquidityAnalyses, prices: TokenPrices) => {
+  // Per-token rewards sort by their value at current prices, as the column shows them
+  if (key === 'pendingRewards') return getPendingRewardValue(position, prices);
+  if (!isLiquiditySortKey(key)) return position[key];
+  // Non-LP positions sort below every LP position
+  return analyses[getPositionKey(position)]?.[key] ?? Number.NEGATIVE_INFINITY;
+};
+
+const compareValues = (
+  a: UserPosition,
+  b: UserPosition,
+  key: SortKey,
+  analyses: LiquidityAnalyses,
+  prices: TokenPrices
+): number => {
+  const left = getSortValue(a, key, analyses, prices);
+  const right = getSortValue(b, key, analyses, prices);
+  if (left instanceof Date && right instanceof Date) return left.getTime() - right.getTime();
+  if (typeof left === 'string' && typeof right === 'string') return left.localeCompare(right);
+  if (left === right) return 0;
+  return (left as number) < (right as number) ? -1 : 1;
+};
+
+const StrategiesTab: React.FC<StrategiesTabProps> = ({ positions, prices }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('currentValue');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // Positions whose token prices are unknown show why instead of a bogus IL
+  const { analyses: liquidityAnalyses, errors: liquidityErrors } = useMemo(() => {
+    const analyses: LiquidityAnalyses = {};
+    const errors: LiquidityErrors = {};
+    positions.forEach(position => {
+      if (!position.liquidityPosition) return;
+      try {
+        analyses[getPositionKey(position)] = analyzeLiquidityPosition(position.liquidityPosition, prices);
+      } catch (err) {
+        errors[getPositionKey(position)] = err instanceof Error ? err.message : 'Analysis failed';
+      }
+    });
+    return { analyses, errors };
+  }, [positions, prices]);
+
+  const hasRewards = positions.some(hasClaimableRewards);
+  const { costs: claimCosts, error: claimCostsError } = useClaimCosts(hasRewards);
+
+  // Plans need the current gas price; until it loads only reward values are shown
+  const rewardPlans = useMemo(() => {
+    const plans: Record<string, RewardPlan> = {};
+    if (!claimCosts) return plans;
+    const now = new Date();
+    positions.filter(hasClaimableRewards).forEach(position => {
+      plans[getPositionKey(position)] = planRewardClaims(position, prices, claimCosts, now);
+    });
+    return plans;
+  }, [positions, prices, claimCosts]);
+
+  const hasLiquidityPositions = positions.some(position => position.liquidityPosition);
+  const columns = hasLiquidityPositions ? [...COLUMNS, ...LIQUIDITY_COLUMNS] : COLUMNS;
+
+  const sortedPositions = useMemo(() => {
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return [...positions].sort((a, b) => compareValues(a, b, sortKey, liquidityAnalyses, prices) * direction);
+  }, [positions, sortKey, sortDirection, liquidityAnalyses, prices]);
+
+  const selectedPosition = useMemo(() => {
+    return positions.find(position => getPositionKey(position) === selectedKey) || null;
+  }, [positions, selectedKey]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'strategyName' ? 'asc' : 'desc');
+    }
+  };
+
+  const renderSortIcon = (key: SortKey) => {
+    if (key !== sortKey) return <ArrowUpDown className="h-3 w-3 text-gray-400" />;
+    return sortDirection === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  // Only positions due for a claim or compound are flagged
+  const renderClaimBadge = (plan?: RewardPlan) => {
+    if (!plan || plan.action === 'wait') return null;
+    return (
+      <Badge variant="outline" className="ml-2 text-green-600">
+        {plan.action === 'claim' ? 'Claim' : 'Compound'}
+      </Badge>
+    );
+  };
+
+  const renderLiquidityCells = (analysis?: LiquidityPositionAnalysis, error?: string) => {
+    if (error) {
+      return (
+        <TableCell colSpan={LIQUIDITY_COLUMNS.length} className="text-right text-sm text-red-600">
+          Cannot analyze LP position: {error}
+        </TableCell>
+      );
+    }
+    if (!analysis) {
+      return LIQUIDITY_COLUMNS.map(column => (
+        <TableCell key={column.key} className="text-right text-gray-400">—</TableCell>
+      ));
+    }
+    return (
+      <>
+        <TableCell className={`text-right ${analysis.impermanentLoss < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+          {formatCurrency(analysis.impermanentLoss)}
+          <span className="text-xs ml-1">({formatPercentage(analysis.impermanentLossPercentage)})</span>
+          <Badge variant="outline" className={`ml-2 ${analysis.inRange ? 'text-green-600' : 'text-orange-600'}`}>
+            {analysis.inRange ? 'In range' : 'Out of range'}
+          </Badge>
+        </TableCell>
+        <TableCell className="text-right text-blue-600">{formatCurrency(analysis.feesValue)}</TableCell>
+        <TableCell className={`text-right ${analysis.netVsHodl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {formatCurrency(analysis.netVsHodl)}
+          <span className="text-xs ml-1">({formatPercentage(analysis.netVsHodlPercentage)})</span>
+        </TableCell>
+      </>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />Strategy Positions
+        </CardTitle>
+        <CardDescription>Select a position to inspect its P&L history and reward claims</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {positions.length === 0 ? (
+          <p className="text-sm text-gray-600">No strategy positions found for this portfolio.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columns.map((column) => (
+                  <TableHead key={column.key} className={column.align === 'right' ? 'text-right' : ''}>
+                    <button className="inline-flex items-center gap-1" onClick={() => handleSort(column.key)}>
+                      {column.label}
+                      {renderSortIcon(column.key)}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedPositions.map((position) => (
+                <TableRow key={getPositionKey(position)} className="cursor-pointer"
+                  onClick={() => setSelectedKey(getPositionKey(position))}>
+                  <TableCell className="font-semibold">{position.strategyName}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(position.amount)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(position.currentValue)}</TableCell>
+                  <TableCell className={`text-right ${position.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(position.pnl)}
+                    <span className="text-xs ml-1">({formatPercentage(position.pnlPercentage)})</span>
+                  </TableCell>
+                  <TableCell className="text-right text-green-600">{formatPercentage(position.apy)}</TableCell>
+                  <TableCell><RiskBadge risk={position.riskLevel} /></TableCell>
+                  <TableCell className="text-right text-blue-600">
+                    {formatCurrency(getPendingRewardValue(position, prices))}
+                    {renderClaimBadge(rewardPlans[getPositionKey(position)])}
+                  </TableCell>
+                  <TableCell>{position.entryDate.toLocaleDateString()}</TableCell>
+                  {hasLiquidityPositions && renderLiquidityCells(
+                    liquidityAnalyses[getPositionKey(position)],
+                    liquidityErrors[getPositionKey(position)]
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <PositionDetailDrawer
+        position={selectedPosition}
+        prices={prices}
+        rewardPlan={selectedKey ? rewardPlans[selectedKey] : undefined}
+        claimCostsError={claimCostsError}
+        onClose={() => setSelectedKey(null)}
+      />
+    </Card>
+  );
+};
+
+export default StrategiesTab;
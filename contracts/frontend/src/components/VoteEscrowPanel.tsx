@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Badge, Button } from '@/components/ui';
+import { Lock, Vote } from 'lucide-react';
+import { useVoteEscrow } from '@/hooks/useVoteEscrow';
+import { formatCurrency, formatNumber, formatPercentage } from '@/utils/formatters';
+import { COLORS } from '@/utils/colors';
+import { MAX_VOTED_POOLS, getVotingPowerSchedule } from '@/utils/voteEscrow';
+import type { GaugeEpoch, RewardValuation } from '@/types/analytics';
+
+/**
+ * @title VoteEscrowPanel
+ * @description Aerodrome gauge votes and voter rewards per epoch, the veAERO locks of the
+ * selected wallets with their voting power decay, and the best vote split for one lock
+ * @author Base DeFi Analytics Team
+ */
+
+interface VoteEscrowPanelProps {
+  owners: string[];
+}
+
+const SERIES_COLORS = Object.values(COLORS);
+
+const sumValue = (rewards: RewardValuation[]): number => rewards.reduce((sum, reward) => sum + reward.value, 0);
+
+// One row per epoch with each pool's votes under its name
+const buildEpochChartData = (epochs: GaugeEpoch[]) => {
+  const rows = new Map<number, Record<string, number>>();
+  epochs.forEach(gauge => {
+    const key = gauge.epochStart.getTime();
+    const row = rows.get(key) || { epochStart: key };
+    row[gauge.name] = gauge.votes;
+    rows.set(key, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => a.epochStart - b.epochStart);
+};
+
+const VoteEscrowPanel: React.FC<VoteEscrowPanelProps> = ({ owners }) => {
+  const [selectedTokenId, setSelectedTokenId] = useState<string | null>(null);
+  const [maxPools, setMaxPools] = useState(MAX_VOTED_POOLS);
+  const { gauges, epochs, locks, plan, isLoading, error } = useVoteEscrow(owners, selectedTokenId, maxPools);
+
+  // Start on the first lock, and move off a lock that no longer belongs to the wallets shown
+  useEffect(() => {
+    if (!locks.some(lock => lock.tokenId === selectedTokenId)) setSelectedTokenId(locks[0]?.tokenId ?? null);
+  }, [locks, selectedTokenId]);
+
+  const selectedLock = locks.find(lock => lock.tokenId === selectedTokenId) || null;
+  const epochChartData = useMemo(() => buildEpochChartData(epochs), [epochs]);
+  const poolNames = useMemo(() => Array.from(new Set(epochs.map(gauge => gauge.name))), [epochs]);
+
+  const decayData = useMemo(() => {
+    if (!selectedLock) return [];
+    return getVotingPowerSchedule(selectedLock, new Date()).map(point => ({
+      timestamp: point.timestamp.getTime(),
+      votingPower: point.votingPower
+    }));
+  }, [selectedLock]);
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Vote className="h-5 w-5" />Gauge Votes & Voter Rewards
+          </CardTitle>
+          <CardDescription>
+            This epoch's veAERO votes per pool; fees are last epoch's, bribes those deposited so far
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {gauges.length === 0 ? (
+            <p className="text-sm text-gray-600">No gauge data yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pool</TableHead>
+                  <TableHead className="text-right">Votes</TableHead>
+                  <TableHead className="text-right">Vote Share</TableHead>
+                  <TableHead className="text-right">Fees</TableHead>
+                  <TableHead className="text-right">Bribes</TableHead>
+                  <TableHead className="text-right">Per 1k Votes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {gauges.map((gauge) => (
+                  <TableRow key={gauge.pool}>
+                    <TableCell className="font-semibold">{gauge.name}</TableCell>
+                    <TableCell className="text-right">{formatNumber(gauge.votes)}</TableCell>
+                    <TableCell className="text-right">{formatPercentage(gauge.voteShare)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(sumValue(gauge.fees))}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(sumValue(gauge.bribes))}
+                      {gauge.bribes.some(bribe => bribe.priceSource === 'unpriced') && (
+                        <Badge variant="outline" className="ml-2 text-orange-600">Unpriced tokens</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-green-600">{formatCurrency(gauge.rewardPer1kVotes)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {epochChartData.length > 1 && (
+            <ResponsiveContainer width="100%" height={240}>
+              <LineChart data={epochChartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="epochStart" tickFormatter={(value) => new Date(value).toLocaleDateString()} />
+                <YAxis tickFormatter={(value) => formatNumber(value)} />
+                <Tooltip labelFormatter={(value) => `Epoch of ${new Date(value as number).toLocaleDateString()}`}
+                  formatter={(value) => formatNumber(value as number)} />
+                <Legend />
+                {poolNames.map((name, index) => (
+                  <Line key={name} type="monotone" dataKey={name} stroke={SERIES_COLORS[index % SERIES_COLORS.length]} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />veAERO Locks
+          </CardTitle>
+          <CardDescription>Voting power decays linearly to zero at unlock unless the lock is permanent</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && <p className="text-sm text-gray-600">Loading locks...</p>}
+          {!isLoading && locks.length === 0 && <p className="text-sm text-gray-600">No veAERO locks in these wallets.</p>}
+          <div className="flex flex-wrap gap-2">
+            {locks.map((lock) => (
+              <Button key={lock.tokenId} size="sm" variant={lock.tokenId === selectedTokenId ? 'default' : 'outline'}
+                onClick={() => setSelectedTokenId(lock.tokenId)}>
+                #{lock.tokenId}
+              </Button>
+            ))}
+          </div>
+
+          {selectedLock && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-600">Locked</p>
+                  <p className="font-semibold">{formatNumber(selectedLock.amount)} AERO</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Voting Power</p>
+                  <p className="font-semibold">{formatNumber(selectedLock.votingPower)} veAERO</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Unlocks</p>
+                  <p className="font-semibold">{selectedLock.unlockAt ? selectedLock.unlockAt.toLocaleDateString() : 'Permanent'}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Last Voted</p>
+                  <p className="font-semibold">{selectedLock.lastVoted ? selectedLock.lastVoted.toLocaleDateString() : 'Never'}</p>
+                </div>
+              </div>
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={decayData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="timestamp" tickFormatter={(value) => new Date(value).toLocaleDateString()} />
+                  <YAxis tickFormatter={(value) => formatNumber(value)} />
+                  <Tooltip labelFormatter={(value) => new Date(value as number).toLocaleDateString()}
+                    formatter={(value) => [formatNumber(value as number), 'Voting Power']} />
+                  <Line type="stepAfter" dataKey="votingPower" stroke={COLORS.primary} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedLock && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Vote Optimizer</CardTitle>
+            <CardDescription>
+              Split of #{selectedLock.tokenId}'s votes that earns the most fees and bribes this epoch, with its
+              current votes taken out of each pool
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600">Vote for at most</span>
+              <Input type="number" min={1} max={MAX_VOTED_POOLS} value={maxPools} className="w-20"
+                onChange={(e) => setMaxPools(Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_VOTED_POOLS))} />
+              <span className="text-gray-600">pools</span>
+            </div>
+            {!plan ? (
+              <p className="text-sm text-gray-600">Planning votes...</p>
+            ) : plan.allocations.length === 0 ? (
+              <p className="text-sm text-gray-600">No tracked pool pays voters this epoch.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-600">Expected Reward</p>
+                    <p className="font-semibold text-green-600">{formatCurrency(plan.expectedReward)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Current Votes Earn</p>
+                    <p className="font-semibold">{formatCurrency(plan.currentReward)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">APR on Locked AERO</p>
+                    <p className="font-semibold">{formatPercentage(plan.apr)}</p>
+                  </div>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pool</TableHead>
+                      <TableHead className="text-right">Weight</TableHead>
+                      <TableHead className="text-right">Votes</TableHead>
+                      <TableHead className="text-right">Expected Reward</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.allocations.map((allocation) => (
+                      <TableRow key={allocation.pool}>
+                        <TableCell className="font-semibold">{allocation.name}</TableCell>
+                        <TableCell className="text-right">{formatPercentage(allocation.weight)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(allocation.votes)}</TableCell>
+                        <TableCell className="text-right text-green-600">{formatCurrency(allocation.expectedReward)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default VoteEscrowPanel;
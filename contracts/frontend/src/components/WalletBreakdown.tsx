@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency, formatPercentage } from '@/utils/formatters';
+import { shortenAddress, summarizePositions } from '@/utils/portfolio';
+import type { TokenPrices, UserPosition, WatchedWallet } from '@/types/analytics';
+
+/**
+ * @title WalletBreakdown
+ * @description Per-wallet split of a multi-wallet portfolio's value, P&L and yield
+ * @author Base DeFi Analytics Team
+ */
+
+interface WalletBreakdownProps {
+  wallets: WatchedWallet[];
+  positions: UserPosition[];
+  prices: TokenPrices;
+}
+
+const WalletBreakdown: React.FC<WalletBreakdownProps> = ({ wallets, positions, prices }) => {
+  // Wallets without positions stay listed so an empty address is visibly empty, not missing
+  const rows = useMemo(() => {
+    const totalValue = positions.reduce((sum, pos) => sum + pos.currentValue, 0);
+    return wallets.map(wallet => {
+      const owned = positions.filter(position => position.owner === wallet.address.toLowerCase());
+      const summary = summarizePositions(owned, prices);
+      return {
+        wallet,
+        summary,
+        share: summary && totalValue > 0 ? (summary.totalValue / totalValue) * 100 : 0
+      };
+    });
+  }, [wallets, positions, prices]);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Wallet</TableHead>
+          <TableHead className="text-right">Value</TableHead>
+          <TableHead className="text-right">Share</TableHead>
+          <TableHead className="text-right">P&L</TableHead>
+          <TableHead className="text-right">Weighted APY</TableHead>
+          <TableHead className="text-right">Positions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(({ wallet, summary, share }) => (
+          <TableRow key={wallet.address}>
+            <TableCell>
+              <p className="font-semibold">{wallet.label}</p>
+              <p className="text-xs text-gray-500 font-mono">{shortenAddress(wallet.address)}</p>
+            </TableCell>
+            <TableCell className="text-right">{formatCurrency(summary?.totalValue ?? 0)}</TableCell>
+            <TableCell className="text-right">{formatPercentage(share)}</TableCell>
+            <TableCell className={`text-right ${(summary?.totalPnL ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(summary?.totalPnL ?? 0)}
+            </TableCell>
+            <TableCell className="text-right text-green-600">{formatPercentage(summary?.weightedAPY ?? 0)}</TableCell>
+            <TableCell className="text-right">{summary?.positionCount ?? 0}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default WalletBreakdown;
@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  // tsconfig sets isolatedModules, so ts-jest only transpiles and type errors are left to
+  // `npm run typecheck`
+  transform: {
+    '^.+\\.ts$': 'ts-jest'
+  },
+  // The shared types and utils under ../../../ resolve their packages from this package
+  modulePaths: ['<rootDir>/node_modules']
+};
@@ -0,0 +1,235 @@
+import { randomUUID } from 'crypto';
+import type { AlertCondition, AlertDelivery, AlertEvent, AlertRule, UserPosition } from '../models';
+import type { AnalyticsService } from '../services/AnalyticsService';
+import { ApiError } from '../middleware/errorHandler';
+import { evaluateCondition, needsPositions } from './conditions';
+import { MemoryAlertRuleStore } from './ruleStore';
+import type { AlertInput, AlertRuleStore, AlertSink, AlertTrigger } from './types';
+
+/**
+ * @title AlertEngine
+ * @description Evaluates user-defined alert rules on each data refresh and hands new alerts
+ * to every sink. An alert fires when its condition starts to hold for a subject and again
+ * only after the condition has cleared.
+ * @author Base DeFi Analytics Team
+ */
+
+export interface AlertEngineOptions {
+  store?: AlertRuleStore;
+  sinks?: AlertSink[];
+  // Positions may come from on-chain discovery, too slow to re-read on every refresh
+  positionTtl?: number;
+  // Recent events kept for the /alerts/events endpoint
+  historySize?: number;
+}
+
+export interface NewAlertRule {
+  name: string;
+  condition: AlertCondition;
+  enabled?: boolean;
+  webhookUrl?: string;
+}
+
+export interface AlertRuleUpdate {
+  name?: string;
+  enabled?: boolean;
+  // null removes the rule's own webhook
+  webhookUrl?: string | null;
+}
+
+export class AlertEngine {
+  private readonly store: AlertRuleStore;
+  private readonly sinks: AlertSink[];
+  private rules: AlertRule[] = [];
+  private loaded: Promise<void> | null = null;
+  private events: AlertEvent[] = [];
+  private evaluating = false;
+
+  // Subjects each rule fired for at the last refresh, and per-rule condition memory
+  private readonly active = new Map<string, Set<string>>();
+  private readonly memory = new Map<string, Map<string, number>>();
+  private readonly positionCache = new Map<string, { positions: UserPosition[]; fetchedAt: number }>();
+
+  constructor(
+    private readonly service: AnalyticsService,
+    private readonly options: AlertEngineOptions = {}
+  ) {
+    this.store = options.store || new MemoryAlertRuleStore();
+    this.sinks = [...(options.sinks || [])];
+  }
+
+  addSink(sink: AlertSink): void {
+    this.sinks.push(sink);
+  }
+
+  async listRules(): Promise<AlertRule[]> {
+    await this.load();
+    return this.rules;
+  }
+
+  async createRule({ name, condition, enabled = true, webhookUrl }: NewAlertRule): Promise<AlertRule> {
+    await this.load();
+    const rule: AlertRule = {
+      id: randomUUID(),
+      name,
+      condition,
+      enabled,
+      ...(webhookUrl ? { webhookUrl } : {}),
+      createdAt: new Date()
+    };
+    await this.saveRules([...this.rules, rule]);
+    return rule;
+  }
+
+  async updateRule(id: string, { name, enabled, webhookUrl }: AlertRuleUpdate): Promise<AlertRule> {
+    const rule = await this.getRule(id);
+    const updated: AlertRule = {
+      ...rule,
+      ...(name !== undefined ? { name } : {}),
+      ...(enabled !== undefined ? { enabled } : {}),
+      ...(webhookUrl ? { webhookUrl } : {})
+    };
+    if (webhookUrl === null) delete updated.webhookUrl;
+    // A re-enabled rule starts fresh instead of remembering subjects from before it was paused
+    if (!updated.enabled) this.forget(id);
+    await this.saveRules(this.rules.map(candidate => candidate.id === id ? updated : candidate));
+    return updated;
+  }
+
+  async deleteRule(id: string): Promise<AlertRule> {
+    const rule = await this.getRule(id);
+    this.forget(id);
+    await this.saveRules(this.rules.filter(candidate => candidate.id !== id));
+    return rule;
+  }
+
+  // Newest first
+  getEvents(limit = 50): AlertEvent[] {
+    return this.events.slice(0, limit);
+  }
+
+  // Refreshes that overlap a slow one are skipped rather than queued
+  async evaluate(input?: AlertInput, now: Date = new Date()): Promise<AlertEvent[]> {
+    if (this.evaluating) return [];
+    this.evaluating = true;
+    try {
+      await this.load();
+      const state = input || await this.readInput();
+      const fired: { event: AlertEvent; rule: AlertRule }[] = [];
+
+      for (const rule of this.rules.filter(candidate => candidate.enabled)) {
+        try {
+          const triggers = await this.evaluateRule(rule, state, now);
+          const previous = this.active.get(rule.id) || new Set<string>();
+          this.active.set(rule.id, new Set(triggers.map(trigger => trigger.subject)));
+          triggers
+            .filter(trigger => !previous.has(trigger.subject))
+            .forEach(trigger => fired.push({ event: this.createEvent(rule, trigger, now), rule }));
+        } catch (err) {
+          // One broken rule, e.g. an unreachable node for its address, does not stop the rest
+          console.error(`Alert rule ${rule.id} failed`, err);
+        }
+      }
+
+      await Promise.all(fired.map(({ event, rule }) => this.deliver(event, rule)));
+      return fired.map(({ event }) => event);
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  // Sends a sample event through every sink so users can check their webhook
+  async sendTest(id: string): Promise<{ event: AlertEvent; deliveries: AlertDelivery[] }> {
+    const rule = await this.getRule(id);
+    const event = this.createEvent(rule, { subject: 'test', message: `Test alert for "${rule.name}"`, value: 0 }, new Date());
+    return { event, deliveries: await this.deliver(event, rule) };
+  }
+
+  private async evaluateRule(rule: AlertRule, input: AlertInput, now: Date): Promise<AlertTrigger[]> {
+    const positions = needsPositions(rule.condition) ? await this.getPositions(rule.condition.address, now) : [];
+    let memory = this.memory.get(rule.id);
+    if (!memory) {
+      memory = new Map();
+      this.memory.set(rule.id, memory);
+    }
+    return evaluateCondition(rule.condition, { input, positions, memory });
+  }
+
+  private async getPositions(address: string, now: Date): Promise<UserPosition[]> {
+    const key = address.toLowerCase();
+    const cached = this.positionCache.get(key);
+    if (cached && now.getTime() - cached.fetchedAt < (this.options.positionTtl ?? 60000)) return cached.positions;
+    const positions = await this.service.getUserPositions(address);
+    this.positionCache.set(key, { positions, fetchedAt: now.getTime() });
+    return positions;
+  }
+
+  private async readInput(): Promise<AlertInput> {
+    const [protocols, opportunities, prices] = await Promise.all([
+      this.service.getProtocols(),
+      this.service.getArbitrageOpportunities({}),
+      this.service.getPrices()
+    ]);
+    return { protocols, opportunities, prices };
+  }
+
+  private createEvent(rule: AlertRule, trigger: AlertTrigger, now: Date): AlertEvent {
+    const event: AlertEvent = {
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      kind: rule.condition.kind,
+      subject: trigger.subject,
+      message: trigger.message,
+      value: trigger.value,
+      triggeredAt: now
+    };
+    this.events = [event, ...this.events].slice(0, this.options.historySize ?? 200);
+    return event;
+  }
+
+  // Sink failures are recorded on the event and logged, never thrown, so one dead webhook
+  // cannot block the others
+  private async deliver(event: AlertEvent, rule: AlertRule): Promise<AlertDelivery[]> {
+    const results = await Promise.allSettled(this.sinks.map(sink => sink.deliver(event, rule)));
+    const deliveries = results.map((result, index): AlertDelivery => {
+      const sink = this.sinks[index].name;
+      if (result.status === 'fulfilled') return { sink, ok: true };
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.error(`Alert sink ${sink} failed for rule ${rule.id}: ${error}`);
+      return { sink, ok: false, error };
+    });
+    this.events = this.events.map(candidate => candidate.id === event.id ? { ...candidate, deliveries } : candidate);
+    return deliveries;
+  }
+
+  private async getRule(id: string): Promise<AlertRule> {
+    await this.load();
+    const rule = this.rules.find(candidate => candidate.id === id);
+    if (!rule) throw ApiError.notFound(`Alert rule ${id} not found`);
+    return rule;
+  }
+
+  private forget(id: string): void {
+    this.active.delete(id);
+    this.memory.delete(id);
+  }
+
+  private async saveRules(rules: AlertRule[]): Promise<void> {
+    await this.store.save(rules);
+    this.rules = rules;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load()
+        .then(rules => { this.rules = rules; })
+        // Retry on the next call instead of caching the failure
+        .catch(err => {
+          this.loaded = null;
+          throw err;
+        });
+    }
+    return this.loaded;
+  }
+}
@@ -0,0 +1,83 @@
+import { calculateHealthFactor, groupLendingAccounts } from '../../../../utils/lending';
+import { getRankingProfit } from '../arbitrage/costs';
+import type { AlertCondition, UserPosition } from '../models';
+import type { AlertInput, AlertTrigger } from './types';
+
+/**
+ * @title Alert conditions
+ * @description Turns one rule condition and the current data into the triggers that hold now
+ * @author Base DeFi Analytics Team
+ */
+
+export interface ConditionContext {
+  input: AlertInput;
+  // Positions of the condition's address, loaded only for position-based conditions
+  positions: UserPosition[];
+  // Per-rule memory across refreshes, e.g. the last risk level seen per position
+  memory: Map<string, number>;
+}
+
+export const needsPositions = (condition: AlertCondition): condition is Extract<AlertCondition, { address: string }> => {
+  return condition.kind === 'positionRisk' || condition.kind === 'healthFactor';
+};
+
+const formatNumber = (value: number): string => value.toFixed(2);
+
+export const evaluateCondition = (condition: AlertCondition, { input, positions, memory }: ConditionContext): AlertTrigger[] => {
+  switch (condition.kind) {
+    case 'protocolApy': {
+      const protocol = input.protocols.find(candidate => candidate.id === condition.protocolId);
+      if (!protocol) return [];
+      const holds = condition.direction === 'above' ? protocol.apy > condition.threshold : protocol.apy < condition.threshold;
+      return holds ? [{
+        subject: protocol.id,
+        message: `${protocol.name} APY is ${formatNumber(protocol.apy)}%, ${condition.direction} ${condition.threshold}%`,
+        value: protocol.apy
+      }] : [];
+    }
+
+    case 'protocolChange':
+      return input.protocols
+        .filter(protocol => !condition.protocolId || protocol.id === condition.protocolId)
+        .filter(protocol => protocol.change24h < condition.threshold)
+        .map(protocol => ({
+          subject: protocol.id,
+          message: `${protocol.name} 24h change is ${formatNumber(protocol.change24h)}%, below ${condition.threshold}%`,
+          value: protocol.change24h
+        }));
+
+    // Net of gas and pool costs when the service priced them
+    case 'arbitrageProfit':
+      return input.opportunities
+        .filter(opportunity => !opportunity.isExecuted && getRankingProfit(opportunity) >= condition.minProfit)
+        .map(opportunity => ({
+          subject: opportunity.id,
+          message: `${opportunity.tokenA}/${opportunity.tokenB} ${opportunity.dexA} to ${opportunity.dexB}: ` +
+            `$${formatNumber(getRankingProfit(opportunity))} ${opportunity.netProfit !== undefined ? 'net' : 'potential'} profit`,
+          value: getRankingProfit(opportunity)
+        }));
+
+    // The first refresh only records a baseline, so existing risk levels do not alert
+    case 'positionRisk':
+      return positions.flatMap(position => {
+        const previous = memory.get(position.strategyId);
+        memory.set(position.strategyId, position.riskLevel);
+        if (previous === undefined || position.riskLevel <= previous) return [];
+        return [{
+          subject: `${position.strategyId}:${position.riskLevel}`,
+          message: `${position.strategyName} risk rose from ${previous} to ${position.riskLevel}`,
+          value: position.riskLevel
+        }];
+      });
+
+    case 'healthFactor':
+      return groupLendingAccounts(positions)
+        .map(account => ({ account, healthFactor: calculateHealthFactor(account, input.prices) }))
+        .filter(({ healthFactor }) => healthFactor < condition.threshold)
+        .map(({ account, healthFactor }) => ({
+          subject: account.accountId,
+          message: `${account.accountId} health factor is ${formatNumber(healthFactor)}, below ${condition.threshold}`,
+          value: healthFactor
+        }));
+  }
+};
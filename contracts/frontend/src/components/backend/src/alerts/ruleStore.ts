@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import type { AlertRule } from '../models';
+import type { AlertRuleStore } from './types';
+
+/**
+ * @title Alert rule store
+ * @description Persists user-defined alert rules so they survive restarts
+ * @author Base DeFi Analytics Team
+ */
+
+export class FileAlertRuleStore implements AlertRuleStore {
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<AlertRule[]> {
+    try {
+      const rules: AlertRule[] = JSON.parse(await fs.readFile(this.path, 'utf8'));
+      return rules.map(rule => ({ ...rule, createdAt: new Date(rule.createdAt) }));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  // Same temp-file-and-rename write as the indexer checkpoints
+  async save(rules: AlertRule[]): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(rules));
+    await fs.rename(tmpPath, this.path);
+  }
+}
+
+export class MemoryAlertRuleStore implements AlertRuleStore {
+  private rules: AlertRule[] = [];
+
+  async load(): Promise<AlertRule[]> {
+    return this.rules;
+  }
+
+  async save(rules: AlertRule[]): Promise<void> {
+    this.rules = rules;
+  }
+}
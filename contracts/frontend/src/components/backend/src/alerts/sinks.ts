@@ -0,0 +1,42 @@
+import { createHmac } from 'crypto';
+import type { AlertEvent, AlertRule } from '../models';
+import type { AlertSink } from './types';
+
+/**
+ * @title Alert sinks
+ * @description Outbound delivery of alert events. The in-app sink lives on the RealtimeHub.
+ * @author Base DeFi Analytics Team
+ */
+
+export interface WebhookSinkOptions {
+  // Used for rules without their own webhookUrl; rules without either are skipped
+  url?: string;
+  // Signs the body as X-Alert-Signature: sha256=<hex HMAC> so receivers can verify the sender
+  secret?: string;
+  timeout?: number;
+}
+
+export class WebhookSink implements AlertSink {
+  readonly name = 'webhook';
+
+  constructor(private readonly options: WebhookSinkOptions = {}) {}
+
+  async deliver(event: AlertEvent, rule: AlertRule): Promise<void> {
+    const url = rule.webhookUrl || this.options.url;
+    if (!url) return;
+
+    const body = JSON.stringify(event);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.secret) {
+      headers['X-Alert-Signature'] = `sha256=${createHmac('sha256', this.options.secret).update(body).digest('hex')}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.options.timeout ?? 5000)
+    });
+    if (!response.ok) throw new Error(`Webhook ${url} responded with status ${response.status}`);
+  }
+}
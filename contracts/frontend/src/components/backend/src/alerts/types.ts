@@ -0,0 +1,32 @@
+import type { AlertEvent, AlertRule, ArbitrageOpportunity, ProtocolData, TokenPrices } from '../models';
+
+/**
+ * @title Alert types
+ * @description Contracts between the alert engine, its rule store and delivery sinks
+ * @author Base DeFi Analytics Team
+ */
+
+// State of the world at one refresh, shared by every rule evaluated in it
+export interface AlertInput {
+  protocols: ProtocolData[];
+  opportunities: ArbitrageOpportunity[];
+  prices: TokenPrices;
+}
+
+// A condition that holds right now; the engine turns new ones into AlertEvents
+export interface AlertTrigger {
+  subject: string;
+  message: string;
+  value: number;
+}
+
+export interface AlertSink {
+  // Label for delivery reports and logs
+  name: string;
+  deliver(event: AlertEvent, rule: AlertRule): Promise<void>;
+}
+
+export interface AlertRuleStore {
+  load(): Promise<AlertRule[]>;
+  save(rules: AlertRule[]): Promise<void>;
+}
@@ -0,0 +1,71 @@
+import express, { type Express } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { AnalyticsService } from './services/AnalyticsService';
+import type { AnalyticsDataSource } from './services/dataSource';
+import type { PositionDiscovery } from './discovery/PositionDiscovery';
+import type { AlertEngine } from './alerts/AlertEngine';
+import type { ArbitrageCostModel } from './arbitrage/ArbitrageCostModel';
+import type { OrderKeeper } from './orders/OrderKeeper';
+import type { VoteEscrowService } from './voteEscrow/VoteEscrowService';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { rateLimiter } from './middleware/rateLimiter';
+import { createProtocolRouter } from './controllers/protocols';
+import { createYieldRouter } from './controllers/yields';
+import { createArbitrageRouter } from './controllers/arbitrage';
+import { createPortfolioRouter } from './controllers/portfolio';
+import { createMarketRouter } from './controllers/market';
+import { createAlertRouter } from './controllers/alerts';
+import { createOrderRouter } from './controllers/orders';
+import { createVoteEscrowRouter } from './controllers/voteEscrow';
+
+/**
+ * @title API application
+ * @description Builds the Express app around a data source without binding a port, so
+ * tests can drive it with supertest and an InMemoryDataSource
+ * @author Base DeFi Analytics Team
+ */
+
+export interface AppOptions {
+  dataSource: AnalyticsDataSource;
+  discovery?: PositionDiscovery;
+  // Mounts the /alerts endpoints when given
+  alerts?: AlertEngine;
+  // Mounts the /orders endpoints when given
+  orders?: OrderKeeper;
+  // Ranks arbitrage opportunities on net profit when given
+  costModel?: ArbitrageCostModel;
+  // Mounts the /ve endpoints when given
+  voteEscrow?: VoteEscrowService;
+  rateLimit?: { points?: number; duration?: number } | false;
+}
+
+export const createApp = ({ dataSource, discovery, alerts, orders, costModel, voteEscrow, rateLimit = {} }: AppOptions): Express => {
+  const app = express();
+  const service = new AnalyticsService(dataSource, discovery, costModel);
+
+  app.use(helmet());
+  app.use(cors());
+  app.use(express.json({ limit: '100kb' }));
+  if (rateLimit) app.use('/api', rateLimiter(rateLimit));
+
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  const api = express.Router();
+  api.use('/protocols', createProtocolRouter(service));
+  api.use('/yields', createYieldRouter(service));
+  api.use('/arbitrage', createArbitrageRouter(service));
+  api.use('/portfolio', createPortfolioRouter(service));
+  if (alerts) api.use('/alerts', createAlertRouter(alerts));
+  if (orders) api.use('/orders', createOrderRouter(orders));
+  if (voteEscrow) api.use('/ve', createVoteEscrowRouter(voteEscrow));
+  api.use('/', createMarketRouter(service));
+  app.use('/api/v1', api);
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+};
@@ -0,0 +1,94 @@
+import { JsonRpcProvider } from 'ethers';
+import { BASE_DEXES, getToken } from '../../../../services/dexRegistry';
+import type { ArbitrageOpportunity, TokenPrices } from '../models';
+import { applyArbitrageCosts, calculateArbitrageCosts, getEthPrice, getSwapLegs } from './costs';
+import { GasOracle } from './gasOracle';
+import { PoolQuoter } from './poolQuoter';
+import { getDefaultFeeRate } from './pools';
+import { solveTradeSize, type SizingLeg } from './sizing';
+import type { GasQuote, LegQuote, SwapLeg } from './types';
+
+/**
+ * @title ArbitrageCostModel
+ * @description Adds net profit, a cost breakdown and the profit-maximizing trade size to
+ * arbitrage opportunities using live Base gas prices and the liquidity of each leg's pool
+ * @author Base DeFi Analytics Team
+ */
+
+export interface ArbitrageCostModelOptions {
+  // How long gas and pool reads are reused
+  ttl?: number;
+  gasOracle?: GasOracle;
+  poolQuoter?: PoolQuoter;
+}
+
+const BASE_CHAIN_ID = 8453;
+
+export class ArbitrageCostModel {
+  private readonly gasOracle: GasOracle;
+  private readonly poolQuoter: PoolQuoter;
+  private readonly ttl: number;
+  private readonly legQuotes = new Map<string, { quote: Promise<LegQuote>; expiresAt: number }>();
+
+  constructor(rpcUrl: string, { ttl = 15000, gasOracle, poolQuoter }: ArbitrageCostModelOptions = {}) {
+    // A fixed network keeps requests from stalling on network detection when the node is down
+    const provider = new JsonRpcProvider(rpcUrl, BASE_CHAIN_ID, { staticNetwork: true });
+    this.gasOracle = gasOracle ?? new GasOracle(provider, { ttl });
+    this.poolQuoter = poolQuoter ?? new PoolQuoter(provider);
+    this.ttl = ttl;
+  }
+
+  // Shared with reward claim costing so both read the same cached quote
+  getGasQuote(now: number = Date.now()): Promise<GasQuote> {
+    return this.gasOracle.getQuote(now);
+  }
+
+  // Opportunities are returned unpriced when gas or the ETH price cannot be read, rather than
+  // failing the request or costing gas at $0
+  async enrich(opportunities: ArbitrageOpportunity[], prices: TokenPrices, now: number = Date.now()): Promise<ArbitrageOpportunity[]> {
+    if (opportunities.length === 0) return opportunities;
+
+    let gas;
+    try {
+      getEthPrice(prices);
+      gas = await this.getGasQuote(now);
+    } catch (err) {
+      console.error('Arbitrage costs are unavailable', err);
+      return opportunities;
+    }
+
+    return Promise.all(opportunities.map(async opportunity => {
+      const legs = await Promise.all(getSwapLegs(opportunity).map(leg => this.quoteLeg(leg, prices, now)));
+      const costs = calculateArbitrageCosts(opportunity, legs, gas, prices);
+      const sizingLegs = legs.filter((leg): leg is SizingLeg & LegQuote => !!leg.curve && leg.zeroForOne !== undefined);
+      const price = prices[opportunity.tokenA];
+
+      const priced = applyArbitrageCosts(opportunity, costs);
+      if (sizingLegs.length < legs.length || !price) return priced;
+      return {
+        ...priced,
+        sizing: solveTradeSize(sizingLegs, {
+          decimals: getToken(opportunity.tokenA).decimals,
+          price,
+          fixedCostUsd: costs.l2Gas + costs.l1DataFee,
+          minCurveInputUsd: costs.tradeSizeUsd
+        })
+      };
+    }));
+  }
+
+  // An unreadable pool still pays its DEX's default fee tier, only its price impact is unknown
+  private quoteLeg(leg: SwapLeg, prices: TokenPrices, now: number): Promise<LegQuote> {
+    const key = `${leg.dex}:${leg.pool ?? ''}:${leg.tokenIn}:${leg.tokenOut}`;
+    const cached = this.legQuotes.get(key);
+    if (cached && cached.expiresAt > now) return cached.quote;
+
+    const quote = this.poolQuoter.quote(leg, prices).catch(err => {
+      console.error(`Pool read failed for ${key}`, err);
+      const dex = BASE_DEXES[leg.dex];
+      return { feeRate: dex ? getDefaultFeeRate(dex) : 0 };
+    });
+    this.legQuotes.set(key, { quote, expiresAt: now + this.ttl });
+    return quote;
+  }
+}
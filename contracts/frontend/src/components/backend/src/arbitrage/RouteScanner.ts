@@ -0,0 +1,27 @@
+import { JsonRpcProvider } from 'ethers';
+import type { ArbitrageOpportunity, TokenPrices } from '../models';
+import { PoolGraphLoader } from './poolGraph';
+import { findArbitrageRoutes, type RouteSearchOptions } from './routeSearch';
+
+/**
+ * @title RouteScanner
+ * @description Reads the pool graph from a Base node and searches it for multi-hop and
+ * triangular arbitrage cycles
+ * @author Base DeFi Analytics Team
+ */
+
+const BASE_CHAIN_ID = 8453;
+
+export class RouteScanner {
+  private readonly loader: PoolGraphLoader;
+
+  constructor(rpcUrl: string, private readonly options: Omit<RouteSearchOptions, 'now'> = {}, loader?: PoolGraphLoader) {
+    // A fixed network keeps requests from stalling on network detection when the node is down
+    this.loader = loader ?? new PoolGraphLoader(new JsonRpcProvider(rpcUrl, BASE_CHAIN_ID, { staticNetwork: true }));
+  }
+
+  async scan(prices: TokenPrices, now: Date = new Date()): Promise<ArbitrageOpportunity[]> {
+    const pools = await this.loader.load();
+    return findArbitrageRoutes(pools, prices, { ...this.options, now });
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * @title Route search configuration
+ * @description Token pairs whose pools make up the route graph, and search limits.
+ * Tokens are symbols resolved through the shared DEX registry.
+ * @author Base DeFi Analytics Team
+ */
+
+export const ROUTE_PAIRS: [string, string][] = [
+  ['WETH', 'USDC'],
+  ['WETH', 'USDbC'],
+  ['cbETH', 'WETH'],
+  ['cbETH', 'USDC'],
+  ['USDC', 'USDbC'],
+  ['AERO', 'WETH'],
+  ['AERO', 'USDC']
+];
+
+// Cycles start and end in these, so profit is held in a liquid token
+export const ROUTE_START_TOKENS = ['USDC', 'WETH'];
+
+export const MAX_ROUTE_HOPS = 3;
+
+// Notional a route's gross profit is quoted at
+export const ROUTE_TRADE_SIZE_USD = 1000;
+
+// Typical gas of one router swap, used as a route's estimatedGas per hop
+export const GAS_PER_HOP = 150000;
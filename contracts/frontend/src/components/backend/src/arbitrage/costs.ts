@@ -0,0 +1,83 @@
+import { formatEther } from 'ethers';
+import type { ArbitrageCosts, ArbitrageOpportunity, TokenPrices } from '../models';
+import type { GasQuote, LegQuote, SwapLeg } from './types';
+
+/**
+ * @title Arbitrage cost math
+ * @description Prices the fees, price impact and gas of executing an opportunity so it
+ * can be ranked on net rather than gross profit
+ * @author Base DeFi Analytics Team
+ */
+
+// Each hop of a route, or for a direct pair: buy tokenB with tokenA on dexA, then sell it back
+// for tokenA on dexB. Every leg is sent as its own transaction.
+export const getSwapLegs = (opportunity: ArbitrageOpportunity): SwapLeg[] => {
+  if (opportunity.route) {
+    return opportunity.route.map(hop => ({ dex: hop.dex, tokenIn: hop.tokenIn, tokenOut: hop.tokenOut, pool: hop.pool }));
+  }
+  return [
+    { dex: opportunity.dexA, tokenIn: opportunity.tokenA, tokenOut: opportunity.tokenB },
+    { dex: opportunity.dexB, tokenIn: opportunity.tokenB, tokenOut: opportunity.tokenA }
+  ];
+};
+
+// Trade size implied by the quoted profit and profit percentage
+export const getTradeSizeUsd = (opportunity: ArbitrageOpportunity): number => {
+  return opportunity.profitPercentage > 0 ? opportunity.profitPotential / (opportunity.profitPercentage / 100) : 0;
+};
+
+// Constant-product slippage: x into a reserve R returns x / (R + x) less than the spot price.
+// Concentrated and stable pools are flatter near the current price, so this errs high.
+export const getPriceImpact = (notionalUsd: number, reserveInUsd?: number): number => {
+  if (!reserveInUsd || reserveInUsd <= 0) return 0;
+  return notionalUsd * notionalUsd / (reserveInUsd + notionalUsd);
+};
+
+// Gas is paid in ETH; valuing it at $0 would overstate net profit, so a missing price throws
+export const getEthPrice = (prices: TokenPrices): number => {
+  const price = prices.WETH ?? prices.ETH;
+  if (!price || price <= 0) throw new Error('No ETH price to value gas with');
+  return price;
+};
+
+export const weiToUsd = (wei: bigint, prices: TokenPrices): number => {
+  return Number(formatEther(wei)) * getEthPrice(prices);
+};
+
+// The same notional passes through every leg; profit is small next to it, so it is ignored
+export const calculateArbitrageCosts = (
+  opportunity: ArbitrageOpportunity,
+  legs: LegQuote[],
+  gas: GasQuote,
+  prices: TokenPrices
+): ArbitrageCosts => {
+  const tradeSizeUsd = getTradeSizeUsd(opportunity);
+  const swapFees = legs.reduce((sum, leg) => sum + tradeSizeUsd * leg.feeRate, 0);
+  const priceImpact = legs.reduce((sum, leg) => sum + getPriceImpact(tradeSizeUsd, leg.reserveInUsd), 0);
+  const l2Gas = weiToUsd(BigInt(Math.round(opportunity.estimatedGas)) * gas.gasPrice, prices);
+  const l1DataFee = weiToUsd(gas.l1FeePerTx * BigInt(legs.length), prices);
+
+  return {
+    tradeSizeUsd,
+    swapFees,
+    priceImpact,
+    l2Gas,
+    l1DataFee,
+    total: swapFees + priceImpact + l2Gas + l1DataFee
+  };
+};
+
+export const applyArbitrageCosts = (opportunity: ArbitrageOpportunity, costs: ArbitrageCosts): ArbitrageOpportunity => {
+  const netProfit = opportunity.profitPotential - costs.total;
+  return {
+    ...opportunity,
+    netProfit,
+    netProfitPercentage: costs.tradeSizeUsd > 0 ? netProfit / costs.tradeSizeUsd * 100 : 0,
+    costs
+  };
+};
+
+// Ranking value: net profit once priced, the quoted profit otherwise
+export const getRankingProfit = (opportunity: ArbitrageOpportunity): number => {
+  return opportunity.netProfit ?? opportunity.profitPotential;
+};
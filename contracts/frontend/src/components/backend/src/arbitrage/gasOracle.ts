@@ -0,0 +1,53 @@
+import { Contract, type JsonRpcProvider } from 'ethers';
+import type { GasQuote } from './types';
+
+/**
+ * @title Base gas oracle
+ * @description L2 gas price and L1 data fee for a swap transaction, cached briefly so a
+ * page of opportunities costs two RPC calls
+ * @author Base DeFi Analytics Team
+ */
+
+// OP Stack predeploy that prices the L1 data fee
+const GAS_PRICE_ORACLE = '0x420000000000000000000000000000000000000F';
+
+const GAS_PRICE_ORACLE_ABI = [
+  'function getL1FeeUpperBound(uint256 unsignedTxSize) view returns (uint256)'
+];
+
+// Unsigned size of a router swap call: an exactInputSingle is ~260 bytes of calldata plus the envelope
+export const SWAP_TX_SIZE = 320;
+
+export interface GasOracleOptions {
+  ttl?: number;
+  txSize?: number;
+}
+
+export class GasOracle {
+  private readonly oracle: Contract;
+  private readonly ttl: number;
+  private readonly txSize: number;
+  private cached?: { quote: Promise<GasQuote>; expiresAt: number };
+
+  constructor(private readonly provider: JsonRpcProvider, { ttl = 15000, txSize = SWAP_TX_SIZE }: GasOracleOptions = {}) {
+    this.oracle = new Contract(GAS_PRICE_ORACLE, GAS_PRICE_ORACLE_ABI, provider);
+    this.ttl = ttl;
+    this.txSize = txSize;
+  }
+
+  getQuote(now: number = Date.now()): Promise<GasQuote> {
+    if (this.cached && this.cached.expiresAt > now) return this.cached.quote;
+
+    const quote = Promise.all([this.provider.getFeeData(), this.oracle.getL1FeeUpperBound(this.txSize)])
+      .then(([feeData, l1FeePerTx]: [{ gasPrice: bigint | null }, bigint]) => ({
+        gasPrice: feeData.gasPrice ?? 0n,
+        l1FeePerTx
+      }));
+    this.cached = { quote, expiresAt: now + this.ttl };
+    // Do not cache failures, the next lookup retries
+    quote.catch(() => {
+      if (this.cached?.quote === quote) this.cached = undefined;
+    });
+    return quote;
+  }
+}
@@ -0,0 +1,80 @@
+import { tickToSqrtPrice } from '../../../../utils/liquidity';
+
+/**
+ * @title Liquidity curves
+ * @description Exact-input swap output for constant-product pools and for concentrated
+ * liquidity walked tick by tick. Amounts are raw token units.
+ * @author Base DeFi Analytics Team
+ */
+
+export interface ConstantProductCurve {
+  kind: 'constantProduct';
+  reserve0: number;
+  reserve1: number;
+  feeRate: number;
+}
+
+export interface TickLiquidity {
+  tick: number;
+  // Liquidity added when the price crosses the tick upwards
+  liquidityNet: number;
+}
+
+export interface ConcentratedCurve {
+  kind: 'concentrated';
+  // sqrt(token1 per token0) in raw units
+  sqrtPrice: number;
+  liquidity: number;
+  // Initialized ticks around the current price, ascending. Ranges past the last loaded tick
+  // are treated as empty, so depth is understated for very large trades.
+  ticks: TickLiquidity[];
+  feeRate: number;
+}
+
+export type LiquidityCurve = ConstantProductCurve | ConcentratedCurve;
+
+const getConstantProductOut = (curve: ConstantProductCurve, amountIn: number, zeroForOne: boolean): number => {
+  const [reserveIn, reserveOut] = zeroForOne ? [curve.reserve0, curve.reserve1] : [curve.reserve1, curve.reserve0];
+  const effectiveIn = amountIn * (1 - curve.feeRate);
+  return reserveOut * effectiveIn / (reserveIn + effectiveIn);
+};
+
+// Token0 in moves the price down through lower ticks, token1 in moves it up. Within a range
+// of liquidity L: Δx = L * (1/√P' - 1/√P) and Δy = L * (√P' - √P).
+const getConcentratedOut = (curve: ConcentratedCurve, amountIn: number, zeroForOne: boolean): number => {
+  let remaining = amountIn * (1 - curve.feeRate);
+  let sqrtPrice = curve.sqrtPrice;
+  let liquidity = curve.liquidity;
+  let amountOut = 0;
+
+  const boundaries = zeroForOne
+    ? curve.ticks.filter(tick => tickToSqrtPrice(tick.tick) <= sqrtPrice).reverse()
+    : curve.ticks.filter(tick => tickToSqrtPrice(tick.tick) > sqrtPrice);
+
+  for (const boundary of boundaries) {
+    const target = tickToSqrtPrice(boundary.tick);
+    if (liquidity > 0) {
+      const needed = zeroForOne ? liquidity * (1 / target - 1 / sqrtPrice) : liquidity * (target - sqrtPrice);
+      if (remaining <= needed) {
+        if (zeroForOne) {
+          const next = liquidity * sqrtPrice / (liquidity + remaining * sqrtPrice);
+          return amountOut + liquidity * (sqrtPrice - next);
+        }
+        const next = sqrtPrice + remaining / liquidity;
+        return amountOut + liquidity * (1 / sqrtPrice - 1 / next);
+      }
+      remaining -= needed;
+      amountOut += zeroForOne ? liquidity * (sqrtPrice - target) : liquidity * (1 / sqrtPrice - 1 / target);
+    }
+    sqrtPrice = target;
+    liquidity += zeroForOne ? -boundary.liquidityNet : boundary.liquidityNet;
+  }
+  return amountOut;
+};
+
+export const getAmountOut = (curve: LiquidityCurve, amountIn: number, zeroForOne: boolean): number => {
+  if (amountIn <= 0) return 0;
+  return curve.kind === 'constantProduct'
+    ? getConstantProductOut(curve, amountIn, zeroForOne)
+    : getConcentratedOut(curve, amountIn, zeroForOne);
+};
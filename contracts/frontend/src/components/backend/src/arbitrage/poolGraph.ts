@@ -0,0 +1,72 @@
+import type { JsonRpcProvider } from 'ethers';
+import { BASE_DEXES, getToken, type DexInfo } from '../../../../services/dexRegistry';
+import { ROUTE_PAIRS } from './config';
+import { findPools, isToken0, readPool } from './pools';
+import type { PoolState } from './types';
+
+/**
+ * @title Pool graph
+ * @description Current price and fee of every pool the configured DEXes have for the
+ * route pairs. Pool addresses are looked up through the factories once and reused.
+ * @author Base DeFi Analytics Team
+ */
+
+interface PoolRef {
+  dex: DexInfo;
+  address: string;
+  fee: number;
+  token0: string;
+  token1: string;
+}
+
+export class PoolGraphLoader {
+  private pools?: Promise<PoolRef[]>;
+
+  constructor(
+    private readonly provider: JsonRpcProvider,
+    private readonly pairs: [string, string][] = ROUTE_PAIRS,
+    // Stable Aerodrome pools are left out: their reserve ratio is not their price
+    private readonly dexes: DexInfo[] = Object.values(BASE_DEXES).filter(dex => !dex.stable)
+  ) {}
+
+  // A pool that cannot be read is left out of this load rather than failing the search
+  async load(): Promise<PoolState[]> {
+    const pools = await this.getPools();
+    const states = await Promise.all(pools.map(async (pool): Promise<PoolState | null> => {
+      try {
+        const reserves = await readPool(this.provider, pool.address, pool.dex);
+        if (reserves.reserve0 <= 0 || reserves.reserve1 <= 0) return null;
+        const amount0 = reserves.reserve0 / 10 ** getToken(pool.token0).decimals;
+        const amount1 = reserves.reserve1 / 10 ** getToken(pool.token1).decimals;
+        return {
+          dex: pool.dex.name,
+          address: pool.address,
+          token0: pool.token0,
+          token1: pool.token1,
+          fee: pool.fee || Math.round(reserves.feeRate * 1e6),
+          feeRate: reserves.feeRate,
+          price: amount1 / amount0
+        };
+      } catch (err) {
+        console.error(`Pool read failed for ${pool.dex.name} ${pool.address}`, err);
+        return null;
+      }
+    }));
+    return states.filter((state): state is PoolState => state !== null);
+  }
+
+  private getPools(): Promise<PoolRef[]> {
+    if (!this.pools) {
+      this.pools = Promise.all(this.dexes.flatMap(dex => this.pairs.map(async ([tokenA, tokenB]) => {
+        const [token0, token1] = isToken0(tokenA, tokenB) ? [tokenA, tokenB] : [tokenB, tokenA];
+        const found = await findPools(this.provider, dex, token0, token1);
+        return found.map(pool => ({ dex, address: pool.address, fee: pool.fee, token0, token1 }));
+      }))).then(pools => pools.flat());
+      // Do not cache failures, the next load retries
+      this.pools.catch(() => {
+        this.pools = undefined;
+      });
+    }
+    return this.pools;
+  }
+}
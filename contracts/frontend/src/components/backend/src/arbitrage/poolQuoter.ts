@@ -0,0 +1,46 @@
+import type { JsonRpcProvider } from 'ethers';
+import { BASE_DEXES, getToken, type DexInfo } from '../../../../services/dexRegistry';
+import { INDEXED_PROTOCOLS } from '../indexer/config';
+import type { IndexedProtocolConfig } from '../indexer/types';
+import type { TokenPrices } from '../models';
+import { getDefaultFeeRate, isToken0, readPoolCurve } from './pools';
+import type { LegQuote, SwapLeg } from './types';
+
+/**
+ * @title Pool quoter
+ * @description Fee tier, input-side depth and liquidity curve of the pool a swap leg trades
+ * through: the leg's own pool for detected routes, otherwise the indexed pool of the leg's DEX
+ * @author Base DeFi Analytics Team
+ */
+
+export class PoolQuoter {
+  constructor(
+    private readonly provider: JsonRpcProvider,
+    private readonly protocols: IndexedProtocolConfig[] = INDEXED_PROTOCOLS
+  ) {}
+
+  async quote(leg: SwapLeg, prices: TokenPrices): Promise<LegQuote> {
+    const dex = BASE_DEXES[leg.dex];
+    if (!dex) return { feeRate: 0 };
+
+    const pool = leg.pool ?? this.findIndexedPool(dex, leg.tokenIn, leg.tokenOut);
+    if (!pool) return { feeRate: getDefaultFeeRate(dex) };
+
+    const { reserves, curve } = await readPoolCurve(this.provider, pool, dex);
+    const zeroForOne = isToken0(leg.tokenIn, leg.tokenOut);
+    const reserveIn = zeroForOne ? reserves.reserve0 : reserves.reserve1;
+    return {
+      feeRate: reserves.feeRate,
+      reserveInUsd: reserveIn / 10 ** getToken(leg.tokenIn).decimals * (prices[leg.tokenIn] || 0),
+      curve,
+      zeroForOne
+    };
+  }
+
+  private findIndexedPool(dex: DexInfo, tokenIn: string, tokenOut: string): string | undefined {
+    const protocol = this.protocols.find(candidate => candidate.id === dex.protocolId);
+    return protocol?.pools?.find(pool => pool.kind === dex.kind && (
+      (pool.token0 === tokenIn && pool.token1 === tokenOut) || (pool.token0 === tokenOut && pool.token1 === tokenIn)
+    ))?.address;
+  }
+}
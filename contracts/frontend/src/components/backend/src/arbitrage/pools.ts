@@ -0,0 +1,180 @@
+import { Contract, ZeroAddress, type JsonRpcProvider } from 'ethers';
+import { getToken, type DexInfo } from '../../../../services/dexRegistry';
+import type { ConcentratedCurve, LiquidityCurve, TickLiquidity } from './liquidity';
+
+/**
+ * @title Pool reads
+ * @description Fee and reserves of Uniswap V3 style and Aerodrome pools, and pool lookup
+ * through their factories
+ * @author Base DeFi Analytics Team
+ */
+
+const UNISWAP_V3_POOL_ABI = [
+  'function fee() view returns (uint24)',
+  'function liquidity() view returns (uint128)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function tickSpacing() view returns (int24)',
+  'function tickBitmap(int16 wordPosition) view returns (uint256)',
+  // Only the leading fields, which PancakeSwap and SushiSwap forks share
+  'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet)'
+];
+
+const AERODROME_POOL_ABI = [
+  'function stable() view returns (bool)',
+  'function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)'
+];
+
+const FACTORY_ABI = {
+  uniswapV3: ['function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)'],
+  aerodrome: [
+    'function getPool(address tokenA, address tokenB, bool stable) view returns (address)',
+    'function getFee(address pool, bool stable) view returns (uint256)'
+  ]
+};
+
+const Q96 = 2 ** 96;
+
+// Bitmap words read either side of the current one, each covering 256 tick spacings
+const TICK_WORDS_PER_SIDE = 1;
+// Initialized ticks loaded either side of the current price
+const TICKS_PER_SIDE = 16;
+
+// Aerodrome's default fees when the factory cannot be asked
+const AERODROME_VOLATILE_FEE = 0.003;
+const AERODROME_STABLE_FEE = 0.0005;
+
+// Raw token units; Uniswap V3 reserves are the virtual reserves of the active range
+export interface PoolReserves {
+  feeRate: number;
+  reserve0: number;
+  reserve1: number;
+}
+
+// Registry fee tier, used when the pool itself cannot be read
+export const getDefaultFeeRate = (dex: DexInfo): number => {
+  if (dex.kind === 'aerodrome') return dex.stable ? AERODROME_STABLE_FEE : AERODROME_VOLATILE_FEE;
+  return (dex.defaultFee ?? 0) / 1e6;
+};
+
+// Pools order their tokens by address
+export const isToken0 = (token: string, other: string): boolean => {
+  return getToken(token).address.toLowerCase() < getToken(other).address.toLowerCase();
+};
+
+// L / sqrtP of token0 and L * sqrtP of token1
+export const readUniswapV3Pool = async (provider: JsonRpcProvider, address: string): Promise<PoolReserves> => {
+  const contract = new Contract(address, UNISWAP_V3_POOL_ABI, provider);
+  const [fee, liquidity, slot0] = await Promise.all([contract.fee(), contract.liquidity(), contract.slot0()]);
+  const sqrtPrice = Number(slot0.sqrtPriceX96) / Q96;
+  return {
+    feeRate: Number(fee) / 1e6,
+    reserve0: sqrtPrice > 0 ? Number(liquidity) / sqrtPrice : 0,
+    reserve1: Number(liquidity) * sqrtPrice
+  };
+};
+
+const readAerodrome = async (
+  provider: JsonRpcProvider,
+  address: string,
+  dex: DexInfo
+): Promise<{ reserves: PoolReserves; stable: boolean }> => {
+  const contract = new Contract(address, AERODROME_POOL_ABI, provider);
+  const [stable, reserves]: [boolean, Record<string, bigint>] = await Promise.all([contract.stable(), contract.getReserves()]);
+  const fee: bigint | null = dex.factory
+    ? await new Contract(dex.factory, FACTORY_ABI.aerodrome, provider).getFee(address, stable)
+    : null;
+  return {
+    reserves: {
+      // Factory fees are in bips
+      feeRate: fee !== null ? Number(fee) / 10000 : getDefaultFeeRate({ ...dex, stable }),
+      reserve0: Number(reserves.reserve0),
+      reserve1: Number(reserves.reserve1)
+    },
+    stable
+  };
+};
+
+export const readAerodromePool = async (provider: JsonRpcProvider, address: string, dex: DexInfo): Promise<PoolReserves> => {
+  return (await readAerodrome(provider, address, dex)).reserves;
+};
+
+// Nearest initialized ticks below and above the current tick, with their net liquidity
+const readTicks = async (contract: Contract, tick: number): Promise<TickLiquidity[]> => {
+  const spacing = Number(await contract.tickSpacing());
+  const word = Math.floor(tick / spacing) >> 8;
+  const words = Array.from({ length: TICK_WORDS_PER_SIDE * 2 + 1 }, (_word, index) => word - TICK_WORDS_PER_SIDE + index);
+  const bitmaps: bigint[] = await Promise.all(words.map(position => contract.tickBitmap(position)));
+
+  const initialized = words.flatMap((position, index) => Array.from({ length: 256 }, (_bit, bit) => bit)
+    .filter(bit => (bitmaps[index] >> BigInt(bit)) & 1n)
+    .map(bit => (position * 256 + bit) * spacing));
+  const nearest = [
+    ...initialized.filter(candidate => candidate <= tick).slice(-TICKS_PER_SIDE),
+    ...initialized.filter(candidate => candidate > tick).slice(0, TICKS_PER_SIDE)
+  ];
+
+  return Promise.all(nearest.map(async candidate => ({
+    tick: candidate,
+    liquidityNet: Number((await contract.ticks(candidate)).liquidityNet)
+  })));
+};
+
+export const readUniswapV3Curve = async (provider: JsonRpcProvider, address: string): Promise<ConcentratedCurve> => {
+  const contract = new Contract(address, UNISWAP_V3_POOL_ABI, provider);
+  const [fee, liquidity, slot0] = await Promise.all([contract.fee(), contract.liquidity(), contract.slot0()]);
+  return {
+    kind: 'concentrated',
+    sqrtPrice: Number(slot0.sqrtPriceX96) / Q96,
+    liquidity: Number(liquidity),
+    ticks: await readTicks(contract, Number(slot0.tick)),
+    feeRate: Number(fee) / 1e6
+  };
+};
+
+// Reserves for depth, and the full curve for sizing. Stable Aerodrome pools have no
+// constant-product curve, so they are quoted without one.
+export const readPoolCurve = async (
+  provider: JsonRpcProvider,
+  address: string,
+  dex: DexInfo
+): Promise<{ reserves: PoolReserves; curve?: LiquidityCurve }> => {
+  if (dex.kind === 'uniswapV3') {
+    const curve = await readUniswapV3Curve(provider, address);
+    return {
+      reserves: {
+        feeRate: curve.feeRate,
+        reserve0: curve.sqrtPrice > 0 ? curve.liquidity / curve.sqrtPrice : 0,
+        reserve1: curve.liquidity * curve.sqrtPrice
+      },
+      curve
+    };
+  }
+
+  const { reserves, stable } = await readAerodrome(provider, address, dex);
+  return {
+    reserves,
+    curve: stable ? undefined : { kind: 'constantProduct', ...reserves }
+  };
+};
+
+export const readPool = (provider: JsonRpcProvider, address: string, dex: DexInfo): Promise<PoolReserves> => {
+  return dex.kind === 'uniswapV3' ? readUniswapV3Pool(provider, address) : readAerodromePool(provider, address, dex);
+};
+
+// Every pool the DEX has for the pair: one per fee tier, or the Aerodrome pool of the DEX's type
+export const findPools = async (
+  provider: JsonRpcProvider,
+  dex: DexInfo,
+  tokenA: string,
+  tokenB: string
+): Promise<{ address: string; fee: number }[]> => {
+  if (!dex.factory) return [];
+  const factory = new Contract(dex.factory, FACTORY_ABI[dex.kind], provider);
+  const addressA = getToken(tokenA).address;
+  const addressB = getToken(tokenB).address;
+
+  const candidates = dex.kind === 'uniswapV3'
+    ? await Promise.all((dex.feeTiers || []).map(async fee => ({ address: await factory.getPool(addressA, addressB, fee) as string, fee })))
+    : [{ address: await factory.getPool(addressA, addressB, dex.stable ?? false) as string, fee: 0 }];
+  return candidates.filter(candidate => candidate.address !== ZeroAddress);
+};
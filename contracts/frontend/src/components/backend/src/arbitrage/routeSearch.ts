@@ -0,0 +1,106 @@
+import { id as keccakId } from 'ethers';
+import type { ArbitrageHop, ArbitrageOpportunity, TokenPrices } from '../models';
+import { GAS_PER_HOP, MAX_ROUTE_HOPS, ROUTE_START_TOKENS, ROUTE_TRADE_SIZE_USD } from './config';
+import type { PoolState } from './types';
+
+/**
+ * @title Route search
+ * @description Finds cycles through the pool graph, such as USDC→WETH→cbETH→USDC across
+ * venues, whose pool prices return more than they take in after pool fees
+ * @author Base DeFi Analytics Team
+ */
+
+export interface RouteSearchOptions {
+  startTokens?: string[];
+  maxHops?: number;
+  tradeSizeUsd?: number;
+  now?: Date;
+}
+
+interface RouteEdge {
+  pool: PoolState;
+  tokenIn: string;
+  tokenOut: string;
+  // tokenOut per tokenIn at the pool price, before fees
+  rate: number;
+}
+
+// Both directions of every pool, keyed by input token
+export const buildRouteGraph = (pools: PoolState[]): Map<string, RouteEdge[]> => {
+  const graph = new Map<string, RouteEdge[]>();
+  const add = (edge: RouteEdge) => graph.set(edge.tokenIn, [...(graph.get(edge.tokenIn) || []), edge]);
+  pools.forEach(pool => {
+    add({ pool, tokenIn: pool.token0, tokenOut: pool.token1, rate: pool.price });
+    add({ pool, tokenIn: pool.token1, tokenOut: pool.token0, rate: 1 / pool.price });
+  });
+  return graph;
+};
+
+// A cycle found from different start tokens is the same set of swaps rotated
+const getCycleKey = (edges: RouteEdge[]): string => {
+  const steps = edges.map(edge => `${edge.pool.address.toLowerCase()}:${edge.tokenIn}`);
+  return steps.map((_step, index) => [...steps.slice(index), ...steps.slice(0, index)].join('>')).sort()[0];
+};
+
+const toHop = (edge: RouteEdge): ArbitrageHop => ({
+  dex: edge.pool.dex,
+  tokenIn: edge.tokenIn,
+  tokenOut: edge.tokenOut,
+  pool: edge.pool.address,
+  fee: edge.pool.fee
+});
+
+// Gross profit is quoted at pool prices like direct-pair opportunities; fees, price impact and
+// gas are left to the cost model. Only cycles still profitable after pool fees are kept.
+export const findArbitrageRoutes = (
+  pools: PoolState[],
+  prices: TokenPrices,
+  { startTokens = ROUTE_START_TOKENS, maxHops = MAX_ROUTE_HOPS, tradeSizeUsd = ROUTE_TRADE_SIZE_USD, now = new Date() }: RouteSearchOptions = {}
+): ArbitrageOpportunity[] => {
+  const graph = buildRouteGraph(pools);
+  const found = new Map<string, { start: string; edges: RouteEdge[]; grossRate: number; netRate: number }>();
+
+  const search = (start: string, edges: RouteEdge[], visited: Set<string>, grossRate: number, netRate: number) => {
+    const token = edges.length ? edges[edges.length - 1].tokenOut : start;
+    (graph.get(token) || []).forEach(edge => {
+      // Swapping straight back through the same pool can only lose the fee twice
+      if (edges.length && edge.pool.address === edges[edges.length - 1].pool.address) return;
+      const nextGross = grossRate * edge.rate;
+      const nextNet = netRate * edge.rate * (1 - edge.pool.feeRate);
+      const path = [...edges, edge];
+
+      if (edge.tokenOut === start) {
+        const key = getCycleKey(path);
+        if (path.length >= 2 && nextNet > 1 && !found.has(key)) {
+          found.set(key, { start, edges: path, grossRate: nextGross, netRate: nextNet });
+        }
+        return;
+      }
+      if (path.length < maxHops && !visited.has(edge.tokenOut)) {
+        search(start, path, new Set(visited).add(edge.tokenOut), nextGross, nextNet);
+      }
+    });
+  };
+  startTokens.forEach(start => search(start, [], new Set([start]), 1, 1));
+
+  return Array.from(found.values())
+    .filter(cycle => prices[cycle.start] !== undefined)
+    .sort((a, b) => b.netRate - a.netRate)
+    .map(({ start, edges, grossRate }) => {
+      const route = edges.map(toHop);
+      return {
+        // Stable per route and short enough for the execution endpoint's id parameter
+        id: `route:${keccakId(getCycleKey(edges)).slice(2, 18)}`,
+        tokenA: start,
+        tokenB: route[0].tokenOut,
+        dexA: route[0].dex,
+        dexB: route[route.length - 1].dex,
+        profitPotential: tradeSizeUsd * (grossRate - 1),
+        profitPercentage: (grossRate - 1) * 100,
+        timestamp: now,
+        isExecuted: false,
+        estimatedGas: GAS_PER_HOP * route.length,
+        route
+      };
+    });
+};
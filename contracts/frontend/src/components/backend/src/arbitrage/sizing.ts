@@ -0,0 +1,89 @@
+import type { ArbitrageSizing } from '../models';
+import { getAmountOut, type LiquidityCurve } from './liquidity';
+
+/**
+ * @title Trade sizing
+ * @description Profit-maximizing input for an arbitrage route and the profit curve around
+ * it, from each leg's liquidity curve
+ * @author Base DeFi Analytics Team
+ */
+
+export interface SizingLeg {
+  curve: LiquidityCurve;
+  zeroForOne: boolean;
+}
+
+export interface SizingOptions {
+  // Input token decimals and USD price
+  decimals: number;
+  price: number;
+  // Gas and other costs that do not grow with size, in USD
+  fixedCostUsd: number;
+  // The curve always reaches at least this input, usually the quoted trade size
+  minCurveInputUsd?: number;
+  curvePoints?: number;
+}
+
+const MAX_DOUBLINGS = 60;
+const GOLDEN_ITERATIONS = 80;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+export const simulateRoute = (legs: SizingLeg[], amountIn: number): number => {
+  return legs.reduce((amount, leg) => getAmountOut(leg.curve, amount, leg.zeroForOne), amountIn);
+};
+
+// Route output less input is concave in the input, so doubling brackets the peak from $1 up
+// and a golden-section search narrows it
+const findOptimalInput = (profit: (amountIn: number) => number, startAmount: number): number => {
+  if (profit(startAmount) <= 0) return 0;
+
+  let low = 0;
+  let high = startAmount;
+  for (let i = 0; i < MAX_DOUBLINGS && profit(high * 2) > profit(high); i++) {
+    low = high;
+    high *= 2;
+  }
+  high *= 2;
+
+  let left = high - GOLDEN_RATIO * (high - low);
+  let right = low + GOLDEN_RATIO * (high - low);
+  for (let i = 0; i < GOLDEN_ITERATIONS; i++) {
+    if (profit(left) < profit(right)) {
+      low = left;
+      left = right;
+      right = low + GOLDEN_RATIO * (high - low);
+    } else {
+      high = right;
+      right = left;
+      left = high - GOLDEN_RATIO * (high - low);
+    }
+  }
+  return (low + high) / 2;
+};
+
+export const solveTradeSize = (
+  legs: SizingLeg[],
+  { decimals, price, fixedCostUsd, minCurveInputUsd = 0, curvePoints = 24 }: SizingOptions
+): ArbitrageSizing => {
+  const unit = 10 ** decimals;
+  const toUsd = (amount: number) => amount / unit * price;
+  const profit = (amountIn: number) => simulateRoute(legs, amountIn) - amountIn;
+
+  const optimalInput = price > 0 ? findOptimalInput(profit, unit / price) : 0;
+  const optimalInputUsd = toUsd(optimalInput);
+  const curveEndUsd = Math.max(optimalInputUsd * 2, minCurveInputUsd);
+
+  const curve = curveEndUsd > 0
+    ? Array.from({ length: curvePoints }, (_point, index) => {
+      const inputUsd = curveEndUsd * (index + 1) / curvePoints;
+      return { inputUsd, profit: toUsd(profit(inputUsd / price * unit)) - fixedCostUsd };
+    })
+    : [];
+
+  return {
+    optimalInput: optimalInput / unit,
+    optimalInputUsd,
+    maxProfit: optimalInput > 0 ? toUsd(profit(optimalInput)) - fixedCostUsd : -fixedCostUsd,
+    curve
+  };
+};
@@ -0,0 +1,47 @@
+import type { LiquidityCurve } from './liquidity';
+
+/**
+ * @title Arbitrage cost types
+ * @description Gas and pool quotes used to turn an opportunity's gross profit into net profit
+ * @author Base DeFi Analytics Team
+ */
+
+// Both parts of a Base transaction fee, in wei
+export interface GasQuote {
+  // L2 execution price per gas unit
+  gasPrice: bigint;
+  // L1 data fee for one swap transaction
+  l1FeePerTx: bigint;
+}
+
+// Pool state for one swap leg
+export interface LegQuote {
+  // Fraction of the input taken by the pool, 0.0005 for a 5 bip pool
+  feeRate: number;
+  // USD value of the input token's reserve, undefined when the pool could not be read
+  reserveInUsd?: number;
+  // Present when the pool's liquidity could be read in full, for trade sizing
+  curve?: LiquidityCurve;
+  zeroForOne?: boolean;
+}
+
+export interface SwapLeg {
+  dex: string;
+  tokenIn: string;
+  tokenOut: string;
+  // Known for detected routes; direct pairs use the DEX's indexed pool
+  pool?: string;
+}
+
+// A pool in the route graph, prices in whole tokens
+export interface PoolState {
+  dex: string;
+  address: string;
+  token0: string;
+  token1: string;
+  // Fee in hundredths of a bip, as on ArbitrageHop
+  fee: number;
+  feeRate: number;
+  // token1 per token0 at the current pool price, before fees
+  price: number;
+}
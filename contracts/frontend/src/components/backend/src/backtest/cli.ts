@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import { runBacktest } from '../../../../utils/backtest';
+import { loadFixture, loadStrategy } from './loaders';
+
+/**
+ * Backtests a strategy against recorded snapshots and prints its performance.
+ *
+ *   --fixture <path>     JSON of { protocols, snapshots, prices? } with ISO timestamps;
+ *                        snapshots as returned by GET /protocols/history are accepted too
+ *   --strategy <path>    JSON BacktestStrategy, or a versioned strategy document in JSON or YAML
+ *   --capital <usd>      starting capital for a strategy document (default 10000)
+ *   --gas <usd>          gas per transaction for a strategy document (default 0.05)
+ *   --risk-free <pct>    annual risk-free rate for the Sharpe ratio (default 0)
+ *   --out <path>         save the full result, including the equity curve, as JSON
+ */
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Invalid argument ${argv[i]}`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.fixture || !args.strategy) throw new Error('Provide --fixture and --strategy');
+
+  const data = await loadFixture(args.fixture);
+  const strategy = await loadStrategy(args.strategy, args);
+  const result = runBacktest(data, strategy, { riskFreeRate: args['risk-free'] ? Number(args['risk-free']) : undefined });
+
+  console.log(`${result.strategy}: ${result.startDate.toISOString()} to ${result.endDate.toISOString()}`);
+  console.table({
+    'Final equity': result.finalEquity.toFixed(2),
+    'Total return %': result.totalReturn.toFixed(2),
+    'Realized APY %': result.realizedAPY.toFixed(2),
+    'Max drawdown %': result.maxDrawdown.toFixed(2),
+    'Sharpe ratio': result.sharpeRatio.toFixed(2),
+    'Gas spent': result.gasSpent.toFixed(2),
+    Rebalances: result.rebalances,
+    Compounds: result.compounds
+  });
+  if (result.exit) console.log(`Exited on ${result.exit.reason} at ${result.exit.timestamp.toISOString()}`);
+  else if (!result.enteredAt) console.log('Entry conditions never held; capital stayed in cash');
+  console.table(Object.fromEntries(Object.entries(result.finalWeights).map(([id, weight]) => [id, `${(weight * 100).toFixed(1)}%`])));
+
+  if (args.out) {
+    await fs.writeFile(args.out, JSON.stringify(result, null, 2));
+    console.log(`Saved result to ${args.out}`);
+  }
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+import { promises as fs } from 'fs';
+import { toBacktestStrategy, type BacktestData, type BacktestStrategy } from '../../../../utils/backtest';
+import { parseStrategy } from '../../../../utils/strategy';
+
+/**
+ * @title Backtest loaders
+ * @description Reads the fixture and strategy files given to the backtest CLI
+ * @author Base DeFi Analytics Team
+ */
+
+// Strategy documents carry a schema version; plain BacktestStrategy JSON does not
+export const loadStrategy = async (path: string, args: Record<string, string> = {}): Promise<BacktestStrategy> => {
+  const source = await fs.readFile(path, 'utf8');
+  if (!/\.ya?ml$/i.test(path) && JSON.parse(source).version === undefined) return JSON.parse(source);
+  return toBacktestStrategy(parseStrategy(source), {
+    initialCapital: args.capital ? Number(args.capital) : 10000,
+    gasCostPerTx: args.gas ? Number(args.gas) : 0.05
+  });
+};
+
+// Snapshots may be a flat list or grouped by protocol id
+export const loadFixture = async (path: string): Promise<BacktestData> => {
+  const raw = JSON.parse(await fs.readFile(path, 'utf8'));
+  const snapshots = (Array.isArray(raw.snapshots) ? raw.snapshots : Object.values(raw.snapshots || {}).flat()) as
+    { timestamp: string }[];
+  return {
+    protocols: raw.protocols || [],
+    snapshots: snapshots.map(snapshot => ({ ...snapshot, timestamp: new Date(snapshot.timestamp) })) as BacktestData['snapshots'],
+    prices: (raw.prices || []).map((snapshot: { timestamp: string }) => ({ ...snapshot, timestamp: new Date(snapshot.timestamp) }))
+  };
+};
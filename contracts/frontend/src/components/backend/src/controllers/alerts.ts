@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import type { AlertEngine } from '../alerts/AlertEngine';
+import { asyncHandler } from '../middleware/errorHandler';
+import { address, validate } from '../middleware/validate';
+
+const protocolId = Joi.string().trim().max(64);
+
+const webhookUrl = Joi.string().uri({ scheme: ['http', 'https'] }).max(2048);
+
+// Fields depend on the kind, so errors name the missing field rather than the whole condition
+const conditionSchema = Joi.object({
+  kind: Joi.string().valid('protocolApy', 'protocolChange', 'arbitrageProfit', 'positionRisk', 'healthFactor').required()
+}).when('.kind', {
+  switch: [
+    {
+      is: 'protocolApy',
+      then: Joi.object({
+        protocolId: protocolId.required(),
+        direction: Joi.string().valid('above', 'below').required(),
+        threshold: Joi.number().required()
+      })
+    },
+    { is: 'protocolChange', then: Joi.object({ protocolId, threshold: Joi.number().required() }) },
+    { is: 'arbitrageProfit', then: Joi.object({ minProfit: Joi.number().min(0).required() }) },
+    { is: 'positionRisk', then: Joi.object({ address: address.required() }) },
+    { is: 'healthFactor', then: Joi.object({ address: address.required(), threshold: Joi.number().positive().required() }) }
+  ]
+});
+
+const ruleParamsSchema = Joi.object({
+  id: Joi.string().trim().max(64).required()
+});
+
+const createRuleSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  condition: conditionSchema.required(),
+  enabled: Joi.boolean().default(true),
+  webhookUrl
+});
+
+const updateRuleSchema = Joi.object({
+  name: Joi.string().trim().max(100),
+  enabled: Joi.boolean(),
+  webhookUrl: webhookUrl.allow(null)
+}).min(1);
+
+const eventsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(200).default(50)
+});
+
+export const createAlertRouter = (alerts: AlertEngine): Router => {
+  const router = Router();
+
+  router.get('/rules', asyncHandler(async (_req, res) => {
+    res.json(await alerts.listRules());
+  }));
+
+  router.post('/rules', validate(createRuleSchema), asyncHandler(async (req, res) => {
+    res.status(201).json(await alerts.createRule(req.body));
+  }));
+
+  router.patch('/rules/:id', validate(ruleParamsSchema, 'params'), validate(updateRuleSchema),
+    asyncHandler(async (req, res) => {
+      res.json(await alerts.updateRule(req.params.id, req.body));
+    }));
+
+  router.delete('/rules/:id', validate(ruleParamsSchema, 'params'), asyncHandler(async (req, res) => {
+    res.json(await alerts.deleteRule(req.params.id));
+  }));
+
+  router.post('/rules/:id/test', validate(ruleParamsSchema, 'params'), asyncHandler(async (req, res) => {
+    res.json(await alerts.sendTest(req.params.id));
+  }));
+
+  router.get('/events', validate(eventsQuerySchema, 'query'), (req, res) => {
+    const { limit } = req.query as unknown as { limit: number };
+    res.json(alerts.getEvents(limit));
+  });
+
+  return router;
+};
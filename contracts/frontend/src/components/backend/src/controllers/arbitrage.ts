@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import type { AnalyticsService } from '../services/AnalyticsService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+
+const arbitrageQuerySchema = Joi.object({
+  minProfit: Joi.number().min(0).default(0),
+  minNetProfit: Joi.number()
+});
+
+const executionParamsSchema = Joi.object({
+  id: Joi.string().trim().max(128).required()
+});
+
+const executionBodySchema = Joi.object({
+  txHash: Joi.string().pattern(/^0x[0-9a-fA-F]{64}$/).required()
+});
+
+export const createArbitrageRouter = (service: AnalyticsService): Router => {
+  const router = Router();
+
+  router.get('/', validate(arbitrageQuerySchema, 'query'), asyncHandler(async (req, res) => {
+    const { minProfit, minNetProfit } = req.query as unknown as { minProfit: number; minNetProfit?: number };
+    res.json(await service.getArbitrageOpportunities({ minProfit, minNetProfit }));
+  }));
+
+  router.post('/:id/execution',
+    validate(executionParamsSchema, 'params'),
+    validate(executionBodySchema),
+    asyncHandler(async (req, res) => {
+      res.json(await service.markArbitrageExecuted(req.params.id, req.body.txHash));
+    }));
+
+  return router;
+};
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import type { AnalyticsService } from '../services/AnalyticsService';
+import { asyncHandler } from '../middleware/errorHandler';
+
+export const createMarketRouter = (service: AnalyticsService): Router => {
+  const router = Router();
+
+  router.get('/prices', asyncHandler(async (_req, res) => {
+    res.json(await service.getPrices());
+  }));
+
+  router.get('/metrics', asyncHandler(async (_req, res) => {
+    res.json(await service.getDashboardMetrics());
+  }));
+
+  router.get('/claim-costs', asyncHandler(async (_req, res) => {
+    res.json(await service.getClaimCosts());
+  }));
+
+  return router;
+};
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import type { OrderKeeper } from '../orders/OrderKeeper';
+import { asyncHandler } from '../middleware/errorHandler';
+import { address, validate } from '../middleware/validate';
+
+const token = Joi.string().trim().max(16);
+
+const triggerSchema = Joi.object({
+  kind: Joi.string().valid('price', 'pnlPercentage').required()
+}).when('.kind', {
+  switch: [
+    { is: 'price', then: Joi.object({ token: token.required(), price: Joi.number().positive().required() }) },
+    { is: 'pnlPercentage', then: Joi.object({ threshold: Joi.number().min(-100).required() }) }
+  ]
+});
+
+const createOrderSchema = Joi.object({
+  owner: address.required(),
+  strategyId: Joi.string().trim().max(128).required(),
+  type: Joi.string().valid('stopLoss', 'takeProfit').required(),
+  trigger: triggerSchema.required(),
+  costBasis: Joi.number().positive(),
+  settleToken: token,
+  slippageBps: Joi.number().integer().min(1).max(1000)
+});
+
+const listQuerySchema = Joi.object({
+  owner: address.required(),
+  strategyId: Joi.string().trim().max(128),
+  status: Joi.string().valid('active', 'triggered', 'executed', 'cancelled', 'failed')
+});
+
+const orderParamsSchema = Joi.object({
+  id: Joi.string().trim().max(64).required()
+});
+
+const executionSchema = Joi.object({
+  txHashes: Joi.array().items(Joi.string().pattern(/^0x[0-9a-fA-F]{64}$/)).min(1).max(20).required()
+});
+
+export const createOrderRouter = (orders: OrderKeeper): Router => {
+  const router = Router();
+
+  router.get('/', validate(listQuerySchema, 'query'), asyncHandler(async (req, res) => {
+    res.json(await orders.listOrders(req.query));
+  }));
+
+  router.post('/', validate(createOrderSchema), asyncHandler(async (req, res) => {
+    res.status(201).json(await orders.createOrder(req.body));
+  }));
+
+  router.get('/:id', validate(orderParamsSchema, 'params'), asyncHandler(async (req, res) => {
+    res.json(await orders.getOrder(req.params.id));
+  }));
+
+  router.delete('/:id', validate(orderParamsSchema, 'params'), asyncHandler(async (req, res) => {
+    res.json(await orders.cancelOrder(req.params.id));
+  }));
+
+  router.post('/:id/unwind', validate(orderParamsSchema, 'params'), asyncHandler(async (req, res) => {
+    res.json(await orders.rebuildUnwind(req.params.id));
+  }));
+
+  router.post('/:id/execution', validate(orderParamsSchema, 'params'), validate(executionSchema),
+    asyncHandler(async (req, res) => {
+      res.json(await orders.markExecuted(req.params.id, req.body.txHashes));
+    }));
+
+  return router;
+};
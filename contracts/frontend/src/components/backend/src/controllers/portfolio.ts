@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import type { AnalyticsService } from '../services/AnalyticsService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { address, validate } from '../middleware/validate';
+
+const addressParamsSchema = Joi.object({
+  address: address.required()
+});
+
+const positionParamsSchema = Joi.object({
+  address: address.required(),
+  strategyId: Joi.string().trim().max(128).required()
+});
+
+const analyzeBodySchema = Joi.object({
+  address: address.required(),
+  protocols: Joi.array().items(Joi.string().trim().max(64)).max(50)
+});
+
+export const createPortfolioRouter = (service: AnalyticsService): Router => {
+  const router = Router();
+
+  router.post('/analyze', validate(analyzeBodySchema), asyncHandler(async (req, res) => {
+    res.json(await service.analyzePortfolio(req.body));
+  }));
+
+  router.get('/:address/positions', validate(addressParamsSchema, 'params'), asyncHandler(async (req, res) => {
+    res.json(await service.getUserPositions(req.params.address));
+  }));
+
+  router.get('/:address/positions/:strategyId/history', validate(positionParamsSchema, 'params'),
+    asyncHandler(async (req, res) => {
+      res.json(await service.getPositionHistory(req.params.address, req.params.strategyId));
+    }));
+
+  return router;
+};
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import type { AnalyticsService } from '../services/AnalyticsService';
+import type { Timeframe } from '../models';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+
+const historyQuerySchema = Joi.object({
+  timeframe: Joi.string().valid('24h', '7d', '30d', '90d').default('7d')
+});
+
+const protocolParamsSchema = Joi.object({
+  protocol: Joi.string().trim().max(64).required()
+});
+
+export const createProtocolRouter = (service: AnalyticsService): Router => {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (_req, res) => {
+    res.json(await service.getProtocols());
+  }));
+
+  // Registered before /:protocol routes so "history" is not read as a protocol id
+  router.get('/history', validate(historyQuerySchema, 'query'), asyncHandler(async (req, res) => {
+    res.json(await service.getProtocolHistory(req.query.timeframe as Timeframe));
+  }));
+
+  router.get('/:protocol/tvl', validate(protocolParamsSchema, 'params'), asyncHandler(async (req, res) => {
+    res.json(await service.getProtocolTvl(req.params.protocol));
+  }));
+
+  router.get('/:protocol/pools', validate(protocolParamsSchema, 'params'), asyncHandler(async (req, res) => {
+    res.json(await service.getProtocolPools(req.params.protocol));
+  }));
+
+  return router;
+};
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import type { VoteEscrowService } from '../voteEscrow/VoteEscrowService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { address, validate } from '../middleware/validate';
+import { MAX_VOTED_POOLS } from '../../../../utils/voteEscrow';
+
+const locksQuerySchema = Joi.object({
+  owner: address.required()
+});
+
+const lockParamsSchema = Joi.object({
+  tokenId: Joi.string().pattern(/^\d{1,20}$/).required()
+});
+
+const planQuerySchema = Joi.object({
+  maxPools: Joi.number().integer().min(1).max(MAX_VOTED_POOLS)
+});
+
+export const createVoteEscrowRouter = (voteEscrow: VoteEscrowService): Router => {
+  const router = Router();
+
+  router.get('/gauges', asyncHandler(async (_req, res) => {
+    res.json(await voteEscrow.getGauges());
+  }));
+
+  router.get('/epochs', (_req, res) => {
+    res.json(voteEscrow.getEpochHistory());
+  });
+
+  router.get('/locks', validate(locksQuerySchema, 'query'), asyncHandler(async (req, res) => {
+    res.json(await voteEscrow.getLocks(req.query.owner as string));
+  }));
+
+  router.get('/locks/:tokenId/plan', validate(lockParamsSchema, 'params'), validate(planQuerySchema, 'query'),
+    asyncHandler(async (req, res) => {
+      const { maxPools } = req.query as unknown as { maxPools?: number };
+      res.json(await voteEscrow.getVotePlan(req.params.tokenId, maxPools));
+    }));
+
+  return router;
+};
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import Joi from 'joi';
+import type { AnalyticsService } from '../services/AnalyticsService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validate';
+
+const yieldQuerySchema = Joi.object({
+  minApy: Joi.number().min(0).default(0),
+  maxRisk: Joi.number().min(1).max(10).default(10)
+});
+
+export const createYieldRouter = (service: AnalyticsService): Router => {
+  const router = Router();
+
+  router.get('/', validate(yieldQuerySchema, 'query'), asyncHandler(async (req, res) => {
+    const { minApy, maxRisk } = req.query as unknown as { minApy: number; maxRisk: number };
+    res.json(await service.getYields({ minApy, maxRisk }));
+  }));
+
+  return router;
+};
@@ -0,0 +1,89 @@
+import { Contract, JsonRpcProvider } from 'ethers';
+import { getToken } from '../../../../services/dexRegistry';
+import type { DerivativesMetrics, ProtocolData, TokenPrices } from '../models';
+import { toUsd } from '../discovery/tokens';
+import { PERP_PROTOCOLS } from './config';
+import { PERPS_MARKET_ABI, fromWad, readMarketSummaries } from './perpsMarket';
+import type { PerpProtocolConfig } from './types';
+
+/**
+ * @title DerivativesReader
+ * @description Reads open interest, funding and insurance funds of the perp protocols from
+ * chain and publishes them as Derivatives protocol rows, with posted margin as TVL
+ * @author Base DeFi Analytics Team
+ */
+
+const BASE_CHAIN_ID = 8453;
+
+const BALANCE_ABI = ['function balanceOf(address account) view returns (uint256)'];
+
+export class DerivativesReader {
+  private readonly provider: JsonRpcProvider;
+
+  constructor(rpcUrl: string, private readonly protocols: PerpProtocolConfig[] = PERP_PROTOCOLS) {
+    // A fixed network keeps requests from stalling on network detection when the node is down
+    this.provider = new JsonRpcProvider(rpcUrl, BASE_CHAIN_ID, { staticNetwork: true });
+  }
+
+  async readMetrics(protocol: PerpProtocolConfig, prices: TokenPrices): Promise<DerivativesMetrics & { tvl: number }> {
+    const perpsMarket = new Contract(protocol.perpsMarket, PERPS_MARKET_ABI, this.provider);
+    const [markets, collateral, insuranceFund] = await Promise.all([
+      readMarketSummaries(protocol.perpsMarket, this.provider),
+      perpsMarket.totalGlobalCollateralValue(),
+      this.readInsuranceFund(protocol, prices)
+    ]);
+
+    const longOpenInterest = markets.reduce((sum, market) => sum + market.longSize * market.indexPrice, 0);
+    const shortOpenInterest = markets.reduce((sum, market) => sum + market.shortSize * market.indexPrice, 0);
+    const openInterest = longOpenInterest + shortOpenInterest;
+    const weightedFunding = markets.reduce((sum, market) => {
+      return sum + market.fundingRate * (market.longSize + market.shortSize) * market.indexPrice;
+    }, 0);
+
+    return {
+      tvl: fromWad(collateral),
+      openInterest,
+      longOpenInterest,
+      shortOpenInterest,
+      fundingRate: openInterest > 0 ? weightedFunding / openInterest * 100 : 0,
+      ...(insuranceFund !== undefined ? { insuranceFund } : {})
+    };
+  }
+
+  /**
+   * Overlays fresh metrics onto existing protocol rows. APY, risk, volume and TVL change
+   * are not read here, so they are kept from `base`. A protocol whose reads fail keeps its
+   * previous row.
+   */
+  async getProtocolData(prices: TokenPrices, base: ProtocolData[] = []): Promise<ProtocolData[]> {
+    const results = await Promise.allSettled(this.protocols.map(protocol => this.readMetrics(protocol, prices)));
+    return this.protocols.flatMap((protocol, index): ProtocolData[] => {
+      const existing = base.find(candidate => candidate.id === protocol.id);
+      const result = results[index];
+      if (result.status === 'rejected') {
+        console.error(`Derivatives read for ${protocol.id} failed`, result.reason);
+        return existing ? [existing] : [];
+      }
+      const { tvl, ...derivatives } = result.value;
+      return [{
+        id: protocol.id,
+        name: protocol.name,
+        category: 'Derivatives',
+        apy: existing?.apy ?? 0,
+        riskScore: existing?.riskScore ?? 5,
+        isActive: existing?.isActive ?? true,
+        volume24h: existing?.volume24h ?? 0,
+        change24h: existing?.change24h ?? 0,
+        tvl,
+        derivatives
+      }];
+    });
+  }
+
+  private async readInsuranceFund(protocol: PerpProtocolConfig, prices: TokenPrices): Promise<number | undefined> {
+    if (!protocol.insuranceFund) return undefined;
+    const token = getToken(protocol.insuranceFund.token);
+    const balance: bigint = await new Contract(token.address, BALANCE_ABI, this.provider).balanceOf(protocol.insuranceFund.holder);
+    return toUsd(balance, token, prices);
+  }
+}
@@ -0,0 +1,15 @@
+import type { PerpProtocolConfig } from './types';
+
+/**
+ * @title Derivatives configuration
+ * @description Base mainnet perp protocols, shared by the metrics reader and position discovery
+ * @author Base DeFi Analytics Team
+ */
+
+export const PERP_PROTOCOLS: PerpProtocolConfig[] = [
+  {
+    id: 'synthetix-v3',
+    name: 'Synthetix V3 Perps',
+    perpsMarket: '0x0A2AF931eFFd34b81ebcc57E3d3c9B1E1dE1C9Ce'
+  }
+];
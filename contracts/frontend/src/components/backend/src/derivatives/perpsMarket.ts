@@ -0,0 +1,47 @@
+import { Contract, type ContractRunner } from 'ethers';
+import type { PerpMarketSummary } from './types';
+
+/**
+ * @title Perps market reads
+ * @description Market summaries from a Synthetix V3 perps market proxy. Sizes, prices and
+ * rates come back as 18-decimal fixed point.
+ * @author Base DeFi Analytics Team
+ */
+
+export const WAD = 1e18;
+
+export const PERPS_MARKET_ABI = [
+  'function getMarkets() view returns (uint256[])',
+  'function metadata(uint128 marketId) view returns (string name, string symbol)',
+  'function getMarketSummary(uint128 marketId) view returns (tuple(int256 skew, uint256 size, uint256 maxOpenInterest, int256 currentFundingRate, int256 currentFundingVelocity, uint256 indexPrice))',
+  'function totalGlobalCollateralValue() view returns (uint256)',
+  'function getAccountTokenAddress() view returns (address)',
+  'function getAccountOpenPositions(uint128 accountId) view returns (uint256[])',
+  'function getOpenPosition(uint128 accountId, uint128 marketId) view returns (int256 totalPnl, int256 accruedFunding, int128 positionSize, uint256 owedInterest)',
+  'function totalCollateralValue(uint128 accountId) view returns (uint256)',
+  'function getAvailableMargin(uint128 accountId) view returns (int256)',
+  'function getRequiredMargins(uint128 accountId) view returns (uint256 requiredInitialMargin, uint256 requiredMaintenanceMargin, uint256 maxLiquidationReward)'
+];
+
+export const fromWad = (value: bigint): number => Number(value) / WAD;
+
+export const readMarketSummary = async (perpsMarket: Contract, marketId: bigint): Promise<PerpMarketSummary> => {
+  const [[, symbol], summary] = await Promise.all([perpsMarket.metadata(marketId), perpsMarket.getMarketSummary(marketId)]);
+  const size = fromWad(summary.size);
+  const skew = fromWad(summary.skew);
+  return {
+    marketId,
+    symbol,
+    // skew is long minus short and size their sum
+    longSize: (size + skew) / 2,
+    shortSize: (size - skew) / 2,
+    indexPrice: fromWad(summary.indexPrice),
+    fundingRate: fromWad(summary.currentFundingRate)
+  };
+};
+
+export const readMarketSummaries = async (address: string, runner: ContractRunner): Promise<PerpMarketSummary[]> => {
+  const perpsMarket = new Contract(address, PERPS_MARKET_ABI, runner);
+  const marketIds: bigint[] = await perpsMarket.getMarkets();
+  return Promise.all(marketIds.map(marketId => readMarketSummary(perpsMarket, marketId)));
+};
@@ -0,0 +1,25 @@
+/**
+ * @title Derivatives types
+ * @description Perp protocols read for market-wide metrics and account positions
+ * @author Base DeFi Analytics Team
+ */
+
+// Synthetix V3 style perps market: one proxy for every market, accounts as NFTs
+export interface PerpProtocolConfig {
+  id: string;
+  name: string;
+  perpsMarket: string;
+  // Token balance held as a backstop against bad debt, when the protocol keeps one
+  insuranceFund?: { holder: string; token: string };
+}
+
+export interface PerpMarketSummary {
+  marketId: bigint;
+  symbol: string;
+  // Base asset units
+  longSize: number;
+  shortSize: number;
+  indexPrice: number;
+  // Per 24h, fraction of notional; positive when longs pay shorts
+  fundingRate: number;
+}
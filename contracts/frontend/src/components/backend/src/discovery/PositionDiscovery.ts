@@ -0,0 +1,84 @@
+import { JsonRpcProvider } from 'ethers';
+import { PERP_PROTOCOLS } from '../derivatives/config';
+import type { DiscoveryError, ProtocolData, TokenPrices, UserPosition } from '../models';
+import { createCometDiscoverer } from './comet';
+import { createConcentratedLiquidityDiscoverer } from './concentratedLiquidity';
+import {
+  AERODROME_POOLS,
+  AERODROME_VOTER,
+  COMET_MARKETS,
+  LENDING_COMPTROLLERS,
+  LENDING_MARKETS,
+  POSITION_MANAGERS,
+  VAULTS
+} from './config';
+import { createGaugeDiscoverer } from './gauges';
+import { createLendingDiscoverer } from './lending';
+import { createPerpDiscoverer } from './perps';
+import { TokenRegistry } from './tokens';
+import type { PositionDiscoverer } from './types';
+import { createVaultDiscoverer } from './vaults';
+
+/**
+ * @title PositionDiscovery
+ * @description Finds every supported position an address holds on Base by reading chain
+ * state directly, so any wallet can be analyzed without connecting it
+ * @author Base DeFi Analytics Team
+ */
+
+export interface DiscoveryResult {
+  positions: UserPosition[];
+  // One failing protocol does not hide the others' positions
+  errors: DiscoveryError[];
+}
+
+const BASE_CHAIN_ID = 8453;
+
+export const createDefaultDiscoverers = (): PositionDiscoverer[] => {
+  const lendingProtocols = Array.from(new Set(LENDING_MARKETS.map(market => market.protocolId)));
+  return [
+    ...POSITION_MANAGERS.map(createConcentratedLiquidityDiscoverer),
+    ...lendingProtocols.map(protocolId => createLendingDiscoverer(
+      protocolId,
+      LENDING_MARKETS.filter(market => market.protocolId === protocolId),
+      LENDING_COMPTROLLERS[protocolId]
+    )),
+    createCometDiscoverer('compound-v3', COMET_MARKETS),
+    createVaultDiscoverer(VAULTS),
+    createGaugeDiscoverer('aerodrome', AERODROME_VOTER, AERODROME_POOLS),
+    ...PERP_PROTOCOLS.map(createPerpDiscoverer)
+  ];
+};
+
+export class PositionDiscovery {
+  private readonly provider: JsonRpcProvider;
+  private readonly tokens: TokenRegistry;
+
+  constructor(
+    rpcUrl: string,
+    private readonly discoverers: PositionDiscoverer[] = createDefaultDiscoverers()
+  ) {
+    // A fixed network keeps requests from stalling on network detection when the node is down
+    this.provider = new JsonRpcProvider(rpcUrl, BASE_CHAIN_ID, { staticNetwork: true });
+    this.tokens = new TokenRegistry(this.provider);
+  }
+
+  async discover(address: string, prices: TokenPrices, protocols: ProtocolData[]): Promise<DiscoveryResult> {
+    const context = { provider: this.provider, address, prices, protocols, tokens: this.tokens, now: new Date() };
+    const results = await Promise.allSettled(this.discoverers.map(discoverer => discoverer.discover(context)));
+
+    const result: DiscoveryResult = { positions: [], errors: [] };
+    results.forEach((settled, index) => {
+      if (settled.status === 'fulfilled') {
+        result.positions.push(...settled.value);
+      } else {
+        const reason = settled.reason;
+        result.errors.push({
+          discoverer: this.discoverers[index].name,
+          message: reason instanceof Error ? reason.message : String(reason)
+        });
+      }
+    });
+    return result;
+  }
+}
@@ -0,0 +1,104 @@
+import { Contract } from 'ethers';
+import { getToken } from '../../../../services/dexRegistry';
+import type { UserPosition } from '../models';
+import { SECONDS_PER_YEAR, getProtocolDefaults, toTokenAmount, toUsd } from './tokens';
+import type { CometConfig, DiscoveryContext, PositionDiscoverer } from './types';
+
+/**
+ * @title Compound V3 discovery
+ * @description Base-asset supply or borrow plus posted collateral in each Comet market.
+ * Collateral earns nothing in Comet, so those positions carry no APY.
+ * @author Base DeFi Analytics Team
+ */
+
+const WAD = 1e18;
+
+const COMET_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function borrowBalanceOf(address account) view returns (uint256)',
+  'function numAssets() view returns (uint8)',
+  'function getAssetInfo(uint8 i) view returns (tuple(uint8 offset, address asset, address priceFeed, uint64 scale, uint64 borrowCollateralFactor, uint64 liquidateCollateralFactor, uint64 liquidationFactor, uint128 supplyCap))',
+  'function collateralBalanceOf(address account, address asset) view returns (uint128)',
+  'function getUtilization() view returns (uint256)',
+  'function getSupplyRate(uint256 utilization) view returns (uint64)',
+  'function getBorrowRate(uint256 utilization) view returns (uint64)'
+];
+
+// Comet quotes per-second rates in wad, accrued per second
+const cometRateToApy = (rate: bigint): number => (Math.pow(1 + Number(rate) / WAD, SECONDS_PER_YEAR) - 1) * 100;
+
+const readComet = async (comet: CometConfig, context: DiscoveryContext): Promise<UserPosition[]> => {
+  const { provider, address, prices, tokens } = context;
+  const contract = new Contract(comet.address, COMET_ABI, provider);
+  const baseToken = getToken(comet.baseAsset);
+  const [supplied, borrowed, numAssets, utilization]: bigint[] = await Promise.all([
+    contract.balanceOf(address),
+    contract.borrowBalanceOf(address),
+    contract.numAssets(),
+    contract.getUtilization()
+  ]);
+
+  const collateral = await Promise.all(Array.from({ length: Number(numAssets) }, async (_, index) => {
+    const info = await contract.getAssetInfo(index);
+    const balance: bigint = await contract.collateralBalanceOf(address, info.asset);
+    return { info, balance };
+  }));
+  const posted = collateral.filter(({ balance }) => balance > 0n);
+  if (supplied === 0n && borrowed === 0n && posted.length === 0) return [];
+
+  const { riskLevel } = getProtocolDefaults(context.protocols, comet.protocolId);
+  const marketId = `c${comet.baseAsset}v3`;
+  const build = (
+    side: 'supply' | 'borrow',
+    asset: string,
+    amount: number,
+    value: number,
+    apy: number,
+    liquidationThreshold: number
+  ): UserPosition => {
+    const signed = side === 'supply' ? value : -value;
+    return {
+      strategyId: `${comet.protocolId}:${marketId}:${side}:${asset}`,
+      strategyName: `${side === 'supply' ? 'Supply' : 'Borrow'} ${asset} (${marketId})`,
+      protocolId: comet.protocolId,
+      amount: signed,
+      currentValue: signed,
+      pnl: 0,
+      pnlPercentage: 0,
+      apy,
+      riskLevel,
+      entryDate: context.now,
+      lastRewardClaim: context.now,
+      pendingRewards: 0,
+      // Every Comet is an isolated account
+      lendingPosition: { accountId: `${comet.protocolId}:${marketId}`, side, asset, amount, liquidationThreshold }
+    };
+  };
+
+  const positions: UserPosition[] = [];
+  if (supplied > 0n) {
+    const supplyRate = await contract.getSupplyRate(utilization);
+    positions.push(build('supply', comet.baseAsset, toTokenAmount(supplied, baseToken),
+      toUsd(supplied, baseToken, prices), cometRateToApy(supplyRate), 0));
+  }
+  if (borrowed > 0n) {
+    const borrowRate = await contract.getBorrowRate(utilization);
+    positions.push(build('borrow', comet.baseAsset, toTokenAmount(borrowed, baseToken),
+      toUsd(borrowed, baseToken, prices), cometRateToApy(borrowRate), 0));
+  }
+  for (const { info, balance } of posted) {
+    const token = await tokens.get(info.asset);
+    positions.push(build('supply', token.symbol, toTokenAmount(balance, token),
+      toUsd(balance, token, prices), 0, Number(info.liquidateCollateralFactor) / WAD));
+  }
+  return positions;
+};
+
+export const createCometDiscoverer = (protocolId: string, comets: CometConfig[]): PositionDiscoverer => ({
+  name: protocolId,
+
+  async discover(context: DiscoveryContext): Promise<UserPosition[]> {
+    const results = await Promise.all(comets.map(comet => readComet(comet, context)));
+    return results.flat();
+  }
+});
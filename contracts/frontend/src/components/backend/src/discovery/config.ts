@@ -0,0 +1,48 @@
+import { INDEXED_PROTOCOLS } from '../indexer/config';
+import type { LendingMarketConfig, PoolConfig } from '../indexer/types';
+import type { CometConfig, PositionManagerConfig, VaultConfig } from './types';
+
+/**
+ * @title Discovery configuration
+ * @description Base mainnet contracts scanned for an address's positions. Lending markets
+ * and Aerodrome pools are shared with the indexer so both cover the same protocols.
+ * @author Base DeFi Analytics Team
+ */
+
+export const POSITION_MANAGERS: PositionManagerConfig[] = [
+  {
+    protocolId: 'uniswap-v3',
+    kind: 'uniswapV3',
+    positionManager: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1',
+    factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD'
+  },
+  {
+    protocolId: 'aerodrome',
+    kind: 'aerodrome',
+    positionManager: '0x827922686190790b37229fd06084350E74485b72',
+    factory: '0x5e7BB104d84c7CB9B682AaC2F3d509f5F406809A'
+  }
+];
+
+export const AERODROME_VOTER = '0x16613524e02ad97eDfeF371bC883F2F5d6C480A5';
+
+export const VAULTS: VaultConfig[] = [
+  { protocolId: 'moonwell', name: 'Moonwell Flagship USDC', address: '0xc1256Ae5FF1cf2719D4937adb3bbCCab2E00A2Ca' }
+];
+
+// Comptrollers hold the collateral factors and market membership of Compound V2 style markets
+export const LENDING_COMPTROLLERS: Record<string, string> = {
+  moonwell: '0xfBb21d0380beE3312B33c4353c8936a0F13EF26C'
+};
+
+export const COMET_MARKETS: CometConfig[] = [
+  { protocolId: 'compound-v3', address: '0xb125E6687d4313864e53df431d5425969c15Eb2F', baseAsset: 'USDC' },
+  { protocolId: 'compound-v3', address: '0x46e6b214b524310239732D51387075E0e70970bf', baseAsset: 'WETH' }
+];
+
+export const LENDING_MARKETS: (LendingMarketConfig & { protocolId: string })[] = INDEXED_PROTOCOLS.flatMap(protocol =>
+  (protocol.markets || []).map(market => ({ ...market, protocolId: protocol.id })));
+
+// Aerodrome basic (v2) pools, whose LP tokens can be staked in gauges
+export const AERODROME_POOLS: (PoolConfig & { protocolId: string })[] = INDEXED_PROTOCOLS.flatMap(protocol =>
+  (protocol.pools || []).filter(pool => pool.kind === 'aerodrome').map(pool => ({ ...pool, protocolId: protocol.id })));
@@ -0,0 +1,105 @@
+import { Contract, ZeroAddress } from 'ethers';
+import { getToken } from '../../../../services/dexRegistry';
+import type { PoolConfig } from '../indexer/types';
+import type { UserPosition } from '../models';
+import { SECONDS_PER_YEAR, getProtocolDefaults, toTokenAmount, toUsd } from './tokens';
+import type { DiscoveryContext, PositionDiscoverer } from './types';
+
+/**
+ * @title Gauge discovery
+ * @description Aerodrome basic-pool LP tokens, both held and staked in the pool's gauge.
+ * Staked positions earn AERO, which is reported as pending rewards and gauge APY.
+ * @author Base DeFi Analytics Team
+ */
+
+const VOTER_ABI = ['function gauges(address pool) view returns (address)'];
+
+const POOL_ABI = [
+  'function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)'
+];
+
+const GAUGE_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+  'function earned(address account) view returns (uint256)',
+  'function rewardRate() view returns (uint256)'
+];
+
+export const createGaugeDiscoverer = (
+  protocolId: string,
+  voterAddress: string,
+  pools: PoolConfig[]
+): PositionDiscoverer => ({
+  name: `${protocolId}-gauges`,
+
+  async discover(context: DiscoveryContext): Promise<UserPosition[]> {
+    const { provider, address, prices } = context;
+    const voter = new Contract(voterAddress, VOTER_ABI, provider);
+    const aero = getToken('AERO');
+    const defaults = getProtocolDefaults(context.protocols, protocolId);
+
+    const results = await Promise.all(pools.map(async (poolConfig): Promise<UserPosition[]> => {
+      const pool = new Contract(poolConfig.address, POOL_ABI, provider);
+      const gaugeAddress: string = await voter.gauges(poolConfig.address);
+      const gauge = gaugeAddress !== ZeroAddress ? new Contract(gaugeAddress, GAUGE_ABI, provider) : null;
+
+      const [reserves, lpSupply, held, staked, earned, rewardRate, stakedSupply] = await Promise.all([
+        pool.getReserves(),
+        pool.totalSupply() as Promise<bigint>,
+        pool.balanceOf(address) as Promise<bigint>,
+        gauge ? gauge.balanceOf(address) as Promise<bigint> : 0n,
+        gauge ? gauge.earned(address) as Promise<bigint> : 0n,
+        gauge ? gauge.rewardRate() as Promise<bigint> : 0n,
+        gauge ? gauge.totalSupply() as Promise<bigint> : 0n
+      ]);
+      if (lpSupply === 0n) return [];
+
+      // USD value of one whole pool, split pro rata by LP balance
+      const poolValue = toUsd(reserves.reserve0, getToken(poolConfig.token0), prices)
+        + toUsd(reserves.reserve1, getToken(poolConfig.token1), prices);
+      const lpValue = (balance: bigint) => poolValue * Number(balance) / Number(lpSupply);
+      const pair = `${poolConfig.token0}/${poolConfig.token1}`;
+
+      const base = {
+        protocolId,
+        pnl: 0,
+        pnlPercentage: 0,
+        riskLevel: defaults.riskLevel,
+        entryDate: context.now,
+        lastRewardClaim: context.now
+      };
+      const positions: UserPosition[] = [];
+
+      if (held > 0n) {
+        positions.push({
+          ...base,
+          strategyId: `${protocolId}:lp:${poolConfig.address.toLowerCase()}`,
+          strategyName: `${pair} LP`,
+          amount: lpValue(held),
+          currentValue: lpValue(held),
+          apy: defaults.apy,
+          pendingRewards: 0
+        });
+      }
+      if (staked > 0n) {
+        const stakedValue = lpValue(staked);
+        const yearlyRewards = toUsd(rewardRate * BigInt(SECONDS_PER_YEAR), aero, prices);
+        const totalStakedValue = lpValue(stakedSupply);
+        positions.push({
+          ...base,
+          strategyId: `${protocolId}:gauge:${gaugeAddress.toLowerCase()}`,
+          strategyName: `${pair} Gauge`,
+          amount: stakedValue,
+          currentValue: stakedValue,
+          apy: totalStakedValue > 0 ? (yearlyRewards / totalStakedValue) * 100 : 0,
+          pendingRewards: toUsd(earned, aero, prices),
+          rewards: [{ token: aero.symbol, amount: toTokenAmount(earned, aero) }]
+        });
+      }
+      return positions;
+    }));
+    return results.flat();
+  }
+});
@@ -0,0 +1,185 @@
+import { Contract } from 'ethers';
+import { getToken } from '../../../../services/dexRegistry';
+import type { UserPosition } from '../models';
+import type { LendingMarketConfig } from '../indexer/types';
+import { SECONDS_PER_YEAR, getProtocolDefaults, toTokenAmount, toUsd } from './tokens';
+import type { DiscoveryContext, PositionDiscoverer } from './types';
+
+/**
+ * @title Lending discovery
+ * @description Supplies and borrows on Aave V3 reserves and Moonwell markets. Borrows are
+ * reported as separate positions with negative value and their positive borrow APY, so
+ * portfolio totals and value-weighted APYs come out net, and every leg carries its
+ * liquidation threshold so the dashboard can compute health factors.
+ * @author Base DeFi Analytics Team
+ */
+
+const RAY = 1e27;
+const WAD = 1e18;
+
+const AAVE_POOL_ABI = [
+  'function getReserveData(address asset) view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))',
+  'function getUserConfiguration(address user) view returns (tuple(uint256 data))'
+];
+
+const MOONWELL_COMPTROLLER_ABI = [
+  'function markets(address mToken) view returns (bool isListed, uint256 collateralFactorMantissa)',
+  'function checkMembership(address account, address mToken) view returns (bool)'
+];
+
+const MOONWELL_MARKET_ABI = [
+  'function getAccountSnapshot(address account) view returns (uint256 errorCode, uint256 mTokenBalance, uint256 borrowBalance, uint256 exchangeRateMantissa)',
+  'function supplyRatePerTimestamp() view returns (uint256)',
+  'function borrowRatePerTimestamp() view returns (uint256)'
+];
+
+const BALANCE_ABI = ['function balanceOf(address account) view returns (uint256)'];
+
+// Aave quotes a yearly rate in ray, compounded per second on-chain
+const aaveRateToApy = (rate: bigint): number => (Math.pow(1 + Number(rate) / RAY / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1) * 100;
+
+// Moonwell quotes a per-second rate in wad; its UI compounds daily
+const moonwellRateToApy = (rate: bigint): number => (Math.pow(1 + (Number(rate) / WAD) * 86400, 365) - 1) * 100;
+
+// Reserve configuration bitmap: bits 16-31 hold the liquidation threshold in basis points
+const aaveLiquidationThreshold = (configuration: bigint): number => Number((configuration >> 16n) & 0xffffn) / 10000;
+
+// User configuration bitmap: bit 2 * reserve id + 1 is set when the reserve is enabled as collateral
+const isAaveCollateral = (userConfiguration: bigint, reserveId: bigint): boolean => {
+  return ((userConfiguration >> (reserveId * 2n + 1n)) & 1n) === 1n;
+};
+
+type LendingMarket = LendingMarketConfig & { protocolId: string };
+
+interface LendingLeg {
+  side: 'supply' | 'borrow';
+  // Token units and USD value
+  amount: number;
+  value: number;
+  apy: number;
+  liquidationThreshold: number;
+}
+
+const buildPosition = (market: LendingMarket, leg: LendingLeg, context: DiscoveryContext): UserPosition => {
+  const { side, value, apy } = leg;
+  const { riskLevel } = getProtocolDefaults(context.protocols, market.protocolId);
+  const signed = side === 'supply' ? value : -value;
+  return {
+    strategyId: `${market.protocolId}:${side}:${market.asset}`,
+    strategyName: `${side === 'supply' ? 'Supply' : 'Borrow'} ${market.asset}`,
+    protocolId: market.protocolId,
+    // No cost basis on-chain, so the position is marked at its current value
+    amount: signed,
+    currentValue: signed,
+    pnl: 0,
+    pnlPercentage: 0,
+    apy,
+    riskLevel,
+    entryDate: context.now,
+    lastRewardClaim: context.now,
+    pendingRewards: 0,
+    // Aave and Moonwell margin every market of the protocol together
+    lendingPosition: {
+      accountId: market.protocolId,
+      side,
+      asset: market.asset,
+      amount: leg.amount,
+      liquidationThreshold: leg.liquidationThreshold
+    }
+  };
+};
+
+const readAaveMarket = async (market: LendingMarket, context: DiscoveryContext): Promise<UserPosition[]> => {
+  const { provider, address, prices } = context;
+  const token = getToken(market.asset);
+  const pool = new Contract(market.address, AAVE_POOL_ABI, provider);
+  const [reserve, userConfiguration] = await Promise.all([
+    pool.getReserveData(market.reserve),
+    pool.getUserConfiguration(address)
+  ]);
+  const [supplied, borrowed]: bigint[] = await Promise.all([
+    new Contract(reserve.aTokenAddress, BALANCE_ABI, provider).balanceOf(address),
+    new Contract(reserve.variableDebtTokenAddress, BALANCE_ABI, provider).balanceOf(address)
+  ]);
+
+  const positions: UserPosition[] = [];
+  if (supplied > 0n) {
+    positions.push(buildPosition(market, {
+      side: 'supply',
+      amount: toTokenAmount(supplied, token),
+      value: toUsd(supplied, token, prices),
+      apy: aaveRateToApy(reserve.currentLiquidityRate),
+      liquidationThreshold: isAaveCollateral(userConfiguration.data, reserve.id)
+        ? aaveLiquidationThreshold(reserve.configuration)
+        : 0
+    }, context));
+  }
+  if (borrowed > 0n) {
+    positions.push(buildPosition(market, {
+      side: 'borrow',
+      amount: toTokenAmount(borrowed, token),
+      value: toUsd(borrowed, token, prices),
+      apy: aaveRateToApy(reserve.currentVariableBorrowRate),
+      liquidationThreshold: 0
+    }, context));
+  }
+  return positions;
+};
+
+// Moonwell liquidates at the collateral factor itself, there is no separate threshold
+const readMoonwellMarket = async (
+  market: LendingMarket,
+  context: DiscoveryContext,
+  comptroller?: string
+): Promise<UserPosition[]> => {
+  if (!comptroller) throw new Error(`No comptroller configured for ${market.protocolId}`);
+  const { provider, address, prices } = context;
+  const token = getToken(market.asset);
+  const mToken = new Contract(market.address, MOONWELL_MARKET_ABI, provider);
+  const controller = new Contract(comptroller, MOONWELL_COMPTROLLER_ABI, provider);
+  const [snapshot, supplyRate, borrowRate, marketInfo, isMember] = await Promise.all([
+    mToken.getAccountSnapshot(address),
+    mToken.supplyRatePerTimestamp(),
+    mToken.borrowRatePerTimestamp(),
+    controller.markets(market.address),
+    controller.checkMembership(address, market.address)
+  ]);
+  if (snapshot.errorCode !== 0n) throw new Error(`Moonwell ${market.asset} snapshot error ${snapshot.errorCode}`);
+
+  const { mTokenBalance, exchangeRateMantissa }: Record<string, bigint> = snapshot;
+  const supplied = (mTokenBalance * exchangeRateMantissa) / 10n ** 18n;
+  const positions: UserPosition[] = [];
+  if (supplied > 0n) {
+    positions.push(buildPosition(market, {
+      side: 'supply',
+      amount: toTokenAmount(supplied, token),
+      value: toUsd(supplied, token, prices),
+      apy: moonwellRateToApy(supplyRate),
+      liquidationThreshold: isMember ? Number(marketInfo.collateralFactorMantissa) / WAD : 0
+    }, context));
+  }
+  if (snapshot.borrowBalance > 0n) {
+    positions.push(buildPosition(market, {
+      side: 'borrow',
+      amount: toTokenAmount(snapshot.borrowBalance, token),
+      value: toUsd(snapshot.borrowBalance, token, prices),
+      apy: moonwellRateToApy(borrowRate),
+      liquidationThreshold: 0
+    }, context));
+  }
+  return positions;
+};
+
+export const createLendingDiscoverer = (
+  protocolId: string,
+  markets: LendingMarket[],
+  comptroller?: string
+): PositionDiscoverer => ({
+  name: protocolId,
+
+  async discover(context: DiscoveryContext): Promise<UserPosition[]> {
+    const results = await Promise.all(markets.map(market =>
+      market.kind === 'aaveV3' ? readAaveMarket(market, context) : readMoonwellMarket(market, context, comptroller)));
+    return results.flat();
+  }
+});
@@ -0,0 +1,119 @@
+import { Contract } from 'ethers';
+import type { PerpPosition, UserPosition } from '../models';
+import { PERPS_MARKET_ABI, fromWad, readMarketSummary } from '../derivatives/perpsMarket';
+import type { PerpProtocolConfig } from '../derivatives/types';
+import { getProtocolDefaults } from './tokens';
+import type { DiscoveryContext, PositionDiscoverer } from './types';
+
+/**
+ * @title Perp discovery
+ * @description Open positions of every perps account NFT an address holds. Each market
+ * position is reported separately, with the account's margin split across them by notional.
+ * @author Base DeFi Analytics Team
+ */
+
+const ACCOUNT_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)'
+];
+
+interface OpenPosition {
+  marketId: bigint;
+  symbol: string;
+  // Signed base units, negative for a short
+  size: number;
+  markPrice: number;
+  totalPnl: number;
+  accruedFunding: number;
+  owedInterest: number;
+}
+
+const readAccount = async (
+  perpsMarket: Contract,
+  accountId: bigint,
+  protocol: PerpProtocolConfig,
+  context: DiscoveryContext
+): Promise<UserPosition[]> => {
+  const marketIds: bigint[] = await perpsMarket.getAccountOpenPositions(accountId);
+  if (marketIds.length === 0) return [];
+
+  const [collateral, availableMargin, [, maintenanceMargin], open] = await Promise.all([
+    perpsMarket.totalCollateralValue(accountId),
+    perpsMarket.getAvailableMargin(accountId),
+    perpsMarket.getRequiredMargins(accountId),
+    Promise.all(marketIds.map(async (marketId): Promise<OpenPosition> => {
+      const [summary, position] = await Promise.all([
+        readMarketSummary(perpsMarket, marketId),
+        perpsMarket.getOpenPosition(accountId, marketId)
+      ]);
+      return {
+        marketId,
+        symbol: summary.symbol,
+        size: fromWad(position.positionSize),
+        markPrice: summary.indexPrice,
+        totalPnl: fromWad(position.totalPnl),
+        accruedFunding: fromWad(position.accruedFunding),
+        owedInterest: fromWad(position.owedInterest)
+      };
+    }))
+  ]);
+
+  const margin = fromWad(collateral);
+  // Margin the account can lose before it reaches maintenance and is liquidated
+  const buffer = fromWad(availableMargin) - fromWad(maintenanceMargin);
+  const totalNotional = open.reduce((sum, position) => sum + Math.abs(position.size) * position.markPrice, 0);
+  const { riskLevel } = getProtocolDefaults(context.protocols, protocol.id);
+
+  return open.filter(position => position.size !== 0).map(position => {
+    const side = position.size > 0 ? 'long' : 'short';
+    // totalPnl is price P&L plus funding less interest owed
+    const pricePnl = position.totalPnl - position.accruedFunding + position.owedInterest;
+    const liquidationPrice = position.markPrice - buffer / position.size;
+    const share = totalNotional > 0 ? Math.abs(position.size) * position.markPrice / totalNotional : 0;
+    const positionMargin = margin * share;
+
+    const perpPosition: PerpPosition = {
+      accountId: `${protocol.id}:${accountId}`,
+      market: position.symbol,
+      side,
+      size: Math.abs(position.size),
+      entryPrice: position.markPrice - pricePnl / position.size,
+      markPrice: position.markPrice,
+      liquidationPrice: liquidationPrice > 0 ? liquidationPrice : null,
+      margin: positionMargin,
+      fundingPaid: -position.accruedFunding
+    };
+    return {
+      strategyId: `${protocol.id}:perp:${accountId}:${position.marketId}`,
+      strategyName: `${side === 'long' ? 'Long' : 'Short'} ${position.symbol} (#${accountId})`,
+      protocolId: protocol.id,
+      amount: positionMargin,
+      currentValue: positionMargin + position.totalPnl,
+      pnl: position.totalPnl,
+      pnlPercentage: positionMargin > 0 ? position.totalPnl / positionMargin * 100 : 0,
+      // Funding is reported on the perp itself rather than as a yield
+      apy: 0,
+      riskLevel,
+      entryDate: context.now,
+      lastRewardClaim: context.now,
+      pendingRewards: 0,
+      perpPosition
+    };
+  });
+};
+
+export const createPerpDiscoverer = (protocol: PerpProtocolConfig): PositionDiscoverer => ({
+  name: protocol.id,
+
+  async discover(context: DiscoveryContext): Promise<UserPosition[]> {
+    const { provider, address } = context;
+    const perpsMarket = new Contract(protocol.perpsMarket, PERPS_MARKET_ABI, provider);
+    const accounts = new Contract(await perpsMarket.getAccountTokenAddress(), ACCOUNT_ABI, provider);
+    const count: bigint = await accounts.balanceOf(address);
+    const accountIds: bigint[] = await Promise.all(
+      Array.from({ length: Number(count) }, (_, index) => accounts.tokenOfOwnerByIndex(address, index))
+    );
+    const results = await Promise.all(accountIds.map(accountId => readAccount(perpsMarket, accountId, protocol, context)));
+    return results.flat();
+  }
+});
@@ -0,0 +1,55 @@
+import { Contract, formatUnits, type ContractRunner } from 'ethers';
+import { BASE_TOKENS, type TokenInfo } from '../../../../services/dexRegistry';
+import type { ProtocolData, TokenPrices } from '../models';
+
+/**
+ * @title Token registry
+ * @description Symbol and decimals by address, seeded from the DEX registry and filled in
+ * from ERC-20 metadata for anything else a wallet holds
+ * @author Base DeFi Analytics Team
+ */
+
+const ERC20_METADATA_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export class TokenRegistry {
+  private readonly tokens = new Map<string, Promise<TokenInfo>>();
+
+  constructor(private readonly runner: ContractRunner) {
+    Object.values(BASE_TOKENS).forEach(token => {
+      this.tokens.set(token.address.toLowerCase(), Promise.resolve(token));
+    });
+  }
+
+  get(address: string): Promise<TokenInfo> {
+    const key = address.toLowerCase();
+    let token = this.tokens.get(key);
+    if (!token) {
+      const contract = new Contract(address, ERC20_METADATA_ABI, this.runner);
+      token = Promise.all([contract.symbol(), contract.decimals()])
+        .then(([symbol, decimals]) => ({ symbol, address, decimals: Number(decimals) }));
+      // Do not cache failures, the next lookup retries
+      token.catch(() => this.tokens.delete(key));
+      this.tokens.set(key, token);
+    }
+    return token;
+  }
+}
+
+export const toTokenAmount = (amount: bigint, token: TokenInfo): number => {
+  return Number(formatUnits(amount, token.decimals));
+};
+
+export const toUsd = (amount: bigint, token: TokenInfo, prices: TokenPrices): number => {
+  return toTokenAmount(amount, token) * (prices[token.symbol] || 0);
+};
+
+// APY and risk fall back to the protocol's published figures when a position type has none on-chain
+export const getProtocolDefaults = (protocols: ProtocolData[], protocolId: string) => {
+  const protocol = protocols.find(candidate => candidate.id === protocolId);
+  return { apy: protocol?.apy ?? 0, riskLevel: protocol?.riskScore ?? 5 };
+};
@@ -0,0 +1,48 @@
+import type { JsonRpcProvider } from 'ethers';
+import type { ProtocolData, TokenPrices, UserPosition } from '../models';
+import type { TokenRegistry } from './tokens';
+
+/**
+ * @title Discovery types
+ * @description Shared context and contract for the per-protocol position discoverers
+ * @author Base DeFi Analytics Team
+ */
+
+export interface DiscoveryContext {
+  provider: JsonRpcProvider;
+  address: string;
+  prices: TokenPrices;
+  // Known protocols, used for default APY and risk where the chain does not tell
+  protocols: ProtocolData[];
+  tokens: TokenRegistry;
+  now: Date;
+}
+
+export interface PositionDiscoverer {
+  // Label for error reporting, usually the protocol id
+  name: string;
+  discover(context: DiscoveryContext): Promise<UserPosition[]>;
+}
+
+export interface PositionManagerConfig {
+  protocolId: string;
+  kind: 'uniswapV3' | 'aerodrome';
+  positionManager: string;
+  factory: string;
+  // First block scanned for IncreaseLiquidity/DecreaseLiquidity/Collect logs
+  fromBlock?: number;
+}
+
+// ERC-4626 vault
+export interface VaultConfig {
+  protocolId: string;
+  name: string;
+  address: string;
+}
+
+// Compound V3 market; each Comet lends one base asset against its own collateral set
+export interface CometConfig {
+  protocolId: string;
+  address: string;
+  baseAsset: string;
+}
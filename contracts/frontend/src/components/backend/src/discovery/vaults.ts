@@ -0,0 +1,50 @@
+import { Contract } from 'ethers';
+import type { UserPosition } from '../models';
+import { getProtocolDefaults, toUsd } from './tokens';
+import type { DiscoveryContext, PositionDiscoverer, VaultConfig } from './types';
+
+/**
+ * @title Vault discovery
+ * @description ERC-4626 vault shares, valued through convertToAssets
+ * @author Base DeFi Analytics Team
+ */
+
+const VAULT_ABI = [
+  'function asset() view returns (address)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function convertToAssets(uint256 shares) view returns (uint256)'
+];
+
+export const createVaultDiscoverer = (vaults: VaultConfig[]): PositionDiscoverer => ({
+  name: 'vaults',
+
+  async discover(context: DiscoveryContext): Promise<UserPosition[]> {
+    const { provider, address, prices, tokens } = context;
+    const positions = await Promise.all(vaults.map(async (vault): Promise<UserPosition | null> => {
+      const contract = new Contract(vault.address, VAULT_ABI, provider);
+      const shares: bigint = await contract.balanceOf(address);
+      if (shares === 0n) return null;
+
+      const [assets, assetAddress] = await Promise.all([contract.convertToAssets(shares), contract.asset()]);
+      const asset = await tokens.get(assetAddress);
+      const value = toUsd(assets, asset, prices);
+      const defaults = getProtocolDefaults(context.protocols, vault.protocolId);
+
+      return {
+        strategyId: `${vault.protocolId}:vault:${vault.address.toLowerCase()}`,
+        strategyName: vault.name,
+        protocolId: vault.protocolId,
+        amount: value,
+        currentValue: value,
+        pnl: 0,
+        pnlPercentage: 0,
+        apy: defaults.apy,
+        riskLevel: defaults.riskLevel,
+        entryDate: context.now,
+        lastRewardClaim: context.now,
+        pendingRewards: 0
+      };
+    }));
+    return positions.filter((position): position is UserPosition => position !== null);
+  }
+});
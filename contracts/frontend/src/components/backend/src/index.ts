@@ -0,0 +1,176 @@
+import { createServer } from 'http';
+import { createApp } from './app';
+import { AnalyticsService } from './services/AnalyticsService';
+import { InMemoryDataSource } from './services/dataSource';
+import { RealtimeHub } from './services/RealtimeHub';
+import { FileCheckpointStore } from './indexer/checkpointStore';
+import { Indexer } from './indexer/Indexer';
+import { RpcLogSource } from './indexer/sources';
+import { PositionDiscovery } from './discovery/PositionDiscovery';
+import { AlertEngine } from './alerts/AlertEngine';
+import { FileAlertRuleStore, MemoryAlertRuleStore } from './alerts/ruleStore';
+import { WebhookSink } from './alerts/sinks';
+import { ArbitrageCostModel } from './arbitrage/ArbitrageCostModel';
+import { RouteScanner } from './arbitrage/RouteScanner';
+import { OrderKeeper } from './orders/OrderKeeper';
+import { FileOrderStore, MemoryOrderStore } from './orders/orderStore';
+import { ChainUnwindBuilder } from './orders/unwind';
+import { DerivativesReader } from './derivatives/DerivativesReader';
+import { VoteEscrowReader } from './voteEscrow/VoteEscrowReader';
+import { VoteEscrowService } from './voteEscrow/VoteEscrowService';
+import { PriceFeed } from './prices/PriceFeed';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const dataSource = new InMemoryDataSource();
+// Any address can be analyzed from chain state once a Base node is configured
+const discovery = process.env.BASE_RPC_URL ? new PositionDiscovery(process.env.BASE_RPC_URL) : undefined;
+// Shared so the API, streams and alerts reuse one set of gas and pool reads
+const costModel = process.env.BASE_RPC_URL ? new ArbitrageCostModel(process.env.BASE_RPC_URL) : undefined;
+
+const alerts = new AlertEngine(new AnalyticsService(dataSource, discovery, costModel), {
+  store: process.env.ALERT_RULES_PATH ? new FileAlertRuleStore(process.env.ALERT_RULES_PATH) : new MemoryAlertRuleStore(),
+  sinks: [new WebhookSink({ url: process.env.ALERT_WEBHOOK_URL, secret: process.env.ALERT_WEBHOOK_SECRET })]
+});
+// Unwinds for triggered orders are built from chain state, so they need a Base node
+const orders = new OrderKeeper(new AnalyticsService(dataSource, discovery, costModel), {
+  store: process.env.ORDERS_PATH ? new FileOrderStore(process.env.ORDERS_PATH) : new MemoryOrderStore(),
+  builder: process.env.BASE_RPC_URL ? new ChainUnwindBuilder(process.env.BASE_RPC_URL) : undefined,
+  interval: Number(process.env.ORDER_KEEPER_INTERVAL) || undefined
+});
+// veAERO locks, gauge votes and voter rewards are read from Aerodrome's contracts
+const voteEscrow = process.env.BASE_RPC_URL
+  ? new VoteEscrowService(new VoteEscrowReader(process.env.BASE_RPC_URL), dataSource)
+  : undefined;
+const server = createServer(createApp({ dataSource, discovery, alerts, orders, costModel, voteEscrow }));
+
+const realtime = new RealtimeHub(server, new AnalyticsService(dataSource, undefined, costModel), {
+  pollInterval: Number(process.env.REALTIME_POLL_INTERVAL) || undefined,
+  alerts,
+  orders
+});
+realtime.start();
+orders.start();
+
+// Token prices come from Chainlink feeds and Aerodrome TWAPs. Every USD figure depends on them,
+// so the readers below start once the first prices are in.
+let pricesReady: Promise<void> = Promise.resolve();
+if (process.env.BASE_RPC_URL) {
+  const priceFeed = new PriceFeed(process.env.BASE_RPC_URL);
+  let pricing = false;
+
+  const price = async () => {
+    if (pricing) return;
+    pricing = true;
+    try {
+      const { prices, errors } = await priceFeed.read();
+      dataSource.setPrices(prices);
+      errors.forEach(error => console.error(`No price for ${error.token}: ${error.message}`));
+    } catch (err) {
+      console.error('Price read failed', err);
+    } finally {
+      pricing = false;
+    }
+  };
+
+  pricesReady = price();
+  setInterval(price, Number(process.env.PRICE_POLL_INTERVAL) || 60000);
+} else {
+  console.warn('BASE_RPC_URL is not set: no token prices are read, so TVL, gas costs and rewards cannot be valued');
+}
+
+// Protocol and pool TVL and volume come from the log indexer when a node is configured
+if (process.env.INDEXER_RPC_URL) {
+  const indexer = new Indexer({
+    source: new RpcLogSource(process.env.INDEXER_RPC_URL),
+    checkpoints: new FileCheckpointStore(process.env.INDEXER_CHECKPOINT_PATH || 'indexer-checkpoint.json'),
+    startBlock: process.env.INDEXER_START_BLOCK ? Number(process.env.INDEXER_START_BLOCK) : undefined
+  });
+  let indexing = false;
+
+  const index = async () => {
+    if (indexing) return;
+    indexing = true;
+    try {
+      const [prices, protocols, pools] = await Promise.all([dataSource.getPrices(), dataSource.getProtocols(), dataSource.getPools()]);
+      await indexer.run(prices);
+      dataSource.upsertProtocols(indexer.getProtocolData(prices, protocols));
+      dataSource.upsertPools(indexer.getPoolData(prices, pools));
+      dataSource.upsertSnapshots(indexer.getSnapshots(protocols));
+    } catch (err) {
+      console.error('Indexer run failed', err);
+    } finally {
+      indexing = false;
+    }
+  };
+
+  pricesReady.then(index);
+  setInterval(index, Number(process.env.INDEXER_POLL_INTERVAL) || 15000);
+}
+
+// Multi-hop and triangular cycles across the Base DEXes join the arbitrage feed
+if (process.env.BASE_RPC_URL) {
+  const scanner = new RouteScanner(process.env.BASE_RPC_URL);
+  let scanning = false;
+
+  const scan = async () => {
+    if (scanning) return;
+    scanning = true;
+    try {
+      dataSource.replaceRouteOpportunities(await scanner.scan(await dataSource.getPrices()));
+    } catch (err) {
+      console.error('Route scan failed', err);
+    } finally {
+      scanning = false;
+    }
+  };
+
+  pricesReady.then(scan);
+  setInterval(scan, Number(process.env.ROUTE_SCAN_INTERVAL) || 15000);
+}
+
+// Open interest, funding and margin of the perp protocols are read straight from chain
+if (process.env.BASE_RPC_URL) {
+  const derivatives = new DerivativesReader(process.env.BASE_RPC_URL);
+  let reading = false;
+
+  const read = async () => {
+    if (reading) return;
+    reading = true;
+    try {
+      const [prices, protocols] = await Promise.all([dataSource.getPrices(), dataSource.getProtocols()]);
+      dataSource.upsertProtocols(await derivatives.getProtocolData(prices, protocols));
+    } catch (err) {
+      console.error('Derivatives read failed', err);
+    } finally {
+      reading = false;
+    }
+  };
+
+  pricesReady.then(read);
+  setInterval(read, Number(process.env.DERIVATIVES_POLL_INTERVAL) || 60000);
+}
+
+// Gauge votes and bribes are re-read through each epoch so its last reading is kept in the history
+if (voteEscrow) {
+  let refreshing = false;
+
+  const refresh = async () => {
+    if (refreshing) return;
+    refreshing = true;
+    try {
+      await voteEscrow.refresh();
+    } catch (err) {
+      console.error('Vote-escrow read failed', err);
+    } finally {
+      refreshing = false;
+    }
+  };
+
+  pricesReady.then(refresh);
+  setInterval(refresh, Number(process.env.VOTE_ESCROW_POLL_INTERVAL) || 300000);
+}
+
+server.listen(PORT, () => {
+  console.log(`Base DeFi Analytics API listening on port ${PORT}`);
+});
@@ -0,0 +1,187 @@
+import type { PoolData, ProtocolData, ProtocolSnapshot, TokenPrices } from '../models';
+import type { CheckpointStore } from './checkpointStore';
+import { INDEXED_PROTOCOLS, getWatchedAddresses } from './config';
+import { createLogDecoder, getMarketKey } from './decoders';
+import { ProtocolAggregator, type ProtocolMetrics } from './ProtocolAggregator';
+import type { LogSource } from './sources';
+import type { IndexedProtocolConfig, RawLog } from './types';
+
+/**
+ * @title Indexer
+ * @description Pulls logs for the configured pools and markets in block batches, folds
+ * them into protocol TVL and volume, and checkpoints after every batch
+ * @author Base DeFi Analytics Team
+ */
+
+export interface IndexerOptions {
+  source: LogSource;
+  checkpoints: CheckpointStore;
+  protocols?: IndexedProtocolConfig[];
+  // First block to index when no checkpoint exists; a fresh index without one is refused
+  // rather than scanning from genesis
+  startBlock?: number;
+  batchSize?: number;
+}
+
+export interface IndexerRunResult {
+  fromBlock: number;
+  toBlock: number;
+  logs: number;
+  events: number;
+}
+
+const byChainOrder = (a: RawLog, b: RawLog) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+export class Indexer {
+  private readonly source: LogSource;
+  private readonly checkpoints: CheckpointStore;
+  private readonly protocols: IndexedProtocolConfig[];
+  private readonly decode: ReturnType<typeof createLogDecoder>;
+  private readonly startBlock: number | undefined;
+  private readonly batchSize: number;
+  private aggregator: ProtocolAggregator;
+  private lastBlock: number | null = null;
+  private loaded = false;
+
+  constructor({ source, checkpoints, protocols = INDEXED_PROTOCOLS, startBlock, batchSize = 2000 }: IndexerOptions) {
+    this.source = source;
+    this.checkpoints = checkpoints;
+    this.protocols = protocols;
+    this.decode = createLogDecoder(protocols);
+    this.startBlock = startBlock;
+    this.batchSize = batchSize;
+    this.aggregator = new ProtocolAggregator(protocols);
+  }
+
+  get lastIndexedBlock(): number | null {
+    return this.lastBlock;
+  }
+
+  /**
+   * Indexes from the block after the checkpoint up to `toBlock` (default: chain head).
+   * Prices are only used to value the hourly snapshots taken along the way.
+   */
+  async run(prices: TokenPrices, toBlock?: number): Promise<IndexerRunResult> {
+    await this.restore();
+    if (this.lastBlock === null && this.startBlock === undefined) {
+      throw new Error('No indexer checkpoint to resume from, a start block is required');
+    }
+    const target = toBlock ?? await this.source.getLatestBlock();
+    const fromBlock = this.lastBlock === null ? this.startBlock! : this.lastBlock + 1;
+    const addresses = getWatchedAddresses(this.protocols);
+    const result: IndexerRunResult = { fromBlock, toBlock: target, logs: 0, events: 0 };
+
+    for (let start = fromBlock; start <= target; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, target);
+      const logs = (await this.source.getLogs(addresses, start, end)).sort(byChainOrder);
+      logs.forEach(log => {
+        const event = this.decode(log);
+        if (!event) return;
+        this.aggregator.apply(event);
+        result.events += 1;
+      });
+      result.logs += logs.length;
+      this.aggregator.recordSnapshot(prices);
+      this.lastBlock = end;
+      await this.checkpoints.save({ lastBlock: end, state: this.aggregator.toJSON() });
+    }
+    return result;
+  }
+
+  getMetrics(prices: TokenPrices): ProtocolMetrics[] {
+    return this.aggregator.getMetrics(prices);
+  }
+
+  /**
+   * Overlays indexed TVL and volume onto existing protocol rows. Everything else (APY, risk,
+   * yield sources, derivatives) is not derivable from logs, so it is kept from `base`; unseen
+   * protocols get neutral defaults.
+   */
+  getProtocolData(prices: TokenPrices, base: ProtocolData[] = []): ProtocolData[] {
+    const metrics = new Map(this.getMetrics(prices).map(metric => [metric.protocolId, metric]));
+    return this.protocols.map(protocol => {
+      const existing = base.find(candidate => candidate.id === protocol.id);
+      const { tvl, volume24h, change24h } = metrics.get(protocol.id)!;
+      return {
+        id: protocol.id,
+        name: protocol.name,
+        category: protocol.category,
+        apy: 0,
+        riskScore: 5,
+        isActive: true,
+        ...existing,
+        tvl,
+        volume24h,
+        change24h
+      };
+    });
+  }
+
+  /**
+   * One row per configured pool and lending market. Pool fee APR follows from 24h volume and
+   * the fee tier; market interest and every reward APR are not in the logs, so they are kept
+   * from `base`.
+   */
+  getPoolData(prices: TokenPrices, base: PoolData[] = []): PoolData[] {
+    const venues = new Map(this.aggregator.getVenueMetrics(prices).map(venue => [venue.key, venue]));
+    return this.protocols.flatMap(protocol => [
+      ...(protocol.pools || []).map((pool): PoolData => {
+        const id = `${protocol.id}:${pool.address.toLowerCase()}`;
+        const existing = base.find(candidate => candidate.id === id);
+        const { tvl, volume24h } = venues.get(pool.address.toLowerCase())!;
+        return {
+          id,
+          protocolId: protocol.id,
+          kind: 'pool',
+          address: pool.address,
+          name: `${pool.token0}/${pool.token1}`,
+          tokens: [pool.token0, pool.token1],
+          feeTier: pool.fee,
+          tvl,
+          volume24h,
+          feeApr: tvl > 0 ? (volume24h * pool.fee / 1e6 * 365 / tvl) * 100 : 0,
+          rewardApr: existing?.rewardApr ?? 0,
+          ...(existing?.rewardEmissions ? { rewardEmissions: existing.rewardEmissions } : {})
+        };
+      }),
+      ...(protocol.markets || []).map((market): PoolData => {
+        const id = `${protocol.id}:${getMarketKey(market)}`;
+        const existing = base.find(candidate => candidate.id === id);
+        const { tvl, volume24h, utilization } = venues.get(getMarketKey(market))!;
+        return {
+          id,
+          protocolId: protocol.id,
+          kind: 'market',
+          address: market.address,
+          name: market.asset,
+          tokens: [market.asset],
+          tvl,
+          volume24h,
+          feeApr: existing?.feeApr ?? 0,
+          rewardApr: existing?.rewardApr ?? 0,
+          ...(existing?.rewardEmissions ? { rewardEmissions: existing.rewardEmissions } : {}),
+          utilization
+        };
+      })
+    ]);
+  }
+
+  getSnapshots(base: ProtocolData[] = []): ProtocolSnapshot[] {
+    return this.aggregator.getSnapshots().map(snapshot => ({
+      protocolId: snapshot.protocolId,
+      timestamp: new Date(snapshot.timestamp * 1000),
+      tvl: snapshot.tvl,
+      apy: base.find(protocol => protocol.id === snapshot.protocolId)?.apy ?? 0,
+      volume24h: snapshot.volume24h
+    }));
+  }
+
+  private async restore(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+    const checkpoint = await this.checkpoints.load();
+    if (!checkpoint) return;
+    this.lastBlock = checkpoint.lastBlock;
+    this.aggregator = ProtocolAggregator.fromJSON(this.protocols, checkpoint.state);
+  }
+}
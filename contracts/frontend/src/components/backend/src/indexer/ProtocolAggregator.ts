@@ -0,0 +1,257 @@
+import { formatUnits } from 'ethers';
+import { BASE_TOKENS, type TokenInfo } from '../../../../services/dexRegistry';
+import type { TokenPrices } from '../models';
+import { getMarketKey } from './decoders';
+import type { IndexedEvent, IndexedProtocolConfig } from './types';
+
+/**
+ * @title ProtocolAggregator
+ * @description Folds decoded events into per-pool balances and per-market supply/borrow,
+ * and derives TVL, rolling 24h volume and 24h TVL change per protocol
+ * @author Base DeFi Analytics Team
+ */
+
+const DAY_SECONDS = 24 * 60 * 60;
+const HOUR_SECONDS = 60 * 60;
+
+interface PoolState {
+  protocolId: string;
+  token0: string;
+  token1: string;
+  balance0: bigint;
+  balance1: bigint;
+}
+
+interface MarketState {
+  protocolId: string;
+  asset: string;
+  supplied: bigint;
+  borrowed: bigint;
+}
+
+// Swap input kept in token units so volume is valued at read time
+interface VolumeEntry {
+  protocolId: string;
+  // Lowercase pool address; entries restored from older checkpoints lack it and age out within a day
+  pool: string;
+  timestamp: number;
+  token: string;
+  amount: bigint;
+}
+
+export interface TvlSnapshot {
+  protocolId: string;
+  timestamp: number;
+  tvl: number;
+  volume24h: number;
+}
+
+export interface ProtocolMetrics {
+  protocolId: string;
+  tvl: number;
+  volume24h: number;
+  change24h: number;
+}
+
+// Keyed by pool address or market key, as in the aggregator state
+export interface VenueMetrics {
+  key: string;
+  protocolId: string;
+  tvl: number;
+  volume24h: number;
+  // Markets only
+  utilization?: number;
+}
+
+// JSON form of the aggregator, with bigints as decimal strings
+export interface AggregatorState {
+  latestTimestamp: number;
+  pools: Record<string, Omit<PoolState, 'balance0' | 'balance1'> & { balance0: string; balance1: string }>;
+  markets: Record<string, Omit<MarketState, 'supplied' | 'borrowed'> & { supplied: string; borrowed: string }>;
+  volume: (Omit<VolumeEntry, 'amount'> & { amount: string })[];
+  snapshots: TvlSnapshot[];
+}
+
+const getTokenInfo = (symbol: string): TokenInfo => {
+  const token = BASE_TOKENS[symbol];
+  if (!token) throw new Error(`Unknown token ${symbol} in indexer config`);
+  return token;
+};
+
+const toUsd = (amount: bigint, symbol: string, prices: TokenPrices): number => {
+  return Number(formatUnits(amount, getTokenInfo(symbol).decimals)) * (prices[symbol] || 0);
+};
+
+export class ProtocolAggregator {
+  private latestTimestamp = 0;
+  private pools = new Map<string, PoolState>();
+  private markets = new Map<string, MarketState>();
+  private volume: VolumeEntry[] = [];
+  private snapshots: TvlSnapshot[] = [];
+
+  constructor(private readonly protocols: IndexedProtocolConfig[]) {
+    protocols.forEach(protocol => {
+      (protocol.pools || []).forEach(pool => {
+        this.pools.set(pool.address.toLowerCase(), {
+          protocolId: protocol.id, token0: pool.token0, token1: pool.token1, balance0: 0n, balance1: 0n
+        });
+      });
+      (protocol.markets || []).forEach(market => {
+        this.markets.set(getMarketKey(market), {
+          protocolId: protocol.id, asset: market.asset, supplied: 0n, borrowed: 0n
+        });
+      });
+    });
+  }
+
+  static fromJSON(protocols: IndexedProtocolConfig[], state: AggregatorState): ProtocolAggregator {
+    const aggregator = new ProtocolAggregator(protocols);
+    aggregator.latestTimestamp = state.latestTimestamp;
+    Object.entries(state.pools).forEach(([key, pool]) => {
+      aggregator.pools.set(key, { ...pool, balance0: BigInt(pool.balance0), balance1: BigInt(pool.balance1) });
+    });
+    Object.entries(state.markets).forEach(([key, market]) => {
+      aggregator.markets.set(key, { ...market, supplied: BigInt(market.supplied), borrowed: BigInt(market.borrowed) });
+    });
+    aggregator.volume = state.volume.map(entry => ({ ...entry, amount: BigInt(entry.amount) }));
+    aggregator.snapshots = state.snapshots;
+    return aggregator;
+  }
+
+  toJSON(): AggregatorState {
+    const pools: AggregatorState['pools'] = {};
+    this.pools.forEach((pool, key) => {
+      pools[key] = { ...pool, balance0: pool.balance0.toString(), balance1: pool.balance1.toString() };
+    });
+    const markets: AggregatorState['markets'] = {};
+    this.markets.forEach((market, key) => {
+      markets[key] = { ...market, supplied: market.supplied.toString(), borrowed: market.borrowed.toString() };
+    });
+    return {
+      latestTimestamp: this.latestTimestamp,
+      pools,
+      markets,
+      volume: this.volume.map(entry => ({ ...entry, amount: entry.amount.toString() })),
+      snapshots: this.snapshots
+    };
+  }
+
+  apply(event: IndexedEvent): void {
+    this.latestTimestamp = Math.max(this.latestTimestamp, event.timestamp);
+
+    if (event.kind === 'lending') {
+      const market = this.markets.get(event.market);
+      if (!market) return;
+      market.supplied += event.supplyDelta;
+      market.borrowed += event.borrowDelta;
+      return;
+    }
+
+    const pool = this.pools.get(event.pool);
+    if (!pool) return;
+    pool.balance0 += event.amount0;
+    pool.balance1 += event.amount1;
+
+    if (event.kind === 'swap') {
+      // The positive side is what the trader paid in, which is the traded volume
+      const [token, amount] = event.amount0 > 0n ? [pool.token0, event.amount0] : [pool.token1, event.amount1];
+      this.volume.push({ protocolId: event.protocolId, pool: event.pool, timestamp: event.timestamp, token, amount });
+    }
+    this.pruneVolume();
+  }
+
+  // Lending TVL is supplied minus borrowed, i.e. liquidity still held by the market
+  getTvl(protocolId: string, prices: TokenPrices): number {
+    let tvl = 0;
+    this.pools.forEach(pool => {
+      if (pool.protocolId !== protocolId) return;
+      tvl += toUsd(pool.balance0, pool.token0, prices) + toUsd(pool.balance1, pool.token1, prices);
+    });
+    this.markets.forEach(market => {
+      if (market.protocolId !== protocolId) return;
+      tvl += toUsd(market.supplied - market.borrowed, market.asset, prices);
+    });
+    return tvl;
+  }
+
+  getVolume24h(protocolId: string, prices: TokenPrices): number {
+    return this.sumVolume(entry => entry.protocolId === protocolId, prices);
+  }
+
+  // Same TVL and volume as the protocol figures, broken down per pool and market
+  getVenueMetrics(prices: TokenPrices): VenueMetrics[] {
+    const venues: VenueMetrics[] = [];
+    this.pools.forEach((pool, key) => {
+      venues.push({
+        key,
+        protocolId: pool.protocolId,
+        tvl: toUsd(pool.balance0, pool.token0, prices) + toUsd(pool.balance1, pool.token1, prices),
+        volume24h: this.sumVolume(entry => entry.pool === key, prices)
+      });
+    });
+    this.markets.forEach((market, key) => {
+      venues.push({
+        key,
+        protocolId: market.protocolId,
+        tvl: toUsd(market.supplied - market.borrowed, market.asset, prices),
+        volume24h: 0,
+        utilization: market.supplied > 0n ? Number(market.borrowed * 10000n / market.supplied) / 10000 : 0
+      });
+    });
+    return venues;
+  }
+
+  /**
+   * Records one TVL/volume point per protocol per hour at the latest indexed time,
+   * replacing any earlier point in the same hour. Snapshots older than the longest
+   * chart window are dropped.
+   */
+  recordSnapshot(prices: TokenPrices): void {
+    if (!this.latestTimestamp) return;
+    const hour = Math.floor(this.latestTimestamp / HOUR_SECONDS) * HOUR_SECONDS;
+    this.snapshots = this.snapshots.filter(snapshot =>
+      snapshot.timestamp !== hour && snapshot.timestamp > this.latestTimestamp - 90 * DAY_SECONDS);
+    this.protocols.forEach(protocol => {
+      this.snapshots.push({
+        protocolId: protocol.id,
+        timestamp: hour,
+        tvl: this.getTvl(protocol.id, prices),
+        volume24h: this.getVolume24h(protocol.id, prices)
+      });
+    });
+  }
+
+  getSnapshots(): TvlSnapshot[] {
+    return this.snapshots;
+  }
+
+  getMetrics(prices: TokenPrices): ProtocolMetrics[] {
+    const dayAgo = this.latestTimestamp - DAY_SECONDS;
+    return this.protocols.map(protocol => {
+      const tvl = this.getTvl(protocol.id, prices);
+      const previous = this.snapshots
+        .filter(snapshot => snapshot.protocolId === protocol.id && snapshot.timestamp <= dayAgo)
+        .sort((a, b) => b.timestamp - a.timestamp)[0];
+      return {
+        protocolId: protocol.id,
+        tvl,
+        volume24h: this.getVolume24h(protocol.id, prices),
+        change24h: previous && previous.tvl > 0 ? ((tvl - previous.tvl) / previous.tvl) * 100 : 0
+      };
+    });
+  }
+
+  private sumVolume(matches: (entry: VolumeEntry) => boolean, prices: TokenPrices): number {
+    const since = this.latestTimestamp - DAY_SECONDS;
+    return this.volume
+      .filter(entry => matches(entry) && entry.timestamp > since)
+      .reduce((sum, entry) => sum + toUsd(entry.amount, entry.token, prices), 0);
+  }
+
+  private pruneVolume(): void {
+    const since = this.latestTimestamp - DAY_SECONDS;
+    if (this.volume.length && this.volume[0].timestamp <= since) {
+      this.volume = this.volume.filter(entry => entry.timestamp > since);
+    }
+  }
+}
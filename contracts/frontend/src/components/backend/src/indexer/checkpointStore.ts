@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import type { AggregatorState } from './ProtocolAggregator';
+
+/**
+ * @title Checkpoint store
+ * @description Persists the last indexed block together with aggregator state so a
+ * restarted indexer resumes without replaying history
+ * @author Base DeFi Analytics Team
+ */
+
+export interface IndexerCheckpoint {
+  lastBlock: number;
+  state: AggregatorState;
+}
+
+export interface CheckpointStore {
+  load(): Promise<IndexerCheckpoint | null>;
+  save(checkpoint: IndexerCheckpoint): Promise<void>;
+}
+
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<IndexerCheckpoint | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  // Written to a temp file first so a crash mid-write never leaves a truncated checkpoint
+  async save(checkpoint: IndexerCheckpoint): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(checkpoint));
+    await fs.rename(tmpPath, this.path);
+  }
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoint: IndexerCheckpoint | null = null;
+
+  async load(): Promise<IndexerCheckpoint | null> {
+    return this.checkpoint;
+  }
+
+  async save(checkpoint: IndexerCheckpoint): Promise<void> {
+    this.checkpoint = checkpoint;
+  }
+}
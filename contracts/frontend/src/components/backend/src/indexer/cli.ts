@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import type { TokenPrices } from '../models';
+import { FileCheckpointStore, MemoryCheckpointStore } from './checkpointStore';
+import { Indexer } from './Indexer';
+import { FixtureLogSource, RecordingLogSource, RpcLogSource, type LogSource } from './sources';
+
+/**
+ * Runs the indexer once and prints per-protocol TVL and volume.
+ *
+ *   --rpc <url>          index from a node (defaults to INDEXER_RPC_URL)
+ *   --fixture <path>     index from a recorded log fixture instead
+ *   --record <path>      save the logs read from --rpc as a fixture
+ *   --checkpoint <path>  resume from and persist to this file
+ *   --from <block>       first block, required when there is no checkpoint
+ *   --to <block>         last block to index (default: latest)
+ *   --prices <path>      JSON of USD prices by token symbol
+ */
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Invalid argument ${argv[i]}`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  const rpcUrl = args.rpc || process.env.INDEXER_RPC_URL;
+
+  let source: LogSource;
+  let recorder: RecordingLogSource | null = null;
+  if (args.fixture) {
+    source = await FixtureLogSource.fromFile(args.fixture);
+  } else if (rpcUrl) {
+    source = new RpcLogSource(rpcUrl);
+    if (args.record) source = recorder = new RecordingLogSource(source);
+  } else {
+    throw new Error('Provide --fixture or --rpc (or set INDEXER_RPC_URL)');
+  }
+
+  const prices: TokenPrices = args.prices ? JSON.parse(await fs.readFile(args.prices, 'utf8')) : {};
+  const indexer = new Indexer({
+    source,
+    checkpoints: args.checkpoint ? new FileCheckpointStore(args.checkpoint) : new MemoryCheckpointStore(),
+    startBlock: args.from ? Number(args.from) : undefined
+  });
+
+  const result = await indexer.run(prices, args.to ? Number(args.to) : undefined);
+  console.log(`Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.logs} logs, ${result.events} events`);
+  console.table(indexer.getMetrics(prices));
+
+  if (recorder && args.record) {
+    await recorder.save(args.record);
+    console.log(`Recorded fixture to ${args.record}`);
+  }
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+import type { IndexedProtocolConfig } from './types';
+
+/**
+ * @title Indexer configuration
+ * @description Base mainnet pools and lending markets tracked per protocol. Token
+ * fields are symbols resolved through the shared DEX registry.
+ * @author Base DeFi Analytics Team
+ */
+
+export const INDEXED_PROTOCOLS: IndexedProtocolConfig[] = [
+  {
+    id: 'uniswap-v3',
+    name: 'Uniswap V3',
+    category: 'DEX',
+    pools: [
+      { address: '0xd0b53D9277642d899DF5C87A3966A349A798F224', kind: 'uniswapV3', token0: 'WETH', token1: 'USDC', fee: 500 }
+    ]
+  },
+  {
+    id: 'aerodrome',
+    name: 'Aerodrome',
+    category: 'DEX',
+    pools: [
+      { address: '0xcDAC0d6c6C59727a65F871236188350531885C43', kind: 'aerodrome', token0: 'WETH', token1: 'USDC', fee: 3000 }
+    ]
+  },
+  {
+    id: 'aave-v3',
+    name: 'Aave V3',
+    category: 'Lending',
+    markets: [
+      { address: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5', kind: 'aaveV3', asset: 'USDC', reserve: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' },
+      { address: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5', kind: 'aaveV3', asset: 'WETH', reserve: '0x4200000000000000000000000000000000000006' }
+    ]
+  },
+  {
+    id: 'moonwell',
+    name: 'Moonwell',
+    category: 'Lending',
+    markets: [
+      { address: '0xEdc817A28E8B93B03976FBd4a3dDBc9f7D176c22', kind: 'moonwell', asset: 'USDC' },
+      { address: '0x628ff693426583D9a7FB391E54366292F509D457', kind: 'moonwell', asset: 'WETH' }
+    ]
+  }
+];
+
+// Every contract address the indexer needs logs for
+export const getWatchedAddresses = (protocols: IndexedProtocolConfig[] = INDEXED_PROTOCOLS): string[] => {
+  const addresses = protocols.flatMap(protocol => [
+    ...(protocol.pools || []).map(pool => pool.address.toLowerCase()),
+    ...(protocol.markets || []).map(market => market.address.toLowerCase())
+  ]);
+  return Array.from(new Set(addresses));
+};
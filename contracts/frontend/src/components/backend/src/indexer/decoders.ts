@@ -0,0 +1,139 @@
+import { Interface, type LogDescription } from 'ethers';
+import type {
+  IndexedEvent,
+  IndexedProtocolConfig,
+  LendingMarketConfig,
+  PoolConfig,
+  RawLog
+} from './types';
+
+/**
+ * @title Log decoders
+ * @description Turns raw pool and lending-market logs into signed token deltas
+ * @author Base DeFi Analytics Team
+ */
+
+const uniswapV3Pool = new Interface([
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)'
+]);
+
+const aerodromePool = new Interface([
+  'event Swap(address indexed sender, address indexed to, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out)',
+  'event Mint(address indexed sender, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed sender, address indexed to, uint256 amount0, uint256 amount1)'
+]);
+
+const aaveV3Pool = new Interface([
+  'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+  'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)',
+  'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)'
+]);
+
+const moonwellMarket = new Interface([
+  'event Mint(address minter, uint256 mintAmount, uint256 mintTokens)',
+  'event Redeem(address redeemer, uint256 redeemAmount, uint256 redeemTokens)',
+  'event Borrow(address borrower, uint256 borrowAmount, uint256 accountBorrows, uint256 totalBorrows)',
+  'event RepayBorrow(address payer, address borrower, uint256 repayAmount, uint256 accountBorrows, uint256 totalBorrows)'
+]);
+
+type Target =
+  | { protocolId: string; pool: PoolConfig }
+  | { protocolId: string; market: LendingMarketConfig };
+
+const parse = (iface: Interface, log: RawLog): LogDescription | null => {
+  try {
+    return iface.parseLog({ topics: log.topics, data: log.data });
+  } catch {
+    return null;
+  }
+};
+
+const decodePoolLog = (protocolId: string, pool: PoolConfig, log: RawLog): IndexedEvent | null => {
+  const base = { protocolId, pool: pool.address.toLowerCase(), blockNumber: log.blockNumber, logIndex: log.logIndex, timestamp: log.timestamp };
+
+  if (pool.kind === 'uniswapV3') {
+    const event = parse(uniswapV3Pool, log);
+    if (!event) return null;
+    const { amount0, amount1 }: Record<string, bigint> = event.args;
+    if (event.name === 'Swap') return { ...base, kind: 'swap', amount0, amount1 };
+    if (event.name === 'Mint') return { ...base, kind: 'liquidity', amount0, amount1 };
+    // Burned liquidity leaves the position even before it is collected
+    if (event.name === 'Burn') return { ...base, kind: 'liquidity', amount0: -amount0, amount1: -amount1 };
+    return null;
+  }
+
+  const event = parse(aerodromePool, log);
+  if (!event) return null;
+  if (event.name === 'Swap') {
+    const { amount0In, amount1In, amount0Out, amount1Out }: Record<string, bigint> = event.args;
+    return { ...base, kind: 'swap', amount0: amount0In - amount0Out, amount1: amount1In - amount1Out };
+  }
+  const { amount0, amount1 }: Record<string, bigint> = event.args;
+  if (event.name === 'Mint') return { ...base, kind: 'liquidity', amount0, amount1 };
+  if (event.name === 'Burn') return { ...base, kind: 'liquidity', amount0: -amount0, amount1: -amount1 };
+  return null;
+};
+
+export const getMarketKey = (market: LendingMarketConfig): string => {
+  return market.kind === 'aaveV3'
+    ? `${market.address.toLowerCase()}:${market.reserve?.toLowerCase()}`
+    : market.address.toLowerCase();
+};
+
+const decodeMarketLog = (protocolId: string, market: LendingMarketConfig, log: RawLog): IndexedEvent | null => {
+  const base = {
+    protocolId,
+    kind: 'lending' as const,
+    market: getMarketKey(market),
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+    timestamp: log.timestamp
+  };
+
+  if (market.kind === 'aaveV3') {
+    const event = parse(aaveV3Pool, log);
+    if (!event || event.args.reserve.toLowerCase() !== market.reserve?.toLowerCase()) return null;
+    const amount: bigint = event.args.amount;
+    if (event.name === 'Supply') return { ...base, supplyDelta: amount, borrowDelta: 0n };
+    if (event.name === 'Withdraw') return { ...base, supplyDelta: -amount, borrowDelta: 0n };
+    if (event.name === 'Borrow') return { ...base, supplyDelta: 0n, borrowDelta: amount };
+    // Repaying with aTokens burns supply as well as debt
+    if (event.name === 'Repay') return { ...base, supplyDelta: event.args.useATokens ? -amount : 0n, borrowDelta: -amount };
+    return null;
+  }
+
+  const event = parse(moonwellMarket, log);
+  if (!event) return null;
+  const { mintAmount, redeemAmount, borrowAmount, repayAmount }: Record<string, bigint> = event.args;
+  if (event.name === 'Mint') return { ...base, supplyDelta: mintAmount, borrowDelta: 0n };
+  if (event.name === 'Redeem') return { ...base, supplyDelta: -redeemAmount, borrowDelta: 0n };
+  if (event.name === 'Borrow') return { ...base, supplyDelta: 0n, borrowDelta: borrowAmount };
+  if (event.name === 'RepayBorrow') return { ...base, supplyDelta: 0n, borrowDelta: -repayAmount };
+  return null;
+};
+
+// Builds a decoder bound to the configured contracts; unknown logs decode to null
+export const createLogDecoder = (protocols: IndexedProtocolConfig[]) => {
+  const targets = new Map<string, Target[]>();
+  const addTarget = (address: string, target: Target) => {
+    const key = address.toLowerCase();
+    targets.set(key, [...(targets.get(key) || []), target]);
+  };
+  protocols.forEach(protocol => {
+    (protocol.pools || []).forEach(pool => addTarget(pool.address, { protocolId: protocol.id, pool }));
+    (protocol.markets || []).forEach(market => addTarget(market.address, { protocolId: protocol.id, market }));
+  });
+
+  return (log: RawLog): IndexedEvent | null => {
+    for (const target of targets.get(log.address.toLowerCase()) || []) {
+      const event = 'pool' in target
+        ? decodePoolLog(target.protocolId, target.pool, log)
+        : decodeMarketLog(target.protocolId, target.market, log);
+      if (event) return event;
+    }
+    return null;
+  };
+};
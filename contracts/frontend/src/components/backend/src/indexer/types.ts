@@ -0,0 +1,78 @@
+import type { ProtocolCategory } from '../models';
+
+/**
+ * @title Indexer types
+ * @description Raw logs, decoded protocol events and the configuration that links them
+ * @author Base DeFi Analytics Team
+ */
+
+export interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  // Block timestamp in seconds
+  timestamp: number;
+}
+
+export type PoolKind = 'uniswapV3' | 'aerodrome';
+export type LendingKind = 'aaveV3' | 'moonwell';
+
+export interface PoolConfig {
+  address: string;
+  kind: PoolKind;
+  token0: string;
+  token1: string;
+  // Swap fee in hundredths of a bip, e.g. 500 for 0.05%
+  fee: number;
+}
+
+// Aave markets are keyed by reserve asset on a shared Pool contract,
+// Moonwell markets by their mToken address
+export interface LendingMarketConfig {
+  address: string;
+  kind: LendingKind;
+  asset: string;
+  reserve?: string;
+}
+
+export interface IndexedProtocolConfig {
+  id: string;
+  name: string;
+  category: ProtocolCategory;
+  pools?: PoolConfig[];
+  markets?: LendingMarketConfig[];
+}
+
+interface EventBase {
+  protocolId: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+}
+
+// Token deltas are signed from the pool's perspective: positive flowed in
+export interface SwapEvent extends EventBase {
+  kind: 'swap';
+  pool: string;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+export interface LiquidityEvent extends EventBase {
+  kind: 'liquidity';
+  pool: string;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+export interface LendingEvent extends EventBase {
+  kind: 'lending';
+  market: string;
+  supplyDelta: bigint;
+  borrowDelta: bigint;
+}
+
+export type IndexedEvent = SwapEvent | LiquidityEvent | LendingEvent;
@@ -0,0 +1,55 @@
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * @title Error handling
+ * @description Structured API errors and the handlers that serialize them
+ * @author Base DeFi Analytics Team
+ */
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  static badRequest(message: string, details?: unknown): ApiError {
+    return new ApiError(400, 'BAD_REQUEST', message, details);
+  }
+
+  static notFound(message: string): ApiError {
+    return new ApiError(404, 'NOT_FOUND', message);
+  }
+
+  static unavailable(message: string): ApiError {
+    return new ApiError(503, 'UNAVAILABLE', message);
+  }
+}
+
+// Express 4 does not forward rejected promises, so async handlers are wrapped
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req, res, next) => {
+  handler(req, res, next).catch(next);
+};
+
+export const notFoundHandler: RequestHandler = (req, _res, next) => {
+  next(ApiError.notFound(`Route ${req.method} ${req.path} not found`));
+};
+
+// Every error leaves the API as { error: { code, message, details? } }
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof ApiError) {
+    res.status(err.status).json({
+      error: { code: err.code, message: err.message, ...(err.details !== undefined && { details: err.details }) }
+    });
+    return;
+  }
+
+  console.error(err);
+  res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+};
@@ -0,0 +1,18 @@
+import type { RequestHandler } from 'express';
+import { RateLimiterMemory } from 'rate-limiter-flexible';
+import { ApiError } from './errorHandler';
+
+interface RateLimitOptions {
+  points?: number;
+  duration?: number;
+}
+
+// Per-IP request budget, defaulting to 100 requests per minute
+export const rateLimiter = ({ points = 100, duration = 60 }: RateLimitOptions = {}): RequestHandler => {
+  const limiter = new RateLimiterMemory({ points, duration });
+  return (req, _res, next) => {
+    limiter.consume(req.ip || 'unknown')
+      .then(() => next())
+      .catch(() => next(new ApiError(429, 'RATE_LIMITED', 'Too many requests')));
+  };
+};
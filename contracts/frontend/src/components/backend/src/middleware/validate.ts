@@ -0,0 +1,27 @@
+import type { RequestHandler } from 'express';
+import Joi, { type Schema } from 'joi';
+import { ApiError } from './errorHandler';
+
+type RequestPart = 'body' | 'query' | 'params';
+
+// Wallet and contract addresses, shared by every controller that takes one
+export const address = Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/).messages({
+  'string.pattern.base': '{{#label}} must be a 20-byte hex address'
+});
+
+/**
+ * Validates one part of the request against a joi schema and replaces it with the
+ * coerced value, so handlers receive numbers rather than query strings.
+ */
+export const validate = (schema: Schema, part: RequestPart = 'body'): RequestHandler => (req, _res, next) => {
+  const { error, value } = schema.validate(req[part], { abortEarly: false, stripUnknown: true });
+  if (error) {
+    next(ApiError.badRequest('Validation failed', error.details.map(detail => ({
+      field: detail.path.join('.'),
+      message: detail.message
+    }))));
+    return;
+  }
+  Object.defineProperty(req, part, { value, writable: true, enumerable: true, configurable: true });
+  next();
+};
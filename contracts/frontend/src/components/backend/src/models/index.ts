@@ -0,0 +1,53 @@
+/**
+ * @title Backend models
+ * @description Re-exports the data model shared with the dashboard so both sides agree on shapes
+ * @author Base DeFi Analytics Team
+ */
+
+export type {
+  AlertCondition,
+  AlertDelivery,
+  AlertEvent,
+  AlertKind,
+  AlertRule,
+  ApyBreakdown,
+  ArbitrageCosts,
+  ArbitrageHop,
+  ArbitrageOpportunity,
+  ArbitrageSizing,
+  ClaimCosts,
+  DashboardMetrics,
+  DerivativesMetrics,
+  DiscoveryError,
+  GaugeEpoch,
+  LendingPosition,
+  LiquidityPosition,
+  OrderStatus,
+  OrderTrigger,
+  OrderType,
+  PerpPosition,
+  PoolData,
+  PortfolioAnalysis,
+  PositionHistory,
+  PositionOrder,
+  ProtocolCategory,
+  ProtocolData,
+  ProtocolHistory,
+  ProtocolRiskProfile,
+  ProtocolSnapshot,
+  RewardBalance,
+  RewardEmission,
+  Timeframe,
+  TokenPrices,
+  UnwindTransaction,
+  UserPosition,
+  VeLock,
+  VotePlan,
+  YieldSources
+} from '../../../../types/analytics';
+
+export interface PlatformStats {
+  totalUsers: number;
+  totalRewardsDistributed: number;
+  activeStrategies: number;
+}
@@ -0,0 +1,261 @@
+import { randomUUID } from 'crypto';
+import { getToken } from '../../../../services/dexRegistry';
+import type { OrderStatus, OrderTrigger, OrderType, PositionOrder, TokenPrices, UserPosition } from '../models';
+import type { AnalyticsService } from '../services/AnalyticsService';
+import { ApiError } from '../middleware/errorHandler';
+import { MemoryOrderStore } from './orderStore';
+import { describeTrigger, getTriggerValue, isTriggered } from './triggers';
+import type { OrderListener, OrderStore, UnwindBuilder } from './types';
+
+/**
+ * @title OrderKeeper
+ * @description Holds stop-loss and take-profit orders attached to positions and checks
+ * them against live prices and position values on every run. A triggered order gets the
+ * unwind transactions that close its position, which the owner signs and reports back.
+ * @author Base DeFi Analytics Team
+ */
+
+export interface OrderKeeperOptions {
+  store?: OrderStore;
+  // Without a builder orders still trigger, but fail for lack of an unwind
+  builder?: UnwindBuilder;
+  interval?: number;
+  // Positions may come from on-chain discovery, too slow to re-read on every run
+  positionTtl?: number;
+}
+
+export interface NewOrder {
+  owner: string;
+  strategyId: string;
+  type: OrderType;
+  trigger: OrderTrigger;
+  // Defaults to the position's amount when the order is placed
+  costBasis?: number;
+  settleToken?: string;
+  slippageBps?: number;
+}
+
+export interface OrderQuery {
+  owner?: string;
+  strategyId?: string;
+  status?: OrderStatus;
+}
+
+const OPEN_STATUSES: OrderStatus[] = ['active', 'triggered', 'failed'];
+
+export class OrderKeeper {
+  private readonly store: OrderStore;
+  private readonly listeners: OrderListener[] = [];
+  private orders: PositionOrder[] = [];
+  private loaded: Promise<void> | null = null;
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly positionCache = new Map<string, { positions: UserPosition[]; fetchedAt: number }>();
+
+  constructor(
+    private readonly service: AnalyticsService,
+    private readonly options: OrderKeeperOptions = {}
+  ) {
+    this.store = options.store || new MemoryOrderStore();
+  }
+
+  // Called with the updated order on every state change
+  subscribe(listener: OrderListener): void {
+    this.listeners.push(listener);
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.run().catch(err => console.error('Order keeper run failed', err));
+    }, this.options.interval ?? 15000);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Newest first
+  async listOrders({ owner, strategyId, status }: OrderQuery = {}): Promise<PositionOrder[]> {
+    await this.load();
+    return this.orders
+      .filter(order => !owner || order.owner === owner.toLowerCase())
+      .filter(order => !strategyId || order.strategyId === strategyId)
+      .filter(order => !status || order.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getOrder(id: string): Promise<PositionOrder> {
+    await this.load();
+    const order = this.orders.find(candidate => candidate.id === id);
+    if (!order) throw ApiError.notFound(`Order ${id} not found`);
+    return order;
+  }
+
+  async createOrder({ owner, strategyId, type, trigger, costBasis, settleToken = 'USDC', slippageBps = 50 }: NewOrder): Promise<PositionOrder> {
+    await this.load();
+    const positions = await this.getPositions(owner, new Date(), true);
+    const position = positions.find(candidate => candidate.strategyId === strategyId);
+    if (!position) throw ApiError.notFound(`Position ${strategyId} not found for ${owner}`);
+    if (position.lendingPosition?.side === 'borrow') {
+      throw ApiError.badRequest('Attach orders to a supply position; the unwind closes the whole lending account');
+    }
+    if (position.perpPosition) throw ApiError.badRequest('Perp positions cannot be unwound by an order yet');
+    try {
+      getToken(settleToken);
+      if (trigger.kind === 'price') getToken(trigger.token);
+    } catch (err) {
+      throw ApiError.badRequest((err as Error).message);
+    }
+    if (trigger.kind === 'pnlPercentage' && (type === 'stopLoss' ? trigger.threshold >= 0 : trigger.threshold <= 0)) {
+      throw ApiError.badRequest(`A ${type === 'stopLoss' ? 'stop-loss needs a negative' : 'take-profit needs a positive'} PnL threshold`);
+    }
+
+    const now = new Date();
+    const order: PositionOrder = {
+      id: randomUUID(),
+      owner: owner.toLowerCase(),
+      strategyId,
+      strategyName: position.strategyName,
+      type,
+      trigger,
+      costBasis: costBasis ?? position.amount,
+      settleToken,
+      slippageBps,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+      history: [{ status: 'active', timestamp: now, message: describeTrigger(type, trigger) }]
+    };
+    await this.saveOrders([...this.orders, order]);
+    this.notify(order);
+    return order;
+  }
+
+  async cancelOrder(id: string): Promise<PositionOrder> {
+    const order = await this.getOrder(id);
+    if (!OPEN_STATUSES.includes(order.status)) throw ApiError.badRequest(`Order ${id} is already ${order.status}`);
+    return this.transition(order, 'cancelled', 'Cancelled by the owner');
+  }
+
+  // Builds a fresh unwind for a triggered or failed order, e.g. after the first one expired
+  async rebuildUnwind(id: string): Promise<PositionOrder> {
+    const order = await this.getOrder(id);
+    if (order.status !== 'triggered' && order.status !== 'failed') {
+      throw ApiError.badRequest(`Order ${id} is ${order.status}; only triggered orders have an unwind`);
+    }
+    const now = new Date();
+    const positions = await this.getPositions(order.owner, now, true);
+    const position = positions.find(candidate => candidate.strategyId === order.strategyId);
+    if (!position) return this.transition(order, 'cancelled', 'Position is no longer held', now);
+    return this.buildUnwind(order, position, positions, await this.service.getPrices(), now, 'Unwind rebuilt');
+  }
+
+  async markExecuted(id: string, txHashes: string[]): Promise<PositionOrder> {
+    const order = await this.getOrder(id);
+    if (order.status !== 'triggered') throw ApiError.badRequest(`Order ${id} is ${order.status}, not awaiting execution`);
+    return this.transition(order, 'executed', `Unwound in ${txHashes.length} transaction${txHashes.length === 1 ? '' : 's'}`, new Date(), { txHashes });
+  }
+
+  // Runs that overlap a slow one are skipped rather than queued
+  async run(prices?: TokenPrices, now: Date = new Date()): Promise<PositionOrder[]> {
+    if (this.running) return [];
+    this.running = true;
+    try {
+      await this.load();
+      const current = prices || await this.service.getPrices();
+      const fired: PositionOrder[] = [];
+
+      for (const order of this.orders.filter(candidate => candidate.status === 'active')) {
+        try {
+          const positions = await this.getPositions(order.owner, now);
+          const position = positions.find(candidate => candidate.strategyId === order.strategyId);
+          if (!position) {
+            await this.transition(order, 'cancelled', 'Position is no longer held', now);
+            continue;
+          }
+          const value = getTriggerValue(order, position, current);
+          if (value === undefined || !isTriggered(order.type, order.trigger, value)) continue;
+
+          const label = order.trigger.kind === 'price' ? `${order.trigger.token} at $${value}` : `PnL at ${value.toFixed(2)}%`;
+          fired.push(await this.buildUnwind({ ...order, triggeredValue: value }, position, positions, current, now, `Triggered with ${label}`));
+        } catch (err) {
+          // One unreachable owner or position does not stop the other orders
+          console.error(`Order ${order.id} failed`, err);
+        }
+      }
+      return fired;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async buildUnwind(
+    order: PositionOrder,
+    position: UserPosition,
+    positions: UserPosition[],
+    prices: TokenPrices,
+    now: Date,
+    reason: string
+  ): Promise<PositionOrder> {
+    if (!this.options.builder) return this.transition(order, 'failed', `${reason}; no Base node configured to build the unwind`, now);
+    try {
+      const unwind = await this.options.builder.build(order, position, positions, prices);
+      return this.transition(order, 'triggered', `${reason}; ${unwind.length} unwind transactions ready to sign`, now, { unwind });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return this.transition(order, 'failed', `${reason}; the unwind could not be built: ${message}`, now, { unwind: undefined });
+    }
+  }
+
+  private async transition(
+    order: PositionOrder,
+    status: OrderStatus,
+    message: string,
+    now: Date = new Date(),
+    changes: Partial<PositionOrder> = {}
+  ): Promise<PositionOrder> {
+    const updated: PositionOrder = {
+      ...order,
+      ...changes,
+      status,
+      updatedAt: now,
+      history: [...order.history, { status, timestamp: now, message }]
+    };
+    await this.saveOrders(this.orders.map(candidate => candidate.id === order.id ? updated : candidate));
+    this.notify(updated);
+    return updated;
+  }
+
+  private notify(order: PositionOrder): void {
+    this.listeners.forEach(listener => listener(order));
+  }
+
+  private async getPositions(owner: string, now: Date, fresh = false): Promise<UserPosition[]> {
+    const key = owner.toLowerCase();
+    const cached = this.positionCache.get(key);
+    if (!fresh && cached && now.getTime() - cached.fetchedAt < (this.options.positionTtl ?? 60000)) return cached.positions;
+    const positions = await this.service.getUserPositions(owner);
+    this.positionCache.set(key, { positions, fetchedAt: now.getTime() });
+    return positions;
+  }
+
+  private async saveOrders(orders: PositionOrder[]): Promise<void> {
+    await this.store.save(orders);
+    this.orders = orders;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load()
+        .then(orders => { this.orders = orders; })
+        // Retry on the next call instead of caching the failure
+        .catch(err => {
+          this.loaded = null;
+          throw err;
+        });
+    }
+    return this.loaded;
+  }
+}
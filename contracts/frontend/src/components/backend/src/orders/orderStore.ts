@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import type { PositionOrder } from '../models';
+import type { OrderStore } from './types';
+
+/**
+ * @title Order store
+ * @description Persists exit orders and their state history so they survive restarts
+ * @author Base DeFi Analytics Team
+ */
+
+export class FileOrderStore implements OrderStore {
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<PositionOrder[]> {
+    try {
+      const orders: PositionOrder[] = JSON.parse(await fs.readFile(this.path, 'utf8'));
+      return orders.map(order => ({
+        ...order,
+        createdAt: new Date(order.createdAt),
+        updatedAt: new Date(order.updatedAt),
+        history: order.history.map(change => ({ ...change, timestamp: new Date(change.timestamp) }))
+      }));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  // Same temp-file-and-rename write as the alert rules
+  async save(orders: PositionOrder[]): Promise<void> {
+    const tmpPath = `${this.path}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(orders));
+    await fs.rename(tmpPath, this.path);
+  }
+}
+
+export class MemoryOrderStore implements OrderStore {
+  private orders: PositionOrder[] = [];
+
+  async load(): Promise<PositionOrder[]> {
+    return this.orders;
+  }
+
+  async save(orders: PositionOrder[]): Promise<void> {
+    this.orders = orders;
+  }
+}
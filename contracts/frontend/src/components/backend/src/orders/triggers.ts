@@ -0,0 +1,31 @@
+import type { OrderTrigger, OrderType, PositionOrder, TokenPrices, UserPosition } from '../models';
+
+/**
+ * @title Order triggers
+ * @description Reads the value an order's trigger watches and decides whether it has fired
+ * @author Base DeFi Analytics Team
+ */
+
+// Undefined when the value cannot be read, e.g. no price for the token yet
+export const getTriggerValue = (
+  order: Pick<PositionOrder, 'trigger' | 'costBasis'>,
+  position: UserPosition,
+  prices: TokenPrices
+): number | undefined => {
+  if (order.trigger.kind === 'price') return prices[order.trigger.token];
+  if (order.costBasis === 0) return undefined;
+  return (position.currentValue - order.costBasis) / Math.abs(order.costBasis) * 100;
+};
+
+export const isTriggered = (type: OrderType, trigger: OrderTrigger, value: number): boolean => {
+  const level = trigger.kind === 'price' ? trigger.price : trigger.threshold;
+  return type === 'stopLoss' ? value <= level : value >= level;
+};
+
+export const describeTrigger = (type: OrderType, trigger: OrderTrigger): string => {
+  const label = type === 'stopLoss' ? 'Stop-loss' : 'Take-profit';
+  const comparison = type === 'stopLoss' ? 'at or below' : 'at or above';
+  return trigger.kind === 'price'
+    ? `${label} when ${trigger.token} is ${comparison} $${trigger.price}`
+    : `${label} when PnL is ${comparison} ${trigger.threshold}%`;
+};
@@ -0,0 +1,19 @@
+import type { PositionOrder, TokenPrices, UnwindTransaction, UserPosition } from '../models';
+
+/**
+ * @title Order types
+ * @description Contracts between the order keeper, its store and the unwind builder
+ * @author Base DeFi Analytics Team
+ */
+
+export interface OrderStore {
+  load(): Promise<PositionOrder[]>;
+  save(orders: PositionOrder[]): Promise<void>;
+}
+
+export interface UnwindBuilder {
+  // positions are all of the owner's, so a lending unwind can cover the whole account
+  build(order: PositionOrder, position: UserPosition, positions: UserPosition[], prices: TokenPrices): Promise<UnwindTransaction[]>;
+}
+
+export type OrderListener = (order: PositionOrder) => void;
@@ -0,0 +1,318 @@
+import { Contract, Interface, JsonRpcProvider, MaxUint256, formatUnits, parseUnits } from 'ethers';
+import { BASE_DEXES, getToken, type TokenInfo } from '../../../../services/dexRegistry';
+import { COMET_MARKETS, LENDING_MARKETS, POSITION_MANAGERS } from '../discovery/config';
+import { TokenRegistry } from '../discovery/tokens';
+import type { PositionOrder, TokenPrices, UnwindTransaction, UserPosition } from '../models';
+import type { UnwindBuilder } from './types';
+
+/**
+ * @title Unwind builder
+ * @description Turns a triggered order into the transactions that close its position:
+ * withdraw liquidity or collateral, repay debt, then swap what comes back into the order's
+ * settle token. Amounts are read from chain state when the order triggers and bounded by
+ * the order's slippage.
+ * @author Base DeFi Analytics Team
+ */
+
+const BASE_CHAIN_ID = 8453;
+const MAX_UINT128 = (1n << 128n) - 1n;
+
+// Withdrawals must land within this many seconds of being built
+const DEADLINE_SECONDS = 600;
+
+// Debt keeps accruing between building and signing, so repay approvals leave headroom
+const REPAY_BUFFER = 1.001;
+
+const erc20 = new Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+
+// Leading fields only, which both the Uniswap V3 and Slipstream managers share
+const positionManager = new Interface([
+  'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 poolKey, int24 tickLower, int24 tickUpper, uint128 liquidity)',
+  'function decreaseLiquidity((uint256 tokenId, uint128 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params) payable returns (uint256 amount0, uint256 amount1)',
+  'function collect((uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max) params) payable returns (uint256 amount0, uint256 amount1)'
+]);
+
+const aerodromePool = new Interface([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function stable() view returns (bool)',
+  'function balanceOf(address account) view returns (uint256)'
+]);
+
+const aerodromeGauge = new Interface([
+  'function stakingToken() view returns (address)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function withdraw(uint256 amount)'
+]);
+
+const aerodromeRouter = new Interface([
+  'function quoteRemoveLiquidity(address tokenA, address tokenB, bool stable, address factory, uint256 liquidity) view returns (uint256 amountA, uint256 amountB)',
+  'function removeLiquidity(address tokenA, address tokenB, bool stable, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) returns (uint256 amountA, uint256 amountB)'
+]);
+
+const vault = new Interface([
+  'function asset() view returns (address)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function previewRedeem(uint256 shares) view returns (uint256)',
+  'function redeem(uint256 shares, address receiver, address owner) returns (uint256)'
+]);
+
+const aavePool = new Interface([
+  'function withdraw(address asset, uint256 amount, address to) returns (uint256)',
+  'function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf) returns (uint256)'
+]);
+
+const moonwellMarket = new Interface([
+  'function balanceOf(address account) view returns (uint256)',
+  'function redeem(uint256 redeemTokens) returns (uint256)',
+  'function repayBorrow(uint256 repayAmount) returns (uint256)'
+]);
+
+const comet = new Interface([
+  'function collateralBalanceOf(address account, address asset) view returns (uint128)',
+  'function supply(address asset, uint256 amount)',
+  'function withdraw(address asset, uint256 amount)'
+]);
+
+const swapRouter = new Interface([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)'
+]);
+
+// Tokens a step hands back to the wallet, in raw units
+interface Received {
+  token: TokenInfo;
+  amount: bigint;
+}
+
+interface UnwindPlan {
+  transactions: UnwindTransaction[];
+  received: Received[];
+}
+
+const tx = (step: UnwindTransaction['step'], to: string, data: string, description: string): UnwindTransaction => ({
+  step,
+  to,
+  data,
+  value: '0',
+  description
+});
+
+const approve = (token: TokenInfo, spender: string, amount: bigint): UnwindTransaction => {
+  return tx('approve', token.address, erc20.encodeFunctionData('approve', [spender, amount]), `Approve ${token.symbol}`);
+};
+
+const toUnits = (amount: number, token: TokenInfo): bigint => parseUnits(amount.toFixed(token.decimals), token.decimals);
+
+const withSlippage = (amount: bigint, slippageBps: number): bigint => amount * BigInt(10000 - slippageBps) / 10000n;
+
+export class ChainUnwindBuilder implements UnwindBuilder {
+  private readonly provider: JsonRpcProvider;
+  private readonly tokens: TokenRegistry;
+
+  constructor(rpcUrl: string) {
+    // A fixed network keeps requests from stalling on network detection when the node is down
+    this.provider = new JsonRpcProvider(rpcUrl, BASE_CHAIN_ID, { staticNetwork: true });
+    this.tokens = new TokenRegistry(this.provider);
+  }
+
+  async build(
+    order: PositionOrder,
+    position: UserPosition,
+    positions: UserPosition[],
+    prices: TokenPrices
+  ): Promise<UnwindTransaction[]> {
+    const [protocolId, kind, id] = position.strategyId.split(':');
+    let plan: UnwindPlan;
+    if (position.lendingPosition) plan = await this.unwindLending(position, positions, order.owner);
+    else if (kind === 'nft') plan = await this.unwindNft(protocolId, id, order);
+    else if (kind === 'lp' || kind === 'gauge') plan = await this.unwindAerodrome(kind, id, order);
+    else if (kind === 'vault') plan = await this.unwindVault(id, order.owner);
+    else throw new Error(`Position ${position.strategyId} cannot be unwound on-chain`);
+
+    return [...plan.transactions, ...this.swapToSettle(plan.received, order, prices)];
+  }
+
+  private async unwindNft(protocolId: string, tokenId: string, order: PositionOrder): Promise<UnwindPlan> {
+    const config = POSITION_MANAGERS.find(candidate => candidate.protocolId === protocolId);
+    if (!config) throw new Error(`No position manager configured for ${protocolId}`);
+    const manager = new Contract(config.positionManager, positionManager, this.provider);
+    const { token0, token1, liquidity }: { token0: string; token1: string; liquidity: bigint } = await manager.positions(tokenId);
+    const [tokenInfo0, tokenInfo1] = await Promise.all([this.tokens.get(token0), this.tokens.get(token1)]);
+
+    const deadline = Math.floor(Date.now() / 1000) + DEADLINE_SECONDS;
+    const transactions: UnwindTransaction[] = [];
+    let amounts: bigint[] = [0n, 0n];
+    if (liquidity > 0n) {
+      const params = { tokenId, liquidity, amount0Min: 0n, amount1Min: 0n, deadline };
+      // Only the owner may decrease, so the quote is a call from the owner
+      amounts = await manager.decreaseLiquidity.staticCall(params, { from: order.owner });
+      transactions.push(tx('withdraw', config.positionManager, positionManager.encodeFunctionData('decreaseLiquidity', [{
+        ...params,
+        amount0Min: withSlippage(amounts[0], order.slippageBps),
+        amount1Min: withSlippage(amounts[1], order.slippageBps)
+      }]), `Remove all liquidity from ${tokenInfo0.symbol}/${tokenInfo1.symbol} #${tokenId}`));
+    }
+    transactions.push(tx('withdraw', config.positionManager, positionManager.encodeFunctionData('collect', [{
+      tokenId,
+      recipient: order.owner,
+      amount0Max: MAX_UINT128,
+      amount1Max: MAX_UINT128
+    }]), `Collect ${tokenInfo0.symbol} and ${tokenInfo1.symbol} with earned fees`));
+
+    // Only the principal is swapped; collected fees stay in the wallet
+    return {
+      transactions,
+      received: [{ token: tokenInfo0, amount: amounts[0] }, { token: tokenInfo1, amount: amounts[1] }]
+    };
+  }
+
+  private async unwindAerodrome(kind: 'lp' | 'gauge', address: string, order: PositionOrder): Promise<UnwindPlan> {
+    const { router, factory } = BASE_DEXES.Aerodrome;
+    const gauge = kind === 'gauge' ? new Contract(address, aerodromeGauge, this.provider) : null;
+    const poolAddress: string = gauge ? await gauge.stakingToken() : address;
+    const pool = new Contract(poolAddress, aerodromePool, this.provider);
+    const [token0, token1, stable, liquidity]: [string, string, boolean, bigint] = await Promise.all([
+      pool.token0(),
+      pool.token1(),
+      pool.stable(),
+      gauge ? gauge.balanceOf(order.owner) : pool.balanceOf(order.owner)
+    ]);
+    if (liquidity === 0n) throw new Error(`${order.owner} holds no liquidity in ${address}`);
+
+    const [tokenInfo0, tokenInfo1] = await Promise.all([this.tokens.get(token0), this.tokens.get(token1)]);
+    const quote = await new Contract(router, aerodromeRouter, this.provider)
+      .quoteRemoveLiquidity(token0, token1, stable, factory, liquidity);
+    const [amount0, amount1]: bigint[] = [quote.amountA, quote.amountB];
+    const pair = `${tokenInfo0.symbol}/${tokenInfo1.symbol}`;
+
+    const transactions: UnwindTransaction[] = [];
+    if (gauge) {
+      transactions.push(tx('withdraw', address, aerodromeGauge.encodeFunctionData('withdraw', [liquidity]), `Unstake ${pair} LP from its gauge`));
+    }
+    transactions.push(
+      tx('approve', poolAddress, erc20.encodeFunctionData('approve', [router, liquidity]), `Approve ${pair} LP`),
+      tx('withdraw', router, aerodromeRouter.encodeFunctionData('removeLiquidity', [
+        token0,
+        token1,
+        stable,
+        liquidity,
+        withSlippage(amount0, order.slippageBps),
+        withSlippage(amount1, order.slippageBps),
+        order.owner,
+        Math.floor(Date.now() / 1000) + DEADLINE_SECONDS
+      ]), `Remove ${pair} liquidity`)
+    );
+    return { transactions, received: [{ token: tokenInfo0, amount: amount0 }, { token: tokenInfo1, amount: amount1 }] };
+  }
+
+  private async unwindVault(address: string, owner: string): Promise<UnwindPlan> {
+    const contract = new Contract(address, vault, this.provider);
+    const [asset, shares]: [string, bigint] = await Promise.all([contract.asset(), contract.balanceOf(owner)]);
+    if (shares === 0n) throw new Error(`${owner} holds no shares of vault ${address}`);
+    const [token, assets]: [TokenInfo, bigint] = await Promise.all([this.tokens.get(asset), contract.previewRedeem(shares)]);
+    return {
+      transactions: [tx('withdraw', address, vault.encodeFunctionData('redeem', [shares, owner, owner]), `Redeem vault shares for ${token.symbol}`)],
+      received: [{ token, amount: assets }]
+    };
+  }
+
+  // Collateral cannot leave while debt is open, so the whole account is closed: every
+  // borrow is repaid from the wallet first, then every supply is withdrawn
+  private async unwindLending(position: UserPosition, positions: UserPosition[], owner: string): Promise<UnwindPlan> {
+    const accountId = position.lendingPosition!.accountId;
+    const legs = positions.filter(candidate => candidate.lendingPosition?.accountId === accountId);
+    const borrows = legs.filter(leg => leg.lendingPosition!.side === 'borrow');
+    const supplies = legs.filter(leg => leg.lendingPosition!.side === 'supply');
+
+    const transactions: UnwindTransaction[] = [];
+    const received: Received[] = [];
+
+    // Comet accounts are keyed <protocolId>:c<base>v3, as built by the Comet discoverer
+    const cometMarket = COMET_MARKETS.find(market => `${market.protocolId}:c${market.baseAsset}v3` === accountId);
+    if (cometMarket) {
+      const contract = new Contract(cometMarket.address, comet, this.provider);
+      for (const leg of borrows) {
+        const { asset, amount } = leg.lendingPosition!;
+        const token = getToken(asset);
+        transactions.push(
+          approve(token, cometMarket.address, toUnits(amount * REPAY_BUFFER, token)),
+          tx('repay', cometMarket.address, comet.encodeFunctionData('supply', [token.address, MaxUint256]),
+            `Repay ${asset} debt in full, needs about ${amount} ${asset} in the wallet`)
+        );
+      }
+      for (const leg of supplies) {
+        const { asset, amount } = leg.lendingPosition!;
+        const token = getToken(asset);
+        // The base asset withdraws in full with the max amount, collateral needs its exact balance
+        const isBase = asset === cometMarket.baseAsset;
+        const balance: bigint = isBase ? toUnits(amount, token) : await contract.collateralBalanceOf(owner, token.address);
+        transactions.push(tx('withdraw', cometMarket.address,
+          comet.encodeFunctionData('withdraw', [token.address, isBase ? MaxUint256 : balance]), `Withdraw ${asset}`));
+        received.push({ token, amount: balance });
+      }
+      return { transactions, received };
+    }
+
+    const getMarket = (asset: string) => {
+      const market = LENDING_MARKETS.find(candidate => candidate.protocolId === accountId && candidate.asset === asset);
+      if (!market) throw new Error(`No ${asset} market configured for ${accountId}`);
+      return market;
+    };
+
+    for (const leg of borrows) {
+      const { asset, amount } = leg.lendingPosition!;
+      const market = getMarket(asset);
+      const token = getToken(asset);
+      const description = `Repay ${asset} debt in full, needs about ${amount} ${asset} in the wallet`;
+      transactions.push(approve(token, market.address, toUnits(amount * REPAY_BUFFER, token)));
+      transactions.push(market.kind === 'aaveV3'
+        ? tx('repay', market.address, aavePool.encodeFunctionData('repay', [token.address, MaxUint256, 2, owner]), description)
+        : tx('repay', market.address, moonwellMarket.encodeFunctionData('repayBorrow', [MaxUint256]), description));
+    }
+    for (const leg of supplies) {
+      const { asset, amount } = leg.lendingPosition!;
+      const market = getMarket(asset);
+      const token = getToken(asset);
+      if (market.kind === 'aaveV3') {
+        transactions.push(tx('withdraw', market.address,
+          aavePool.encodeFunctionData('withdraw', [token.address, MaxUint256, owner]), `Withdraw all ${asset}`));
+      } else {
+        const mTokens: bigint = await new Contract(market.address, moonwellMarket, this.provider).balanceOf(owner);
+        transactions.push(tx('withdraw', market.address,
+          moonwellMarket.encodeFunctionData('redeem', [mTokens]), `Redeem all ${asset}`));
+      }
+      received.push({ token, amount: toUnits(amount, token) });
+    }
+    return { transactions, received };
+  }
+
+  private swapToSettle(received: Received[], order: PositionOrder, prices: TokenPrices): UnwindTransaction[] {
+    const settle = getToken(order.settleToken);
+    const dex = BASE_DEXES['Uniswap V3'];
+    const totals = new Map<string, Received>();
+    received.forEach(({ token, amount }) => {
+      const key = token.address.toLowerCase();
+      totals.set(key, { token, amount: (totals.get(key)?.amount || 0n) + amount });
+    });
+
+    return Array.from(totals.values())
+      .filter(({ token, amount }) => amount > 0n && token.address.toLowerCase() !== settle.address.toLowerCase())
+      .flatMap(({ token, amount }) => {
+        const [priceIn, priceOut] = [prices[token.symbol], prices[settle.symbol]];
+        if (!priceIn || !priceOut) throw new Error(`No price for ${token.symbol} or ${settle.symbol} to bound the swap`);
+        const expected = Number(formatUnits(amount, token.decimals)) * priceIn / priceOut;
+        return [
+          approve(token, dex.router, amount),
+          tx('swap', dex.router, swapRouter.encodeFunctionData('exactInputSingle', [{
+            tokenIn: token.address,
+            tokenOut: settle.address,
+            fee: dex.defaultFee,
+            recipient: order.owner,
+            amountIn: amount,
+            amountOutMinimum: withSlippage(toUnits(expected, settle), order.slippageBps),
+            sqrtPriceLimitX96: 0
+          }]), `Swap ${formatUnits(amount, token.decimals)} ${token.symbol} to ${settle.symbol}`)
+        ];
+      });
+  }
+}
@@ -0,0 +1,98 @@
+import { Contract, JsonRpcProvider, ZeroAddress, formatUnits, parseUnits } from 'ethers';
+import { BASE_DEXES, getToken, type TokenInfo } from '../../../../services/dexRegistry';
+import type { TokenPrices } from '../models';
+import { BASE_PRICE_FEEDS } from './config';
+import type { PriceError, PriceFeedConfig, PriceReading, TwapConfig } from './types';
+
+/**
+ * @title PriceFeed
+ * @description Reads USD token prices from Chainlink aggregators, and prices the remaining
+ * tokens from Aerodrome pool TWAPs against a token Chainlink prices
+ * @author Base DeFi Analytics Team
+ */
+
+const BASE_CHAIN_ID = 8453;
+
+const AGGREGATOR_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+];
+
+const AERODROME_FACTORY_ABI = ['function getPool(address tokenA, address tokenB, bool stable) view returns (address)'];
+
+// Averages the pool price over the last `granularity` 30-minute observations
+const AERODROME_POOL_ABI = ['function quote(address tokenIn, uint256 amountIn, uint256 granularity) view returns (uint256 amountOut)'];
+
+const errorMessage = (err: unknown): string => err instanceof Error ? err.message : String(err);
+
+export class PriceFeed {
+  private readonly provider: JsonRpcProvider;
+  private readonly factory: Contract;
+  private readonly pools = new Map<string, Promise<string>>();
+
+  constructor(rpcUrl: string, private readonly config: PriceFeedConfig = BASE_PRICE_FEEDS) {
+    // A fixed network keeps requests from stalling on network detection when the node is down
+    this.provider = new JsonRpcProvider(rpcUrl, BASE_CHAIN_ID, { staticNetwork: true });
+    this.factory = new Contract(BASE_DEXES.Aerodrome.factory as string, AERODROME_FACTORY_ABI, this.provider);
+  }
+
+  async read(now: Date = new Date()): Promise<PriceReading> {
+    const prices: TokenPrices = {};
+    const errors: PriceError[] = [];
+
+    await Promise.all(this.config.chainlink.map(async ({ token, feed }) => {
+      try {
+        prices[token] = await this.readChainlink(feed, now);
+      } catch (err) {
+        errors.push({ token, message: errorMessage(err) });
+      }
+    }));
+
+    // Quote tokens are priced above, so the TWAPs are read after the Chainlink feeds
+    await Promise.all(this.config.twaps.map(async twap => {
+      try {
+        prices[twap.token] = await this.readTwap(twap, prices);
+      } catch (err) {
+        errors.push({ token: twap.token, message: errorMessage(err) });
+      }
+    }));
+
+    return { prices, errors };
+  }
+
+  private async readChainlink(feed: string, now: Date): Promise<number> {
+    const aggregator = new Contract(feed, AGGREGATOR_ABI, this.provider);
+    const [decimals, round] = await Promise.all([aggregator.decimals(), aggregator.latestRoundData()]);
+    if (round.answer <= 0n) throw new Error(`Feed ${feed} answered ${round.answer}`);
+    const age = now.getTime() - Number(round.updatedAt) * 1000;
+    if (age > this.config.maxAge) throw new Error(`Feed ${feed} was last updated ${Math.round(age / 60000)} minutes ago`);
+    return Number(formatUnits(round.answer, decimals));
+  }
+
+  private async readTwap({ token, quote, stable }: TwapConfig, prices: TokenPrices): Promise<number> {
+    const quotePrice = prices[quote];
+    if (!quotePrice) throw new Error(`No price for ${quote} to quote ${token} against`);
+    const tokenIn = getToken(token);
+    const tokenOut = getToken(quote);
+
+    const pool = new Contract(await this.getPool(tokenIn, tokenOut, stable), AERODROME_POOL_ABI, this.provider);
+    const amountOut: bigint = await pool.quote(tokenIn.address, parseUnits('1', tokenIn.decimals), this.config.twapGranularity);
+    return Number(formatUnits(amountOut, tokenOut.decimals)) * quotePrice;
+  }
+
+  // Pool addresses never change, so each is looked up once
+  private getPool(tokenA: TokenInfo, tokenB: TokenInfo, stable: boolean): Promise<string> {
+    const key = `${tokenA.symbol}:${tokenB.symbol}:${stable}`;
+    let pool = this.pools.get(key);
+    if (!pool) {
+      pool = (this.factory.getPool(tokenA.address, tokenB.address, stable) as Promise<string>).then(address => {
+        if (address === ZeroAddress) throw new Error(`No Aerodrome ${stable ? 'stable' : 'volatile'} pool for ${tokenA.symbol}/${tokenB.symbol}`);
+        return address;
+      });
+      // Do not cache failures, the next lookup retries
+      pool.catch(() => this.pools.delete(key));
+      this.pools.set(key, pool);
+    }
+    return pool;
+  }
+}
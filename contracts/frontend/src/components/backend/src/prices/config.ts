@@ -0,0 +1,28 @@
+import type { PriceFeedConfig } from './types';
+
+/**
+ * @title Price feed configuration
+ * @description Base mainnet Chainlink feeds for the majors, and Aerodrome TWAPs for the
+ * incentive tokens Chainlink does not cover
+ * @author Base DeFi Analytics Team
+ */
+
+const USDC_USD = '0x7e860098F58bBFC8648a4311b374B1D669a2bc6B';
+
+export const BASE_PRICE_FEEDS: PriceFeedConfig = {
+  chainlink: [
+    { token: 'WETH', feed: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70' },
+    { token: 'USDC', feed: USDC_USD },
+    // Bridged USDC redeems 1:1 for USDC
+    { token: 'USDbC', feed: USDC_USD },
+    { token: 'DAI', feed: '0x591e79239a7d679378eC8c847e5038150364C78F' },
+    { token: 'cbETH', feed: '0xd7818272B9e248357d13057AAb0B417aF31E817d' }
+  ],
+  twaps: [
+    { token: 'AERO', quote: 'USDC', stable: false },
+    { token: 'WELL', quote: 'WETH', stable: false }
+  ],
+  // Stablecoin feeds update on a 24h heartbeat
+  maxAge: 25 * 60 * 60 * 1000,
+  twapGranularity: 4
+};
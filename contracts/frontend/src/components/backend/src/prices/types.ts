@@ -0,0 +1,40 @@
+import type { TokenPrices } from '../models';
+
+/**
+ * @title Price feed types
+ * @description Oracles and pools the token prices are read from
+ * @author Base DeFi Analytics Team
+ */
+
+// Chainlink aggregator answering the token's USD price
+export interface ChainlinkFeedConfig {
+  token: string;
+  feed: string;
+}
+
+// Aerodrome pool of the token against a quote token priced by a Chainlink feed
+export interface TwapConfig {
+  token: string;
+  quote: string;
+  stable: boolean;
+}
+
+export interface PriceFeedConfig {
+  chainlink: ChainlinkFeedConfig[];
+  twaps: TwapConfig[];
+  // Answers older than this (ms) are rejected rather than served as current
+  maxAge: number;
+  // 30-minute pool observations each TWAP averages over
+  twapGranularity: number;
+}
+
+export interface PriceError {
+  token: string;
+  message: string;
+}
+
+// Tokens that could not be priced are left out of prices and listed in errors
+export interface PriceReading {
+  prices: TokenPrices;
+  errors: PriceError[];
+}
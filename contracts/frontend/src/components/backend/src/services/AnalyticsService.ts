@@ -0,0 +1,298 @@
+import type {
+  ArbitrageOpportunity,
+  ClaimCosts,
+  DashboardMetrics,
+  DiscoveryError,
+  PortfolioAnalysis,
+  PoolData,
+  PositionHistory,
+  ProtocolCategory,
+  ProtocolData,
+  ProtocolHistory,
+  Timeframe,
+  TokenPrices,
+  UserPosition,
+  YieldSources
+} from '../models';
+import type { AnalyticsDataSource } from './dataSource';
+import type { PositionDiscovery } from '../discovery/PositionDiscovery';
+import type { ArbitrageCostModel } from '../arbitrage/ArbitrageCostModel';
+import { getEthPrice, getRankingProfit, weiToUsd } from '../arbitrage/costs';
+import type { GasQuote } from '../arbitrage/types';
+import { ApiError } from '../middleware/errorHandler';
+import { getPendingRewardValue } from '../../../../utils/rewards';
+import { calculateRisk } from '../../../../utils/risk';
+
+/**
+ * @title AnalyticsService
+ * @description Query logic behind the /api/v1 endpoints
+ * @author Base DeFi Analytics Team
+ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const TIMEFRAME_DURATIONS: Record<Timeframe, number> = {
+  '24h': DAY,
+  '7d': 7 * DAY,
+  '30d': 30 * DAY,
+  '90d': 90 * DAY
+};
+
+export interface YieldQuery {
+  minApy?: number;
+  maxRisk?: number;
+}
+
+export interface ArbitrageQuery {
+  minProfit?: number;
+  // USD after fees, price impact and gas; unpriced opportunities are compared on gross profit
+  minNetProfit?: number;
+}
+
+export interface PortfolioQuery {
+  address: string;
+  protocols?: string[];
+}
+
+export interface ProtocolTvl {
+  protocol: string;
+  name: string;
+  tvl: number;
+  change24h: number;
+  timestamp: Date;
+}
+
+// TVL history that risk volatility is measured over, whatever timeframe a chart shows
+const RISK_TIMEFRAME: Timeframe = '7d';
+
+// Vaults reinvest their earnings; harvests are assumed daily
+const COMPOUNDS_PER_YEAR: Partial<Record<ProtocolCategory, number>> = { Yield: 365 };
+
+// TVL-weighted over the protocol's pools, with reward emissions summed in token units
+const getYieldSources = (protocol: ProtocolData, pools: PoolData[]): YieldSources | undefined => {
+  const funded = pools.filter(pool => pool.protocolId === protocol.id && pool.tvl > 0);
+  const tvl = funded.reduce((sum, pool) => sum + pool.tvl, 0);
+  if (tvl === 0) return undefined;
+
+  const weighted = (kind: PoolData['kind']) => {
+    return funded.filter(pool => pool.kind === kind).reduce((sum, pool) => sum + pool.feeApr * pool.tvl, 0) / tvl;
+  };
+  const emissions = new Map<string, number>();
+  funded.flatMap(pool => pool.rewardEmissions || []).forEach(({ token, amountPerYear }) => {
+    emissions.set(token, (emissions.get(token) || 0) + amountPerYear);
+  });
+  return {
+    tradingFeeApr: weighted('pool'),
+    lendingInterestApr: weighted('market'),
+    rewardEmissions: Array.from(emissions, ([token, amountPerYear]) => ({ token, amountPerYear })),
+    tvl,
+    compoundsPerYear: COMPOUNDS_PER_YEAR[protocol.category] ?? 0
+  };
+};
+
+// Gas units of a reward claim, and of a claim, a swap to the deposit token and a redeposit,
+// each sent as its own transaction paying the L1 data fee
+const CLAIM_GAS = 150_000n;
+const COMPOUND_GAS = 450_000n;
+const COMPOUND_TXS = 3n;
+
+const calculateClaimCosts = (gas: GasQuote, prices: TokenPrices, timestamp: Date): ClaimCosts => ({
+  claim: weiToUsd(CLAIM_GAS * gas.gasPrice + gas.l1FeePerTx, prices),
+  compound: weiToUsd(COMPOUND_GAS * gas.gasPrice + COMPOUND_TXS * gas.l1FeePerTx, prices),
+  gasPriceGwei: Number(gas.gasPrice) / 1e9,
+  timestamp
+});
+
+export class AnalyticsService {
+  constructor(
+    private readonly dataSource: AnalyticsDataSource,
+    // Reads positions for any address from chain; without it only stored positions are known
+    private readonly discovery?: PositionDiscovery,
+    // Prices gas and pool costs; without it opportunities are ranked on gross profit
+    private readonly costModel?: ArbitrageCostModel
+  ) {}
+
+  // Protocols with pool data carry the yield sources behind their APY
+  async getProtocols(): Promise<ProtocolData[]> {
+    const [protocols, pools] = await Promise.all([this.getScoredProtocols(), this.dataSource.getPools()]);
+    return protocols.map(protocol => {
+      const yieldSources = getYieldSources(protocol, pools);
+      return yieldSources ? { ...protocol, yieldSources } : protocol;
+    });
+  }
+
+  async getProtocol(protocolId: string): Promise<ProtocolData> {
+    const protocols = await this.getScoredProtocols();
+    const protocol = protocols.find(candidate => candidate.id === protocolId);
+    if (!protocol) throw ApiError.notFound(`Protocol ${protocolId} not found`);
+    return protocol;
+  }
+
+  async getProtocolTvl(protocolId: string): Promise<ProtocolTvl> {
+    const protocol = await this.getProtocol(protocolId);
+    return {
+      protocol: protocol.id,
+      name: protocol.name,
+      tvl: protocol.tvl,
+      change24h: protocol.change24h,
+      timestamp: new Date()
+    };
+  }
+
+  // Largest pools and markets first
+  async getProtocolPools(protocolId: string): Promise<PoolData[]> {
+    await this.getProtocol(protocolId);
+    const pools = await this.dataSource.getPools();
+    return pools.filter(pool => pool.protocolId === protocolId).sort((a, b) => b.tvl - a.tvl);
+  }
+
+  // Snapshots grouped per protocol and sorted oldest first, as the charts expect
+  async getProtocolHistory(timeframe: Timeframe, now: Date = new Date()): Promise<ProtocolHistory> {
+    const since = new Date(now.getTime() - TIMEFRAME_DURATIONS[timeframe]);
+    const snapshots = await this.dataSource.getProtocolSnapshots(since);
+
+    const history: ProtocolHistory = {};
+    snapshots
+      .filter(snapshot => snapshot.timestamp <= now)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .forEach(snapshot => {
+        (history[snapshot.protocolId] = history[snapshot.protocolId] || []).push(snapshot);
+      });
+    return history;
+  }
+
+  async getYields({ minApy = 0, maxRisk = 10 }: YieldQuery): Promise<ProtocolData[]> {
+    const protocols = await this.getScoredProtocols();
+    return protocols
+      .filter(protocol => protocol.isActive && protocol.apy >= minApy && protocol.riskScore <= maxRisk)
+      .sort((a, b) => b.apy - a.apy);
+  }
+
+  // minProfit is a percentage, matching ArbitrageOpportunity.profitPercentage
+  async getArbitrageOpportunities({ minProfit = 0, minNetProfit }: ArbitrageQuery): Promise<ArbitrageOpportunity[]> {
+    const opportunities = (await this.dataSource.getArbitrageOpportunities())
+      .filter(opportunity => !opportunity.isExecuted && opportunity.profitPercentage >= minProfit);
+    const priced = this.costModel
+      ? await this.costModel.enrich(opportunities, await this.dataSource.getPrices())
+      : opportunities;
+    return priced
+      .filter(opportunity => minNetProfit === undefined || getRankingProfit(opportunity) >= minNetProfit)
+      .sort((a, b) => getRankingProfit(b) - getRankingProfit(a));
+  }
+
+  async markArbitrageExecuted(id: string, txHash: string): Promise<ArbitrageOpportunity> {
+    const updated = await this.dataSource.updateArbitrageOpportunity(id, { isExecuted: true, txHash });
+    if (!updated) throw ApiError.notFound(`Arbitrage opportunity ${id} not found`);
+    return updated;
+  }
+
+  async getPrices(): Promise<TokenPrices> {
+    return this.dataSource.getPrices();
+  }
+
+  async getClaimCosts(now: Date = new Date()): Promise<ClaimCosts> {
+    if (!this.costModel) throw ApiError.unavailable('Claim costs need a Base RPC node');
+    const [gas, prices] = await Promise.all([
+      this.costModel.getGasQuote(now.getTime()).catch(err => {
+        console.error('Gas price lookup failed', err);
+        throw ApiError.unavailable('Gas price is unavailable');
+      }),
+      this.dataSource.getPrices()
+    ]);
+    try {
+      getEthPrice(prices);
+    } catch {
+      throw ApiError.unavailable('ETH price is unavailable');
+    }
+    return calculateClaimCosts(gas, prices, now);
+  }
+
+  async getDashboardMetrics(): Promise<DashboardMetrics> {
+    const [protocols, opportunities, stats] = await Promise.all([
+      this.getScoredProtocols(),
+      this.dataSource.getArbitrageOpportunities(),
+      this.dataSource.getPlatformStats()
+    ]);
+    const activeProtocols = protocols.filter(protocol => protocol.isActive);
+    const totalTVL = activeProtocols.reduce((sum, protocol) => sum + protocol.tvl, 0);
+
+    return {
+      totalTVL,
+      totalUsers: stats.totalUsers,
+      totalVolume24h: activeProtocols.reduce((sum, protocol) => sum + protocol.volume24h, 0),
+      totalRewardsDistributed: stats.totalRewardsDistributed,
+      averageAPY: activeProtocols.length
+        ? activeProtocols.reduce((sum, protocol) => sum + protocol.apy, 0) / activeProtocols.length
+        : 0,
+      activeStrategies: stats.activeStrategies,
+      arbitrageOpportunities: opportunities.filter(opportunity => !opportunity.isExecuted).length,
+      // TVL-weighted so a small risky protocol does not dominate the headline score
+      riskScore: totalTVL > 0
+        ? Math.round(activeProtocols.reduce((sum, protocol) => sum + protocol.riskScore * protocol.tvl, 0) / totalTVL)
+        : 0
+    };
+  }
+
+  async getUserPositions(address: string): Promise<UserPosition[]> {
+    return (await this.findPositions(address)).positions;
+  }
+
+  async getPositionHistory(address: string, strategyId: string): Promise<PositionHistory> {
+    const history = await this.dataSource.getPositionHistory(address, strategyId);
+    if (!history) throw ApiError.notFound(`No history for position ${strategyId}`);
+    return history;
+  }
+
+  async analyzePortfolio({ address, protocols }: PortfolioQuery): Promise<PortfolioAnalysis> {
+    const [{ positions: allPositions, errors }, prices] = await Promise.all([
+      this.findPositions(address),
+      this.dataSource.getPrices()
+    ]);
+    const positions = protocols?.length
+      ? allPositions.filter(position => position.protocolId !== undefined && protocols.includes(position.protocolId))
+      : allPositions;
+
+    const totalValue = positions.reduce((sum, position) => sum + position.currentValue, 0);
+    return {
+      address,
+      positions,
+      totalValue,
+      totalPnL: positions.reduce((sum, position) => sum + position.pnl, 0),
+      totalPendingRewards: positions.reduce((sum, position) => sum + getPendingRewardValue(position, prices), 0),
+      weightedAPY: totalValue > 0
+        ? positions.reduce((sum, position) => sum + position.apy * position.currentValue, 0) / totalValue
+        : 0,
+      averageRisk: positions.length
+        ? positions.reduce((sum, position) => sum + position.riskLevel, 0) / positions.length
+        : 0,
+      ...(errors.length ? { discoveryErrors: errors } : {})
+    };
+  }
+
+  // The one place risk is scored: every protocol served, filtered or averaged carries this score
+  private async getScoredProtocols(now: Date = new Date()): Promise<ProtocolData[]> {
+    const [protocols, history] = await Promise.all([
+      this.dataSource.getProtocols(),
+      this.getProtocolHistory(RISK_TIMEFRAME, now)
+    ]);
+    return protocols.map(protocol => {
+      const riskAssessment = calculateRisk(protocol, history[protocol.id], now);
+      return { ...protocol, riskScore: riskAssessment.score, riskAssessment };
+    });
+  }
+
+  // Stored positions (e.g. BaseAnalytics strategies) plus whatever discovery finds on-chain
+  private async findPositions(address: string): Promise<{ positions: UserPosition[]; errors: DiscoveryError[] }> {
+    const stored = await this.dataSource.getUserPositions(address);
+    if (!this.discovery) return { positions: stored, errors: [] };
+
+    const [prices, protocols] = await Promise.all([this.dataSource.getPrices(), this.dataSource.getProtocols()]);
+    const discovered = await this.discovery.discover(address, prices, protocols);
+    const storedIds = new Set(stored.map(position => position.strategyId));
+    return {
+      positions: [...stored, ...discovered.positions.filter(position => !storedIds.has(position.strategyId))],
+      errors: discovered.errors
+    };
+  }
+}
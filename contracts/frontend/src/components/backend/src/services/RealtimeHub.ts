@@ -0,0 +1,148 @@
+import type { Server as HttpServer } from 'http';
+import { Server, type Namespace } from 'socket.io';
+import type { ArbitrageOpportunity, ProtocolData, TokenPrices } from '../models';
+import type { AnalyticsService } from './AnalyticsService';
+import type { AlertEngine } from '../alerts/AlertEngine';
+import type { OrderKeeper } from '../orders/OrderKeeper';
+
+/**
+ * @title RealtimeHub
+ * @description Pushes price, yield and arbitrage changes to socket.io subscribers.
+ * Each namespace sends a full `snapshot` on connect, then only what changed; prices are sent
+ * as a new snapshot when a token drops out, so a price whose feed failed is not kept. Alert rules
+ * are evaluated on every poll and new alerts are pushed on /ws/alerts; exit order state
+ * changes are pushed on /ws/orders.
+ * @author Base DeFi Analytics Team
+ */
+
+export const STREAM_NAMESPACES = {
+  prices: '/ws/prices',
+  yields: '/ws/yields',
+  arbitrage: '/ws/arbitrage',
+  alerts: '/ws/alerts',
+  orders: '/ws/orders'
+} as const;
+
+export interface RealtimeOptions {
+  pollInterval?: number;
+  corsOrigin?: string | string[];
+  alerts?: AlertEngine;
+  orders?: OrderKeeper;
+}
+
+export class RealtimeHub {
+  readonly io: Server;
+  private readonly prices: Namespace;
+  private readonly yields: Namespace;
+  private readonly arbitrage: Namespace;
+  private readonly alerts: Namespace;
+  private readonly orders: Namespace;
+  private timer: NodeJS.Timeout | null = null;
+
+  // Last published state, used to diff each poll
+  private lastPrices: TokenPrices = {};
+  private lastProtocols = new Map<string, string>();
+  private lastOpportunities = new Map<string, string>();
+
+  constructor(
+    server: HttpServer,
+    private readonly service: AnalyticsService,
+    private readonly options: RealtimeOptions = {}
+  ) {
+    this.io = new Server(server, { cors: { origin: options.corsOrigin || '*' } });
+    this.prices = this.io.of(STREAM_NAMESPACES.prices);
+    this.yields = this.io.of(STREAM_NAMESPACES.yields);
+    this.arbitrage = this.io.of(STREAM_NAMESPACES.arbitrage);
+    this.alerts = this.io.of(STREAM_NAMESPACES.alerts);
+    this.orders = this.io.of(STREAM_NAMESPACES.orders);
+
+    // The hub is the in-app delivery channel for the alert engine
+    options.alerts?.addSink({
+      name: 'in-app',
+      deliver: async event => { this.alerts.emit('alert', event); }
+    });
+    options.orders?.subscribe(order => this.orders.emit('order', order));
+
+    this.sendSnapshots(this.prices, () => this.service.getPrices());
+    this.sendSnapshots(this.yields, () => this.service.getProtocols());
+    this.sendSnapshots(this.arbitrage, () => this.service.getArbitrageOpportunities({}));
+  }
+
+  start(): void {
+    if (this.timer) return;
+    const { pollInterval = 2000 } = this.options;
+    this.timer = setInterval(() => {
+      this.poll().catch(err => console.error('Realtime poll failed', err));
+    }, pollInterval);
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await new Promise<void>(resolve => this.io.close(() => resolve()));
+  }
+
+  async poll(): Promise<void> {
+    const [prices, protocols, opportunities] = await Promise.all([
+      this.service.getPrices(),
+      this.service.getProtocols(),
+      this.service.getArbitrageOpportunities({})
+    ]);
+    this.publishPrices(prices);
+    this.publishProtocols(protocols);
+    this.publishOpportunities(opportunities);
+    // Not awaited: slow webhooks must not hold up the price and yield streams
+    this.options.alerts?.evaluate({ protocols, opportunities, prices })
+      .catch(err => console.error('Alert evaluation failed', err));
+  }
+
+  publishPrices(prices: TokenPrices): void {
+    const changed: TokenPrices = {};
+    Object.entries(prices).forEach(([symbol, price]) => {
+      if (this.lastPrices[symbol] !== price) changed[symbol] = price;
+    });
+    const isTokenDropped = Object.keys(this.lastPrices).some(symbol => prices[symbol] === undefined);
+    this.lastPrices = { ...prices };
+    // Clients merge `prices` into what they hold, so only a snapshot can unprice a token
+    if (isTokenDropped) this.prices.emit('snapshot', prices);
+    else if (Object.keys(changed).length) this.prices.emit('prices', changed);
+  }
+
+  publishProtocols(protocols: ProtocolData[]): void {
+    const changed = protocols.filter(protocol => {
+      const serialized = JSON.stringify(protocol);
+      const isChanged = this.lastProtocols.get(protocol.id) !== serialized;
+      this.lastProtocols.set(protocol.id, serialized);
+      return isChanged;
+    });
+    if (changed.length) this.yields.emit('protocols', changed);
+  }
+
+  // Only open opportunities are tracked, so executed or expired ones are sent as removals
+  publishOpportunities(opportunities: ArbitrageOpportunity[]): void {
+    const current = new Map<string, string>();
+    opportunities.forEach(opportunity => {
+      const serialized = JSON.stringify(opportunity);
+      current.set(opportunity.id, serialized);
+      if (this.lastOpportunities.get(opportunity.id) !== serialized) {
+        this.arbitrage.emit('opportunity', opportunity);
+      }
+    });
+    this.lastOpportunities.forEach((_serialized, id) => {
+      if (!current.has(id)) this.arbitrage.emit('opportunity:removed', { id });
+    });
+    this.lastOpportunities = current;
+  }
+
+  // A failed read is reported to the subscriber as `snapshot:error` instead of leaving it waiting
+  private sendSnapshots(namespace: Namespace, read: () => Promise<unknown>): void {
+    namespace.on('connection', socket => {
+      read()
+        .then(snapshot => socket.emit('snapshot', snapshot))
+        .catch(err => {
+          console.error(`Snapshot for ${namespace.name} failed`, err);
+          socket.emit('snapshot:error', { message: 'Snapshot is unavailable' });
+        });
+    });
+  }
+}
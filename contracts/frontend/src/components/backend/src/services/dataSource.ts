@@ -0,0 +1,139 @@
+import type {
+  ArbitrageOpportunity,
+  PlatformStats,
+  PoolData,
+  PositionHistory,
+  ProtocolData,
+  ProtocolSnapshot,
+  TokenPrices,
+  UserPosition
+} from '../models';
+
+/**
+ * @title Analytics data source
+ * @description Storage boundary for the API; the in-memory implementation backs tests and local runs
+ * @author Base DeFi Analytics Team
+ */
+
+export interface AnalyticsDataSource {
+  getProtocols(): Promise<ProtocolData[]>;
+  getProtocolSnapshots(since: Date): Promise<ProtocolSnapshot[]>;
+  getPools(): Promise<PoolData[]>;
+  getArbitrageOpportunities(): Promise<ArbitrageOpportunity[]>;
+  updateArbitrageOpportunity(id: string, update: Partial<ArbitrageOpportunity>): Promise<ArbitrageOpportunity | null>;
+  getPrices(): Promise<TokenPrices>;
+  getUserPositions(address: string): Promise<UserPosition[]>;
+  getPositionHistory(address: string, strategyId: string): Promise<PositionHistory | null>;
+  getPlatformStats(): Promise<PlatformStats>;
+}
+
+export interface InMemorySeed {
+  protocols?: ProtocolData[];
+  snapshots?: ProtocolSnapshot[];
+  pools?: PoolData[];
+  arbitrageOpportunities?: ArbitrageOpportunity[];
+  prices?: TokenPrices;
+  // Keyed by lowercase address
+  positions?: Record<string, UserPosition[]>;
+  positionHistory?: Record<string, PositionHistory[]>;
+  stats?: PlatformStats;
+}
+
+export class InMemoryDataSource implements AnalyticsDataSource {
+  private protocols: ProtocolData[];
+  private snapshots: ProtocolSnapshot[];
+  private pools: PoolData[];
+  private arbitrageOpportunities: ArbitrageOpportunity[];
+  private prices: TokenPrices;
+  private positions: Record<string, UserPosition[]>;
+  private positionHistory: Record<string, PositionHistory[]>;
+  private stats: PlatformStats;
+
+  constructor(seed: InMemorySeed = {}) {
+    this.protocols = seed.protocols || [];
+    this.snapshots = seed.snapshots || [];
+    this.pools = seed.pools || [];
+    this.arbitrageOpportunities = seed.arbitrageOpportunities || [];
+    this.prices = seed.prices || {};
+    this.positions = seed.positions || {};
+    this.positionHistory = seed.positionHistory || {};
+    this.stats = seed.stats || { totalUsers: 0, totalRewardsDistributed: 0, activeStrategies: 0 };
+  }
+
+  async getProtocols(): Promise<ProtocolData[]> {
+    return this.protocols;
+  }
+
+  async getProtocolSnapshots(since: Date): Promise<ProtocolSnapshot[]> {
+    return this.snapshots.filter(snapshot => snapshot.timestamp >= since);
+  }
+
+  // Replaces protocols by id, used by the indexer to publish fresh TVL and volume
+  upsertProtocols(protocols: ProtocolData[]): void {
+    const ids = new Set(protocols.map(protocol => protocol.id));
+    this.protocols = [...this.protocols.filter(protocol => !ids.has(protocol.id)), ...protocols];
+  }
+
+  upsertSnapshots(snapshots: ProtocolSnapshot[]): void {
+    const key = (snapshot: ProtocolSnapshot) => `${snapshot.protocolId}:${snapshot.timestamp.getTime()}`;
+    const keys = new Set(snapshots.map(key));
+    this.snapshots = [...this.snapshots.filter(snapshot => !keys.has(key(snapshot))), ...snapshots];
+  }
+
+  async getPools(): Promise<PoolData[]> {
+    return this.pools;
+  }
+
+  // Replaces pools and markets by id, used by the indexer like upsertProtocols
+  upsertPools(pools: PoolData[]): void {
+    const ids = new Set(pools.map(pool => pool.id));
+    this.pools = [...this.pools.filter(pool => !ids.has(pool.id)), ...pools];
+  }
+
+  async getArbitrageOpportunities(): Promise<ArbitrageOpportunity[]> {
+    return this.arbitrageOpportunities;
+  }
+
+  // Replaces the detected routes, used by the route scanner. An executed route is kept until
+  // the scan finds the same cycle open again.
+  replaceRouteOpportunities(routes: ArbitrageOpportunity[]): void {
+    const ids = new Set(routes.map(route => route.id));
+    this.arbitrageOpportunities = [
+      ...this.arbitrageOpportunities.filter(opportunity => !opportunity.route || (opportunity.isExecuted && !ids.has(opportunity.id))),
+      ...routes
+    ];
+  }
+
+  async updateArbitrageOpportunity(
+    id: string,
+    update: Partial<ArbitrageOpportunity>
+  ): Promise<ArbitrageOpportunity | null> {
+    const index = this.arbitrageOpportunities.findIndex(opportunity => opportunity.id === id);
+    if (index === -1) return null;
+    this.arbitrageOpportunities[index] = { ...this.arbitrageOpportunities[index], ...update };
+    return this.arbitrageOpportunities[index];
+  }
+
+  async getPrices(): Promise<TokenPrices> {
+    return this.prices;
+  }
+
+  // Replaces the prices, used by the price feed; a token whose feed failed stays unpriced
+  // rather than keeping a stale price
+  setPrices(prices: TokenPrices): void {
+    this.prices = prices;
+  }
+
+  async getUserPositions(address: string): Promise<UserPosition[]> {
+    return this.positions[address.toLowerCase()] || [];
+  }
+
+  async getPositionHistory(address: string, strategyId: string): Promise<PositionHistory | null> {
+    const histories = this.positionHistory[address.toLowerCase()] || [];
+    return histories.find(history => history.strategyId === strategyId) || null;
+  }
+
+  async getPlatformStats(): Promise<PlatformStats> {
+    return this.stats;
+  }
+}
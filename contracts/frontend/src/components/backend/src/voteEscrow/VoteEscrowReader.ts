@@ -0,0 +1,152 @@
+import { Contract, JsonRpcProvider, ZeroAddress, formatUnits } from 'ethers';
+import type { GaugeEpoch, RewardBalance, TokenPrices, VeLock } from '../models';
+import { TokenRegistry, toTokenAmount } from '../discovery/tokens';
+import type { PoolConfig } from '../indexer/types';
+import { valueRewards } from '../../../../utils/rewards';
+import { EPOCH_DURATION, getEpochStart, getVoteReward } from '../../../../utils/voteEscrow';
+import { AERODROME_VOTE_ESCROW } from './config';
+import type { VoteEscrowConfig } from './types';
+
+/**
+ * @title VoteEscrowReader
+ * @description Reads veAERO locks, the votes on each tracked pool's gauge and the fees and
+ * bribes its voters are paid, from Aerodrome's VotingEscrow, Voter and voting reward contracts
+ * @author Base DeFi Analytics Team
+ */
+
+const BASE_CHAIN_ID = 8453;
+
+const VOTING_ESCROW_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function ownerToNFTokenIdList(address owner, uint256 index) view returns (uint256)',
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function locked(uint256 tokenId) view returns (int128 amount, uint256 end, bool isPermanent)',
+  'function balanceOfNFT(uint256 tokenId) view returns (uint256)'
+];
+
+const VOTER_ABI = [
+  'function gauges(address pool) view returns (address)',
+  'function gaugeToFees(address gauge) view returns (address)',
+  'function gaugeToBribe(address gauge) view returns (address)',
+  'function weights(address pool) view returns (uint256)',
+  'function totalWeight() view returns (uint256)',
+  'function votes(uint256 tokenId, address pool) view returns (uint256)',
+  'function lastVoted(uint256 tokenId) view returns (uint256)'
+];
+
+// Shared by the fee and bribe reward contracts of a gauge
+const VOTING_REWARD_ABI = [
+  'function rewardsListLength() view returns (uint256)',
+  'function rewards(uint256 index) view returns (address)',
+  'function tokenRewardsPerEpoch(address token, uint256 epochStart) view returns (uint256)'
+];
+
+// veAERO voting power and votes carry AERO's 18 decimals
+const toVotes = (amount: bigint): number => Number(formatUnits(amount, 18));
+
+const toSeconds = (date: Date): bigint => BigInt(Math.floor(date.getTime() / 1000));
+
+export class VoteEscrowReader {
+  private readonly provider: JsonRpcProvider;
+  private readonly votingEscrow: Contract;
+  private readonly voter: Contract;
+  private readonly tokens: TokenRegistry;
+  private readonly pools: PoolConfig[];
+
+  constructor(rpcUrl: string, config: VoteEscrowConfig = AERODROME_VOTE_ESCROW) {
+    // A fixed network keeps requests from stalling on network detection when the node is down
+    this.provider = new JsonRpcProvider(rpcUrl, BASE_CHAIN_ID, { staticNetwork: true });
+    this.votingEscrow = new Contract(config.votingEscrow, VOTING_ESCROW_ABI, this.provider);
+    this.voter = new Contract(config.voter, VOTER_ABI, this.provider);
+    this.tokens = new TokenRegistry(this.provider);
+    this.pools = config.pools;
+  }
+
+  // Pools without a gauge cannot be voted for and are left out
+  async readGauges(prices: TokenPrices, now: Date = new Date()): Promise<GaugeEpoch[]> {
+    const epochStart = getEpochStart(now);
+    const totalVotes = toVotes(await this.voter.totalWeight());
+    const gauges = await Promise.all(this.pools.map(pool => this.readGauge(pool, epochStart, totalVotes, prices)));
+    return gauges.filter((gauge): gauge is GaugeEpoch => gauge !== null);
+  }
+
+  async readLocks(owner: string): Promise<VeLock[]> {
+    const count: bigint = await this.votingEscrow.balanceOf(owner);
+    const tokenIds: bigint[] = await Promise.all(
+      Array.from({ length: Number(count) }, (_, index) => this.votingEscrow.ownerToNFTokenIdList(owner, index))
+    );
+    const locks = await Promise.all(tokenIds.map(tokenId => this.readLock(tokenId)));
+    return locks.filter((lock): lock is VeLock => lock !== null);
+  }
+
+  // null for a token that was never minted or has been burned by a withdraw or merge
+  async readLock(tokenId: bigint): Promise<VeLock | null> {
+    const [owner, locked, votingPower, lastVoted, votes] = await Promise.all([
+      this.votingEscrow.ownerOf(tokenId) as Promise<string>,
+      this.votingEscrow.locked(tokenId),
+      this.votingEscrow.balanceOfNFT(tokenId) as Promise<bigint>,
+      this.voter.lastVoted(tokenId) as Promise<bigint>,
+      Promise.all(this.pools.map(pool => this.voter.votes(tokenId, pool.address) as Promise<bigint>))
+    ]);
+    if (owner === ZeroAddress) return null;
+
+    return {
+      tokenId: tokenId.toString(),
+      owner: owner.toLowerCase(),
+      amount: toVotes(BigInt(locked.amount)),
+      unlockAt: locked.isPermanent ? null : new Date(Number(locked.end) * 1000),
+      votingPower: toVotes(votingPower),
+      votes: this.pools
+        .map((pool, index) => ({ pool: pool.address.toLowerCase(), votes: toVotes(votes[index]) }))
+        .filter(vote => vote.votes > 0),
+      lastVoted: lastVoted > 0n ? new Date(Number(lastVoted) * 1000) : null
+    };
+  }
+
+  private async readGauge(pool: PoolConfig, epochStart: Date, totalVotes: number, prices: TokenPrices): Promise<GaugeEpoch | null> {
+    const gauge: string = await this.voter.gauges(pool.address);
+    if (gauge === ZeroAddress) return null;
+
+    const [weight, feesReward, bribeReward] = await Promise.all([
+      this.voter.weights(pool.address) as Promise<bigint>,
+      this.voter.gaugeToFees(gauge) as Promise<string>,
+      this.voter.gaugeToBribe(gauge) as Promise<string>
+    ]);
+    const previousEpoch = new Date(epochStart.getTime() - EPOCH_DURATION);
+    const [fees, bribes] = await Promise.all([
+      this.readEpochRewards(feesReward, previousEpoch),
+      this.readEpochRewards(bribeReward, epochStart)
+    ]).then(([feeBalances, bribeBalances]) => [valueRewards(feeBalances, prices), valueRewards(bribeBalances, prices)]);
+
+    const votes = toVotes(weight);
+    const rewardValue = [...fees, ...bribes].reduce((sum, reward) => sum + reward.value, 0);
+    return {
+      pool: pool.address.toLowerCase(),
+      gauge: gauge.toLowerCase(),
+      name: `${pool.token0}/${pool.token1}`,
+      epochStart,
+      votes,
+      voteShare: totalVotes > 0 ? votes / totalVotes * 100 : 0,
+      fees,
+      bribes,
+      rewardValue,
+      rewardPer1kVotes: getVoteReward({ rewardValue, otherVotes: votes }, 1000)
+    };
+  }
+
+  private async readEpochRewards(address: string, epochStart: Date): Promise<RewardBalance[]> {
+    const reward = new Contract(address, VOTING_REWARD_ABI, this.provider);
+    const count: bigint = await reward.rewardsListLength();
+    const tokenAddresses: string[] = await Promise.all(
+      Array.from({ length: Number(count) }, (_, index) => reward.rewards(index))
+    );
+    const balances = await Promise.all(tokenAddresses.map(async tokenAddress => {
+      const [token, amount] = await Promise.all([
+        this.tokens.get(tokenAddress),
+        reward.tokenRewardsPerEpoch(tokenAddress, toSeconds(epochStart)) as Promise<bigint>
+      ]);
+      return { token: token.symbol, amount: toTokenAmount(amount, token) };
+    }));
+    return balances.filter(balance => balance.amount > 0);
+  }
+}
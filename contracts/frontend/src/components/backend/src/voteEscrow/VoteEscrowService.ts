@@ -0,0 +1,94 @@
+import type { GaugeEpoch, VeLock, VotePlan } from '../models';
+import type { AnalyticsDataSource } from '../services/dataSource';
+import { ApiError } from '../middleware/errorHandler';
+import {
+  EPOCHS_PER_YEAR,
+  getEpochStart,
+  getVoteReward,
+  optimizeVotes,
+  toVoteCandidates
+} from '../../../../utils/voteEscrow';
+import type { VoteEscrowReader } from './VoteEscrowReader';
+
+/**
+ * @title VoteEscrowService
+ * @description Query logic behind the /api/v1/ve endpoints: gauge votes and voter rewards per
+ * epoch, veAERO locks and the vote split that maximizes a lock's fee and bribe income
+ * @author Base DeFi Analytics Team
+ */
+
+export interface VoteEscrowServiceOptions {
+  // Epochs of gauge readings kept for history
+  maxEpochs?: number;
+}
+
+export class VoteEscrowService {
+  // Latest gauge reading of each epoch, keyed by epoch start
+  private readonly epochs = new Map<number, GaugeEpoch[]>();
+  private readonly maxEpochs: number;
+
+  constructor(
+    private readonly reader: VoteEscrowReader,
+    private readonly dataSource: AnalyticsDataSource,
+    { maxEpochs = 12 }: VoteEscrowServiceOptions = {}
+  ) {
+    this.maxEpochs = maxEpochs;
+  }
+
+  // Each reading replaces the last one of its epoch, so a past epoch keeps its final votes
+  async refresh(now: Date = new Date()): Promise<GaugeEpoch[]> {
+    const gauges = await this.reader.readGauges(await this.dataSource.getPrices(), now);
+    this.epochs.set(getEpochStart(now).getTime(), gauges);
+    Array.from(this.epochs.keys())
+      .sort((a, b) => b - a)
+      .slice(this.maxEpochs)
+      .forEach(epochStart => this.epochs.delete(epochStart));
+    return gauges;
+  }
+
+  // Best paying per vote first
+  async getGauges(now: Date = new Date()): Promise<GaugeEpoch[]> {
+    const gauges = this.epochs.get(getEpochStart(now).getTime()) ?? await this.refresh(now);
+    return [...gauges].sort((a, b) => b.rewardPer1kVotes - a.rewardPer1kVotes);
+  }
+
+  // Every gauge of every stored epoch, oldest epoch first
+  getEpochHistory(): GaugeEpoch[] {
+    return Array.from(this.epochs.keys())
+      .sort((a, b) => a - b)
+      .flatMap(epochStart => this.epochs.get(epochStart) || []);
+  }
+
+  async getLocks(owner: string): Promise<VeLock[]> {
+    return this.reader.readLocks(owner);
+  }
+
+  // The lock's own votes are taken out of each gauge first, so the plan is a fresh re-vote
+  async getVotePlan(tokenId: string, maxPools?: number, now: Date = new Date()): Promise<VotePlan> {
+    const [lock, gauges, prices] = await Promise.all([
+      this.reader.readLock(BigInt(tokenId)),
+      this.getGauges(now),
+      this.dataSource.getPrices()
+    ]);
+    if (!lock) throw ApiError.notFound(`veNFT ${tokenId} not found`);
+
+    const candidates = toVoteCandidates(gauges, lock);
+    const allocations = optimizeVotes(lock.votingPower, candidates, maxPools);
+    const expectedReward = allocations.reduce((sum, allocation) => sum + allocation.expectedReward, 0);
+    const currentReward = lock.votes.reduce((sum, vote) => {
+      const candidate = candidates.find(candidate => candidate.pool === vote.pool);
+      return sum + (candidate ? getVoteReward(candidate, vote.votes) : 0);
+    }, 0);
+    const lockedValue = lock.amount * (prices.AERO || 0);
+
+    return {
+      tokenId,
+      epochStart: getEpochStart(now),
+      votingPower: lock.votingPower,
+      allocations,
+      expectedReward,
+      currentReward,
+      apr: lockedValue > 0 ? expectedReward * EPOCHS_PER_YEAR / lockedValue * 100 : 0
+    };
+  }
+}
@@ -0,0 +1,15 @@
+import { AERODROME_POOLS, AERODROME_VOTER } from '../discovery/config';
+import type { VoteEscrowConfig } from './types';
+
+/**
+ * @title Vote-escrow configuration
+ * @description Aerodrome's veAERO and Voter on Base mainnet, tracking the same pools as the
+ * indexer and gauge discovery
+ * @author Base DeFi Analytics Team
+ */
+
+export const AERODROME_VOTE_ESCROW: VoteEscrowConfig = {
+  votingEscrow: '0xeBf418Fe2512e7E6bd9b87a8F0f294aCDC67e6B4',
+  voter: AERODROME_VOTER,
+  pools: AERODROME_POOLS
+};
@@ -0,0 +1,14 @@
+import type { PoolConfig } from '../indexer/types';
+
+/**
+ * @title Vote-escrow types
+ * @description Contracts and pools read for Aerodrome veAERO locks, votes and voter rewards
+ * @author Base DeFi Analytics Team
+ */
+
+export interface VoteEscrowConfig {
+  votingEscrow: string;
+  voter: string;
+  // Pools whose gauges are tracked; votes for any other pool are not seen
+  pools: PoolConfig[];
+}
@@ -0,0 +1,172 @@
+import { createHmac } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { AlertEngine, type NewAlertRule } from '../src/alerts/AlertEngine';
+import { WebhookSink } from '../src/alerts/sinks';
+import type { AlertInput } from '../src/alerts/types';
+import { AnalyticsService } from '../src/services/AnalyticsService';
+import { InMemoryDataSource } from '../src/services/dataSource';
+import { buildProtocol } from './fixtures';
+
+const createTestApp = () => {
+  const dataSource = new InMemoryDataSource({ protocols: [buildProtocol({ apy: 6 })] });
+  const alerts = new AlertEngine(new AnalyticsService(dataSource));
+  return { app: createApp({ dataSource, alerts, rateLimit: false }), alerts };
+};
+
+const apyRule: NewAlertRule = {
+  name: 'Aave above 5%',
+  condition: { kind: 'protocolApy', protocolId: 'aave-v3', direction: 'above', threshold: 5 }
+};
+
+describe('/api/v1/alerts', () => {
+  it('creates and lists rules', async () => {
+    const { app } = createTestApp();
+    const created = await request(app).post('/api/v1/alerts/rules').send(apyRule).expect(201);
+    expect(created.body).toMatchObject({ ...apyRule, enabled: true });
+
+    const listed = await request(app).get('/api/v1/alerts/rules').expect(200);
+    expect(listed.body.map((rule: { id: string }) => rule.id)).toEqual([created.body.id]);
+  });
+
+  it('names the missing field of a condition', async () => {
+    const { app } = createTestApp();
+    const res = await request(app)
+      .post('/api/v1/alerts/rules')
+      .send({ name: 'Broken', condition: { kind: 'protocolApy', protocolId: 'aave-v3', direction: 'above' } })
+      .expect(400);
+    expect(res.body.error.details.map((detail: { field: string }) => detail.field)).toEqual(['condition.threshold']);
+  });
+
+  it('updates and removes a rule webhook', async () => {
+    const { app } = createTestApp();
+    const { body: rule } = await request(app).post('/api/v1/alerts/rules')
+      .send({ ...apyRule, webhookUrl: 'https://hooks.example.com/alerts' }).expect(201);
+
+    const paused = await request(app).patch(`/api/v1/alerts/rules/${rule.id}`).send({ enabled: false, webhookUrl: null }).expect(200);
+    expect(paused.body.enabled).toBe(false);
+    expect(paused.body.webhookUrl).toBeUndefined();
+  });
+
+  it('deletes a rule', async () => {
+    const { app } = createTestApp();
+    const { body: rule } = await request(app).post('/api/v1/alerts/rules').send(apyRule).expect(201);
+    await request(app).delete(`/api/v1/alerts/rules/${rule.id}`).expect(200);
+    await request(app).delete(`/api/v1/alerts/rules/${rule.id}`).expect(404);
+  });
+
+  it('serves the events fired by an evaluation', async () => {
+    const { app, alerts } = createTestApp();
+    const { body: rule } = await request(app).post('/api/v1/alerts/rules').send(apyRule).expect(201);
+    await alerts.evaluate();
+
+    const res = await request(app).get('/api/v1/alerts/events?limit=10').expect(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0]).toMatchObject({ ruleId: rule.id, kind: 'protocolApy', subject: 'aave-v3', value: 6 });
+  });
+});
+
+interface ReceivedHook {
+  body: string;
+  signature?: string;
+}
+
+// Local webhook receiver answering every request with `status`
+const startWebhook = async (status: number) => {
+  const received: ReceivedHook[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ body, signature: req.headers['x-alert-signature'] as string | undefined });
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  return { url, received, close: () => new Promise<void>(resolve => server.close(() => resolve())) };
+};
+
+const inputWithApy = (apy: number): AlertInput => ({ protocols: [buildProtocol({ apy })], opportunities: [], prices: {} });
+
+describe('AlertEngine', () => {
+  const createEngine = (sinks: WebhookSink[] = []) => {
+    return new AlertEngine(new AnalyticsService(new InMemoryDataSource()), { sinks });
+  };
+
+  it('fires when a condition starts to hold and again only after it clears', async () => {
+    const engine = createEngine();
+    await engine.createRule(apyRule);
+
+    expect(await engine.evaluate(inputWithApy(6))).toHaveLength(1);
+    expect(await engine.evaluate(inputWithApy(7))).toHaveLength(0);
+    expect(await engine.evaluate(inputWithApy(4))).toHaveLength(0);
+    expect(await engine.evaluate(inputWithApy(6))).toHaveLength(1);
+    expect(engine.getEvents()).toHaveLength(2);
+  });
+
+  it('posts signed events to the rule webhook', async () => {
+    const webhook = await startWebhook(200);
+    try {
+      const engine = createEngine([new WebhookSink({ secret: 'shh' })]);
+      await engine.createRule({ ...apyRule, webhookUrl: webhook.url });
+
+      const [event] = await engine.evaluate(inputWithApy(6));
+
+      expect(webhook.received).toHaveLength(1);
+      const [{ body, signature }] = webhook.received;
+      expect(JSON.parse(body)).toMatchObject({ id: event.id, subject: 'aave-v3', value: 6 });
+      expect(signature).toBe(`sha256=${createHmac('sha256', 'shh').update(body).digest('hex')}`);
+      expect(engine.getEvents()[0].deliveries).toEqual([{ sink: 'webhook', ok: true }]);
+    } finally {
+      await webhook.close();
+    }
+  });
+
+  it('records a failed webhook delivery on the event', async () => {
+    const webhook = await startWebhook(500);
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      const engine = createEngine([new WebhookSink({ url: webhook.url })]);
+      await engine.createRule(apyRule);
+
+      await engine.evaluate(inputWithApy(6));
+
+      expect(engine.getEvents()[0].deliveries).toEqual([
+        { sink: 'webhook', ok: false, error: `Webhook ${webhook.url} responded with status 500` }
+      ]);
+    } finally {
+      error.mockRestore();
+      await webhook.close();
+    }
+  });
+
+  it('reports test deliveries through the API', async () => {
+    const webhook = await startWebhook(200);
+    try {
+      const dataSource = new InMemoryDataSource({ protocols: [buildProtocol({ apy: 6 })] });
+      const alerts = new AlertEngine(new AnalyticsService(dataSource), { sinks: [new WebhookSink()] });
+      const app = createApp({ dataSource, alerts, rateLimit: false });
+      const { body: rule } = await request(app).post('/api/v1/alerts/rules')
+        .send({ ...apyRule, webhookUrl: webhook.url }).expect(201);
+
+      const res = await request(app).post(`/api/v1/alerts/rules/${rule.id}/test`).expect(200);
+
+      expect(res.body.deliveries).toEqual([{ sink: 'webhook', ok: true }]);
+      expect(JSON.parse(webhook.received[0].body).subject).toBe('test');
+    } finally {
+      await webhook.close();
+    }
+  });
+
+  it('skips rules without a webhook when no default is set', async () => {
+    const engine = createEngine([new WebhookSink()]);
+    await engine.createRule(apyRule);
+
+    await engine.evaluate(inputWithApy(6));
+
+    expect(engine.getEvents()[0].deliveries).toEqual([{ sink: 'webhook', ok: true }]);
+  });
+});
@@ -0,0 +1,82 @@
+import { calculateOptimalAllocation } from '../../../utils/allocation';
+import { buildProtocol } from './fixtures';
+
+// Higher APY comes with higher risk, so the risk ceiling decides the mix
+const protocols = [
+  buildProtocol({ id: 'degen', name: 'Degen', apy: 20, riskScore: 8 }),
+  buildProtocol({ id: 'aerodrome', name: 'Aerodrome', apy: 10, riskScore: 4 }),
+  buildProtocol({ id: 'aave-v3', name: 'Aave V3', apy: 5, riskScore: 2 }),
+  buildProtocol({ id: 'compound-v3', name: 'Compound V3', apy: 3, riskScore: 1 })
+];
+
+const totalWeight = (result: ReturnType<typeof calculateOptimalAllocation>) =>
+  result.allocations.reduce((sum, allocation) => sum + allocation.weight, 0);
+
+const weightOf = (result: ReturnType<typeof calculateOptimalAllocation>, protocolId: string) =>
+  result.allocations.find(allocation => allocation.protocolId === protocolId)?.weight ?? 0;
+
+describe('calculateOptimalAllocation', () => {
+  it('allocates all capital to the best APYs when the risk ceiling does not bind', () => {
+    const result = calculateOptimalAllocation(protocols, 9000, { maxRisk: 10 });
+
+    expect(totalWeight(result)).toBeCloseTo(1, 9);
+    expect(result.unallocated).toBeCloseTo(0, 6);
+    // minProtocols defaults to 3, so nobody takes more than a third
+    expect(result.allocations.map(allocation => allocation.protocolId)).toEqual(['degen', 'aerodrome', 'aave-v3']);
+    expect(result.allocations.map(allocation => allocation.amount)).toEqual([3000, 3000, 3000]);
+    expect(result.weightedAPY).toBeCloseTo(35 / 3, 9);
+    expect(result.expectedYearlyYield).toBeCloseTo(1050, 6);
+    expect(result.isFeasible).toBe(true);
+  });
+
+  it('holds each protocol to its own cap and passes the rest down the ranking', () => {
+    const result = calculateOptimalAllocation(protocols, 1000, { maxRisk: 10, protocolCaps: { degen: 0.1 } });
+
+    expect(totalWeight(result)).toBeCloseTo(1, 9);
+    expect(weightOf(result, 'degen')).toBeCloseTo(0.1, 9);
+    expect(weightOf(result, 'aerodrome')).toBeCloseTo(1 / 3, 9);
+    expect(weightOf(result, 'aave-v3')).toBeCloseTo(1 / 3, 9);
+    expect(weightOf(result, 'compound-v3')).toBeCloseTo(1 - 0.1 - 2 / 3, 9);
+  });
+
+  it('uses the risk budget exactly when the ceiling binds', () => {
+    const unconstrained = calculateOptimalAllocation(protocols, 1000, { maxRisk: 10 });
+    const result = calculateOptimalAllocation(protocols, 1000, { maxRisk: 3 });
+
+    expect(totalWeight(result)).toBeCloseTo(1, 9);
+    expect(result.weightedRisk).toBeCloseTo(3, 6);
+    expect(result.weightedAPY).toBeLessThan(unconstrained.weightedAPY);
+    for (const allocation of result.allocations) {
+      expect(allocation.weight).toBeLessThanOrEqual(1 / 3 + 1e-9);
+    }
+    expect(result.isFeasible).toBe(true);
+  });
+
+  it('returns the least risky allocation, flagged infeasible, when no mix meets the ceiling', () => {
+    const result = calculateOptimalAllocation(protocols, 1000, { maxRisk: 1.5 });
+
+    // The three safest protocols at a third each still average risk 7/3
+    expect(result.isFeasible).toBe(false);
+    expect(result.allocations.map(allocation => allocation.protocolId).sort())
+      .toEqual(['aave-v3', 'aerodrome', 'compound-v3']);
+    expect(result.weightedRisk).toBeCloseTo(7 / 3, 9);
+  });
+
+  it('leaves capital unallocated when the caps cannot absorb it', () => {
+    const result = calculateOptimalAllocation(protocols.slice(0, 2), 900, { maxRisk: 10 });
+
+    expect(totalWeight(result)).toBeCloseTo(2 / 3, 9);
+    expect(result.unallocated).toBeCloseTo(300, 6);
+  });
+
+  it('skips inactive protocols and those capped at zero', () => {
+    const result = calculateOptimalAllocation(
+      [{ ...protocols[0], isActive: false }, ...protocols.slice(1)],
+      1000,
+      { maxRisk: 10, protocolCaps: { 'aave-v3': 0 }, minProtocols: 2 }
+    );
+
+    expect(result.allocations.map(allocation => allocation.protocolId)).toEqual(['aerodrome', 'compound-v3']);
+    expect(totalWeight(result)).toBeCloseTo(0.8, 9);
+  });
+});
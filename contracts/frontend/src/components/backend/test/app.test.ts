@@ -0,0 +1,29 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { InMemoryDataSource } from '../src/services/dataSource';
+
+describe('app', () => {
+  it('reports health', async () => {
+    const app = createApp({ dataSource: new InMemoryDataSource(), rateLimit: false });
+    await request(app).get('/health').expect(200, { status: 'ok' });
+  });
+
+  it('answers unknown routes with a structured 404', async () => {
+    const app = createApp({ dataSource: new InMemoryDataSource(), rateLimit: false });
+    const res = await request(app).get('/api/v1/unknown').expect(404);
+    expect(res.body.error).toEqual({ code: 'NOT_FOUND', message: 'Route GET /api/v1/unknown not found' });
+  });
+
+  it('rate limits the API per client', async () => {
+    const app = createApp({ dataSource: new InMemoryDataSource(), rateLimit: { points: 1, duration: 60 } });
+    await request(app).get('/api/v1/prices').expect(200);
+    const res = await request(app).get('/api/v1/prices').expect(429);
+    expect(res.body.error.code).toBe('RATE_LIMITED');
+  });
+
+  it('leaves routes without an engine unmounted', async () => {
+    const app = createApp({ dataSource: new InMemoryDataSource(), rateLimit: false });
+    await request(app).get('/api/v1/alerts/rules').expect(404);
+    await request(app).get('/api/v1/ve/gauges').expect(404);
+  });
+});
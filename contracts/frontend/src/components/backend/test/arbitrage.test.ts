@@ -0,0 +1,109 @@
+import { JsonRpcProvider, parseUnits } from 'ethers';
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { ArbitrageCostModel } from '../src/arbitrage/ArbitrageCostModel';
+import { GasOracle } from '../src/arbitrage/gasOracle';
+import { PoolQuoter } from '../src/arbitrage/poolQuoter';
+import type { GasQuote, LegQuote } from '../src/arbitrage/types';
+import { InMemoryDataSource } from '../src/services/dataSource';
+import { buildOpportunity } from './fixtures';
+
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+const createTestApp = () => createApp({
+  dataSource: new InMemoryDataSource({
+    arbitrageOpportunities: [
+      buildOpportunity({ id: 'small', profitPotential: 10, profitPercentage: 0.1 }),
+      buildOpportunity({ id: 'large', profitPotential: 80, profitPercentage: 0.8 }),
+      buildOpportunity({ id: 'executed', profitPotential: 500, profitPercentage: 5, isExecuted: true })
+    ]
+  }),
+  rateLimit: false
+});
+
+describe('/api/v1/arbitrage', () => {
+  it('lists open opportunities by profit', async () => {
+    const res = await request(createTestApp()).get('/api/v1/arbitrage').expect(200);
+    expect(res.body.map((opportunity: { id: string }) => opportunity.id)).toEqual(['large', 'small']);
+  });
+
+  it('filters on profit percentage', async () => {
+    const res = await request(createTestApp()).get('/api/v1/arbitrage?minProfit=0.5').expect(200);
+    expect(res.body.map((opportunity: { id: string }) => opportunity.id)).toEqual(['large']);
+  });
+
+  it('ranks on gross profit when no cost model prices the trades', async () => {
+    const res = await request(createTestApp()).get('/api/v1/arbitrage?minNetProfit=50').expect(200);
+    expect(res.body.map((opportunity: { id: string }) => opportunity.id)).toEqual(['large']);
+  });
+
+  it('records an execution and drops the opportunity from the feed', async () => {
+    const app = createTestApp();
+    const res = await request(app).post('/api/v1/arbitrage/large/execution').send({ txHash: TX_HASH }).expect(200);
+    expect(res.body).toMatchObject({ id: 'large', isExecuted: true, txHash: TX_HASH });
+
+    const feed = await request(app).get('/api/v1/arbitrage').expect(200);
+    expect(feed.body.map((opportunity: { id: string }) => opportunity.id)).toEqual(['small']);
+  });
+
+  it('rejects a malformed transaction hash', async () => {
+    const res = await request(createTestApp()).post('/api/v1/arbitrage/large/execution').send({ txHash: '0x1234' }).expect(400);
+    expect(res.body.error.details[0].field).toBe('txHash');
+  });
+
+  it('answers 404 for an unknown opportunity', async () => {
+    await request(createTestApp()).post('/api/v1/arbitrage/missing/execution').send({ txHash: TX_HASH }).expect(404);
+  });
+});
+
+// No request reaches the URL: gas and pools are served by the stubs below
+const provider = new JsonRpcProvider('http://127.0.0.1:8545', 8453, { staticNetwork: true });
+
+class StubGasOracle extends GasOracle {
+  constructor() {
+    super(provider);
+  }
+
+  async getQuote(): Promise<GasQuote> {
+    return { gasPrice: parseUnits('0.01', 'gwei'), l1FeePerTx: parseUnits('0.000001', 'ether') };
+  }
+}
+
+class StubPoolQuoter extends PoolQuoter {
+  constructor() {
+    super(provider);
+  }
+
+  async quote(): Promise<LegQuote> {
+    return { feeRate: 0.0005 };
+  }
+}
+
+describe('ArbitrageCostModel', () => {
+  const costModel = new ArbitrageCostModel('http://127.0.0.1:8545', {
+    gasOracle: new StubGasOracle(),
+    poolQuoter: new StubPoolQuoter()
+  });
+
+  it('prices gas in ETH and nets out fees', async () => {
+    const [priced] = await costModel.enrich([buildOpportunity()], { WETH: 3000, USDC: 1 });
+
+    // 250,000 gas at 0.01 gwei and two legs of 0.000001 ETH L1 fee, at $3,000
+    expect(priced.costs?.l2Gas).toBeCloseTo(0.0075);
+    expect(priced.costs?.l1DataFee).toBeCloseTo(0.006);
+    expect(priced.costs?.swapFees).toBeCloseTo(10);
+    expect(priced.netProfit).toBeCloseTo(50 - 10 - 0.0135);
+  });
+
+  it('leaves opportunities uncosted without an ETH price', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      const [opportunity] = await costModel.enrich([buildOpportunity()], { USDC: 1 });
+
+      expect(opportunity.netProfit).toBeUndefined();
+      expect(opportunity.costs).toBeUndefined();
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
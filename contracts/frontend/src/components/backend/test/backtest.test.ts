@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runBacktest, type BacktestData, type BacktestStrategy } from '../../../utils/backtest';
+import { loadFixture, loadStrategy } from '../src/backtest/loaders';
+import { buildProtocol } from './fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.parse('2024-01-01T00:00:00Z');
+const at = (day: number) => new Date(START + day * DAY);
+
+// Three daily snapshots: Aave pays 36.5% (10 USD a day on 10,000), Aerodrome 73%,
+// and WETH, which Aerodrome deposits can move with, drops 20% on the last day
+const fixture = {
+  protocols: [
+    buildProtocol({ id: 'aave-v3', riskScore: 3 }),
+    buildProtocol({ id: 'aerodrome', name: 'Aerodrome', category: 'DEX', riskScore: 5 })
+  ],
+  snapshots: [0, 1, 2].flatMap(day => [
+    { protocolId: 'aave-v3', timestamp: at(day).toISOString(), tvl: 1_000_000, apy: 36.5, volume24h: 0 },
+    { protocolId: 'aerodrome', timestamp: at(day).toISOString(), tvl: 1_000_000, apy: 73, volume24h: 0 }
+  ]),
+  prices: [3000, 3000, 2400].map((price, day) => ({ timestamp: at(day).toISOString(), prices: { WETH: price } }))
+};
+
+const data: BacktestData = {
+  protocols: fixture.protocols,
+  snapshots: fixture.snapshots.map(snapshot => ({ ...snapshot, timestamp: new Date(snapshot.timestamp) })),
+  prices: fixture.prices.map(snapshot => ({ ...snapshot, timestamp: new Date(snapshot.timestamp) }))
+};
+
+const buildStrategy = (overrides: Partial<BacktestStrategy> = {}): BacktestStrategy => ({
+  name: 'Test',
+  initialCapital: 10_000,
+  allocation: { kind: 'fixed', weights: { 'aave-v3': 1 } },
+  rebalance: 'never',
+  compound: 'never',
+  gasCostPerTx: 0,
+  ...overrides
+});
+
+describe('runBacktest', () => {
+  it('accrues rewards on a fixed allocation', () => {
+    const result = runBacktest(data, buildStrategy());
+
+    expect(result.equityCurve.map(point => point.equity)).toEqual([10_000, 10_010, 10_020]);
+    expect(result.totalReturn).toBeCloseTo(0.2);
+    expect(result.maxDrawdown).toBe(0);
+    expect(result.gasSpent).toBe(0);
+    expect(result.finalWeights).toEqual({ 'aave-v3': 1 });
+  });
+
+  it('compounds daily and pays gas for every transaction', () => {
+    const result = runBacktest(data, buildStrategy({
+      allocation: { kind: 'topApy', count: 1 },
+      compound: 'daily',
+      gasCostPerTx: 1
+    }));
+
+    // 1 USD to deposit, then each day's rewards less 1 USD are reinvested
+    const afterDay1 = 9999 + 9999 * 0.002 - 1;
+    const afterDay2 = afterDay1 + afterDay1 * 0.002 - 1;
+    expect(result.finalEquity).toBeCloseTo(afterDay2, 6);
+    expect(result.compounds).toBe(2);
+    expect(result.gasSpent).toBe(3);
+    expect(Object.keys(result.finalWeights)).toEqual(['aerodrome']);
+  });
+
+  it('exits to cash on a stop-loss when the exposure token falls', () => {
+    const result = runBacktest(data, buildStrategy({
+      allocation: { kind: 'fixed', weights: { aerodrome: 1 } },
+      exposures: { aerodrome: 'WETH' },
+      exits: { stopLoss: 10, trailing: false }
+    }));
+
+    // Two days of 20 USD rewards, then the deposit is marked down 20%
+    expect(result.exit).toEqual({ timestamp: at(2), reason: 'stopLoss' });
+    expect(result.finalEquity).toBeCloseTo(8040);
+    expect(result.maxDrawdown).toBeCloseTo((1 - 8040 / 10_020) * 100);
+    expect(result.finalWeights).toEqual({});
+  });
+
+  it('stays in cash until the entry conditions hold', () => {
+    const result = runBacktest(data, buildStrategy({
+      entry: [{ target: { kind: 'category', category: 'Lending' }, metric: 'apy', operator: '>=', value: 40 }]
+    }));
+
+    expect(result.enteredAt).toBeUndefined();
+    expect(result.finalEquity).toBe(10_000);
+  });
+});
+
+describe('backtest CLI loaders', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'backtest-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads snapshots grouped by protocol, as served by GET /protocols/history', async () => {
+    const grouped = {
+      ...fixture,
+      snapshots: {
+        'aave-v3': fixture.snapshots.filter(snapshot => snapshot.protocolId === 'aave-v3'),
+        aerodrome: fixture.snapshots.filter(snapshot => snapshot.protocolId === 'aerodrome')
+      }
+    };
+    const path = join(dir, 'fixture.json');
+    await fs.writeFile(path, JSON.stringify(grouped));
+
+    const loaded = await loadFixture(path);
+
+    expect(loaded.snapshots).toHaveLength(6);
+    expect(loaded.snapshots[0].timestamp).toEqual(at(0));
+    expect(loaded.prices?.[2]).toEqual({ timestamp: at(2), prices: { WETH: 2400 } });
+    expect(runBacktest(loaded, buildStrategy()).finalEquity).toBeCloseTo(10_020);
+  });
+
+  it('turns a YAML strategy document into a backtest strategy', async () => {
+    const path = join(dir, 'strategy.yaml');
+    await fs.writeFile(path, [
+      'version: 1',
+      'name: Lending only',
+      'allocations:',
+      '  - { protocol: aave-v3, weight: 1 }',
+      'rebalance: { schedule: never }',
+      'compound: never'
+    ].join('\n'));
+
+    const strategy = await loadStrategy(path, { capital: '5000', gas: '0' });
+    const result = runBacktest(data, strategy);
+
+    expect(strategy).toMatchObject({ name: 'Lending only', initialCapital: 5000, gasCostPerTx: 0, rebalance: 'never' });
+    expect(result.finalEquity).toBeCloseTo(5010);
+  });
+
+  it('reads a plain BacktestStrategy as JSON', async () => {
+    const path = join(dir, 'strategy.json');
+    await fs.writeFile(path, JSON.stringify(buildStrategy({ name: 'Plain' })));
+
+    expect(await loadStrategy(path)).toEqual(buildStrategy({ name: 'Plain' }));
+  });
+});
@@ -0,0 +1,29 @@
+import { Interface, JsonRpcProvider, type InterfaceAbi, type TransactionRequest } from 'ethers';
+
+/**
+ * @title Stub chain
+ * @description Provider that answers eth_call from fixed per-contract results, so chain
+ * readers run without a node
+ * @author Base DeFi Analytics Team
+ */
+
+export class StubProvider extends JsonRpcProvider {
+  private readonly contracts = new Map<string, { iface: Interface; results: Record<string, unknown[]> }>();
+
+  constructor() {
+    super('http://127.0.0.1:8545', 8453, { staticNetwork: true });
+  }
+
+  stub(address: string, abi: InterfaceAbi, results: Record<string, unknown[]>): this {
+    this.contracts.set(address.toLowerCase(), { iface: new Interface(abi), results });
+    return this;
+  }
+
+  async call(tx: TransactionRequest): Promise<string> {
+    const contract = this.contracts.get(String(tx.to).toLowerCase());
+    const call = contract?.iface.parseTransaction({ data: String(tx.data) });
+    const result = call && contract?.results[call.name];
+    if (!contract || !call || !result) throw new Error(`No stub for ${call?.name ?? tx.data} on ${tx.to}`);
+    return contract.iface.encodeFunctionResult(call.name, result);
+  }
+}
@@ -0,0 +1,66 @@
+import type { ApyBreakdown, YieldSources } from '../src/models';
+import { calculateAPY } from '../../../utils/defi';
+import { buildProtocol } from './fixtures';
+
+// 3% fees and 2% interest, plus 10,000 AERO a year at 1.50 over 1,000,000 of TVL: 1.5%
+const sources: YieldSources = {
+  tradingFeeApr: 3,
+  lendingInterestApr: 2,
+  rewardEmissions: [{ token: 'AERO', amountPerYear: 10_000 }],
+  tvl: 1_000_000,
+  compoundsPerYear: 365
+};
+const prices = { AERO: 1.5 };
+
+const sumComponents = (breakdown: ApyBreakdown) => {
+  return breakdown.tradingFeeApr + breakdown.lendingInterestApr + breakdown.rewardApr + breakdown.compoundingUplift;
+};
+
+describe('calculateAPY', () => {
+  it('splits a pool-sourced APY into components that add up to it', () => {
+    const breakdown = calculateAPY(buildProtocol({ category: 'DEX', yieldSources: sources }), prices);
+
+    expect(breakdown.tradingFeeApr).toBe(3);
+    expect(breakdown.lendingInterestApr).toBe(2);
+    expect(breakdown.rewardApr).toBeCloseTo(1.5, 12);
+    expect(breakdown.apy).toBeCloseTo((Math.pow(1 + 0.065 / 365, 365) - 1) * 100, 12);
+    expect(sumComponents(breakdown)).toBeCloseTo(breakdown.apy, 12);
+    expect(breakdown.assumptions).toEqual({ source: 'pools', compoundsPerYear: 365, rewardPrices: { AERO: 1.5 }, rewardPriceChange: 0 });
+  });
+
+  it('compounds more often for a larger uplift, and not at all without reinvestment', () => {
+    const at = (compoundsPerYear: number) => {
+      return calculateAPY(buildProtocol({ yieldSources: { ...sources, compoundsPerYear } }), prices);
+    };
+
+    expect(at(0).apy).toBeCloseTo(6.5, 12);
+    expect(at(0).compoundingUplift).toBeCloseTo(0, 12);
+    expect(at(12).apy).toBeCloseTo((Math.pow(1 + 0.065 / 12, 12) - 1) * 100, 12);
+    expect(at(12).compoundingUplift).toBeGreaterThan(0);
+    expect(at(365).compoundingUplift).toBeGreaterThan(at(12).compoundingUplift);
+    [0, 12, 365].forEach(frequency => expect(sumComponents(at(frequency))).toBeCloseTo(at(frequency).apy, 12));
+  });
+
+  it('revalues rewards by the given token price change', () => {
+    const breakdown = calculateAPY(buildProtocol({ yieldSources: sources }), prices, { rewardPriceChange: -50 });
+
+    expect(breakdown.rewardApr).toBeCloseTo(0.75, 12);
+    expect(breakdown.assumptions.rewardPrices).toEqual({ AERO: 0.75 });
+  });
+
+  it('uncompounds a vault headline APY assuming daily harvests', () => {
+    const breakdown = calculateAPY(buildProtocol({ category: 'Yield', apy: 10 }), prices);
+
+    expect(breakdown.tradingFeeApr).toBeCloseTo((Math.pow(1.1, 1 / 365) - 1) * 365 * 100, 12);
+    expect(breakdown.compoundingUplift).toBeGreaterThan(0);
+    expect(breakdown.apy).toBe(10);
+    expect(sumComponents(breakdown)).toBeCloseTo(10, 12);
+    expect(breakdown.assumptions).toMatchObject({ source: 'headline', compoundsPerYear: 365 });
+  });
+
+  it('attributes a lending headline APY to interest without compounding', () => {
+    const breakdown = calculateAPY(buildProtocol({ category: 'Lending', apy: 5 }), prices);
+
+    expect(breakdown).toMatchObject({ tradingFeeApr: 0, lendingInterestApr: 5, rewardApr: 0, compoundingUplift: 0, apy: 5 });
+  });
+});
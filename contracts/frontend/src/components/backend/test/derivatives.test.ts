@@ -0,0 +1,138 @@
+import { Contract } from 'ethers';
+import { PERPS_MARKET_ABI, readMarketSummary } from '../src/derivatives/perpsMarket';
+import { createPerpDiscoverer } from '../src/discovery/perps';
+import { TokenRegistry } from '../src/discovery/tokens';
+import {
+  buildDerivativesChartData,
+  getLiquidationDistance,
+  getPerpLeverage,
+  getPerpNotional,
+  getPerpPricePnl
+} from '../../../utils/derivatives';
+import { StubProvider } from './chain';
+import { OWNER, buildProtocol } from './fixtures';
+
+const WAD = 10n ** 18n;
+const PERPS_MARKET = '0x0A2AF931eFFd34b81ebcc57E3d3c9B1E1dE1C9Ce';
+const ACCOUNT_TOKEN = '0x0000000000000000000000000000000000000b01';
+
+// ETH market: 60 long and 40 short at 3,000, longs paying 0.1% a day
+const marketSummary = [20n * WAD, 100n * WAD, 1000n * WAD, WAD / 1000n, 0n, 3000n * WAD];
+
+// Account #7 posts 1,000 USD and holds one ETH position up 200 on price, having paid 10 of funding.
+// Available margin is 1,190 and maintenance 190, leaving 1,000 to lose before liquidation.
+const buildPerpsChain = (positionSize: bigint, totalPnl: bigint) => new StubProvider()
+  .stub(PERPS_MARKET, PERPS_MARKET_ABI, {
+    getAccountTokenAddress: [ACCOUNT_TOKEN],
+    getAccountOpenPositions: [[100n]],
+    totalCollateralValue: [1000n * WAD],
+    getAvailableMargin: [1190n * WAD],
+    getRequiredMargins: [300n * WAD, 190n * WAD, 0n],
+    metadata: ['Ethereum', 'ETH'],
+    getMarketSummary: [marketSummary],
+    getOpenPosition: [totalPnl, -10n * WAD, positionSize, 0n]
+  })
+  .stub(ACCOUNT_TOKEN, [
+    'function balanceOf(address owner) view returns (uint256)',
+    'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)'
+  ], { balanceOf: [1n], tokenOfOwnerByIndex: [7n] });
+
+const discoverer = createPerpDiscoverer({ id: 'synthetix-v3', name: 'Synthetix V3 Perps', perpsMarket: PERPS_MARKET });
+
+const discover = (provider: StubProvider) => discoverer.discover({
+  provider,
+  address: OWNER,
+  prices: {},
+  protocols: [buildProtocol({ id: 'synthetix-v3', category: 'Derivatives', riskScore: 7 })],
+  tokens: new TokenRegistry(provider),
+  now: new Date('2024-01-01T00:00:00Z')
+});
+
+describe('perps market reads', () => {
+  it('splits market size into long and short open interest by the skew', async () => {
+    const provider = buildPerpsChain(WAD, 190n * WAD);
+    const summary = await readMarketSummary(new Contract(PERPS_MARKET, PERPS_MARKET_ABI, provider), 100n);
+
+    expect(summary).toEqual({ marketId: 100n, symbol: 'ETH', longSize: 60, shortSize: 40, indexPrice: 3000, fundingRate: 0.001 });
+  });
+});
+
+describe('perp discovery', () => {
+  it('prices a long\'s liquidation at the drop that uses up its margin buffer', async () => {
+    const [position] = await discover(buildPerpsChain(WAD, 190n * WAD));
+
+    expect(position).toMatchObject({
+      strategyId: 'synthetix-v3:perp:7:100',
+      strategyName: 'Long ETH (#7)',
+      amount: 1000,
+      currentValue: 1190,
+      pnl: 190,
+      riskLevel: 7
+    });
+    // Price P&L is total P&L before the funding paid
+    expect(position.perpPosition).toEqual({
+      accountId: 'synthetix-v3:7',
+      market: 'ETH',
+      side: 'long',
+      size: 1,
+      entryPrice: 2800,
+      markPrice: 3000,
+      liquidationPrice: 2000,
+      margin: 1000,
+      fundingPaid: 10
+    });
+  });
+
+  it('prices a short\'s liquidation above the mark', async () => {
+    const [position] = await discover(buildPerpsChain(-2n * WAD, -210n * WAD));
+
+    // Down 200 on price: shorted at 2,900
+    expect(position.perpPosition).toMatchObject({ side: 'short', size: 2, entryPrice: 2900, liquidationPrice: 3500 });
+  });
+});
+
+describe('derivatives helpers', () => {
+  it('derives notional, leverage, price P&L and liquidation distance of a position', async () => {
+    const [{ perpPosition }] = await discover(buildPerpsChain(WAD, 190n * WAD));
+
+    expect(getPerpNotional(perpPosition!)).toBe(3000);
+    expect(getPerpLeverage(perpPosition!)).toBe(3);
+    expect(getPerpPricePnl(perpPosition!)).toBe(200);
+    expect(getLiquidationDistance(perpPosition!)).toBeCloseTo(-100 / 3, 12);
+    expect(getPerpPricePnl({ ...perpPosition!, side: 'short' })).toBe(-200);
+    expect(getLiquidationDistance({ ...perpPosition!, liquidationPrice: null })).toBeNull();
+  });
+
+  it('charts skew, annualized funding and insurance coverage of protocols with derivatives metrics', () => {
+    const rows = buildDerivativesChartData([
+      buildProtocol({
+        id: 'synthetix-v3',
+        name: 'Synthetix V3 Perps',
+        category: 'Derivatives',
+        derivatives: { openInterest: 300_000, longOpenInterest: 180_000, shortOpenInterest: 120_000, fundingRate: 0.1 }
+      }),
+      buildProtocol({
+        id: 'insured',
+        name: 'Insured',
+        category: 'Derivatives',
+        derivatives: { openInterest: 100_000, longOpenInterest: 40_000, shortOpenInterest: 60_000, fundingRate: -0.02, insuranceFund: 5000 }
+      }),
+      buildProtocol()
+    ]);
+
+    expect(rows).toEqual([
+      {
+        protocolId: 'synthetix-v3',
+        name: 'Synthetix V3 Perps',
+        openInterest: 300_000,
+        longOpenInterest: 180_000,
+        shortOpenInterest: 120_000,
+        skew: 20,
+        annualizedFunding: 36.5,
+        insuranceFund: null,
+        insuranceCoverage: null
+      },
+      expect.objectContaining({ protocolId: 'insured', skew: -20, annualizedFunding: -7.3, insuranceFund: 5000, insuranceCoverage: 5 })
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { createCometDiscoverer } from '../src/discovery/comet';
+import { createLendingDiscoverer } from '../src/discovery/lending';
+import { TokenRegistry } from '../src/discovery/tokens';
+import type { DiscoveryContext } from '../src/discovery/types';
+import { AnalyticsService } from '../src/services/AnalyticsService';
+import { InMemoryDataSource } from '../src/services/dataSource';
+import { StubProvider } from './chain';
+import { OWNER, buildProtocol } from './fixtures';
+
+const WAD = 10n ** 18n;
+const RAY = 10n ** 27n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const A_TOKEN = '0x0000000000000000000000000000000000000a01';
+const DEBT_TOKEN = '0x0000000000000000000000000000000000000a02';
+const AAVE_POOL = '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5';
+const COMET = '0xb125E6687d4313864e53df431d5425969c15Eb2F';
+
+const buildContext = (provider: StubProvider): DiscoveryContext => ({
+  provider,
+  address: OWNER,
+  prices: { USDC: 1, WETH: 3000 },
+  protocols: [buildProtocol({ id: 'aave-v3', riskScore: 3 }), buildProtocol({ id: 'compound-v3', riskScore: 4 })],
+  tokens: new TokenRegistry(provider),
+  now: new Date('2024-01-01T00:00:00Z')
+});
+
+// Yearly rate compounded per second, as the protocols accrue it
+const continuousApy = (rate: number) => (Math.exp(rate) - 1) * 100;
+
+describe('lending discovery', () => {
+  // 10,000 USDC supplied as collateral at 3% and 4,000 USDC borrowed at 5%
+  const provider = new StubProvider()
+    .stub(AAVE_POOL, [
+      'function getReserveData(address asset) view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))',
+      'function getUserConfiguration(address user) view returns (tuple(uint256 data))'
+    ], {
+      getReserveData: [[
+        8000n << 16n, RAY, (RAY * 3n) / 100n, RAY, (RAY * 5n) / 100n, 0n, 0n, 0n,
+        A_TOKEN, DEBT_TOKEN, DEBT_TOKEN, DEBT_TOKEN, 0n, 0n, 0n
+      ]],
+      // Reserve 0 enabled as collateral
+      getUserConfiguration: [[2n]]
+    })
+    .stub(A_TOKEN, ['function balanceOf(address account) view returns (uint256)'], { balanceOf: [10_000n * 10n ** 6n] })
+    .stub(DEBT_TOKEN, ['function balanceOf(address account) view returns (uint256)'], { balanceOf: [4_000n * 10n ** 6n] });
+
+  const discoverer = createLendingDiscoverer('aave-v3', [
+    { protocolId: 'aave-v3', address: AAVE_POOL, kind: 'aaveV3', asset: 'USDC', reserve: USDC }
+  ]);
+
+  it('reports a borrow as negative value at its positive borrow APY', async () => {
+    const [supply, borrow] = await discoverer.discover(buildContext(provider));
+
+    expect(supply).toMatchObject({ strategyId: 'aave-v3:supply:USDC', currentValue: 10_000 });
+    expect(supply.apy).toBeCloseTo(continuousApy(0.03), 6);
+    expect(supply.lendingPosition).toMatchObject({ side: 'supply', amount: 10_000, liquidationThreshold: 0.8 });
+    expect(borrow).toMatchObject({ strategyId: 'aave-v3:borrow:USDC', amount: -4000, currentValue: -4000 });
+    expect(borrow.apy).toBeCloseTo(continuousApy(0.05), 6);
+    expect(borrow.lendingPosition).toMatchObject({ side: 'borrow', amount: 4000, liquidationThreshold: 0 });
+  });
+
+  it('nets the interest owed out of the portfolio APY', async () => {
+    const positions = await discoverer.discover(buildContext(provider));
+    const service = new AnalyticsService(new InMemoryDataSource({ positions: { [OWNER]: positions } }));
+
+    const analysis = await service.analyzePortfolio({ address: OWNER });
+
+    expect(analysis.totalValue).toBe(6000);
+    // 10,000 earning 3% less 4,000 paying 5%, over the 6,000 of equity
+    expect(analysis.weightedAPY).toBeCloseTo((10_000 * continuousApy(0.03) - 4000 * continuousApy(0.05)) / 6000, 6);
+    expect(analysis.weightedAPY).toBeLessThan(continuousApy(0.03));
+  });
+});
+
+describe('Comet discovery', () => {
+  // 2,000 USDC borrowed at 5% against 1 WETH of collateral
+  const provider = new StubProvider().stub(COMET, [
+    'function balanceOf(address account) view returns (uint256)',
+    'function borrowBalanceOf(address account) view returns (uint256)',
+    'function numAssets() view returns (uint8)',
+    'function getAssetInfo(uint8 i) view returns (tuple(uint8 offset, address asset, address priceFeed, uint64 scale, uint64 borrowCollateralFactor, uint64 liquidateCollateralFactor, uint64 liquidationFactor, uint128 supplyCap))',
+    'function collateralBalanceOf(address account, address asset) view returns (uint128)',
+    'function getUtilization() view returns (uint256)',
+    'function getBorrowRate(uint256 utilization) view returns (uint64)'
+  ], {
+    balanceOf: [0n],
+    borrowBalanceOf: [2_000n * 10n ** 6n],
+    numAssets: [1n],
+    getAssetInfo: [[0n, WETH, WETH, WAD, (WAD * 80n) / 100n, (WAD * 85n) / 100n, (WAD * 95n) / 100n, 0n]],
+    collateralBalanceOf: [WAD],
+    getUtilization: [(WAD * 90n) / 100n],
+    getBorrowRate: [(WAD * 5n) / 100n / SECONDS_PER_YEAR]
+  });
+
+  const discoverer = createCometDiscoverer('compound-v3', [{ protocolId: 'compound-v3', address: COMET, baseAsset: 'USDC' }]);
+
+  it('reports the base borrow as negative value at its positive borrow APY', async () => {
+    const [borrow, collateral] = await discoverer.discover(buildContext(provider));
+
+    expect(borrow).toMatchObject({
+      strategyId: 'compound-v3:cUSDCv3:borrow:USDC',
+      amount: -2000,
+      currentValue: -2000,
+      riskLevel: 4,
+      lendingPosition: { accountId: 'compound-v3:cUSDCv3', side: 'borrow', asset: 'USDC', amount: 2000 }
+    });
+    expect(borrow.apy).toBeCloseTo(continuousApy(0.05), 6);
+    expect(collateral).toMatchObject({
+      strategyId: 'compound-v3:cUSDCv3:supply:WETH',
+      currentValue: 3000,
+      apy: 0,
+      lendingPosition: { accountId: 'compound-v3:cUSDCv3', side: 'supply', amount: 1, liquidationThreshold: 0.85 }
+    });
+  });
+
+  it('counts the borrow against the collateral in the portfolio APY', async () => {
+    const positions = await discoverer.discover(buildContext(provider));
+    const service = new AnalyticsService(new InMemoryDataSource({ positions: { [OWNER]: positions } }));
+
+    const analysis = await service.analyzePortfolio({ address: OWNER });
+
+    // Idle collateral earns nothing, so the 1,000 of equity pays the borrow's interest
+    expect(analysis.weightedAPY).toBeCloseTo(-2000 * continuousApy(0.05) / 1000, 5);
+  });
+});
@@ -0,0 +1,66 @@
+import type { ArbitrageOpportunity, PoolData, ProtocolData, UserPosition } from '../src/models';
+
+/**
+ * @title Test fixtures
+ * @description Builders for the records the API serves, with overridable defaults
+ * @author Base DeFi Analytics Team
+ */
+
+export const OWNER = '0x1111111111111111111111111111111111111111';
+
+export const buildProtocol = (overrides: Partial<ProtocolData> = {}): ProtocolData => ({
+  id: 'aave-v3',
+  name: 'Aave V3',
+  tvl: 1_000_000,
+  apy: 5,
+  riskScore: 3,
+  volume24h: 100_000,
+  change24h: 1.5,
+  isActive: true,
+  category: 'Lending',
+  ...overrides
+});
+
+export const buildPool = (overrides: Partial<PoolData> = {}): PoolData => ({
+  id: 'aave-v3:usdc',
+  protocolId: 'aave-v3',
+  kind: 'market',
+  address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  name: 'USDC',
+  tokens: ['USDC'],
+  tvl: 500_000,
+  volume24h: 0,
+  feeApr: 4,
+  rewardApr: 0,
+  ...overrides
+});
+
+export const buildPosition = (overrides: Partial<UserPosition> = {}): UserPosition => ({
+  strategyId: 'aave-usdc',
+  strategyName: 'Aave USDC',
+  protocolId: 'aave-v3',
+  amount: 1000,
+  currentValue: 1100,
+  pnl: 100,
+  pnlPercentage: 10,
+  apy: 5,
+  riskLevel: 3,
+  entryDate: new Date('2024-01-01T00:00:00Z'),
+  lastRewardClaim: new Date('2024-01-01T00:00:00Z'),
+  pendingRewards: 10,
+  ...overrides
+});
+
+export const buildOpportunity = (overrides: Partial<ArbitrageOpportunity> = {}): ArbitrageOpportunity => ({
+  id: 'weth-usdc-1',
+  tokenA: 'WETH',
+  tokenB: 'USDC',
+  dexA: 'uniswap-v3',
+  dexB: 'aerodrome',
+  profitPotential: 50,
+  profitPercentage: 0.5,
+  timestamp: new Date('2024-01-01T00:00:00Z'),
+  isExecuted: false,
+  estimatedGas: 250_000,
+  ...overrides
+});
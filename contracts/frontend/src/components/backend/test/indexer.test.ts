@@ -0,0 +1,114 @@
+import { Interface, parseUnits, zeroPadValue } from 'ethers';
+import type { ProtocolData } from '../src/models';
+import { MemoryCheckpointStore } from '../src/indexer/checkpointStore';
+import { Indexer, type IndexerOptions } from '../src/indexer/Indexer';
+import { FixtureLogSource, type LogFixture } from '../src/indexer/sources';
+import type { IndexedProtocolConfig, RawLog } from '../src/indexer/types';
+import { buildProtocol } from './fixtures';
+
+const POOL = '0xcdac0d6c6c59727a65f871236188350531885c43';
+const TRADER = '0x2222222222222222222222222222222222222222';
+
+const protocols: IndexedProtocolConfig[] = [{
+  id: 'aerodrome',
+  name: 'Aerodrome',
+  category: 'DEX',
+  pools: [{ address: POOL, kind: 'aerodrome', token0: 'WETH', token1: 'USDC', fee: 3000 }]
+}];
+
+const aerodromePool = new Interface([
+  'event Swap(address indexed sender, address indexed to, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out)',
+  'event Mint(address indexed sender, uint256 amount0, uint256 amount1)'
+]);
+
+const buildLog = (blockNumber: number, name: 'Swap' | 'Mint', values: bigint[]): RawLog => {
+  const topics = name === 'Swap' ? [TRADER, TRADER] : [TRADER];
+  const encoded = aerodromePool.encodeEventLog(name, [...topics, ...values]);
+  return {
+    address: POOL,
+    topics: encoded.topics,
+    data: encoded.data,
+    blockNumber,
+    logIndex: 0,
+    transactionHash: zeroPadValue(`0x${blockNumber.toString(16)}`, 32),
+    timestamp: 1_700_000_000 + blockNumber * 2
+  };
+};
+
+// 10 WETH and 30,000 USDC are added, then 1 WETH is sold for 2,900 USDC
+const fixture: LogFixture = {
+  latestBlock: 102,
+  logs: [
+    buildLog(101, 'Mint', [parseUnits('10', 18), parseUnits('30000', 6)]),
+    buildLog(102, 'Swap', [parseUnits('1', 18), 0n, 0n, parseUnits('2900', 6)])
+  ]
+};
+
+const prices = { WETH: 3000, USDC: 1 };
+
+const createIndexer = (options: Partial<IndexerOptions> = {}) => new Indexer({
+  source: new FixtureLogSource(fixture),
+  checkpoints: new MemoryCheckpointStore(),
+  protocols,
+  startBlock: 100,
+  batchSize: 1,
+  ...options
+});
+
+describe('Indexer', () => {
+  it('replays a log fixture into TVL and 24h volume', async () => {
+    const indexer = createIndexer();
+    const result = await indexer.run(prices);
+
+    expect(result).toEqual({ fromBlock: 100, toBlock: 102, logs: 2, events: 2 });
+    const [metrics] = indexer.getMetrics(prices);
+    expect(metrics.protocolId).toBe('aerodrome');
+    expect(metrics.tvl).toBeCloseTo(11 * 3000 + 27_100);
+    expect(metrics.volume24h).toBeCloseTo(3000);
+  });
+
+  it('resumes from the checkpoint without counting logs twice', async () => {
+    const checkpoints = new MemoryCheckpointStore();
+    await createIndexer({ checkpoints }).run(prices, 101);
+
+    const resumed = createIndexer({ checkpoints, startBlock: undefined });
+    const result = await resumed.run(prices);
+
+    expect(result).toEqual({ fromBlock: 102, toBlock: 102, logs: 1, events: 1 });
+    const full = createIndexer();
+    await full.run(prices);
+    expect(resumed.getMetrics(prices)).toEqual(full.getMetrics(prices));
+  });
+
+  it('refuses to start without a checkpoint or a start block', async () => {
+    await expect(createIndexer({ startBlock: undefined }).run(prices))
+      .rejects.toThrow('a start block is required');
+  });
+
+  it('keeps every field of existing protocol rows and overrides only TVL and volume', async () => {
+    const indexer = createIndexer();
+    await indexer.run(prices);
+    const existing: ProtocolData = buildProtocol({
+      id: 'aerodrome',
+      name: 'Aerodrome',
+      category: 'DEX',
+      apy: 12,
+      riskScore: 4,
+      tvl: 1,
+      volume24h: 1,
+      yieldSources: { tradingFeeApr: 8, lendingInterestApr: 0, rewardEmissions: [], tvl: 60_000, compoundsPerYear: 0 }
+    });
+
+    const [row] = indexer.getProtocolData(prices, [existing]);
+
+    expect(row).toEqual({ ...existing, tvl: row.tvl, volume24h: row.volume24h, change24h: row.change24h });
+    expect(row.tvl).toBeCloseTo(60_100);
+    expect(row.volume24h).toBeCloseTo(3000);
+  });
+
+  it('gives protocols without a row neutral defaults', async () => {
+    const [row] = createIndexer().getProtocolData(prices);
+
+    expect(row).toMatchObject({ id: 'aerodrome', apy: 0, riskScore: 5, isActive: true, tvl: 0 });
+  });
+});
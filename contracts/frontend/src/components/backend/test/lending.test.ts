@@ -0,0 +1,102 @@
+import type { LendingPosition } from '../src/models';
+import {
+  analyzeLendingAccount,
+  applyPriceShock,
+  calculateHealthFactor,
+  formatHealthFactor,
+  groupLendingAccounts,
+  type LendingAccount
+} from '../../../utils/lending';
+import { OWNER, buildPosition } from './fixtures';
+
+const prices = { WETH: 3000, USDC: 1 };
+
+const buildAccount = (positions: LendingPosition[]): LendingAccount => ({
+  id: `${OWNER}:aave-v3`,
+  accountId: 'aave-v3',
+  positions
+});
+
+// 1 WETH at an 80% liquidation threshold backs 2,400 USDC of debt at 3,000 USD
+const collateral: LendingPosition = { accountId: 'aave-v3', side: 'supply', asset: 'WETH', amount: 1, liquidationThreshold: 0.8 };
+const debt: LendingPosition = { accountId: 'aave-v3', side: 'borrow', asset: 'USDC', amount: 2400, liquidationThreshold: 0 };
+
+describe('lending account math', () => {
+  it('sits exactly at the liquidation boundary when the health factor is 1', () => {
+    const analysis = analyzeLendingAccount(buildAccount([collateral, debt]), prices);
+
+    expect(analysis.healthFactor).toBe(1);
+    expect(analysis.status).toBe('danger');
+    expect(analysis.liquidationPrices).toEqual([
+      { asset: 'WETH', currentPrice: 3000, liquidationPrice: 3000, changePercentage: 0 }
+    ]);
+
+    // Any further drop, here through the correlated ETH shock, makes it liquidatable
+    const shocked = analyzeLendingAccount(buildAccount([collateral, debt]), applyPriceShock(prices, 'ETH', -1));
+    expect(shocked.healthFactor).toBeCloseTo(0.99, 12);
+    expect(shocked.status).toBe('liquidatable');
+  });
+
+  it('weights collateral by its liquidation threshold and ignores collateral that is not enabled', () => {
+    const idle: LendingPosition = { ...collateral, asset: 'USDC', amount: 5000, liquidationThreshold: 0 };
+    const analysis = analyzeLendingAccount(buildAccount([collateral, idle, { ...debt, amount: 1200 }]), prices);
+
+    expect(analysis.collateralValue).toBe(8000);
+    expect(analysis.liquidationCollateralValue).toBe(2400);
+    expect(analysis.healthFactor).toBe(2);
+    expect(analysis.status).toBe('safe');
+    expect(analysis.liquidationPrices.map(price => price.asset)).toEqual(['WETH']);
+    expect(analysis.liquidationPrices[0].liquidationPrice).toBe(1500);
+  });
+
+  it('has an infinite health factor and no liquidation prices without debt', () => {
+    const analysis = analyzeLendingAccount(buildAccount([collateral]), prices);
+
+    expect(analysis.healthFactor).toBe(Infinity);
+    expect(analysis.status).toBe('safe');
+    expect(analysis.debtValue).toBe(0);
+    expect(analysis.liquidationPrices).toEqual([]);
+    expect(formatHealthFactor(analysis.healthFactor)).toBe('∞');
+  });
+});
+
+describe('groupLendingAccounts', () => {
+  const leg = (accountId: string, side: LendingPosition['side'], asset: string) => ({ accountId, side, asset, amount: 1, liquidationThreshold: 0 });
+
+  it('margins every Aave market together but each Comet on its own', () => {
+    const accounts = groupLendingAccounts([
+      buildPosition({ strategyId: 'aave-v3:supply:WETH', lendingPosition: leg('aave-v3', 'supply', 'WETH') }),
+      buildPosition({ strategyId: 'aave-v3:borrow:USDC', lendingPosition: leg('aave-v3', 'borrow', 'USDC') }),
+      buildPosition({
+        strategyId: 'compound-v3:cUSDCv3:borrow:USDC',
+        protocolId: 'compound-v3',
+        lendingPosition: leg('compound-v3:cUSDCv3', 'borrow', 'USDC')
+      }),
+      buildPosition({
+        strategyId: 'compound-v3:cWETHv3:supply:WETH',
+        protocolId: 'compound-v3',
+        lendingPosition: leg('compound-v3:cWETHv3', 'supply', 'WETH')
+      }),
+      // Not a lending position
+      buildPosition({ strategyId: 'aerodrome:nft:1', protocolId: 'aerodrome' })
+    ]);
+
+    expect(accounts.map(account => [account.accountId, account.positions.length])).toEqual([
+      ['aave-v3', 2],
+      ['compound-v3:cUSDCv3', 1],
+      ['compound-v3:cWETHv3', 1]
+    ]);
+  });
+
+  it('keeps the same protocol account of different wallets apart', () => {
+    const other = '0x2222222222222222222222222222222222222222';
+    const accounts = groupLendingAccounts([
+      buildPosition({ owner: OWNER, lendingPosition: leg('aave-v3', 'supply', 'WETH') }),
+      buildPosition({ owner: other, lendingPosition: leg('aave-v3', 'borrow', 'USDC') })
+    ]);
+
+    expect(accounts.map(account => account.id)).toEqual([`${OWNER}:aave-v3`, `${other}:aave-v3`]);
+    // The borrowing wallet's debt is not covered by the other wallet's collateral
+    expect(calculateHealthFactor(accounts[1], prices)).toBe(0);
+  });
+});
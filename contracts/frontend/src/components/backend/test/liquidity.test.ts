@@ -0,0 +1,91 @@
+import type { LiquidityPosition } from '../src/models';
+import { analyzeLiquidityPosition, tickToPrice, tickToSqrtPrice } from '../../../utils/liquidity';
+
+// Neither symbol is in the DEX registry; the decimals come with the position
+const buildLiquidityPosition = (overrides: Partial<LiquidityPosition> = {}): LiquidityPosition => ({
+  dex: 'uniswapV3',
+  pool: '0x0000000000000000000000000000000000000001',
+  token0: 'TKA',
+  token1: 'TKB',
+  decimals0: 18,
+  decimals1: 18,
+  // Price range 0.5 to 2 TKB per TKA
+  tickLower: -6932,
+  tickUpper: 6932,
+  liquidity: (10n ** 18n).toString(),
+  depositedAmount0: 1 - 1 / Math.SQRT2,
+  depositedAmount1: 1 - 1 / Math.SQRT2,
+  feesEarned0: 0,
+  feesEarned1: 0,
+  currentTick: 0,
+  ...overrides
+});
+
+describe('tickToPrice', () => {
+  it('converts ticks to token1 per token0 in token units', () => {
+    expect(tickToPrice(0, 18, 18)).toBe(1);
+    expect(tickToPrice(6932, 18, 18)).toBeCloseTo(2, 3);
+    expect(tickToPrice(-6932, 18, 18)).toBeCloseTo(0.5, 3);
+    // 3,000 USDC (6 decimals) per WETH (18 decimals) sits near tick -196,257
+    expect(tickToPrice(-196_257, 18, 6)).toBeCloseTo(3000, -1);
+  });
+
+  it('is the square of the sqrt price', () => {
+    expect(tickToSqrtPrice(1234) ** 2).toBeCloseTo(tickToPrice(1234, 18, 18), 12);
+  });
+});
+
+describe('analyzeLiquidityPosition', () => {
+  const prices = { TKA: 1, TKB: 1 };
+
+  it('holds both tokens inside the range', () => {
+    const analysis = analyzeLiquidityPosition(buildLiquidityPosition(), prices);
+
+    expect(analysis.inRange).toBe(true);
+    expect(analysis.currentPrice).toBe(1);
+    expect(analysis.amount0).toBeCloseTo(1 - 1 / tickToSqrtPrice(6932), 12);
+    expect(analysis.amount1).toBeCloseTo(1 - tickToSqrtPrice(-6932), 12);
+    expect(analysis.impermanentLoss).toBeCloseTo(0, 3);
+  });
+
+  it('is out of range and all token0 at the lower tick', () => {
+    const analysis = analyzeLiquidityPosition(buildLiquidityPosition({ currentTick: -6932 }), { TKA: 0.5, TKB: 1 });
+
+    expect(analysis.inRange).toBe(false);
+    expect(analysis.amount0).toBeCloseTo(1 / tickToSqrtPrice(-6932) - 1 / tickToSqrtPrice(6932), 12);
+    expect(analysis.amount1).toBe(0);
+  });
+
+  it('is out of range and all token1 at the upper tick', () => {
+    const analysis = analyzeLiquidityPosition(buildLiquidityPosition({ currentTick: 6932 }), { TKA: 2, TKB: 1 });
+
+    expect(analysis.inRange).toBe(false);
+    expect(analysis.amount0).toBe(0);
+    expect(analysis.amount1).toBeCloseTo(tickToSqrtPrice(6932) - tickToSqrtPrice(-6932), 12);
+  });
+
+  it('compares the position and its fees against holding the deposit', () => {
+    const position = buildLiquidityPosition({ currentTick: 6932, feesEarned0: 0.01, feesEarned1: 0.02 });
+    const analysis = analyzeLiquidityPosition(position, { TKA: 2, TKB: 1 });
+
+    const positionValue = tickToSqrtPrice(6932) - tickToSqrtPrice(-6932);
+    const hodlValue = (1 - 1 / Math.SQRT2) * 3;
+    expect(analysis.positionValue).toBeCloseTo(positionValue, 12);
+    expect(analysis.hodlValue).toBeCloseTo(hodlValue, 12);
+    expect(analysis.feesValue).toBeCloseTo(0.04, 12);
+    expect(analysis.impermanentLoss).toBeCloseTo(positionValue - hodlValue, 12);
+    expect(analysis.impermanentLossPercentage).toBeCloseTo(-19.5, 1);
+    expect(analysis.netVsHodl).toBeCloseTo(positionValue - hodlValue + 0.04, 12);
+  });
+
+  it('derives the current price from USD prices without a pool tick', () => {
+    const analysis = analyzeLiquidityPosition(buildLiquidityPosition({ currentTick: undefined }), { TKA: 1.5, TKB: 1 });
+
+    expect(analysis.currentPrice).toBeCloseTo(1.5, 12);
+    expect(analysis.inRange).toBe(true);
+  });
+
+  it('fails on a missing price even when the pool tick is known', () => {
+    expect(() => analyzeLiquidityPosition(buildLiquidityPosition(), { TKA: 1 })).toThrow('Missing price for TKA/TKB');
+  });
+});
@@ -0,0 +1,75 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import type { ProtocolRiskProfile } from '../src/models';
+import { InMemoryDataSource } from '../src/services/dataSource';
+import { buildOpportunity, buildProtocol } from './fixtures';
+
+// The API scores risk itself; the stored riskScore of 5 is ignored
+const safeProfile: ProtocolRiskProfile = {
+  launchDate: new Date('2021-01-01T00:00:00Z'), oracle: 'chainlink', adminControl: 'timelock', audits: 3, utilization: 0.5
+};
+const riskyProfile: ProtocolRiskProfile = { oracle: 'custom', adminControl: 'eoa', audits: 0, utilization: 0.95 };
+
+const createTestApp = () => createApp({
+  dataSource: new InMemoryDataSource({
+    protocols: [
+      buildProtocol({ id: 'aave-v3', apy: 5, riskScore: 5, tvl: 3_000_000, volume24h: 100_000, riskProfile: safeProfile }),
+      buildProtocol({ id: 'moonwell', apy: 8, riskScore: 5, tvl: 1_000_000, volume24h: 50_000, riskProfile: riskyProfile }),
+      buildProtocol({ id: 'retired', apy: 20, riskScore: 5, isActive: false })
+    ],
+    arbitrageOpportunities: [buildOpportunity(), buildOpportunity({ id: 'done', isExecuted: true })],
+    prices: { WETH: 3000, USDC: 1 },
+    stats: { totalUsers: 42, totalRewardsDistributed: 1000, activeStrategies: 7 }
+  }),
+  rateLimit: false
+});
+
+describe('/api/v1/yields', () => {
+  it('lists active protocols by APY', async () => {
+    const res = await request(createTestApp()).get('/api/v1/yields').expect(200);
+    expect(res.body.map((protocol: { id: string }) => protocol.id)).toEqual(['moonwell', 'aave-v3']);
+  });
+
+  it('filters on APY and risk', async () => {
+    const res = await request(createTestApp()).get('/api/v1/yields?minApy=4&maxRisk=5').expect(200);
+    expect(res.body.map((protocol: { id: string }) => protocol.id)).toEqual(['aave-v3']);
+  });
+
+  it('scores risk from each protocol profile', async () => {
+    const res = await request(createTestApp()).get('/api/v1/yields').expect(200);
+    const [moonwell, aave] = res.body;
+    expect(aave.riskScore).toBe(aave.riskAssessment.score);
+    expect(aave.riskAssessment.label).toBe('Low');
+    expect(moonwell.riskScore).toBe(moonwell.riskAssessment.score);
+    expect(moonwell.riskScore).toBeGreaterThan(5);
+  });
+
+  it('rejects a risk limit out of range', async () => {
+    await request(createTestApp()).get('/api/v1/yields?maxRisk=11').expect(400);
+  });
+});
+
+describe('market endpoints', () => {
+  it('serves the current prices', async () => {
+    await request(createTestApp()).get('/api/v1/prices').expect(200, { WETH: 3000, USDC: 1 });
+  });
+
+  it('aggregates the dashboard metrics over active protocols', async () => {
+    const res = await request(createTestApp()).get('/api/v1/metrics').expect(200);
+    expect(res.body).toEqual({
+      totalTVL: 4_000_000,
+      totalUsers: 42,
+      totalVolume24h: 150_000,
+      totalRewardsDistributed: 1000,
+      averageAPY: 6.5,
+      activeStrategies: 7,
+      arbitrageOpportunities: 1,
+      riskScore: 4
+    });
+  });
+
+  it('answers 503 for claim costs without a node to price gas', async () => {
+    const res = await request(createTestApp()).get('/api/v1/claim-costs').expect(503);
+    expect(res.body.error.code).toBe('UNAVAILABLE');
+  });
+});
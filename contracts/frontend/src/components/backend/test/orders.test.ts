@@ -0,0 +1,81 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { OrderKeeper } from '../src/orders/OrderKeeper';
+import type { UnwindBuilder } from '../src/orders/types';
+import { AnalyticsService } from '../src/services/AnalyticsService';
+import { InMemoryDataSource } from '../src/services/dataSource';
+import { OWNER, buildPosition } from './fixtures';
+
+const TX_HASH = `0x${'cd'.repeat(32)}`;
+
+const builder: UnwindBuilder = {
+  build: async () => [{ step: 'withdraw', to: OWNER, data: '0x', value: '0', description: 'Withdraw USDC' }]
+};
+
+const createTestApp = () => {
+  const dataSource = new InMemoryDataSource({ positions: { [OWNER]: [buildPosition()] } });
+  const orders = new OrderKeeper(new AnalyticsService(dataSource), { builder });
+  return { app: createApp({ dataSource, orders, rateLimit: false }), orders };
+};
+
+// The position is up 10% on its amount
+const takeProfit = {
+  owner: OWNER,
+  strategyId: 'aave-usdc',
+  type: 'takeProfit',
+  trigger: { kind: 'pnlPercentage', threshold: 5 }
+};
+
+describe('/api/v1/orders', () => {
+  it('places an order on a held position', async () => {
+    const { app } = createTestApp();
+    const res = await request(app).post('/api/v1/orders').send(takeProfit).expect(201);
+    expect(res.body).toMatchObject({ ...takeProfit, costBasis: 1000, settleToken: 'USDC', slippageBps: 50, status: 'active' });
+  });
+
+  it('answers 404 for a position the owner does not hold', async () => {
+    const { app } = createTestApp();
+    await request(app).post('/api/v1/orders').send({ ...takeProfit, strategyId: 'missing' }).expect(404);
+  });
+
+  it('rejects a take-profit on a loss', async () => {
+    const { app } = createTestApp();
+    const res = await request(app).post('/api/v1/orders')
+      .send({ ...takeProfit, trigger: { kind: 'pnlPercentage', threshold: -5 } }).expect(400);
+    expect(res.body.error.message).toBe('A take-profit needs a positive PnL threshold');
+  });
+
+  it('lists and cancels an owner\'s orders', async () => {
+    const { app } = createTestApp();
+    const { body: order } = await request(app).post('/api/v1/orders').send(takeProfit).expect(201);
+
+    const listed = await request(app).get(`/api/v1/orders?owner=${OWNER}&status=active`).expect(200);
+    expect(listed.body.map((candidate: { id: string }) => candidate.id)).toEqual([order.id]);
+
+    const cancelled = await request(app).delete(`/api/v1/orders/${order.id}`).expect(200);
+    expect(cancelled.body.status).toBe('cancelled');
+    await request(app).delete(`/api/v1/orders/${order.id}`).expect(400);
+  });
+
+  it('lists orders only for a given owner', async () => {
+    const { app } = createTestApp();
+    await request(app).post('/api/v1/orders').send(takeProfit).expect(201);
+
+    const res = await request(app).get('/api/v1/orders?status=active').expect(400);
+    expect(res.body.error.details[0].field).toBe('owner');
+  });
+
+  it('records the execution of a triggered order', async () => {
+    const { app, orders } = createTestApp();
+    const { body: order } = await request(app).post('/api/v1/orders').send(takeProfit).expect(201);
+    await request(app).post(`/api/v1/orders/${order.id}/execution`).send({ txHashes: [TX_HASH] }).expect(400);
+
+    await orders.run({});
+    const triggered = await request(app).get(`/api/v1/orders/${order.id}`).expect(200);
+    expect(triggered.body.status).toBe('triggered');
+    expect(triggered.body.unwind).toHaveLength(1);
+
+    const executed = await request(app).post(`/api/v1/orders/${order.id}/execution`).send({ txHashes: [TX_HASH] }).expect(200);
+    expect(executed.body).toMatchObject({ status: 'executed', txHashes: [TX_HASH] });
+  });
+});
@@ -0,0 +1,77 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { InMemoryDataSource } from '../src/services/dataSource';
+import { OWNER, buildPosition } from './fixtures';
+
+const createTestApp = () => createApp({
+  dataSource: new InMemoryDataSource({
+    prices: { AERO: 2 },
+    positions: {
+      [OWNER]: [
+        buildPosition(),
+        buildPosition({
+          strategyId: 'aero-gauge',
+          strategyName: 'WETH/USDC gauge',
+          protocolId: 'aerodrome',
+          currentValue: 900,
+          pnl: -100,
+          apy: 20,
+          riskLevel: 5,
+          pendingRewards: 0,
+          rewards: [{ token: 'AERO', amount: 15 }]
+        })
+      ]
+    },
+    positionHistory: {
+      [OWNER]: [{
+        strategyId: 'aave-usdc',
+        pnlHistory: [{ timestamp: new Date('2024-02-01T00:00:00Z'), currentValue: 1050, pnl: 50 }],
+        rewardClaims: []
+      }]
+    }
+  }),
+  rateLimit: false
+});
+
+describe('/api/v1/portfolio', () => {
+  it('lists the positions of an address', async () => {
+    const res = await request(createTestApp()).get(`/api/v1/portfolio/${OWNER}/positions`).expect(200);
+    expect(res.body.map((position: { strategyId: string }) => position.strategyId)).toEqual(['aave-usdc', 'aero-gauge']);
+  });
+
+  it('rejects a malformed address', async () => {
+    const res = await request(createTestApp()).get('/api/v1/portfolio/0x1234/positions').expect(400);
+    expect(res.body.error.details[0].message).toBe('"address" must be a 20-byte hex address');
+  });
+
+  it('serves the history of one position', async () => {
+    const res = await request(createTestApp()).get(`/api/v1/portfolio/${OWNER}/positions/aave-usdc/history`).expect(200);
+    expect(res.body.pnlHistory).toEqual([{ timestamp: '2024-02-01T00:00:00.000Z', currentValue: 1050, pnl: 50 }]);
+  });
+
+  it('answers 404 for a position without history', async () => {
+    await request(createTestApp()).get(`/api/v1/portfolio/${OWNER}/positions/aero-gauge/history`).expect(404);
+  });
+
+  it('analyzes the portfolio with reward tokens at current prices', async () => {
+    const res = await request(createTestApp()).post('/api/v1/portfolio/analyze').send({ address: OWNER }).expect(200);
+    expect(res.body).toMatchObject({
+      address: OWNER,
+      totalValue: 2000,
+      totalPnL: 0,
+      totalPendingRewards: 40,
+      weightedAPY: (5 * 1100 + 20 * 900) / 2000,
+      averageRisk: 4
+    });
+    expect(res.body.discoveryErrors).toBeUndefined();
+  });
+
+  it('limits the analysis to the requested protocols', async () => {
+    const res = await request(createTestApp())
+      .post('/api/v1/portfolio/analyze')
+      .send({ address: OWNER, protocols: ['aerodrome'] })
+      .expect(200);
+    expect(res.body.positions).toHaveLength(1);
+    expect(res.body.totalValue).toBe(900);
+  });
+});
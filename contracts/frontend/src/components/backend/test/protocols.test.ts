@@ -0,0 +1,58 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { InMemoryDataSource } from '../src/services/dataSource';
+import { buildPool, buildProtocol } from './fixtures';
+
+const NOW = Date.now();
+const HOUR = 60 * 60 * 1000;
+
+const createTestApp = () => createApp({
+  dataSource: new InMemoryDataSource({
+    protocols: [buildProtocol(), buildProtocol({ id: 'aerodrome', name: 'Aerodrome', category: 'DEX' })],
+    pools: [
+      buildPool({ id: 'usdc', name: 'USDC', tokens: ['USDC'], tvl: 600_000, feeApr: 4 }),
+      buildPool({ id: 'weth', name: 'WETH', tokens: ['WETH'], tvl: 400_000, feeApr: 2 })
+    ],
+    snapshots: [
+      { protocolId: 'aave-v3', timestamp: new Date(NOW - 2 * HOUR), tvl: 990_000, apy: 5, volume24h: 90_000 },
+      { protocolId: 'aave-v3', timestamp: new Date(NOW - 3 * HOUR), tvl: 980_000, apy: 5, volume24h: 80_000 },
+      { protocolId: 'aave-v3', timestamp: new Date(NOW - 10 * 24 * HOUR), tvl: 900_000, apy: 4, volume24h: 70_000 }
+    ]
+  }),
+  rateLimit: false
+});
+
+describe('/api/v1/protocols', () => {
+  it('lists protocols with the yield sources of their pools', async () => {
+    const res = await request(createTestApp()).get('/api/v1/protocols').expect(200);
+    const aave = res.body.find((protocol: { id: string }) => protocol.id === 'aave-v3');
+    expect(aave.yieldSources.lendingInterestApr).toBeCloseTo(3.2);
+    expect(aave.yieldSources.tvl).toBe(1_000_000);
+    expect(res.body.find((protocol: { id: string }) => protocol.id === 'aerodrome').yieldSources).toBeUndefined();
+  });
+
+  it('groups history per protocol within the timeframe, oldest first', async () => {
+    const res = await request(createTestApp()).get('/api/v1/protocols/history?timeframe=7d').expect(200);
+    expect(res.body['aave-v3'].map((snapshot: { tvl: number }) => snapshot.tvl)).toEqual([980_000, 990_000]);
+  });
+
+  it('rejects an unknown timeframe', async () => {
+    const res = await request(createTestApp()).get('/api/v1/protocols/history?timeframe=1y').expect(400);
+    expect(res.body.error.details[0].field).toBe('timeframe');
+  });
+
+  it('returns the TVL of one protocol', async () => {
+    const res = await request(createTestApp()).get('/api/v1/protocols/aave-v3/tvl').expect(200);
+    expect(res.body).toMatchObject({ protocol: 'aave-v3', name: 'Aave V3', tvl: 1_000_000, change24h: 1.5 });
+  });
+
+  it('lists pools largest first', async () => {
+    const res = await request(createTestApp()).get('/api/v1/protocols/aave-v3/pools').expect(200);
+    expect(res.body.map((pool: { id: string }) => pool.id)).toEqual(['usdc', 'weth']);
+  });
+
+  it('answers 404 for an unknown protocol', async () => {
+    const res = await request(createTestApp()).get('/api/v1/protocols/unknown/pools').expect(404);
+    expect(res.body.error.code).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,67 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { io as connect, type Socket } from 'socket.io-client';
+import { RealtimeHub } from '../src/services/RealtimeHub';
+import { AnalyticsService } from '../src/services/AnalyticsService';
+import { InMemoryDataSource } from '../src/services/dataSource';
+
+// Rejects every read, like a data source whose node is down
+class FailingDataSource extends InMemoryDataSource {
+  async getPrices(): Promise<never> {
+    throw new Error('node is down');
+  }
+}
+
+describe('RealtimeHub', () => {
+  let server: Server;
+  let hub: RealtimeHub;
+  let socket: Socket | undefined;
+
+  const listen = async (dataSource: InMemoryDataSource) => {
+    server = createServer();
+    hub = new RealtimeHub(server, new AnalyticsService(dataSource));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  // Resolves with the first of the given events the socket receives
+  const nextEvent = (events: string[]) => new Promise<{ event: string; payload: unknown }>(resolve => {
+    events.forEach(event => socket?.on(event, payload => resolve({ event, payload })));
+  });
+
+  afterEach(async () => {
+    socket?.disconnect();
+    await hub.close();
+  });
+
+  it('sends a snapshot on connect', async () => {
+    const url = await listen(new InMemoryDataSource({ prices: { WETH: 3000 } }));
+    socket = connect(`${url}/ws/prices`, { transports: ['websocket'] });
+    expect(await nextEvent(['snapshot', 'snapshot:error'])).toEqual({ event: 'snapshot', payload: { WETH: 3000 } });
+  });
+
+  it('reports a failed snapshot read to the subscriber', async () => {
+    const errorLog = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const url = await listen(new FailingDataSource());
+    socket = connect(`${url}/ws/prices`, { transports: ['websocket'] });
+    expect(await nextEvent(['snapshot', 'snapshot:error'])).toEqual({
+      event: 'snapshot:error',
+      payload: { message: 'Snapshot is unavailable' }
+    });
+    expect(errorLog).toHaveBeenCalledWith('Snapshot for /ws/prices failed', expect.any(Error));
+    errorLog.mockRestore();
+  });
+
+  it('resends the prices as a snapshot when a token drops out', async () => {
+    const url = await listen(new InMemoryDataSource({ prices: { WETH: 3000 } }));
+    socket = connect(`${url}/ws/prices`, { transports: ['websocket'] });
+    await nextEvent(['snapshot']);
+
+    hub.publishPrices({ WETH: 3000, USDC: 1 });
+    expect(await nextEvent(['prices', 'snapshot'])).toEqual({ event: 'prices', payload: { WETH: 3000, USDC: 1 } });
+    hub.publishPrices({ WETH: 3000, USDC: 1.001 });
+    expect(await nextEvent(['prices', 'snapshot'])).toEqual({ event: 'prices', payload: { USDC: 1.001 } });
+    hub.publishPrices({ WETH: 3000 });
+    expect(await nextEvent(['prices', 'snapshot'])).toEqual({ event: 'snapshot', payload: { WETH: 3000 } });
+  });
+});
@@ -0,0 +1,64 @@
+import type { ClaimCosts } from '../src/models';
+import { planRewardClaims } from '../../../utils/rewards';
+import { buildPosition } from './fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-02-01T00:00:00Z');
+
+// 10 AERO, worth 10 USD, accrued over the 10 days since the last claim: 1 USD a day
+const position = buildPosition({
+  currentValue: 10_000,
+  lastRewardClaim: new Date(NOW.getTime() - 10 * DAY),
+  rewards: [{ token: 'AERO', amount: 10 }, { token: 'UNPRICED', amount: 5 }]
+});
+const prices = { AERO: 1 };
+
+const buildCosts = (claim: number, compound = 1000): ClaimCosts => ({ claim, compound, gasPriceGwei: 0.01, timestamp: NOW });
+
+describe('planRewardClaims', () => {
+  it('claims now once the rewards cover the gas at the target share', () => {
+    const plan = planRewardClaims(position, prices, buildCosts(0.1), NOW);
+
+    expect(plan.pendingValue).toBe(10);
+    expect(plan.rewards.map(reward => reward.priceSource)).toEqual(['feed', 'unpriced']);
+    expect(plan.dailyRewardValue).toBeCloseTo(1, 12);
+    // 0.1 USD of gas is 2% of 5 days of rewards
+    expect(plan.schedule).toEqual({ kind: 'claim', intervalDays: 5, netYearlyValue: 365 - 73 * 0.1 });
+    expect(plan.action).toBe('claim');
+    expect(plan.nextClaimAt).toEqual(NOW);
+  });
+
+  it('waits while the pending rewards are below the claim threshold', () => {
+    const plan = planRewardClaims(position, prices, buildCosts(0.4), NOW);
+
+    // 0.4 USD of gas needs 20 USD of rewards, 10 more days of accrual
+    expect(plan.schedule).toMatchObject({ kind: 'claim', intervalDays: 20 });
+    expect(plan.action).toBe('wait');
+    expect(plan.nextClaimAt?.getTime()).toBeCloseTo(NOW.getTime() + 10 * DAY, -3);
+  });
+
+  it('never claims when a year of rewards does not cover the gas', () => {
+    const plan = planRewardClaims(position, prices, buildCosts(400, 400), NOW);
+
+    expect(plan.schedule).toBeNull();
+    expect(plan.action).toBe('wait');
+    expect(plan.nextClaimAt).toBeNull();
+  });
+
+  it('prefers compounding when reinvesting earns more than the extra gas', () => {
+    const plan = planRewardClaims(position, prices, buildCosts(0.1, 0.1), NOW);
+
+    expect(plan.schedule?.kind).toBe('compound');
+    expect(plan.schedule!.netYearlyValue).toBeGreaterThan(365 - 73 * 0.1);
+    // Due once a full interval of rewards has accrued, 10 days of which already have
+    expect(plan.schedule!.intervalDays).toBeGreaterThan(10);
+    expect(plan.action).toBe('wait');
+    expect(plan.nextClaimAt?.getTime()).toBeCloseTo(NOW.getTime() + (plan.schedule!.intervalDays - 10) * DAY, -3);
+  });
+
+  it('estimates accrual from the APY until a day has been observed', () => {
+    const fresh = { ...position, apy: 3.65, lastRewardClaim: new Date(NOW.getTime() - DAY / 2) };
+
+    expect(planRewardClaims(fresh, prices, buildCosts(0.1), NOW).dailyRewardValue).toBeCloseTo(1, 12);
+  });
+});
@@ -0,0 +1,76 @@
+import { findArbitrageRoutes } from '../src/arbitrage/routeSearch';
+import type { PoolState } from '../src/arbitrage/types';
+
+const prices = { USDC: 1, WETH: 3000, cbETH: 3150 };
+
+const buildPoolState = (overrides: Partial<PoolState> = {}): PoolState => ({
+  dex: 'uniswap-v3',
+  address: '0x0000000000000000000000000000000000000001',
+  token0: 'WETH',
+  token1: 'USDC',
+  fee: 500,
+  feeRate: 0.0005,
+  price: 3000,
+  ...overrides
+});
+
+// cbETH trades at 1.05 WETH, but its USDC pool prices it at 3,200 instead of 3,150:
+// USDC → WETH → cbETH → USDC returns 3200 / 3150, about 1.6% before fees
+const buildTriangle = (feeRate = 0.0005): PoolState[] => [
+  buildPoolState({ feeRate }),
+  buildPoolState({ address: '0x0000000000000000000000000000000000000002', token0: 'cbETH', token1: 'WETH', price: 1.05, feeRate }),
+  buildPoolState({ dex: 'aerodrome', address: '0x0000000000000000000000000000000000000003', token0: 'cbETH', token1: 'USDC', price: 3200, feeRate })
+];
+
+describe('findArbitrageRoutes', () => {
+  it('finds a triangular cycle once, whichever start token reaches it', () => {
+    const routes = findArbitrageRoutes(buildTriangle(), prices, { startTokens: ['USDC', 'WETH'] });
+
+    expect(routes).toHaveLength(1);
+    const [route] = routes;
+    expect(route.tokenA).toBe('USDC');
+    expect(route.route?.map(hop => `${hop.tokenIn}>${hop.tokenOut}`)).toEqual(['USDC>WETH', 'WETH>cbETH', 'cbETH>USDC']);
+    expect(route).toMatchObject({ dexA: 'uniswap-v3', dexB: 'aerodrome', estimatedGas: 450_000 });
+    // Gross profit at pool prices, quoted on the default 1,000 USD
+    expect(route.profitPercentage).toBeCloseTo((3200 / 3150 - 1) * 100, 9);
+    expect(route.profitPotential).toBeCloseTo(1000 * (3200 / 3150 - 1), 9);
+  });
+
+  it('applies the pool fee on every hop', () => {
+    // 0.5% a hop leaves about 0.06%; 1% a hop is a loss, though 1% charged once would not be
+    expect(findArbitrageRoutes(buildTriangle(0.005), prices, { startTokens: ['USDC'] })).toHaveLength(1);
+    expect(findArbitrageRoutes(buildTriangle(0.01), prices, { startTokens: ['USDC'] })).toEqual([]);
+  });
+
+  it('stops at the hop limit', () => {
+    expect(findArbitrageRoutes(buildTriangle(), prices, { startTokens: ['USDC'], maxHops: 2 })).toEqual([]);
+    expect(findArbitrageRoutes(buildTriangle(), prices, { startTokens: ['USDC'], maxHops: 3 })).toHaveLength(1);
+  });
+
+  it('never swaps back through the pool it came in by', () => {
+    const pools = [
+      buildPoolState({ feeRate: 0 }),
+      buildPoolState({ dex: 'aerodrome', address: '0x0000000000000000000000000000000000000002', price: 3100, feeRate: 0 })
+    ];
+
+    // A single pool has no cycle however cheap it is to trade
+    expect(findArbitrageRoutes(pools.slice(0, 1), prices, { startTokens: ['USDC', 'WETH'] })).toEqual([]);
+
+    // Buy WETH where it is cheap, sell it in the other pool
+    const routes = findArbitrageRoutes(pools, prices, { startTokens: ['USDC', 'WETH'], maxHops: 4 });
+    expect(routes).toHaveLength(1);
+    expect(routes[0].route?.map(hop => hop.pool)).toEqual([pools[0].address, pools[1].address]);
+  });
+
+  it('does not pass through a token twice on the way back to the start', () => {
+    // The only gap is between two WETH/cbETH pools, reachable from USDC only by visiting WETH twice
+    const pools = [
+      buildPoolState({ feeRate: 0 }),
+      buildPoolState({ address: '0x0000000000000000000000000000000000000002', token0: 'cbETH', token1: 'WETH', price: 1.05, feeRate: 0 }),
+      buildPoolState({ dex: 'aerodrome', address: '0x0000000000000000000000000000000000000003', token0: 'cbETH', token1: 'WETH', price: 1.1, feeRate: 0 })
+    ];
+
+    expect(findArbitrageRoutes(pools, prices, { startTokens: ['USDC'], maxHops: 4 })).toEqual([]);
+    expect(findArbitrageRoutes(pools, prices, { startTokens: ['WETH'], maxHops: 4 })).toHaveLength(1);
+  });
+});
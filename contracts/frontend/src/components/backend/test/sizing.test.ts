@@ -0,0 +1,115 @@
+import { getAmountOut, type ConcentratedCurve, type ConstantProductCurve } from '../src/arbitrage/liquidity';
+import { simulateRoute, solveTradeSize, type SizingLeg } from '../src/arbitrage/sizing';
+import { tickToSqrtPrice } from '../../../utils/liquidity';
+
+// Raw amounts are USD: zero decimals at a price of 1
+const usd = { decimals: 0, price: 1, fixedCostUsd: 5 };
+
+const constantProduct = (reserve0: number, reserve1: number, feeRate = 0): ConstantProductCurve => ({
+  kind: 'constantProduct',
+  reserve0,
+  reserve1,
+  feeRate
+});
+
+// Liquidity between prices of 0.5 and 2 (ticks ±6932) around a current price of 1, nothing loaded outside
+const concentrated = (feeRate = 0): ConcentratedCurve => ({
+  kind: 'concentrated',
+  sqrtPrice: 1,
+  liquidity: 1_000_000,
+  ticks: [{ tick: -6932, liquidityNet: 1_000_000 }, { tick: 6932, liquidityNet: -1_000_000 }],
+  feeRate
+});
+
+describe('getAmountOut on concentrated liquidity', () => {
+  it('matches a constant-product pool with the virtual reserves of the range', () => {
+    const curve = concentrated();
+    // x = L / √P and y = L · √P
+    const virtual = constantProduct(1_000_000, 1_000_000);
+
+    expect(getAmountOut(curve, 10_000, true)).toBeCloseTo(getAmountOut(virtual, 10_000, true), 6);
+    expect(getAmountOut(curve, 10_000, false)).toBeCloseTo(getAmountOut(virtual, 10_000, false), 6);
+  });
+
+  it('picks up the liquidity of the next range when crossing a tick', () => {
+    const curve: ConcentratedCurve = {
+      ...concentrated(),
+      ticks: [
+        { tick: -13_864, liquidityNet: 500_000 },
+        { tick: -6932, liquidityNet: -500_000 },
+        { tick: 6932, liquidityNet: -1_000_000 }
+      ]
+    };
+    const lower = tickToSqrtPrice(-6932);
+    // Drains 1,000,000 of liquidity down to the tick, then swaps into 1,500,000
+    const toTick = 1_000_000 * (1 / lower - 1);
+    const next = 1_500_000 * lower / (1_500_000 + 1000 * lower);
+
+    expect(getAmountOut(curve, toTick + 1000, true)).toBeCloseTo(1_000_000 * (1 - lower) + 1_500_000 * (lower - next), 6);
+  });
+
+  it('never pays out more than the loaded ticks hold', () => {
+    expect(getAmountOut(concentrated(), 1e12, true)).toBeCloseTo(1_000_000 * (1 - tickToSqrtPrice(-6932)), 6);
+    expect(getAmountOut(concentrated(), 1e12, false)).toBeCloseTo(1_000_000 * (1 - 1 / tickToSqrtPrice(6932)), 6);
+  });
+
+  it('takes the fee off the input', () => {
+    expect(getAmountOut(concentrated(0.003), 10_000, true)).toBeCloseTo(getAmountOut(concentrated(), 9970, true), 9);
+  });
+});
+
+describe('solveTradeSize', () => {
+  // Buy the token at 1,000 USD in one pool and sell it at 1,100 in the other
+  const legs: SizingLeg[] = [
+    { curve: constantProduct(1_000_000, 1000), zeroForOne: true },
+    { curve: constantProduct(1000, 1_100_000), zeroForOne: true }
+  ];
+  const profit = (amountIn: number) => simulateRoute(legs, amountIn) - amountIn;
+
+  it('finds the input the neighbouring sizes cannot beat', () => {
+    const sizing = solveTradeSize(legs, usd);
+
+    // Two chained pools quote like one with reserves A = 550,000 out and B = 500,000 in,
+    // whose profit peaks at √(A·B) - B
+    expect(sizing.optimalInput).toBeCloseTo(Math.sqrt(550_000 * 500_000) - 500_000, 1);
+    expect(profit(sizing.optimalInput)).toBeGreaterThan(profit(sizing.optimalInput * 0.99));
+    expect(profit(sizing.optimalInput)).toBeGreaterThan(profit(sizing.optimalInput * 1.01));
+    expect(sizing.maxProfit).toBeCloseTo(profit(sizing.optimalInput) - 5, 9);
+  });
+
+  it('draws the profit curve out to twice the optimal input, net of fixed costs', () => {
+    const sizing = solveTradeSize(legs, { ...usd, curvePoints: 4 });
+
+    expect(sizing.curve.map(point => point.inputUsd)).toEqual([0.5, 1, 1.5, 2].map(step => step * sizing.optimalInputUsd));
+    expect(sizing.curve[1].profit).toBeCloseTo(sizing.maxProfit, 9);
+    expect(Math.max(...sizing.curve.map(point => point.profit))).toBe(sizing.curve[1].profit);
+  });
+
+  it('stops at the edge of the liquidity a concentrated leg has loaded', () => {
+    // Selling back pays 3 per token, so the trade would run past the range's lower price of 0.5
+    const bounded: SizingLeg[] = [
+      { curve: concentrated(), zeroForOne: true },
+      { curve: constantProduct(3e12, 1e12), zeroForOne: false }
+    ];
+    const rangeInput = 1_000_000 * (1 / tickToSqrtPrice(-6932) - 1);
+
+    const sizing = solveTradeSize(bounded, usd);
+
+    expect(sizing.optimalInput).toBeLessThanOrEqual(rangeInput * (1 + 1e-6));
+    expect(sizing.optimalInput).toBeCloseTo(rangeInput, 0);
+  });
+
+  it('sizes nothing when no input is profitable', () => {
+    const flat: SizingLeg[] = [
+      { curve: constantProduct(1_000_000, 1000, 0.003), zeroForOne: true },
+      { curve: constantProduct(1000, 1_000_000, 0.003), zeroForOne: true }
+    ];
+
+    const sizing = solveTradeSize(flat, { ...usd, minCurveInputUsd: 1000, curvePoints: 4 });
+
+    expect(sizing.optimalInput).toBe(0);
+    expect(sizing.maxProfit).toBe(-5);
+    expect(sizing.curve.map(point => point.inputUsd)).toEqual([250, 500, 750, 1000]);
+    sizing.curve.forEach(point => expect(point.profit).toBeLessThan(-5));
+  });
+});
@@ -0,0 +1,97 @@
+import request from 'supertest';
+import { createApp } from '../src/app';
+import type { GaugeEpoch, TokenPrices, VeLock } from '../src/models';
+import { InMemoryDataSource } from '../src/services/dataSource';
+import { VoteEscrowReader } from '../src/voteEscrow/VoteEscrowReader';
+import { VoteEscrowService } from '../src/voteEscrow/VoteEscrowService';
+import { OWNER } from './fixtures';
+
+const buildGauge = (pool: string, votes: number, rewardValue: number, epochStart: Date): GaugeEpoch => ({
+  pool,
+  gauge: pool,
+  name: pool,
+  epochStart,
+  votes,
+  voteShare: 50,
+  fees: [],
+  bribes: [{ token: 'USDC', amount: rewardValue, price: 1, priceSource: 'feed', value: rewardValue }],
+  rewardValue,
+  rewardPer1kVotes: rewardValue / votes * 1000
+});
+
+// Serves fixed gauges and locks instead of reading Aerodrome's contracts; no request reaches the URL
+class StubVoteEscrowReader extends VoteEscrowReader {
+  constructor(private readonly locks: VeLock[]) {
+    super('http://127.0.0.1:8545');
+  }
+
+  async readGauges(_prices: TokenPrices, now: Date = new Date()): Promise<GaugeEpoch[]> {
+    return [buildGauge('weth-usdc', 1_000_000, 1000, now), buildGauge('aero-usdc', 1_000_000, 4000, now)];
+  }
+
+  async readLocks(owner: string): Promise<VeLock[]> {
+    return this.locks.filter(lock => lock.owner === owner.toLowerCase());
+  }
+
+  async readLock(tokenId: bigint): Promise<VeLock | null> {
+    return this.locks.find(lock => lock.tokenId === tokenId.toString()) || null;
+  }
+}
+
+// Enough voting power to split: the better pool's marginal reward falls to the other's
+const lock: VeLock = {
+  tokenId: '7',
+  owner: OWNER,
+  amount: 3_000_000,
+  unlockAt: null,
+  votingPower: 3_000_000,
+  votes: [],
+  lastVoted: null
+};
+
+const createTestApp = () => {
+  const dataSource = new InMemoryDataSource({ prices: { AERO: 1 } });
+  const voteEscrow = new VoteEscrowService(new StubVoteEscrowReader([lock]), dataSource);
+  return createApp({ dataSource, voteEscrow, rateLimit: false });
+};
+
+describe('/api/v1/ve', () => {
+  it('lists gauges best paying per vote first', async () => {
+    const res = await request(createTestApp()).get('/api/v1/ve/gauges').expect(200);
+    expect(res.body.map((gauge: { pool: string }) => gauge.pool)).toEqual(['aero-usdc', 'weth-usdc']);
+  });
+
+  it('keeps the epoch readings as history', async () => {
+    const app = createTestApp();
+    await request(app).get('/api/v1/ve/gauges').expect(200);
+    const res = await request(app).get('/api/v1/ve/epochs').expect(200);
+    expect(res.body).toHaveLength(2);
+  });
+
+  it('lists the locks of an owner', async () => {
+    const res = await request(createTestApp()).get(`/api/v1/ve/locks?owner=${OWNER}`).expect(200);
+    expect(res.body.map((candidate: { tokenId: string }) => candidate.tokenId)).toEqual(['7']);
+  });
+
+  it('requires an owner for locks', async () => {
+    await request(createTestApp()).get('/api/v1/ve/locks').expect(400);
+  });
+
+  it('plans a lock\'s votes toward the better paying pool', async () => {
+    const res = await request(createTestApp()).get('/api/v1/ve/locks/7/plan').expect(200);
+    const [best, other] = res.body.allocations;
+    expect(best.pool).toBe('aero-usdc');
+    expect(best.votes).toBeGreaterThan(other.votes);
+    expect(best.votes + other.votes).toBeCloseTo(3_000_000, 0);
+    expect(res.body.expectedReward).toBeGreaterThan(res.body.currentReward);
+  });
+
+  it('limits the plan to maxPools', async () => {
+    const res = await request(createTestApp()).get('/api/v1/ve/locks/7/plan?maxPools=1').expect(200);
+    expect(res.body.allocations.map((allocation: { pool: string }) => allocation.pool)).toEqual(['aero-usdc']);
+  });
+
+  it('answers 404 for an unknown lock', async () => {
+    await request(createTestApp()).get('/api/v1/ve/locks/8/plan').expect(404);
+  });
+});
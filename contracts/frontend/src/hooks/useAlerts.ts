@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { analyticsApi } from '@/services/analyticsApi';
+import { subscribeToAlerts } from '@/services/realtimeClient';
+import type { AlertCondition, AlertEvent, AlertRule } from '@/types/analytics';
+
+/**
+ * @title useAlerts
+ * @description Server-side alert rules, their recent events and the toasts raised for new
+ * alerts while the dashboard is open
+ * @author Base DeFi Analytics Team
+ */
+
+const MAX_EVENTS = 50;
+
+export const useAlerts = () => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Every rule action reports failures the same way and keeps the previous state
+  const run = useCallback(async <T>(action: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      const result = await action();
+      setError(null);
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Alert request failed');
+      return undefined;
+    }
+  }, []);
+
+  useEffect(() => {
+    run(async () => {
+      const [nextRules, nextEvents] = await Promise.all([analyticsApi.getAlertRules(), analyticsApi.getAlertEvents(MAX_EVENTS)]);
+      setRules(nextRules);
+      setEvents(nextEvents);
+    });
+  }, [run]);
+
+  useEffect(() => {
+    return subscribeToAlerts(event => {
+      setEvents(current => [event, ...current].slice(0, MAX_EVENTS));
+      setToasts(current => [...current, event]);
+    });
+  }, []);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(current => current.filter(toast => toast.id !== id));
+  }, []);
+
+  const createRule = useCallback((name: string, condition: AlertCondition, webhookUrl?: string) => run(async () => {
+    const rule = await analyticsApi.createAlertRule({ name, condition, ...(webhookUrl ? { webhookUrl } : {}) });
+    setRules(current => [...current, rule]);
+    return rule;
+  }), [run]);
+
+  const toggleRule = useCallback((rule: AlertRule) => run(async () => {
+    const updated = await analyticsApi.updateAlertRule(rule.id, { enabled: !rule.enabled });
+    setRules(current => current.map(candidate => candidate.id === rule.id ? updated : candidate));
+  }), [run]);
+
+  const deleteRule = useCallback((id: string) => run(async () => {
+    await analyticsApi.deleteAlertRule(id);
+    setRules(current => current.filter(rule => rule.id !== id));
+  }), [run]);
+
+  const testRule = useCallback((id: string) => run(() => analyticsApi.testAlertRule(id)), [run]);
+
+  return { rules, events, toasts, error, dismissToast, createRule, toggleRule, deleteRule, testRule };
+};
@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { analyticsApi } from '@/services/analyticsApi';
+import { subscribeToStreams } from '@/services/realtimeClient';
+import { BASE_ANALYTICS_ADDRESS, readOnChainPositions } from '@/services/baseAnalyticsContract';
+import type {
+  ArbitrageOpportunity,
+  DashboardMetrics,
+  ProtocolData,
+  ProtocolHistory,
+  Timeframe,
+  TokenPrices,
+  UserPosition
+} from '@/types/analytics';
+
+/**
+ * @title useBaseAnalytics
+ * @description Loads protocol, portfolio and arbitrage data for the analytics dashboard
+ * @author Base DeFi Analytics Team
+ */
+
+interface UseBaseAnalyticsOptions {
+  timeframe?: Timeframe;
+  // Patch state from the websocket streams between polls
+  realtime?: boolean;
+  // Watch-only addresses to load positions for instead of the connected wallet
+  addresses?: string[];
+}
+
+const EMPTY_METRICS: DashboardMetrics = {
+  totalTVL: 0,
+  totalUsers: 0,
+  totalVolume24h: 0,
+  totalRewardsDistributed: 0,
+  averageAPY: 0,
+  activeStrategies: 0,
+  arbitrageOpportunities: 0,
+  riskScore: 0
+};
+
+const toErrorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : 'Failed to load analytics data';
+
+// Replaces items with a matching key and appends new ones, keeping existing order
+const upsertBy = <T, K extends keyof T>(items: T[], updates: T[], key: K): T[] => {
+  const updatesByKey = new Map(updates.map(update => [update[key], update]));
+  const merged = items.map(item => updatesByKey.get(item[key]) || item);
+  const existingKeys = new Set(items.map(item => item[key]));
+  return [...merged, ...updates.filter(update => !existingKeys.has(update[key]))];
+};
+
+export const useBaseAnalytics = ({ timeframe = '7d', realtime = true, addresses }: UseBaseAnalyticsOptions = {}) => {
+  const { account, provider } = useWeb3();
+
+  // Joined into a string so a new array with the same addresses does not trigger a reload
+  const addressKey = (addresses ?? (account ? [account] : []))
+    .map(address => address.toLowerCase())
+    .join(',');
+
+  const [protocols, setProtocols] = useState<ProtocolData[]>([]);
+  const [protocolHistory, setProtocolHistory] = useState<ProtocolHistory>({});
+  const [userPositions, setUserPositions] = useState<UserPosition[]>([]);
+  const [arbitrageOpportunities, setArbitrageOpportunities] = useState<ArbitrageOpportunity[]>([]);
+  const [dashboardMetrics, setDashboardMetrics] = useState<DashboardMetrics>(EMPTY_METRICS);
+  const [prices, setPrices] = useState<TokenPrices>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setIsHistoryLoading(true);
+    try {
+      setProtocolHistory(await analyticsApi.getProtocolHistory(timeframe));
+    } catch (err) {
+      setError(toErrorMessage(err));
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, [timeframe]);
+
+  const loadSnapshot = useCallback(async () => {
+    try {
+      const [nextProtocols, nextOpportunities, nextMetrics, nextPrices] = await Promise.all([
+        analyticsApi.getProtocols(),
+        analyticsApi.getArbitrageOpportunities(),
+        analyticsApi.getDashboardMetrics(),
+        analyticsApi.getPrices()
+      ]);
+
+      // The API serves stored and discovered positions; when the BaseAnalytics contract is deployed its
+      // positions are read from chain at current prices and replace the API's copy of the same strategy.
+      // Each position is tagged with its owner so multi-wallet portfolios can be broken down per wallet
+      const owners = addressKey ? addressKey.split(',') : [];
+      const positionsByOwner = await Promise.all(owners.map(async owner => {
+        const [apiPositions, onChainPositions] = await Promise.all([
+          analyticsApi.getUserPositions(owner),
+          BASE_ANALYTICS_ADDRESS && provider
+            ? readOnChainPositions({ runner: provider, account: owner, prices: nextPrices })
+            : Promise.resolve([])
+        ]);
+        return upsertBy(apiPositions, onChainPositions, 'strategyId').map(position => ({ ...position, owner }));
+      }));
+      const nextPositions: UserPosition[] = positionsByOwner.flat();
+
+      setProtocols(nextProtocols);
+      setArbitrageOpportunities(nextOpportunities);
+      setDashboardMetrics(nextMetrics);
+      setPrices(nextPrices);
+      setUserPositions(nextPositions);
+      setError(null);
+    } catch (err) {
+      setError(toErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addressKey, provider]);
+
+  const refreshData = useCallback(async () => {
+    await Promise.all([loadSnapshot(), loadHistory()]);
+  }, [loadSnapshot, loadHistory]);
+
+  // Flag the opportunity locally right away, then record the execution server-side
+  const markOpportunityExecuted = useCallback(async (id: string, txHash: string) => {
+    setArbitrageOpportunities(current => current.map(opportunity =>
+      opportunity.id === id ? { ...opportunity, isExecuted: true, txHash } : opportunity
+    ));
+    try {
+      await analyticsApi.markArbitrageExecuted(id, txHash);
+    } catch (err) {
+      setError(toErrorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSnapshot();
+  }, [loadSnapshot]);
+
+  // Switching the timeframe only reloads the history, not the current snapshot
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  useEffect(() => {
+    if (!realtime) return;
+    const unsubscribe = subscribeToStreams({
+      onPricesSnapshot: setPrices,
+      onPrices: changed => setPrices(current => ({ ...current, ...changed })),
+      onProtocolsSnapshot: setProtocols,
+      onProtocols: changed => setProtocols(current => upsertBy(current, changed, 'id')),
+      onOpportunitiesSnapshot: setArbitrageOpportunities,
+      onOpportunity: opportunity => setArbitrageOpportunities(current => upsertBy(current, [opportunity], 'id')),
+      onOpportunityRemoved: id => setArbitrageOpportunities(current => current.filter(opportunity => opportunity.id !== id)),
+      onConnectionChange: setIsStreaming,
+      // Streaming reports down meanwhile, so the dashboard falls back to polling
+      onSnapshotError: (stream, message) => setError(`${message} on the ${stream} stream, polling instead`)
+    });
+    return () => {
+      unsubscribe();
+      setIsStreaming(false);
+    };
+  }, [realtime]);
+
+  return {
+    protocols,
+    protocolHistory,
+    userPositions,
+    arbitrageOpportunities,
+    dashboardMetrics,
+    prices,
+    isLoading,
+    isHistoryLoading,
+    isStreaming,
+    error,
+    refreshData,
+    markOpportunityExecuted
+  };
+};
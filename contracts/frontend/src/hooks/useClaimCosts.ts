@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { analyticsApi } from '@/services/analyticsApi';
+import type { ClaimCosts } from '@/types/analytics';
+
+/**
+ * @title useClaimCosts
+ * @description Loads the USD gas of claiming and compounding rewards at the current Base gas price
+ * @author Base DeFi Analytics Team
+ */
+
+// Loaded when the first position with rewards appears; costs stays null if the API has no Base node
+export const useClaimCosts = (enabled: boolean) => {
+  const [costs, setCosts] = useState<ClaimCosts | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setError(null);
+    analyticsApi.getClaimCosts()
+      .then(result => { if (!cancelled) setCosts(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load claim costs'); });
+
+    return () => { cancelled = true; };
+  }, [enabled]);
+
+  return { costs, error };
+};
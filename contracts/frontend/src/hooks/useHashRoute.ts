@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * @title useHashRoute
+ * @description Path kept in the URL hash (#/protocols/aave-v3), so drill-down pages can be
+ * linked to and left with the browser's back button without a server-side route
+ * @author Base DeFi Analytics Team
+ */
+
+const readPath = (): string => window.location.hash.replace(/^#/, '') || '/';
+
+export const useHashRoute = () => {
+  const [path, setPath] = useState<string>(readPath);
+
+  useEffect(() => {
+    const handleChange = () => setPath(readPath());
+    window.addEventListener('hashchange', handleChange);
+    return () => window.removeEventListener('hashchange', handleChange);
+  }, []);
+
+  // Pushes a history entry; the hashchange listener picks up the new path
+  const navigate = useCallback((next: string) => {
+    window.location.hash = next;
+  }, []);
+
+  return { path, navigate };
+};
+
+// Protocol id of a /protocols/:id path, null for any other path
+export const matchProtocolRoute = (path: string): string | null => {
+  const match = path.match(/^\/protocols\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { analyticsApi } from '@/services/analyticsApi';
+import type { PositionHistory } from '@/types/analytics';
+
+/**
+ * @title usePositionHistory
+ * @description Loads PnL history and reward claims for a single strategy position
+ * @author Base DeFi Analytics Team
+ */
+
+// owner defaults to the connected wallet; watch-only positions pass their own address
+export const usePositionHistory = (strategyId: string | null, owner?: string) => {
+  const { account: connectedAccount } = useWeb3();
+  const account = owner ?? connectedAccount;
+
+  const [history, setHistory] = useState<PositionHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!strategyId || !account) {
+      setHistory(null);
+      return;
+    }
+
+    // Ignore responses for a position the user has already navigated away from
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    analyticsApi.getPositionHistory(account, strategyId)
+      .then(result => { if (!cancelled) setHistory(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load position history'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [account, strategyId]);
+
+  return { history, isLoading, error };
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { analyticsApi } from '@/services/analyticsApi';
+import { subscribeToOrders } from '@/services/realtimeClient';
+import type { OrderTrigger, OrderType, PositionOrder } from '@/types/analytics';
+
+/**
+ * @title usePositionOrders
+ * @description Stop-loss and take-profit orders on one position, kept current from the
+ * order stream, and signing of a triggered order's unwind with the connected wallet
+ * @author Base DeFi Analytics Team
+ */
+
+// owner defaults to the connected wallet; watch-only positions pass their own address
+export const usePositionOrders = (strategyId: string | null, owner?: string) => {
+  const { account: connectedAccount, signer } = useWeb3();
+  const account = (owner ?? connectedAccount)?.toLowerCase();
+
+  const [orders, setOrders] = useState<PositionOrder[]>([]);
+  const [signingId, setSigningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async <T>(action: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      const result = await action();
+      setError(null);
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Order request failed');
+      return undefined;
+    }
+  }, []);
+
+  const upsert = useCallback((order: PositionOrder) => {
+    setOrders(current => current.some(candidate => candidate.id === order.id)
+      ? current.map(candidate => candidate.id === order.id ? order : candidate)
+      : [order, ...current]);
+  }, []);
+
+  useEffect(() => {
+    setOrders([]);
+    if (!strategyId || !account) return;
+    let cancelled = false;
+    run(async () => {
+      const result = await analyticsApi.getOrders(account, strategyId);
+      if (!cancelled) setOrders(result);
+    });
+    const unsubscribe = subscribeToOrders(order => {
+      if (!cancelled && order.owner === account && order.strategyId === strategyId) upsert(order);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [account, strategyId, run, upsert]);
+
+  const createOrder = useCallback((type: OrderType, trigger: OrderTrigger, settleToken?: string) => run(async () => {
+    if (!strategyId || !account) throw new Error('No position selected');
+    upsert(await analyticsApi.createOrder({ owner: account, strategyId, type, trigger, ...(settleToken ? { settleToken } : {}) }));
+  }), [account, strategyId, run, upsert]);
+
+  const cancelOrder = useCallback((id: string) => run(async () => {
+    upsert(await analyticsApi.cancelOrder(id));
+  }), [run, upsert]);
+
+  const rebuildUnwind = useCallback((id: string) => run(async () => {
+    upsert(await analyticsApi.rebuildOrderUnwind(id));
+  }), [run, upsert]);
+
+  // Sends the unwind in order, each after the previous one is mined, then reports the hashes
+  const signUnwind = useCallback((order: PositionOrder) => run(async () => {
+    if (!signer || connectedAccount?.toLowerCase() !== order.owner) {
+      throw new Error('Connect the wallet that holds this position to sign the unwind');
+    }
+    setSigningId(order.id);
+    try {
+      const txHashes: string[] = [];
+      for (const transaction of order.unwind || []) {
+        const sent = await signer.sendTransaction({ to: transaction.to, data: transaction.data, value: BigInt(transaction.value) });
+        const receipt = await sent.wait();
+        if (!receipt || receipt.status !== 1) throw new Error(`${transaction.description} reverted in ${sent.hash}`);
+        txHashes.push(sent.hash);
+      }
+      upsert(await analyticsApi.markOrderExecuted(order.id, txHashes));
+    } finally {
+      setSigningId(null);
+    }
+  }), [signer, connectedAccount, run, upsert]);
+
+  return { orders, signingId, error, createOrder, cancelOrder, rebuildUnwind, signUnwind };
+};
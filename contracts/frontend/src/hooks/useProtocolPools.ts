@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { analyticsApi } from '@/services/analyticsApi';
+import type { PoolData } from '@/types/analytics';
+
+/**
+ * @title useProtocolPools
+ * @description Loads the pools and lending markets behind one protocol's figures
+ * @author Base DeFi Analytics Team
+ */
+
+export const useProtocolPools = (protocolId: string | null) => {
+  const [pools, setPools] = useState<PoolData[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPools([]);
+    if (!protocolId) return;
+
+    // Ignore responses for a protocol the user has already navigated away from
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    analyticsApi.getProtocolPools(protocolId)
+      .then(result => { if (!cancelled) setPools(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load pools'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [protocolId]);
+
+  return { pools, isLoading, error };
+};
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { analyticsApi } from '@/services/analyticsApi';
+import type { GaugeEpoch, VeLock, VotePlan } from '@/types/analytics';
+
+/**
+ * @title useVoteEscrow
+ * @description Loads Aerodrome gauge votes and voter rewards, the veAERO locks of a set of
+ * wallets and the optimized vote split for the selected lock
+ * @author Base DeFi Analytics Team
+ */
+
+export const useVoteEscrow = (owners: string[], selectedTokenId: string | null, maxPools?: number) => {
+  const [gauges, setGauges] = useState<GaugeEpoch[]>([]);
+  const [epochs, setEpochs] = useState<GaugeEpoch[]>([]);
+  const [locks, setLocks] = useState<VeLock[]>([]);
+  const [plan, setPlan] = useState<VotePlan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ownersKey = owners.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([analyticsApi.getGauges(), analyticsApi.getGaugeEpochs()])
+      .then(([nextGauges, nextEpochs]) => {
+        if (cancelled) return;
+        setGauges(nextGauges);
+        setEpochs(nextEpochs);
+      })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load gauges'); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    setLocks([]);
+    if (!ownersKey) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all(ownersKey.split(',').map(owner => analyticsApi.getVeLocks(owner)))
+      .then(results => { if (!cancelled) setLocks(results.flat()); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load locks'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [ownersKey]);
+
+  // Ignore plans for a lock the user has already switched away from
+  useEffect(() => {
+    setPlan(null);
+    if (!selectedTokenId) return;
+
+    let cancelled = false;
+    analyticsApi.getVotePlan(selectedTokenId, maxPools)
+      .then(result => { if (!cancelled) setPlan(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to plan votes'); });
+    return () => { cancelled = true; };
+  }, [selectedTokenId, maxPools]);
+
+  return { gauges, epochs, locks, plan, isLoading, error };
+};
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getAddress, isAddress } from 'ethers';
+import type { WatchPortfolio } from '@/types/analytics';
+
+/**
+ * @title useWatchPortfolios
+ * @description Named watch-only portfolios kept in localStorage, so treasuries spread over
+ * several addresses can be analyzed without connecting any of them
+ * @author Base DeFi Analytics Team
+ */
+
+const STORAGE_KEY = 'base-analytics:watch-portfolios';
+
+const loadPortfolios = (): WatchPortfolio[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useWatchPortfolios = () => {
+  const [portfolios, setPortfolios] = useState<WatchPortfolio[]>(loadPortfolios);
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(portfolios));
+  }, [portfolios]);
+
+  const updatePortfolio = (id: string, update: (portfolio: WatchPortfolio) => WatchPortfolio) => {
+    setPortfolios(current => current.map(portfolio => portfolio.id === id ? update(portfolio) : portfolio));
+  };
+
+  const createPortfolio = useCallback((name: string): WatchPortfolio => {
+    const portfolio: WatchPortfolio = { id: createId(), name: name.trim() || 'Untitled portfolio', wallets: [] };
+    setPortfolios(current => [...current, portfolio]);
+    return portfolio;
+  }, []);
+
+  const renamePortfolio = useCallback((id: string, name: string) => {
+    updatePortfolio(id, portfolio => ({ ...portfolio, name: name.trim() || portfolio.name }));
+  }, []);
+
+  const deletePortfolio = useCallback((id: string) => {
+    setPortfolios(current => current.filter(portfolio => portfolio.id !== id));
+  }, []);
+
+  // Throws on an invalid address so the form can show why nothing was added
+  const addWallet = useCallback((id: string, address: string, label: string) => {
+    if (!isAddress(address.trim())) throw new Error(`${address} is not a valid address`);
+    const checksummed = getAddress(address.trim());
+    updatePortfolio(id, portfolio => {
+      if (portfolio.wallets.some(wallet => wallet.address.toLowerCase() === checksummed.toLowerCase())) return portfolio;
+      return { ...portfolio, wallets: [...portfolio.wallets, { address: checksummed, label: label.trim() || checksummed }] };
+    });
+  }, []);
+
+  const removeWallet = useCallback((id: string, address: string) => {
+    updatePortfolio(id, portfolio => ({
+      ...portfolio,
+      wallets: portfolio.wallets.filter(wallet => wallet.address.toLowerCase() !== address.toLowerCase())
+    }));
+  }, []);
+
+  return { portfolios, createPortfolio, renamePortfolio, deletePortfolio, addWallet, removeWallet };
+};
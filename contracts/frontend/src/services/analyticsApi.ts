@@ -0,0 +1,155 @@
+import type {
+  AlertCondition,
+  AlertEvent,
+  AlertRule,
+  ArbitrageOpportunity,
+  ClaimCosts,
+  DashboardMetrics,
+  GaugeEpoch,
+  OrderTrigger,
+  OrderType,
+  PoolData,
+  PortfolioAnalysis,
+  ProtocolData,
+  PositionHistory,
+  PositionOrder,
+  ProtocolHistory,
+  Timeframe,
+  TokenPrices,
+  UserPosition,
+  VeLock,
+  VotePlan
+} from '@/types/analytics';
+
+/**
+ * @title Analytics API client
+ * @description Thin fetch wrapper around the /api/v1 analytics endpoints
+ * @author Base DeFi Analytics Team
+ */
+
+const API_BASE_URL = process.env.API_BASE_URL || '/api/v1';
+
+const DATE_FIELDS = new Set([
+  'timestamp', 'entryDate', 'lastRewardClaim', 'launchDate', 'createdAt', 'updatedAt', 'triggeredAt',
+  'epochStart', 'unlockAt', 'lastVoted'
+]);
+
+// JSON has no Date type, so revive the known date fields on the way in
+const reviveDates = (key: string, value: unknown) => {
+  if (DATE_FIELDS.has(key) && typeof value === 'string') return new Date(value);
+  return value;
+};
+
+// Same revival for payloads that arrive already parsed, e.g. over socket.io
+export const withDates = <T>(payload: unknown): T => JSON.parse(JSON.stringify(payload), reviveDates);
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+  const body = await response.text();
+  if (!response.ok) {
+    let message = `Request failed with status ${response.status}`;
+    try {
+      message = JSON.parse(body).error?.message || message;
+    } catch {
+      // Non-JSON error body, keep the status message
+    }
+    throw new Error(message);
+  }
+  return JSON.parse(body, reviveDates) as T;
+};
+
+export const analyticsApi = {
+  getProtocols: () => request<ProtocolData[]>('/protocols'),
+
+  getProtocolHistory: (timeframe: Timeframe) =>
+    request<ProtocolHistory>(`/protocols/history?timeframe=${timeframe}`),
+
+  getProtocolPools: (protocolId: string) =>
+    request<PoolData[]>(`/protocols/${encodeURIComponent(protocolId)}/pools`),
+
+  getArbitrageOpportunities: () => request<ArbitrageOpportunity[]>('/arbitrage'),
+
+  markArbitrageExecuted: (id: string, txHash: string) =>
+    request<ArbitrageOpportunity>(`/arbitrage/${id}/execution`, {
+      method: 'POST',
+      body: JSON.stringify({ txHash })
+    }),
+
+  getPrices: () => request<TokenPrices>('/prices'),
+
+  getDashboardMetrics: () => request<DashboardMetrics>('/metrics'),
+
+  getClaimCosts: () => request<ClaimCosts>('/claim-costs'),
+
+  getUserPositions: (address: string) =>
+    request<UserPosition[]>(`/portfolio/${address}/positions`),
+
+  analyzePortfolio: (address: string, protocols?: string[]) =>
+    request<PortfolioAnalysis>('/portfolio/analyze', {
+      method: 'POST',
+      body: JSON.stringify({ address, protocols })
+    }),
+
+  getPositionHistory: (address: string, strategyId: string) =>
+    request<PositionHistory>(`/portfolio/${address}/positions/${strategyId}/history`),
+
+  getAlertRules: () => request<AlertRule[]>('/alerts/rules'),
+
+  createAlertRule: (rule: { name: string; condition: AlertCondition; webhookUrl?: string }) =>
+    request<AlertRule>('/alerts/rules', {
+      method: 'POST',
+      body: JSON.stringify(rule)
+    }),
+
+  updateAlertRule: (id: string, update: { name?: string; enabled?: boolean; webhookUrl?: string | null }) =>
+    request<AlertRule>(`/alerts/rules/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update)
+    }),
+
+  deleteAlertRule: (id: string) => request<AlertRule>(`/alerts/rules/${id}`, { method: 'DELETE' }),
+
+  testAlertRule: (id: string) =>
+    request<{ event: AlertEvent; deliveries: { sink: string; ok: boolean; error?: string }[] }>(
+      `/alerts/rules/${id}/test`, { method: 'POST' }),
+
+  getAlertEvents: (limit = 50) => request<AlertEvent[]>(`/alerts/events?limit=${limit}`),
+
+  getOrders: (owner: string, strategyId?: string) =>
+    request<PositionOrder[]>(`/orders?owner=${owner}${strategyId ? `&strategyId=${encodeURIComponent(strategyId)}` : ''}`),
+
+  createOrder: (order: {
+    owner: string;
+    strategyId: string;
+    type: OrderType;
+    trigger: OrderTrigger;
+    settleToken?: string;
+    slippageBps?: number;
+  }) =>
+    request<PositionOrder>('/orders', {
+      method: 'POST',
+      body: JSON.stringify(order)
+    }),
+
+  cancelOrder: (id: string) => request<PositionOrder>(`/orders/${id}`, { method: 'DELETE' }),
+
+  rebuildOrderUnwind: (id: string) => request<PositionOrder>(`/orders/${id}/unwind`, { method: 'POST' }),
+
+  markOrderExecuted: (id: string, txHashes: string[]) =>
+    request<PositionOrder>(`/orders/${id}/execution`, {
+      method: 'POST',
+      body: JSON.stringify({ txHashes })
+    }),
+
+  getGauges: () => request<GaugeEpoch[]>('/ve/gauges'),
+
+  getGaugeEpochs: () => request<GaugeEpoch[]>('/ve/epochs'),
+
+  getVeLocks: (owner: string) => request<VeLock[]>(`/ve/locks?owner=${owner}`),
+
+  getVotePlan: (tokenId: string, maxPools?: number) =>
+    request<VotePlan>(`/ve/locks/${tokenId}/plan${maxPools ? `?maxPools=${maxPools}` : ''}`)
+};
@@ -0,0 +1,315 @@
+import {
+  Contract,
+  Interface,
+  JsonRpcProvider,
+  formatEther,
+  formatUnits,
+  parseUnits,
+  type Signer,
+  type TransactionReceipt,
+  type TransactionRequest
+} from 'ethers';
+import { getDex, getToken, type DexInfo, type TokenInfo } from '@/services/dexRegistry';
+import type { ArbitrageOpportunity, TokenPrices } from '@/types/analytics';
+
+/**
+ * @title Arbitrage executor
+ * @description Builds, fork-simulates and submits the two swap legs of an arbitrage opportunity.
+ * The legs are separate transactions, so they are not atomic: see executeArbitrage.
+ * @author Base DeFi Analytics Team
+ */
+
+export const FORK_RPC_URL = process.env.FORK_RPC_URL || 'http://127.0.0.1:8545';
+// Node the fork is reset from, so every simulation starts at the current chain head
+export const FORK_UPSTREAM_RPC_URL = process.env.BASE_RPC_URL || 'https://mainnet.base.org';
+
+const ERC20_ABI = [
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function balanceOf(address owner) view returns (uint256)'
+];
+
+const UNISWAP_V3_ROUTER_ABI = [
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)'
+];
+
+const AERODROME_ROUTER_ABI = [
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, (address from, address to, bool stable, address factory)[] routes, address to, uint256 deadline) returns (uint256[] amounts)'
+];
+
+const erc20Interface = new Interface(ERC20_ABI);
+const uniswapV3Interface = new Interface(UNISWAP_V3_ROUTER_ABI);
+const aerodromeInterface = new Interface(AERODROME_ROUTER_ABI);
+
+// Swaps must land within this many seconds of being built
+const SWAP_DEADLINE_SECONDS = 300;
+
+export interface SwapLeg {
+  dex: DexInfo;
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+}
+
+export interface ArbitrageSimulation {
+  amountIn: bigint;
+  intermediateAmount: bigint;
+  amountOut: bigint;
+  gasUsed: bigint;
+  gasCostWei: bigint;
+  // Gas of both legs in tokenA units, which the second leg must return on top of the principal
+  gasCostInTokenA: bigint;
+  // Upstream block the fork was reset to
+  forkBlock: number;
+  grossProfitUsd: number;
+  gasCostUsd: number;
+  expectedProfitUsd: number;
+  simulatedProfitUsd: number;
+  isProfitable: boolean;
+}
+
+export interface ArbitrageExecution {
+  opportunityId: string;
+  txHash: string;
+  txHashes: string[];
+  amountOut: bigint;
+}
+
+// Buy tokenB with tokenA on dexA, then sell it back for tokenA on dexB
+export const getArbitrageLegs = (opportunity: ArbitrageOpportunity): [SwapLeg, SwapLeg] => {
+  const tokenA = getToken(opportunity.tokenA);
+  const tokenB = getToken(opportunity.tokenB);
+  return [
+    { dex: getDex(opportunity.dexA), tokenIn: tokenA, tokenOut: tokenB },
+    { dex: getDex(opportunity.dexB), tokenIn: tokenB, tokenOut: tokenA }
+  ];
+};
+
+export const buildApproveTx = (token: TokenInfo, spender: string, amount: bigint): TransactionRequest => ({
+  to: token.address,
+  data: erc20Interface.encodeFunctionData('approve', [spender, amount])
+});
+
+export const buildSwapTx = (
+  leg: SwapLeg,
+  amountIn: bigint,
+  amountOutMin: bigint,
+  recipient: string
+): TransactionRequest => {
+  if (leg.dex.kind === 'uniswapV3') {
+    return {
+      to: leg.dex.router,
+      data: uniswapV3Interface.encodeFunctionData('exactInputSingle', [{
+        tokenIn: leg.tokenIn.address,
+        tokenOut: leg.tokenOut.address,
+        fee: leg.dex.defaultFee,
+        recipient,
+        amountIn,
+        amountOutMinimum: amountOutMin,
+        sqrtPriceLimitX96: 0
+      }])
+    };
+  }
+
+  const deadline = Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS;
+  return {
+    to: leg.dex.router,
+    data: aerodromeInterface.encodeFunctionData('swapExactTokensForTokens', [
+      amountIn,
+      amountOutMin,
+      [{ from: leg.tokenIn.address, to: leg.tokenOut.address, stable: leg.dex.stable, factory: leg.dex.factory }],
+      recipient,
+      deadline
+    ])
+  };
+};
+
+// Profit-maximizing size when the server solved one, otherwise the trade size implied by the
+// quoted profit and profit percentage, in tokenA units
+export const getDefaultTradeAmount = (opportunity: ArbitrageOpportunity, prices: TokenPrices): string => {
+  if (opportunity.sizing && opportunity.sizing.optimalInput > 0) {
+    return opportunity.sizing.optimalInput.toFixed(Math.min(getToken(opportunity.tokenA).decimals, 6));
+  }
+  const price = prices[opportunity.tokenA];
+  if (!price || opportunity.profitPercentage <= 0) return '0';
+  const tradeSizeUsd = opportunity.profitPotential / (opportunity.profitPercentage / 100);
+  return (tradeSizeUsd / price).toFixed(Math.min(getToken(opportunity.tokenA).decimals, 6));
+};
+
+export const parseTradeAmount = (opportunity: ArbitrageOpportunity, amount: string): bigint => {
+  return parseUnits(amount, getToken(opportunity.tokenA).decimals);
+};
+
+const sendAndWait = async (signer: Signer, request: TransactionRequest): Promise<TransactionReceipt> => {
+  const tx = await signer.sendTransaction(request);
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new Error(`Transaction ${tx.hash} reverted`);
+  }
+  return receipt;
+};
+
+// Approves the router if needed, swaps, and measures what actually arrived
+const runLeg = async (
+  signer: Signer,
+  account: string,
+  leg: SwapLeg,
+  amountIn: bigint,
+  amountOutMin: bigint
+): Promise<{ amountOut: bigint; receipts: TransactionReceipt[] }> => {
+  const tokenIn = new Contract(leg.tokenIn.address, ERC20_ABI, signer);
+  const tokenOut = new Contract(leg.tokenOut.address, ERC20_ABI, signer);
+  const receipts: TransactionReceipt[] = [];
+
+  const allowance: bigint = await tokenIn.allowance(account, leg.dex.router);
+  if (allowance < amountIn) {
+    receipts.push(await sendAndWait(signer, buildApproveTx(leg.tokenIn, leg.dex.router, amountIn)));
+  }
+
+  const balanceBefore: bigint = await tokenOut.balanceOf(account);
+  receipts.push(await sendAndWait(signer, buildSwapTx(leg, amountIn, amountOutMin, account)));
+  const balanceAfter: bigint = await tokenOut.balanceOf(account);
+
+  return { amountOut: balanceAfter - balanceBefore, receipts };
+};
+
+const toUsd = (amount: bigint, token: TokenInfo, prices: TokenPrices): number => {
+  const price = prices[token.symbol];
+  if (price === undefined) throw new Error(`No price available for ${token.symbol}`);
+  return Number(formatUnits(amount, token.decimals)) * price;
+};
+
+const weiToUsd = (wei: bigint, prices: TokenPrices): number => {
+  const ethPrice = prices.WETH;
+  if (ethPrice === undefined) throw new Error('No price available for WETH');
+  return Number(formatEther(wei)) * ethPrice;
+};
+
+// Rounded up so a minimum output derived from it still covers the cost
+const usdToTokenAmount = (usd: number, token: TokenInfo, prices: TokenPrices): bigint => {
+  const price = prices[token.symbol];
+  if (!price) throw new Error(`No price available for ${token.symbol}`);
+  return parseUnits((usd / price).toFixed(token.decimals), token.decimals) + 1n;
+};
+
+interface SimulateArbitrageParams {
+  opportunity: ArbitrageOpportunity;
+  amountIn: bigint;
+  account: string;
+  prices: TokenPrices;
+  forkUrl?: string;
+  upstreamUrl?: string;
+}
+
+/**
+ * Resets a local anvil or hardhat fork to the upstream chain head, replays both legs from
+ * the user's account and reverts the fork afterwards. A fork left at an old block would
+ * simulate against stale reserves. The account is impersonated, so no key is needed.
+ */
+export const simulateArbitrage = async ({
+  opportunity,
+  amountIn,
+  account,
+  prices,
+  forkUrl = FORK_RPC_URL,
+  upstreamUrl = FORK_UPSTREAM_RPC_URL
+}: SimulateArbitrageParams): Promise<ArbitrageSimulation> => {
+  const [firstLeg, secondLeg] = getArbitrageLegs(opportunity);
+  const provider = new JsonRpcProvider(forkUrl);
+  const upstream = new JsonRpcProvider(upstreamUrl);
+
+  try {
+    const [clientVersion, forkBlock]: [string, number] = await Promise.all([
+      provider.send('web3_clientVersion', []),
+      upstream.getBlockNumber()
+    ]);
+    const rpcPrefix = /anvil/i.test(clientVersion) ? 'anvil' : 'hardhat';
+    await provider.send(`${rpcPrefix}_reset`, [{ forking: { jsonRpcUrl: upstreamUrl, blockNumber: forkBlock } }]);
+    const snapshotId: string = await provider.send('evm_snapshot', []);
+
+    try {
+      await provider.send(`${rpcPrefix}_impersonateAccount`, [account]);
+      const signer = await provider.getSigner(account);
+      const { gasPrice } = await provider.getFeeData();
+
+      const first = await runLeg(signer, account, firstLeg, amountIn, 0n);
+      const second = await runLeg(signer, account, secondLeg, first.amountOut, 0n);
+
+      const receipts = [...first.receipts, ...second.receipts];
+      const gasUsed = receipts.reduce((sum, receipt) => sum + receipt.gasUsed, 0n);
+      const gasCostWei = receipts.reduce((sum, receipt) => sum + receipt.fee, 0n);
+
+      const grossProfitUsd = toUsd(second.amountOut, firstLeg.tokenIn, prices) - toUsd(amountIn, firstLeg.tokenIn, prices);
+      const gasCostUsd = weiToUsd(gasCostWei, prices);
+      const estimatedGasCostUsd = weiToUsd(BigInt(opportunity.estimatedGas) * (gasPrice ?? 0n), prices);
+      const simulatedProfitUsd = grossProfitUsd - gasCostUsd;
+
+      return {
+        amountIn,
+        intermediateAmount: first.amountOut,
+        amountOut: second.amountOut,
+        gasUsed,
+        gasCostWei,
+        gasCostInTokenA: usdToTokenAmount(gasCostUsd, firstLeg.tokenIn, prices),
+        forkBlock,
+        grossProfitUsd,
+        gasCostUsd,
+        expectedProfitUsd: opportunity.profitPotential - estimatedGasCostUsd,
+        simulatedProfitUsd,
+        isProfitable: simulatedProfitUsd > 0
+      };
+    } finally {
+      await provider.send('evm_revert', [snapshotId]);
+    }
+  } finally {
+    provider.destroy();
+    upstream.destroy();
+  }
+};
+
+interface ExecuteArbitrageParams {
+  signer: Signer;
+  opportunity: ArbitrageOpportunity;
+  simulation: ArbitrageSimulation;
+  slippageBps?: number;
+}
+
+/**
+ * Submits both legs with the connected signer as separate transactions. The first leg is
+ * bounded by the simulated output less slippage, and the second leg must return at least the
+ * principal plus the gas of both legs, so it reverts rather than closing at a loss.
+ *
+ * The legs are not atomic: the first leg is already settled when the second is sent, so if
+ * the market moves in between, the second leg reverts and the account is left holding tokenB.
+ * That is reported as an error naming the stranded amount, to be sold back manually.
+ */
+export const executeArbitrage = async ({
+  signer,
+  opportunity,
+  simulation,
+  slippageBps = 50
+}: ExecuteArbitrageParams): Promise<ArbitrageExecution> => {
+  const [firstLeg, secondLeg] = getArbitrageLegs(opportunity);
+  const account = await signer.getAddress();
+  const withSlippage = (amount: bigint) => amount * BigInt(10000 - slippageBps) / 10000n;
+
+  const first = await runLeg(signer, account, firstLeg, simulation.amountIn, withSlippage(simulation.intermediateAmount));
+  const breakEven = simulation.amountIn + simulation.gasCostInTokenA;
+  const secondMinOut = withSlippage(simulation.amountOut) > breakEven ? withSlippage(simulation.amountOut) : breakEven;
+
+  let second;
+  try {
+    second = await runLeg(signer, account, secondLeg, first.amountOut, secondMinOut);
+  } catch (err) {
+    const stranded = formatUnits(first.amountOut, secondLeg.tokenIn.decimals);
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`First leg filled but the second failed (${reason}); ${stranded} ${secondLeg.tokenIn.symbol} is left in the wallet`);
+  }
+
+  const txHashes = [...first.receipts, ...second.receipts].map(receipt => receipt.hash);
+  return {
+    opportunityId: opportunity.id,
+    txHash: txHashes[txHashes.length - 1],
+    txHashes,
+    amountOut: second.amountOut
+  };
+};
@@ -0,0 +1,106 @@
+import { Contract, formatUnits, type ContractRunner } from 'ethers';
+import type { TokenPrices, UserPosition } from '@/types/analytics';
+import { BaseAnalytics__factory, type BaseAnalytics } from '@/types/contracts';
+
+/**
+ * @title BaseAnalytics contract bindings
+ * @description Reads contracts/BaseAnalytics.sol through the typechain bindings generated by
+ * `npm run compile`, and maps on-chain strategy positions to the dashboard's UserPosition model
+ * @author Base DeFi Analytics Team
+ */
+
+export const BASE_ANALYTICS_ADDRESS = process.env.BASE_ANALYTICS_ADDRESS || '';
+
+export const BASE_ANALYTICS_PROTOCOL_ID = 'base-analytics';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+const ERC20_METADATA_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
+
+export const getBaseAnalyticsContract = (
+  runner: ContractRunner,
+  address: string = BASE_ANALYTICS_ADDRESS
+): BaseAnalytics => BaseAnalytics__factory.connect(address, runner);
+
+interface TokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+const readTokenMetadata = async (runner: ContractRunner, address: string): Promise<TokenMetadata> => {
+  const token = new Contract(address, ERC20_METADATA_ABI, runner);
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+  return { symbol, decimals: Number(decimals) };
+};
+
+const toUsd = (amount: bigint, token: TokenMetadata, prices: TokenPrices): number => {
+  return Number(formatUnits(amount, token.decimals)) * (prices[token.symbol] || 0);
+};
+
+const toDate = (seconds: bigint): Date => new Date(Number(seconds) * 1000);
+
+interface ReadPositionsParams {
+  runner: ContractRunner;
+  account: string;
+  prices: TokenPrices;
+  address?: string;
+}
+
+/**
+ * Reads every strategy position the account has opened and values it in USD.
+ * P&L on this contract is the reward stream, claimed plus pending, since
+ * deposits are held 1:1 and do not change in token terms.
+ */
+export const readOnChainPositions = async ({
+  runner,
+  account,
+  prices,
+  address = BASE_ANALYTICS_ADDRESS
+}: ReadPositionsParams): Promise<UserPosition[]> => {
+  const contract = getBaseAnalyticsContract(runner, address);
+  const [strategyIds, rewardTokenAddress] = await Promise.all([
+    contract.getUserStrategyIds(account),
+    contract.rewardToken()
+  ]);
+  const rewardToken = await readTokenMetadata(runner, rewardTokenAddress);
+
+  const positions = await Promise.all(strategyIds.map(async (strategyId): Promise<UserPosition | null> => {
+    const [strategy, position, pending] = await Promise.all([
+      contract.strategies(strategyId),
+      contract.positions(strategyId, account),
+      contract.pendingRewards(strategyId, account)
+    ]);
+    // Fully withdrawn positions stay in getUserStrategyIds, hide them once nothing is left.
+    // Decided on token amounts, so positions in tokens without a price are still shown.
+    if (position.amount === 0n && pending === 0n) return null;
+    const depositToken = await readTokenMetadata(runner, strategy.depositToken);
+
+    const amount = toUsd(position.amount, depositToken, prices);
+    const pendingRewards = toUsd(pending, rewardToken, prices);
+    const pnl = pendingRewards + toUsd(position.rewardsClaimed, rewardToken, prices);
+    const totalDepositedUsd = toUsd(strategy.totalDeposited, depositToken, prices);
+    const yearlyRewardsUsd = toUsd(strategy.rewardRate * BigInt(SECONDS_PER_YEAR), rewardToken, prices);
+    const entryDate = toDate(position.entryDate);
+
+    return {
+      strategyId: `${BASE_ANALYTICS_PROTOCOL_ID}:${strategyId}`,
+      strategyName: strategy.name,
+      protocolId: BASE_ANALYTICS_PROTOCOL_ID,
+      amount,
+      currentValue: amount + pendingRewards,
+      pnl,
+      pnlPercentage: amount > 0 ? (pnl / amount) * 100 : 0,
+      apy: totalDepositedUsd > 0 ? (yearlyRewardsUsd / totalDepositedUsd) * 100 : 0,
+      riskLevel: Number(strategy.riskLevel),
+      entryDate,
+      lastRewardClaim: position.lastRewardClaim > 0n ? toDate(position.lastRewardClaim) : entryDate,
+      pendingRewards,
+      rewards: [{ token: rewardToken.symbol, amount: Number(formatUnits(pending, rewardToken.decimals)) }]
+    };
+  }));
+
+  return positions.filter((position): position is UserPosition => position !== null);
+};
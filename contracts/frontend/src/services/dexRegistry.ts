@@ -0,0 +1,86 @@
+/**
+ * @title DEX registry
+ * @description Base mainnet token and router addresses used to build swap transactions
+ * @author Base DeFi Analytics Team
+ */
+
+export interface TokenInfo {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+export type DexKind = 'uniswapV3' | 'aerodrome';
+
+export interface DexInfo {
+  name: string;
+  kind: DexKind;
+  router: string;
+  // ProtocolData.id whose indexed pools this DEX trades through
+  protocolId?: string;
+  // Uniswap V3 style pool fee in hundredths of a bip
+  defaultFee?: number;
+  // Uniswap V3 style fee tiers a pair can have a pool at
+  feeTiers?: number[];
+  // Pool factory; Aerodrome routes also need the pool type
+  factory?: string;
+  stable?: boolean;
+}
+
+export const BASE_TOKENS: Record<string, TokenInfo> = {
+  WETH: { symbol: 'WETH', address: '0x4200000000000000000000000000000000000006', decimals: 18 },
+  USDC: { symbol: 'USDC', address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 },
+  USDbC: { symbol: 'USDbC', address: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', decimals: 6 },
+  DAI: { symbol: 'DAI', address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', decimals: 18 },
+  cbETH: { symbol: 'cbETH', address: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22', decimals: 18 },
+  AERO: { symbol: 'AERO', address: '0x940181a94A35A4569E4529A3CDfB74e38FD98631', decimals: 18 },
+  WELL: { symbol: 'WELL', address: '0xA88594D404727625A9437C3f886C7643872296AE', decimals: 18 }
+};
+
+export const BASE_DEXES: Record<string, DexInfo> = {
+  'Uniswap V3': {
+    name: 'Uniswap V3',
+    kind: 'uniswapV3',
+    protocolId: 'uniswap-v3',
+    router: '0x2626664c2603336E57B271c5C0b26F421741e481',
+    factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+    defaultFee: 500,
+    feeTiers: [100, 500, 3000, 10000]
+  },
+  'PancakeSwap V3': {
+    name: 'PancakeSwap V3',
+    kind: 'uniswapV3',
+    router: '0x678Aa4bF4E210cf2166753e054d5b7c31cc7fa86',
+    factory: '0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865',
+    defaultFee: 500,
+    feeTiers: [100, 500, 2500, 10000]
+  },
+  'SushiSwap V3': {
+    name: 'SushiSwap V3',
+    kind: 'uniswapV3',
+    router: '0xFB7eF66a7e61224DD6FcD0D7d9C3be5C8B049b9f',
+    factory: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4',
+    defaultFee: 500,
+    feeTiers: [100, 500, 3000, 10000]
+  },
+  Aerodrome: {
+    name: 'Aerodrome',
+    kind: 'aerodrome',
+    protocolId: 'aerodrome',
+    router: '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43',
+    factory: '0x420DD381b31aEf6683db6B902084cB0FFECe40Da',
+    stable: false
+  }
+};
+
+export const getToken = (symbol: string): TokenInfo => {
+  const token = BASE_TOKENS[symbol];
+  if (!token) throw new Error(`Unsupported token: ${symbol}`);
+  return token;
+};
+
+export const getDex = (name: string): DexInfo => {
+  const dex = BASE_DEXES[name];
+  if (!dex) throw new Error(`Unsupported DEX: ${name}`);
+  return dex;
+};
@@ -0,0 +1,83 @@
+import { io, type Socket } from 'socket.io-client';
+import { withDates } from '@/services/analyticsApi';
+import type { AlertEvent, ArbitrageOpportunity, PositionOrder, ProtocolData, TokenPrices } from '@/types/analytics';
+
+/**
+ * @title Realtime client
+ * @description Subscribes to the /ws/prices, /ws/yields, /ws/arbitrage, /ws/alerts and /ws/orders socket.io streams
+ * @author Base DeFi Analytics Team
+ */
+
+const REALTIME_URL = process.env.REALTIME_URL || '';
+
+export interface RealtimeHandlers {
+  onPricesSnapshot: (prices: TokenPrices) => void;
+  onPrices: (changed: TokenPrices) => void;
+  onProtocolsSnapshot: (protocols: ProtocolData[]) => void;
+  onProtocols: (changed: ProtocolData[]) => void;
+  onOpportunitiesSnapshot: (opportunities: ArbitrageOpportunity[]) => void;
+  onOpportunity: (opportunity: ArbitrageOpportunity) => void;
+  onOpportunityRemoved: (id: string) => void;
+  onConnectionChange: (isConnected: boolean) => void;
+  // A stream whose snapshot failed counts as down until it delivers one
+  onSnapshotError: (stream: string, message: string) => void;
+}
+
+// Returns an unsubscribe function that closes all three sockets
+export const subscribeToStreams = (handlers: RealtimeHandlers, baseUrl: string = REALTIME_URL): () => void => {
+  const prices = io(`${baseUrl}/ws/prices`);
+  const yields = io(`${baseUrl}/ws/yields`);
+  const arbitrage = io(`${baseUrl}/ws/arbitrage`);
+  const streams: Record<string, Socket> = { prices, yields, arbitrage };
+  const sockets = Object.values(streams);
+  const failedSnapshots = new Set<Socket>();
+
+  // Report connected only while every stream is up and has its snapshot, so polling covers any gap
+  const reportConnection = () => handlers.onConnectionChange(
+    sockets.every(socket => socket.connected && !failedSnapshots.has(socket))
+  );
+  Object.entries(streams).forEach(([stream, socket]) => {
+    socket.on('connect', reportConnection);
+    socket.on('disconnect', reportConnection);
+    socket.on('snapshot', () => {
+      failedSnapshots.delete(socket);
+      reportConnection();
+    });
+    socket.on('snapshot:error', (payload: { message: string }) => {
+      failedSnapshots.add(socket);
+      reportConnection();
+      handlers.onSnapshotError(stream, payload.message);
+    });
+  });
+
+  prices.on('snapshot', (payload: TokenPrices) => handlers.onPricesSnapshot(payload));
+  prices.on('prices', (payload: TokenPrices) => handlers.onPrices(payload));
+
+  // Risk profiles carry a launch date, so protocols are revived like the REST responses
+  yields.on('snapshot', (payload: unknown) => handlers.onProtocolsSnapshot(withDates<ProtocolData[]>(payload)));
+  yields.on('protocols', (payload: unknown) => handlers.onProtocols(withDates<ProtocolData[]>(payload)));
+
+  arbitrage.on('snapshot', (payload: unknown) => {
+    handlers.onOpportunitiesSnapshot(withDates<ArbitrageOpportunity[]>(payload));
+  });
+  arbitrage.on('opportunity', (payload: unknown) => {
+    handlers.onOpportunity(withDates<ArbitrageOpportunity>(payload));
+  });
+  arbitrage.on('opportunity:removed', (payload: { id: string }) => handlers.onOpportunityRemoved(payload.id));
+
+  return () => sockets.forEach(socket => socket.disconnect());
+};
+
+// Alerts have their own socket so a missing alert stream does not mark the data streams down
+export const subscribeToAlerts = (onAlert: (event: AlertEvent) => void, baseUrl: string = REALTIME_URL): () => void => {
+  const alerts = io(`${baseUrl}/ws/alerts`);
+  alerts.on('alert', (payload: unknown) => onAlert(withDates<AlertEvent>(payload)));
+  return () => alerts.disconnect();
+};
+
+// Exit order state changes, on their own socket like alerts
+export const subscribeToOrders = (onOrder: (order: PositionOrder) => void, baseUrl: string = REALTIME_URL): () => void => {
+  const orders = io(`${baseUrl}/ws/orders`);
+  orders.on('order', (payload: unknown) => onOrder(withDates<PositionOrder>(payload)));
+  return () => orders.disconnect();
+};
@@ -0,0 +1,564 @@
+/**
+ * @title Analytics Types
+ * @description Shared data model for Base DeFi protocols, positions and market opportunities
+ * @author Base DeFi Analytics Team
+ */
+
+export type ProtocolCategory = 'DEX' | 'Lending' | 'Yield' | 'Derivatives';
+
+export type Timeframe = '24h' | '7d' | '30d' | '90d';
+
+export type OracleDependency = 'none' | 'chainlink' | 'twap' | 'custom';
+
+export type AdminControl = 'immutable' | 'timelock' | 'multisig' | 'eoa';
+
+// Static facts about a protocol that feed the risk engine; missing fields score as unknown
+export interface ProtocolRiskProfile {
+  launchDate?: Date;
+  oracle?: OracleDependency;
+  adminControl?: AdminControl;
+  audits?: number;
+  // Borrowed / supplied, 0-1, lending markets only
+  utilization?: number;
+}
+
+export type RiskFactorKey =
+  | 'tvlSize'
+  | 'tvlVolatility'
+  | 'contractAge'
+  | 'oracle'
+  | 'adminControl'
+  | 'utilization'
+  | 'audits';
+
+export interface RiskFactor {
+  key: RiskFactorKey;
+  label: string;
+  // 1 (safest) to 10
+  score: number;
+  // Share of the overall score, weights of the applicable factors sum to 1
+  weight: number;
+  detail: string;
+}
+
+export interface RiskAssessment {
+  score: number;
+  label: 'Low' | 'Medium' | 'High';
+  factors: RiskFactor[];
+}
+
+export interface ProtocolData {
+  id: string;
+  name: string;
+  tvl: number;
+  apy: number;
+  // Overall 1-10 score, set by the API together with riskAssessment
+  riskScore: number;
+  volume24h: number;
+  change24h: number;
+  isActive: boolean;
+  category: ProtocolCategory;
+  riskProfile?: ProtocolRiskProfile;
+  riskAssessment?: RiskAssessment;
+  // Derivatives protocols only
+  derivatives?: DerivativesMetrics;
+  // What the APY is made of, aggregated from the protocol's pools when they are known
+  yieldSources?: YieldSources;
+}
+
+// Yearly incentive emissions in token units, valued at current prices when the APY is computed
+export interface RewardEmission {
+  token: string;
+  amountPerYear: number;
+}
+
+// Inputs of an APY breakdown; APRs are percentages of tvl
+export interface YieldSources {
+  tradingFeeApr: number;
+  lendingInterestApr: number;
+  rewardEmissions: RewardEmission[];
+  // USD the emissions are spread over
+  tvl: number;
+  // Times a year earnings are reinvested, 0 when they are paid out
+  compoundsPerYear: number;
+}
+
+export interface ApyAssumptions {
+  // 'pools' when built from yieldSources, 'headline' when the single APY was split by category
+  source: 'pools' | 'headline';
+  compoundsPerYear: number;
+  // USD price each reward token was valued at, after rewardPriceChange
+  rewardPrices: Record<string, number>;
+  // Percent applied to every reward token price, e.g. -50 for a halving
+  rewardPriceChange: number;
+}
+
+// APRs and uplift in percent; apy is their compounded total
+export interface ApyBreakdown {
+  tradingFeeApr: number;
+  lendingInterestApr: number;
+  rewardApr: number;
+  compoundingUplift: number;
+  apy: number;
+  assumptions: ApyAssumptions;
+}
+
+// Market-wide perp figures of a derivatives protocol, in USD at the mark price
+export interface DerivativesMetrics {
+  openInterest: number;
+  longOpenInterest: number;
+  shortOpenInterest: number;
+  // Open-interest-weighted funding per 24h, percent of notional; positive when longs pay shorts
+  fundingRate: number;
+  // Backstop against bad debt from liquidations, when the protocol holds one
+  insuranceFund?: number;
+}
+
+// One pool or lending market within a protocol, the venues behind its headline figures
+export interface PoolData {
+  // protocolId plus the pool address, or the market key for lending markets
+  id: string;
+  protocolId: string;
+  kind: 'pool' | 'market';
+  address: string;
+  // Pair such as WETH/USDC for pools, the asset for markets
+  name: string;
+  tokens: string[];
+  // Pool fee in hundredths of a bip, pools only
+  feeTier?: number;
+  tvl: number;
+  volume24h: number;
+  // Percentages: trading fees for pools, supply interest for markets
+  feeApr: number;
+  // Incentive emissions such as gauge or WELL rewards, at the prices when last read
+  rewardApr: number;
+  // Token amounts behind rewardApr, when known
+  rewardEmissions?: RewardEmission[];
+  // Borrowed / supplied, 0-1, markets only
+  utilization?: number;
+}
+
+// Point-in-time reading of a protocol, used to build the historical charts
+export interface ProtocolSnapshot {
+  protocolId: string;
+  timestamp: Date;
+  tvl: number;
+  apy: number;
+  volume24h: number;
+}
+
+// Snapshots keyed by protocol id, each list sorted by ascending timestamp
+export type ProtocolHistory = Record<string, ProtocolSnapshot[]>;
+
+// Uniswap V3 / Aerodrome Slipstream concentrated-liquidity position. Token amounts are
+// in token units, token0/token1 are symbols ordered as in the pool
+export interface LiquidityPosition {
+  dex: 'uniswapV3' | 'aerodrome';
+  pool: string;
+  token0: string;
+  token1: string;
+  // ERC20 decimals, as read from the token contracts
+  decimals0: number;
+  decimals1: number;
+  tickLower: number;
+  tickUpper: number;
+  // Raw uint128 pool liquidity as a decimal string
+  liquidity: string;
+  depositedAmount0: number;
+  depositedAmount1: number;
+  // Collected plus uncollected fees
+  feesEarned0: number;
+  feesEarned1: number;
+  // Pool tick when read; otherwise the price is derived from token USD prices
+  currentTick?: number;
+}
+
+// One supply or borrow leg of a lending account. Legs sharing an accountId are margined
+// together: the whole protocol on Aave and Moonwell, a single Comet market on Compound V3
+export interface LendingPosition {
+  accountId: string;
+  side: 'supply' | 'borrow';
+  // Token symbol and amount in token units
+  asset: string;
+  amount: number;
+  // Share of the supplied value counted against debt before liquidation, 0 when not used as collateral
+  liquidationThreshold: number;
+}
+
+// One market of a perp account. Positions sharing an accountId are cross-margined, so
+// margin is the account's collateral split across them by notional
+export interface PerpPosition {
+  accountId: string;
+  market: string;
+  side: 'long' | 'short';
+  // Base asset units, always positive
+  size: number;
+  entryPrice: number;
+  markPrice: number;
+  // Mark price at which the account falls to maintenance margin with other markets unchanged,
+  // null when no move in this market alone can liquidate it
+  liquidationPrice: number | null;
+  margin: number;
+  // USD settled or accrued since the position opened; positive when paid, negative when received
+  fundingPaid: number;
+}
+
+export interface UserPosition {
+  strategyId: string;
+  strategyName: string;
+  // ProtocolData.id of the protocol the position is deployed in
+  protocolId?: string;
+  // Lowercase address holding the position, set when several wallets are loaded together
+  owner?: string;
+  // Present for LP positions only
+  liquidityPosition?: LiquidityPosition;
+  // Present for lending supply and borrow positions only
+  lendingPosition?: LendingPosition;
+  // Present for perp positions only
+  perpPosition?: PerpPosition;
+  amount: number;
+  currentValue: number;
+  pnl: number;
+  pnlPercentage: number;
+  apy: number;
+  riskLevel: number;
+  entryDate: Date;
+  lastRewardClaim: Date;
+  // USD at the prices when the position was read; rewards holds the token amounts behind it
+  pendingRewards: number;
+  // Unclaimed incentive tokens, present when the source reports them per token
+  rewards?: RewardBalance[];
+}
+
+// Token symbol and amount in token units
+export interface RewardBalance {
+  token: string;
+  amount: number;
+}
+
+// 'feed' when the token has a price in TokenPrices, 'unpriced' when it is valued at 0
+export type PriceSource = 'feed' | 'unpriced';
+
+export interface RewardValuation extends RewardBalance {
+  price: number;
+  priceSource: PriceSource;
+  value: number;
+}
+
+// USD gas of one claim, and of a claim, swap to the deposit token and redeposit, at current Base gas
+export interface ClaimCosts {
+  claim: number;
+  compound: number;
+  gasPriceGwei: number;
+  timestamp: Date;
+}
+
+export type ClaimAction = 'claim' | 'compound' | 'wait';
+
+export interface ClaimSchedule {
+  kind: 'claim' | 'compound';
+  intervalDays: number;
+  // Rewards over a year, plus compounding gains, less the gas of every claim
+  netYearlyValue: number;
+}
+
+export interface RewardPlan {
+  strategyId: string;
+  rewards: RewardValuation[];
+  pendingValue: number;
+  // USD accrued per day: observed since the last claim when known, otherwise from the position's APY
+  dailyRewardValue: number;
+  claimCost: number;
+  // What to do now: the schedule's kind once its interval's rewards have accrued, otherwise wait
+  action: ClaimAction;
+  // Schedule that maximizes net yield, null when the rewards never cover the gas
+  schedule: ClaimSchedule | null;
+  nextClaimAt: Date | null;
+}
+
+// veAERO votes one lock has cast for a pool
+export interface GaugeVote {
+  pool: string;
+  votes: number;
+}
+
+// An Aerodrome vote-escrow lock (veNFT). Voting power decays linearly to zero at unlock,
+// except for permanent locks which keep the full locked amount
+export interface VeLock {
+  tokenId: string;
+  owner: string;
+  // AERO locked
+  amount: number;
+  // null for a permanent lock
+  unlockAt: Date | null;
+  // At the time the lock was read
+  votingPower: number;
+  // Votes in the current epoch across the tracked pools
+  votes: GaugeVote[];
+  lastVoted: Date | null;
+}
+
+// One pool's gauge in a weekly voting epoch. Fees and bribes go to the pool's voters pro rata
+// to their votes once the epoch ends
+export interface GaugeEpoch {
+  pool: string;
+  gauge: string;
+  name: string;
+  epochStart: Date;
+  votes: number;
+  // Percent of all votes cast in the epoch
+  voteShare: number;
+  // Fees of the previous epoch, as the current epoch's accrue until it ends
+  fees: RewardValuation[];
+  // Deposited for this epoch so far
+  bribes: RewardValuation[];
+  // USD of fees and bribes
+  rewardValue: number;
+  // USD that 1,000 more votes would earn
+  rewardPer1kVotes: number;
+}
+
+export interface VoteAllocation {
+  pool: string;
+  name: string;
+  votes: number;
+  // Percent of the lock's voting power, the weight passed to Voter.vote
+  weight: number;
+  // USD for the epoch, with the lock's votes added to everyone else's
+  expectedReward: number;
+}
+
+// Vote split across gauges that maximizes one veNFT's fee and bribe income for the epoch
+export interface VotePlan {
+  tokenId: string;
+  epochStart: Date;
+  votingPower: number;
+  allocations: VoteAllocation[];
+  expectedReward: number;
+  // USD the lock's current votes earn, for comparison
+  currentReward: number;
+  // Expected reward each epoch for a year, over the USD value of the locked AERO
+  apr: number;
+}
+
+export interface PositionPnLPoint {
+  timestamp: Date;
+  currentValue: number;
+  pnl: number;
+}
+
+export interface RewardClaim {
+  timestamp: Date;
+  amount: number;
+  txHash?: string;
+}
+
+export interface PositionHistory {
+  strategyId: string;
+  pnlHistory: PositionPnLPoint[];
+  rewardClaims: RewardClaim[];
+}
+
+// USD cost of executing an opportunity at its quoted trade size
+export interface ArbitrageCosts {
+  tradeSizeUsd: number;
+  // Pool fee tiers of both legs
+  swapFees: number;
+  // Output lost to moving the pool price, 0 when the pool's reserves are unknown
+  priceImpact: number;
+  // Base L2 execution fee for estimatedGas
+  l2Gas: number;
+  // L1 data fee for posting both swap transactions to Ethereum
+  l1DataFee: number;
+  total: number;
+}
+
+export interface ProfitCurvePoint {
+  inputUsd: number;
+  // Net of pool fees, price impact and gas
+  profit: number;
+}
+
+// Profit-maximizing trade size from the liquidity of every leg
+export interface ArbitrageSizing {
+  // In tokenA, 0 when no size is profitable before gas
+  optimalInput: number;
+  optimalInputUsd: number;
+  maxProfit: number;
+  curve: ProfitCurvePoint[];
+}
+
+// One swap of a multi-hop route, through a specific pool
+export interface ArbitrageHop {
+  dex: string;
+  tokenIn: string;
+  tokenOut: string;
+  pool: string;
+  // Pool fee in hundredths of a bip
+  fee: number;
+}
+
+export interface ArbitrageOpportunity {
+  id: string;
+  tokenA: string;
+  tokenB: string;
+  dexA: string;
+  dexB: string;
+  profitPotential: number;
+  profitPercentage: number;
+  timestamp: Date;
+  isExecuted: boolean;
+  estimatedGas: number;
+  txHash?: string;
+  // profitPotential less costs, set when the server can price gas and pools
+  netProfit?: number;
+  netProfitPercentage?: number;
+  costs?: ArbitrageCosts;
+  // Every swap of a detected cycle, starting and ending in tokenA. tokenB, dexA and dexB
+  // then describe the first and last hops.
+  route?: ArbitrageHop[];
+  // Set when the server could read the liquidity of every leg
+  sizing?: ArbitrageSizing;
+}
+
+export interface WatchedWallet {
+  address: string;
+  label: string;
+}
+
+// Named group of watch-only addresses analyzed as one portfolio, e.g. a treasury's Safes
+export interface WatchPortfolio {
+  id: string;
+  name: string;
+  wallets: WatchedWallet[];
+}
+
+// A protocol whose positions could not be read during on-chain discovery
+export interface DiscoveryError {
+  discoverer: string;
+  message: string;
+}
+
+// Aggregate view of one address across the requested protocols
+export interface PortfolioAnalysis {
+  address: string;
+  positions: UserPosition[];
+  totalValue: number;
+  totalPnL: number;
+  totalPendingRewards: number;
+  weightedAPY: number;
+  averageRisk: number;
+  // Present when positions were discovered on-chain and some protocols failed
+  discoveryErrors?: DiscoveryError[];
+}
+
+// What an alert rule watches. Thresholds are in the units of the field they compare against
+export type AlertCondition =
+  | { kind: 'protocolApy'; protocolId: string; direction: 'above' | 'below'; threshold: number }
+  // change24h below threshold, e.g. -10; every protocol when protocolId is omitted
+  | { kind: 'protocolChange'; protocolId?: string; threshold: number }
+  // Open opportunities with profitPotential of at least minProfit USD
+  | { kind: 'arbitrageProfit'; minProfit: number }
+  // Any position of the address whose riskLevel rises
+  | { kind: 'positionRisk'; address: string }
+  | { kind: 'healthFactor'; address: string; threshold: number };
+
+export type AlertKind = AlertCondition['kind'];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  // Overrides the server's default webhook for this rule
+  webhookUrl?: string;
+  createdAt: Date;
+}
+
+// Outcome of handing an alert to one sink, e.g. the in-app stream or a webhook
+export interface AlertDelivery {
+  sink: string;
+  ok: boolean;
+  error?: string;
+}
+
+// Raised once when a rule's condition starts to hold for a subject, not on every refresh
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  kind: AlertKind;
+  // Protocol id, opportunity id, strategy id or lending account the alert is about
+  subject: string;
+  message: string;
+  value: number;
+  triggeredAt: Date;
+  // Set once every sink has been tried, so failed webhooks can be seen in the event history
+  deliveries?: AlertDelivery[];
+}
+
+export type OrderType = 'stopLoss' | 'takeProfit';
+
+// Stop-losses fire at or below their level, take-profits at or above it
+export type OrderTrigger =
+  | { kind: 'price'; token: string; price: number }
+  // Percent change of the position's value from the order's cost basis, e.g. -15
+  | { kind: 'pnlPercentage'; threshold: number };
+
+// active -> triggered -> executed once the owner has signed the unwind; triggered orders
+// whose unwind could not be built are failed, and active or triggered ones can be cancelled
+export type OrderStatus = 'active' | 'triggered' | 'executed' | 'cancelled' | 'failed';
+
+export interface OrderStateChange {
+  status: OrderStatus;
+  timestamp: Date;
+  message?: string;
+}
+
+// Unsigned transaction for the owner's wallet, sent in list order; value is wei as a decimal string
+export interface UnwindTransaction {
+  step: 'withdraw' | 'repay' | 'approve' | 'swap';
+  to: string;
+  data: string;
+  value: string;
+  description: string;
+}
+
+// Exit condition attached to one position of an address
+export interface PositionOrder {
+  id: string;
+  // Lowercase address holding the position
+  owner: string;
+  strategyId: string;
+  strategyName: string;
+  type: OrderType;
+  trigger: OrderTrigger;
+  // USD value the PnL trigger is measured against
+  costBasis: number;
+  // Token symbol the unwind swaps everything into
+  settleToken: string;
+  slippageBps: number;
+  status: OrderStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  // Every state the order has been in, oldest first
+  history: OrderStateChange[];
+  // Price or PnL percentage that fired the order
+  triggeredValue?: number;
+  unwind?: UnwindTransaction[];
+  txHashes?: string[];
+}
+
+// USD price per token symbol
+export type TokenPrices = Record<string, number>;
+
+export interface DashboardMetrics {
+  totalTVL: number;
+  totalUsers: number;
+  totalVolume24h: number;
+  totalRewardsDistributed: number;
+  averageAPY: number;
+  activeStrategies: number;
+  arbitrageOpportunities: number;
+  riskScore: number;
+}
@@ -0,0 +1,820 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface BaseAnalyticsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_RISK_LEVEL"
+      | "activeStrategies"
+      | "claimRewards"
+      | "deposit"
+      | "fundRewards"
+      | "getUserStrategyIds"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pendingRewards"
+      | "positions"
+      | "registerStrategy"
+      | "renounceOwnership"
+      | "rewardReserve"
+      | "rewardToken"
+      | "strategies"
+      | "strategyCount"
+      | "totalRewardsDistributed"
+      | "transferOwnership"
+      | "unpause"
+      | "updateStrategy"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "Deposited"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "RewardsClaimed"
+      | "RewardsFunded"
+      | "StrategyRegistered"
+      | "StrategyUpdated"
+      | "Unpaused"
+      | "Withdrawn"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_RISK_LEVEL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activeStrategies",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRewards",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deposit",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundRewards",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserStrategyIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingRewards",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "positions",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerStrategy",
+    values: [string, AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardReserve",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "strategies",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "strategyCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalRewardsDistributed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateStrategy",
+    values: [BigNumberish, BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_RISK_LEVEL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activeStrategies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "deposit", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "fundRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserStrategyIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "positions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerStrategy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "strategies", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "strategyCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalRewardsDistributed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateStrategy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace DepositedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    strategyId: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [user: string, strategyId: bigint, amount: bigint];
+  export interface OutputObject {
+    user: string;
+    strategyId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardsClaimedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    strategyId: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [user: string, strategyId: bigint, amount: bigint];
+  export interface OutputObject {
+    user: string;
+    strategyId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardsFundedEvent {
+  export type InputTuple = [funder: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [funder: string, amount: bigint];
+  export interface OutputObject {
+    funder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StrategyRegisteredEvent {
+  export type InputTuple = [
+    strategyId: BigNumberish,
+    name: string,
+    depositToken: AddressLike,
+    riskLevel: BigNumberish,
+    rewardRate: BigNumberish
+  ];
+  export type OutputTuple = [
+    strategyId: bigint,
+    name: string,
+    depositToken: string,
+    riskLevel: bigint,
+    rewardRate: bigint
+  ];
+  export interface OutputObject {
+    strategyId: bigint;
+    name: string;
+    depositToken: string;
+    riskLevel: bigint;
+    rewardRate: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StrategyUpdatedEvent {
+  export type InputTuple = [
+    strategyId: BigNumberish,
+    rewardRate: BigNumberish,
+    riskLevel: BigNumberish,
+    active: boolean
+  ];
+  export type OutputTuple = [
+    strategyId: bigint,
+    rewardRate: bigint,
+    riskLevel: bigint,
+    active: boolean
+  ];
+  export interface OutputObject {
+    strategyId: bigint;
+    rewardRate: bigint;
+    riskLevel: bigint;
+    active: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawnEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    strategyId: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [user: string, strategyId: bigint, amount: bigint];
+  export interface OutputObject {
+    user: string;
+    strategyId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface BaseAnalytics extends BaseContract {
+  connect(runner?: ContractRunner | null): BaseAnalytics;
+  waitForDeployment(): Promise<this>;
+
+  interface: BaseAnalyticsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_RISK_LEVEL: TypedContractMethod<[], [bigint], "view">;
+
+  activeStrategies: TypedContractMethod<[], [bigint], "view">;
+
+  claimRewards: TypedContractMethod<
+    [strategyId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  deposit: TypedContractMethod<
+    [strategyId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  fundRewards: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getUserStrategyIds: TypedContractMethod<
+    [user: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingRewards: TypedContractMethod<
+    [strategyId: BigNumberish, user: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  positions: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        amount: bigint;
+        rewardDebt: bigint;
+        pendingRewards: bigint;
+        rewardsClaimed: bigint;
+        entryDate: bigint;
+        lastRewardClaim: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  registerStrategy: TypedContractMethod<
+    [
+      name: string,
+      depositToken: AddressLike,
+      riskLevel: BigNumberish,
+      rewardRate: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  rewardReserve: TypedContractMethod<[], [bigint], "view">;
+
+  rewardToken: TypedContractMethod<[], [string], "view">;
+
+  strategies: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, bigint, bigint, bigint, bigint] & {
+        name: string;
+        depositToken: string;
+        riskLevel: bigint;
+        active: boolean;
+        rewardRate: bigint;
+        totalDeposited: bigint;
+        accRewardPerShare: bigint;
+        lastRewardTime: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  strategyCount: TypedContractMethod<[], [bigint], "view">;
+
+  totalRewardsDistributed: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  updateStrategy: TypedContractMethod<
+    [
+      strategyId: BigNumberish,
+      rewardRate: BigNumberish,
+      riskLevel: BigNumberish,
+      active: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  withdraw: TypedContractMethod<
+    [strategyId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_RISK_LEVEL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "activeStrategies"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimRewards"
+  ): TypedContractMethod<[strategyId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "deposit"
+  ): TypedContractMethod<
+    [strategyId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fundRewards"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getUserStrategyIds"
+  ): TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingRewards"
+  ): TypedContractMethod<
+    [strategyId: BigNumberish, user: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "positions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [bigint, bigint, bigint, bigint, bigint, bigint] & {
+        amount: bigint;
+        rewardDebt: bigint;
+        pendingRewards: bigint;
+        rewardsClaimed: bigint;
+        entryDate: bigint;
+        lastRewardClaim: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "registerStrategy"
+  ): TypedContractMethod<
+    [
+      name: string,
+      depositToken: AddressLike,
+      riskLevel: BigNumberish,
+      rewardRate: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "rewardReserve"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rewardToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "strategies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, bigint, bigint, bigint, bigint] & {
+        name: string;
+        depositToken: string;
+        riskLevel: bigint;
+        active: boolean;
+        rewardRate: bigint;
+        totalDeposited: bigint;
+        accRewardPerShare: bigint;
+        lastRewardTime: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "strategyCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalRewardsDistributed"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateStrategy"
+  ): TypedContractMethod<
+    [
+      strategyId: BigNumberish,
+      rewardRate: BigNumberish,
+      riskLevel: BigNumberish,
+      active: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<
+    [strategyId: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "Deposited"
+  ): TypedContractEvent<
+    DepositedEvent.InputTuple,
+    DepositedEvent.OutputTuple,
+    DepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardsClaimed"
+  ): TypedContractEvent<
+    RewardsClaimedEvent.InputTuple,
+    RewardsClaimedEvent.OutputTuple,
+    RewardsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardsFunded"
+  ): TypedContractEvent<
+    RewardsFundedEvent.InputTuple,
+    RewardsFundedEvent.OutputTuple,
+    RewardsFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StrategyRegistered"
+  ): TypedContractEvent<
+    StrategyRegisteredEvent.InputTuple,
+    StrategyRegisteredEvent.OutputTuple,
+    StrategyRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "StrategyUpdated"
+  ): TypedContractEvent<
+    StrategyUpdatedEvent.InputTuple,
+    StrategyUpdatedEvent.OutputTuple,
+    StrategyUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawn"
+  ): TypedContractEvent<
+    WithdrawnEvent.InputTuple,
+    WithdrawnEvent.OutputTuple,
+    WithdrawnEvent.OutputObject
+  >;
+
+  filters: {
+    "Deposited(address,uint256,uint256)": TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+    Deposited: TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "RewardsClaimed(address,uint256,uint256)": TypedContractEvent<
+      RewardsClaimedEvent.InputTuple,
+      RewardsClaimedEvent.OutputTuple,
+      RewardsClaimedEvent.OutputObject
+    >;
+    RewardsClaimed: TypedContractEvent<
+      RewardsClaimedEvent.InputTuple,
+      RewardsClaimedEvent.OutputTuple,
+      RewardsClaimedEvent.OutputObject
+    >;
+
+    "RewardsFunded(address,uint256)": TypedContractEvent<
+      RewardsFundedEvent.InputTuple,
+      RewardsFundedEvent.OutputTuple,
+      RewardsFundedEvent.OutputObject
+    >;
+    RewardsFunded: TypedContractEvent<
+      RewardsFundedEvent.InputTuple,
+      RewardsFundedEvent.OutputTuple,
+      RewardsFundedEvent.OutputObject
+    >;
+
+    "StrategyRegistered(uint256,string,address,uint8,uint256)": TypedContractEvent<
+      StrategyRegisteredEvent.InputTuple,
+      StrategyRegisteredEvent.OutputTuple,
+      StrategyRegisteredEvent.OutputObject
+    >;
+    StrategyRegistered: TypedContractEvent<
+      StrategyRegisteredEvent.InputTuple,
+      StrategyRegisteredEvent.OutputTuple,
+      StrategyRegisteredEvent.OutputObject
+    >;
+
+    "StrategyUpdated(uint256,uint256,uint8,bool)": TypedContractEvent<
+      StrategyUpdatedEvent.InputTuple,
+      StrategyUpdatedEvent.OutputTuple,
+      StrategyUpdatedEvent.OutputObject
+    >;
+    StrategyUpdated: TypedContractEvent<
+      StrategyUpdatedEvent.InputTuple,
+      StrategyUpdatedEvent.OutputTuple,
+      StrategyUpdatedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "Withdrawn(address,uint256,uint256)": TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+    Withdrawn: TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,775 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../common";
+import type { BaseAnalytics, BaseAnalyticsInterface } from "../BaseAnalytics";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract IERC20",
+        name: "_rewardToken",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requested",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "available",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requested",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "available",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientRewardReserve",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "riskLevel",
+        type: "uint8",
+      },
+    ],
+    name: "InvalidRiskLevel",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidStrategy",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+    ],
+    name: "StrategyInactive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZeroAmount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RewardsClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "funder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RewardsFunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "depositToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "riskLevel",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "rewardRate",
+        type: "uint256",
+      },
+    ],
+    name: "StrategyRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "rewardRate",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "riskLevel",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    name: "StrategyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_RISK_LEVEL",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "activeStrategies",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+    ],
+    name: "claimRewards",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "fundRewards",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getUserStrategyIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "pendingRewards",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "positions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "rewardDebt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pendingRewards",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "rewardsClaimed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "entryDate",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "lastRewardClaim",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "contract IERC20",
+        name: "depositToken",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "riskLevel",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "rewardRate",
+        type: "uint256",
+      },
+    ],
+    name: "registerStrategy",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewardReserve",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewardToken",
+    outputs: [
+      {
+        internalType: "contract IERC20",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "strategies",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "contract IERC20",
+        name: "depositToken",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "riskLevel",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "rewardRate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "totalDeposited",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "accRewardPerShare",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastRewardTime",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "strategyCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalRewardsDistributed",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "rewardRate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "riskLevel",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    name: "updateStrategy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "strategyId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a06040523480156200001157600080fd5b5060405162001e4238038062001e428339810160408190526200003491620000b2565b6200003f3362000062565b6000805460ff60a01b19169055600180556001600160a01b0316608052620000e4565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b600060208284031215620000c557600080fd5b81516001600160a01b0381168114620000dd57600080fd5b9392505050565b608051611d346200010e6000396000818161036c015281816105300152610b460152611d346000f3fe608060405234801561001057600080fd5b50600436106101425760003560e01c80638456cb59116100b8578063d574ea3d1161007c578063d574ea3d1461027c578063e2bbb158146102a3578063e684d718146102b6578063ee1725461461034b578063f2fde38b14610354578063f7c618c11461036757600080fd5b80638456cb59146102205780638da5cb5b1461022857806393707a191461024d578063cab64bcd14610260578063d18df53c1461026957600080fd5b8063441a3e701161010a578063441a3e70146101ac5780635c975abb146101bf5780636a8ba771146101dc578063715018a6146101ef5780637323d1dc146101f7578063821a622f1461021757600080fd5b806304ed2b27146101475780630962ef791461016657806322068b441461018757806329aa91cb1461018f5780633f4ba83a146101a2575b600080fd5b61014f600a81565b60405160ff90911681526020015b60405180910390f35b6101796101743660046117dd565b61038e565b60405190815260200161015d565b600254610179565b61017961019d36600461181c565b61059f565b6101aa61077a565b005b6101aa6101ba3660046118b6565b61078c565b600054600160a01b900460ff16604051901515815260200161015d565b6101aa6101ea3660046118e6565b61091a565b6101aa610a90565b61020a61020536600461192e565b610aa2565b60405161015d9190611952565b61017960065481565b6101aa610b0e565b6000546001600160a01b03165b6040516001600160a01b03909116815260200161015d565b6101aa61025b3660046117dd565b610b1e565b61017960085481565b610179610277366004611996565b610bbd565b61028f61028a3660046117dd565b610d05565b60405161015d989796959493929190611a16565b6101aa6102b13660046118b6565b610df8565b6103116102c4366004611996565b600360208181526000938452604080852090915291835291208054600182015460028301549383015460049093015491939092909167ffffffffffffffff80821691600160401b90041686565b60408051968752602087019590955293850192909252606084015267ffffffffffffffff90811660808401521660a082015260c00161015d565b61017960075481565b6101aa61036236600461192e565b611012565b6102357f000000000000000000000000000000000000000000000000000000000000000081565b600061039861108b565b6103a06110e4565b600254829081106103cc576040516330c2cb2960e11b8152600481018290526024015b60405180910390fd5b6000600284815481106103e1576103e1611a6d565b6000918252602080832087845260038252604080852033865290925292206006909102909101915061041285611131565b61041c82826111f2565b60048201548154670de0b6b3a76400009161043691611a99565b6104409190611ab0565b600182015560028101549350600084900361046e57604051631f2a200560e01b815260040160405180910390fd5b60085484111561049f57600854604051631256b84160e31b81526103c3918691600401918252602082015260400190565b60008160020181905550838160030160008282546104bd9190611ad2565b90915550506004810180546fffffffffffffffff00000000000000001916600160401b4267ffffffffffffffff160217905560088054859190600090610504908490611ae5565b92505081905550836007600082825461051d9190611ad2565b9091555061055790506001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016338661124e565b604051848152859033907fdacbdde355ba930696a362ea6738feb9f8bd52dfb3d81947558fd3217e23e3259060200160405180910390a350505061059a60018055565b919050565b60006105a96112b6565b60ff831615806105bc5750600a60ff8416115b156105df57604051631bb5a3db60e21b815260ff841660048201526024016103c3565b5060028054604080516101206020601f8a018190040282018101909252610100810188815292939290918291908a908a908190850183828082843760009201829052509385525050506001600160a01b03881660208084019190915260ff881660408401526001606084018190526080840188905260a0840183905260c084018390524260e0909401939093528454928301855593815292909220815191926006020190819061068f9082611b96565b50602082015160018083018054604086015160608701511515600160a81b0260ff60a81b1960ff909216600160a01b026001600160a81b03199093166001600160a01b03909616959095179190911716929092179091556080830151600283015560a0830151600383015560c0830151600483015560e09092015160059091015560068054600090610722908490611ad2565b92505081905550836001600160a01b0316817f91f736a3b03bf7ea9d937732f8e7d686260fa0c53648d0094036c1adf1813804888887876040516107699493929190611c56565b60405180910390a395945050505050565b6107826112b6565b61078a611310565b565b61079461108b565b600254829081106107bb576040516330c2cb2960e11b8152600481018290526024016103c3565b816000036107dc57604051631f2a200560e01b815260040160405180910390fd5b6000600284815481106107f1576107f1611a6d565b60009182526020808320878452600382526040808520338652909252922080546006909202909201925084111561084857805460405163cf47918160e01b81526103c3918691600401918252602082015260400190565b61085185611131565b61085b82826111f2565b8381600001600082825461086f9190611ae5565b925050819055508382600301600082825461088a9190611ae5565b909155505060048201548154670de0b6b3a7640000916108a991611a99565b6108b39190611ab0565b6001808301919091558201546108d3906001600160a01b0316338661124e565b604051848152859033907f92ccf450a286a957af52509bc1c9939d1a6a481783e142e41e2499f0bb66ebc69060200160405180910390a350505061091660018055565b5050565b6109226112b6565b60025484908110610949576040516330c2cb2960e11b8152600481018290526024016103c3565b60ff8316158061095c5750600a60ff8416115b1561097f57604051631bb5a3db60e21b815260ff841660048201526024016103c3565b61098885611131565b60006002868154811061099d5761099d611a6d565b906000526020600020906006020190508215158160010160159054906101000a900460ff16151514610a065782156109ed576001600660008282546109e29190611ad2565b90915550610a069050565b600160066000828254610a009190611ae5565b90915550505b6002810185905560018101805461ffff60a01b1916600160a01b60ff871690810260ff60a81b191691909117600160a81b8615159081029190911790925560408051888152602081019290925281019190915286907f90ec5e93f713eef0c9cc1a94325218dad1cb4763878d5c1cd737299fc9d398549060600160405180910390a2505050505050565b610a986112b6565b61078a6000611365565b6001600160a01b038116600090815260046020908152604091829020805483518184028101840190945280845260609392830182828015610b0257602002820191906000526020600020905b815481526020019060010190808311610aee575b50505050509050919050565b610b166112b6565b61078a6113b5565b80600003610b3f57604051631f2a200560e01b815260040160405180910390fd5b6000610b6b7f0000000000000000000000000000000000000000000000000000000000000000836113f8565b90508060086000828254610b7f9190611ad2565b909155505060405181815233907fd53214ca07be5520e229c395f05a3e5c0697ec6279184ffbe2758d304fd322cc9060200160405180910390a25050565b60025460009083908110610be7576040516330c2cb2960e11b8152600481018290526024016103c3565b600060028581548110610bfc57610bfc611a6d565b600091825260208083208884526003825260408085206001600160a01b038a1686529092529220600460069092029092019081015460058201549193509042118015610c5357506001830154600160a81b900460ff165b8015610c63575060008360030154115b15610cbb5760008360020154846005015442610c7f9190611ae5565b610c899190611a99565b6003850154909150610ca3670de0b6b3a764000083611a99565b610cad9190611ab0565b610cb79083611ad2565b9150505b60018201548254670de0b6b3a764000090610cd7908490611a99565b610ce19190611ab0565b8360020154610cf09190611ad2565b610cfa9190611ae5565b979650505050505050565b60028181548110610d1557600080fd5b9060005260206000209060060201600091509050806000018054610d3890611b0e565b80601f0160208091040260200160405190810160405280929190818152602001828054610d6490611b0e565b8015610db15780601f10610d8657610100808354040283529160200191610db1565b820191906000526020600020905b815481529060010190602001808311610d9457829003601f168201915b50505050600183015460028401546003850154600486015460059096015494956001600160a01b0384169560ff600160a01b860481169650600160a81b9095049094169388565b610e0061108b565b610e086110e4565b60025482908110610e2f576040516330c2cb2960e11b8152600481018290526024016103c3565b81600003610e5057604051631f2a200560e01b815260040160405180910390fd5b600060028481548110610e6557610e65611a6d565b906000526020600020906006020190508060010160159054906101000a900460ff16610ea75760405163037dcb4160e61b8152600481018590526024016103c3565b610eb084611131565b60008481526003602090815260408083203384529091529020610ed382826111f2565b6001820154600090610eee906001600160a01b0316866113f8565b600087815260056020908152604080832033845290915290205490915060ff16610f7157600086815260056020908152604080832033845282528083208054600160ff199091168117909155600480845291842080549182018155845291909220018790558201805467ffffffffffffffff19164267ffffffffffffffff161790555b80826000016000828254610f859190611ad2565b9250508190555080836003016000828254610fa09190611ad2565b909155505060048301548254670de0b6b3a764000091610fbf91611a99565b610fc99190611ab0565b6001830155604051818152869033907f73a19dd210f1a7f902193214c0ee91dd35ee5b4d920cba8d519eca65a7b488ca9060200160405180910390a35050505061091660018055565b61101a6112b6565b6001600160a01b03811661107f5760405162461bcd60e51b815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201526564647265737360d01b60648201526084016103c3565b61108881611365565b50565b6002600154036110dd5760405162461bcd60e51b815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c0060448201526064016103c3565b6002600155565b600054600160a01b900460ff161561078a5760405162461bcd60e51b815260206004820152601060248201526f14185d5cd8589b194e881c185d5cd95960821b60448201526064016103c3565b60006002828154811061114657611146611a6d565b9060005260206000209060060201905080600501544211611165575050565b6001810154600160a81b900460ff168015611184575060008160030154115b156111e857600081600201548260050154426111a09190611ae5565b6111aa9190611a99565b60038301549091506111c4670de0b6b3a764000083611a99565b6111ce9190611ab0565b8260040160008282546111e19190611ad2565b9091555050505b4260059091015550565b80546000036111ff575050565b600181015460048301548254670de0b6b3a76400009161121e91611a99565b6112289190611ab0565b6112329190611ae5565b8160020160008282546112459190611ad2565b90915550505050565b6040516001600160a01b0383166024820152604481018290526112b190849063a9059cbb60e01b906064015b60408051601f198184030181529190526020810180516001600160e01b03166001600160e01b0319909316929092179091526114fa565b505050565b6000546001600160a01b0316331461078a5760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e657260448201526064016103c3565b6113186115cf565b6000805460ff60a01b191690557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516001600160a01b03909116815260200160405180910390a1565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6113bd6110e4565b6000805460ff60a01b1916600160a01b1790557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586113483390565b6040516370a0823160e01b815230600482015260009081906001600160a01b038516906370a0823190602401602060405180830381865afa158015611441573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906114659190611c99565b905061147c6001600160a01b03851633308661161f565b6040516370a0823160e01b815230600482015281906001600160a01b038616906370a0823190602401602060405180830381865afa1580156114c2573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906114e69190611c99565b6114f09190611ae5565b9150505b92915050565b600061154f826040518060400160405280602081526020017f5361666545524332303a206c6f772d6c6576656c2063616c6c206661696c6564815250856001600160a01b031661165d9092919063ffffffff16565b90508051600014806115705750808060200190518101906115709190611cb2565b6112b15760405162461bcd60e51b815260206004820152602a60248201527f5361666545524332303a204552433230206f7065726174696f6e20646964206e6044820152691bdd081cdd58d8d9595960b21b60648201526084016103c3565b600054600160a01b900460ff1661078a5760405162461bcd60e51b815260206004820152601460248201527314185d5cd8589b194e881b9bdd081c185d5cd95960621b60448201526064016103c3565b6040516001600160a01b03808516602483015283166044820152606481018290526116579085906323b872dd60e01b9060840161127a565b50505050565b606061166c8484600085611674565b949350505050565b6060824710156116d55760405162461bcd60e51b815260206004820152602660248201527f416464726573733a20696e73756666696369656e742062616c616e636520666f6044820152651c8818d85b1b60d21b60648201526084016103c3565b600080866001600160a01b031685876040516116f19190611ccf565b60006040518083038185875af1925050503d806000811461172e576040519150601f19603f3d011682016040523d82523d6000602084013e611733565b606091505b5091509150610cfa87838387606083156117ae5782516000036117a7576001600160a01b0385163b6117a75760405162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e747261637400000060448201526064016103c3565b508161166c565b61166c83838151156117c35781518083602001fd5b8060405162461bcd60e51b81526004016103c39190611ceb565b6000602082840312156117ef57600080fd5b5035919050565b6001600160a01b038116811461108857600080fd5b803560ff8116811461059a57600080fd5b60008060008060006080868803121561183457600080fd5b853567ffffffffffffffff8082111561184c57600080fd5b818801915088601f83011261186057600080fd5b81358181111561186f57600080fd5b89602082850101111561188157600080fd5b60209283019750955050860135611897816117f6565b92506118a56040870161180b565b949793965091946060013592915050565b600080604083850312156118c957600080fd5b50508035926020909101359150565b801515811461108857600080fd5b600080600080608085870312156118fc57600080fd5b84359350602085013592506119136040860161180b565b91506060850135611923816118d8565b939692955090935050565b60006020828403121561194057600080fd5b813561194b816117f6565b9392505050565b6020808252825182820181905260009190848201906040850190845b8181101561198a5783518352928401929184019160010161196e565b50909695505050505050565b600080604083850312156119a957600080fd5b8235915060208301356119bb816117f6565b809150509250929050565b60005b838110156119e15781810151838201526020016119c9565b50506000910152565b60008151808452611a028160208601602086016119c6565b601f01601f19169290920160200192915050565b6000610100808352611a2a8184018c6119ea565b6001600160a01b039a909a166020840152505060ff9690961660408701529315156060860152608085019290925260a084015260c083015260e090910152919050565b634e487b7160e01b600052603260045260246000fd5b634e487b7160e01b600052601160045260246000fd5b80820281158282048414176114f4576114f4611a83565b600082611acd57634e487b7160e01b600052601260045260246000fd5b500490565b808201808211156114f4576114f4611a83565b818103818111156114f4576114f4611a83565b634e487b7160e01b600052604160045260246000fd5b600181811c90821680611b2257607f821691505b602082108103611b4257634e487b7160e01b600052602260045260246000fd5b50919050565b601f8211156112b157600081815260208120601f850160051c81016020861015611b6f5750805b601f850160051c820191505b81811015611b8e57828155600101611b7b565b505050505050565b815167ffffffffffffffff811115611bb057611bb0611af8565b611bc481611bbe8454611b0e565b84611b48565b602080601f831160018114611bf95760008415611be15750858301515b600019600386901b1c1916600185901b178555611b8e565b600085815260208120601f198616915b82811015611c2857888601518255948401946001909101908401611c09565b5085821015611c465787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b606081528360608201528385608083013760006080858301015260006080601f19601f870116830101905060ff8416602083015282604083015295945050505050565b600060208284031215611cab57600080fd5b5051919050565b600060208284031215611cc457600080fd5b815161194b816118d8565b60008251611ce18184602087016119c6565b9190910192915050565b60208152600061194b60208301846119ea56fea2646970667358221220bf95bf0381cf884789affd9e1004d1d38ff19952acae301554c4f8060a45e20564736f6c63430008130033";
+
+type BaseAnalyticsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: BaseAnalyticsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class BaseAnalytics__factory extends ContractFactory {
+  constructor(...args: BaseAnalyticsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _rewardToken: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_rewardToken, overrides || {});
+  }
+  override deploy(
+    _rewardToken: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_rewardToken, overrides || {}) as Promise<
+      BaseAnalytics & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): BaseAnalytics__factory {
+    return super.connect(runner) as BaseAnalytics__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): BaseAnalyticsInterface {
+    return new Interface(_abi) as BaseAnalyticsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): BaseAnalytics {
+    return new Contract(address, _abi, runner) as unknown as BaseAnalytics;
+  }
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { BaseAnalytics } from "./BaseAnalytics";
+export * as factories from "./factories";
+export { BaseAnalytics__factory } from "./factories/BaseAnalytics__factory";
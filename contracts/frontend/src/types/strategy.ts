@@ -0,0 +1,72 @@
+import type { ProtocolCategory } from './analytics';
+
+/**
+ * @title Strategy definition types
+ * @description Typed form of a declarative strategy document, as returned by the validator.
+ * Documents are versioned so stored strategies keep loading as the format grows.
+ * @author Base DeFi Analytics Team
+ */
+
+export const STRATEGY_SCHEMA_VERSION = 1;
+
+export type StrategyFrequency = 'never' | 'daily' | 'weekly' | 'monthly';
+
+export type StrategyMetric = 'apy' | 'tvl' | 'riskScore' | 'change24h' | 'volume24h';
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=';
+
+// What a condition or allocation applies to
+export type StrategyTarget =
+  | { kind: 'protocol'; protocolId: string }
+  | { kind: 'category'; category: ProtocolCategory };
+
+// For a category, tvl and volume24h are summed and the other metrics TVL-weighted
+export interface StrategyCondition {
+  target: StrategyTarget;
+  metric: StrategyMetric;
+  operator: ComparisonOperator;
+  value: number;
+}
+
+export interface StrategyAllocation {
+  target: StrategyTarget;
+  // Share of capital, 0-1; whatever the allocations leave is held as cash
+  weight: number;
+  // Category weight is split equally over its top protocols by this metric, or over all of them
+  select?: { top: number; by: StrategyMetric };
+}
+
+export interface RebalanceTrigger {
+  schedule: StrategyFrequency;
+  // Rebalance early once any allocation drifts this far from its target weight, 0-1
+  drift?: number;
+}
+
+// Percentages of equity; the stop-loss is measured from the peak when trailing, else from entry
+export interface StrategyExits {
+  stopLoss?: number;
+  takeProfit?: number;
+  trailing: boolean;
+}
+
+export interface StrategyDefinition {
+  version: typeof STRATEGY_SCHEMA_VERSION;
+  name: string;
+  description?: string;
+  author?: string;
+  tags: string[];
+  // Protocols riskier than this (1-10) are never allocated to
+  maxRisk: number;
+  // Every condition must hold before capital is deployed
+  entry: StrategyCondition[];
+  allocations: StrategyAllocation[];
+  rebalance: RebalanceTrigger;
+  compound: StrategyFrequency;
+  exits: StrategyExits;
+}
+
+export interface StrategyIssue {
+  // Dotted path into the document, e.g. allocations.1.weight
+  path: string;
+  message: string;
+}
@@ -0,0 +1,149 @@
+// Relative import: the backtester runs this module headless in the backend, which has no @/ alias
+import type { ProtocolData } from '../types/analytics';
+
+/**
+ * @title Allocation optimizer
+ * @description Splits capital across protocols for the highest expected APY within a risk
+ * ceiling and diversification limits
+ * @author Base DeFi Analytics Team
+ */
+
+export interface AllocationConstraints {
+  // Ceiling on the capital-weighted riskScore of the whole allocation (1-10)
+  maxRisk: number;
+  // Largest share of capital any one protocol may take, 0-1
+  maxAllocationPerProtocol?: number;
+  // Per-protocol overrides of the cap above, keyed by protocol id
+  protocolCaps?: Record<string, number>;
+  // Capital is spread over at least this many protocols
+  minProtocols?: number;
+}
+
+export interface ProtocolAllocation {
+  protocolId: string;
+  name: string;
+  weight: number;
+  amount: number;
+  apy: number;
+  riskScore: number;
+}
+
+export interface AllocationResult {
+  allocations: ProtocolAllocation[];
+  weightedAPY: number;
+  weightedRisk: number;
+  expectedYearlyYield: number;
+  // Capital the caps leave nowhere to go
+  unallocated: number;
+  // False when even the least risky allocation breaks maxRisk
+  isFeasible: boolean;
+}
+
+interface Candidate {
+  protocol: ProtocolData;
+  cap: number;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Fills the highest-scoring protocols first, each up to its cap. With score = apy - λ·risk
+ * this is the exact optimum of the relaxed problem for that λ.
+ */
+const fillByScore = (candidates: Candidate[], lambda: number): number[] => {
+  const order = candidates
+    .map((candidate, index) => ({ index, score: candidate.protocol.apy - lambda * candidate.protocol.riskScore }))
+    .sort((a, b) => b.score - a.score);
+  const weights = new Array(candidates.length).fill(0);
+  let remaining = 1;
+  for (const { index } of order) {
+    if (remaining <= EPSILON) break;
+    weights[index] = Math.min(candidates[index].cap, remaining);
+    remaining -= weights[index];
+  }
+  return weights;
+};
+
+const weightedRisk = (candidates: Candidate[], weights: number[]): number => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= EPSILON) return 0;
+  return weights.reduce((sum, weight, i) => sum + weight * candidates[i].protocol.riskScore, 0) / total;
+};
+
+/**
+ * Maximizes expected APY over active protocols subject to a weighted-risk ceiling,
+ * per-protocol caps and a minimum number of protocols.
+ *
+ * This is a linear program with one coupling constraint besides the budget, so it is
+ * solved through its Lagrangian: bisect the risk penalty λ until the greedy fill meets
+ * maxRisk, then blend the fills either side of the threshold so the risk budget is used
+ * exactly. Minimum diversification is enforced by capping every protocol at 1/minProtocols.
+ */
+export const calculateOptimalAllocation = (
+  protocols: ProtocolData[],
+  capital: number,
+  { maxRisk, maxAllocationPerProtocol = 0.4, protocolCaps = {}, minProtocols = 3 }: AllocationConstraints
+): AllocationResult => {
+  const diversificationCap = minProtocols > 0 ? 1 / minProtocols : 1;
+  const candidates: Candidate[] = protocols
+    .filter(protocol => protocol.isActive)
+    .map(protocol => ({
+      protocol,
+      cap: Math.max(0, Math.min(protocolCaps[protocol.id] ?? maxAllocationPerProtocol, diversificationCap, 1))
+    }))
+    .filter(candidate => candidate.cap > 0);
+
+  let weights = fillByScore(candidates, 0);
+  let isFeasible = true;
+
+  if (weightedRisk(candidates, weights) > maxRisk + EPSILON) {
+    // A penalty this large ranks purely by risk, i.e. the least risky fill possible
+    const maxApy = Math.max(...candidates.map(candidate => Math.abs(candidate.protocol.apy)));
+    let low = 0;
+    let high = (maxApy + 1) * 1e6;
+    const safest = fillByScore(candidates, high);
+
+    if (weightedRisk(candidates, safest) > maxRisk + EPSILON) {
+      weights = safest;
+      isFeasible = false;
+    } else {
+      for (let i = 0; i < 100; i++) {
+        const mid = (low + high) / 2;
+        if (weightedRisk(candidates, fillByScore(candidates, mid)) > maxRisk) low = mid;
+        else high = mid;
+      }
+      const risky = fillByScore(candidates, low);
+      const safe = fillByScore(candidates, high);
+      const riskyRisk = weightedRisk(candidates, risky);
+      const safeRisk = weightedRisk(candidates, safe);
+      const t = riskyRisk - safeRisk > EPSILON ? (maxRisk - safeRisk) / (riskyRisk - safeRisk) : 0;
+      weights = safe.map((weight, i) => weight + t * (risky[i] - weight));
+    }
+  }
+
+  const allocations = candidates
+    .map((candidate, i) => ({
+      protocolId: candidate.protocol.id,
+      name: candidate.protocol.name,
+      weight: weights[i],
+      amount: weights[i] * capital,
+      apy: candidate.protocol.apy,
+      riskScore: candidate.protocol.riskScore
+    }))
+    .filter(allocation => allocation.weight > EPSILON)
+    .sort((a, b) => b.weight - a.weight);
+
+  const allocatedWeight = allocations.reduce((sum, allocation) => sum + allocation.weight, 0);
+  const weightedAPY = allocatedWeight > 0
+    ? allocations.reduce((sum, allocation) => sum + allocation.weight * allocation.apy, 0) / allocatedWeight
+    : 0;
+
+  return {
+    allocations,
+    weightedAPY,
+    weightedRisk: weightedRisk(candidates, weights),
+    expectedYearlyYield: allocations.reduce((sum, allocation) => sum + allocation.amount * allocation.apy / 100, 0),
+    unallocated: Math.max(0, capital * (1 - allocatedWeight)),
+    isFeasible
+  };
+};
@@ -0,0 +1,352 @@
+// Relative imports: the backtest CLI runs this module headless in the backend, which has no @/ alias
+import type { ProtocolData, ProtocolSnapshot, TokenPrices } from '../types/analytics';
+import type { StrategyAllocation, StrategyCondition, StrategyDefinition, StrategyExits, StrategyFrequency } from '../types/strategy';
+import { calculateOptimalAllocation, type AllocationConstraints } from './allocation';
+import { evaluateConditions, resolveTargetWeights } from './strategy';
+
+/**
+ * @title Strategy backtester
+ * @description Replays protocol APY/TVL and token price snapshots through an allocation
+ * strategy with periodic rebalancing, reward compounding and gas costs, and reports the
+ * equity curve with drawdown, Sharpe ratio and realized APY
+ * @author Base DeFi Analytics Team
+ */
+
+export type BacktestFrequency = StrategyFrequency;
+
+// Target weights are shares of equity, 0-1; whatever they leave is held as idle cash
+export type AllocationRule =
+  | { kind: 'fixed'; weights: Record<string, number> }
+  // Equal weights over the highest-APY protocols within the risk limit
+  | { kind: 'topApy'; count: number; maxRisk?: number }
+  | { kind: 'optimal'; constraints: AllocationConstraints }
+  // Allocations from a strategy document
+  | { kind: 'targets'; allocations: StrategyAllocation[]; maxRisk?: number };
+
+export interface BacktestStrategy {
+  name: string;
+  initialCapital: number;
+  allocation: AllocationRule;
+  rebalance: BacktestFrequency;
+  // Rewards accrue aside and are reinvested into their position at this frequency
+  compound: BacktestFrequency;
+  // USD per deposit or withdrawal at a rebalance, and per position reinvested at a compound
+  gasCostPerTx: number;
+  // Rebalance trades smaller than this share of equity are skipped, 0-1
+  rebalanceThreshold?: number;
+  // Token a protocol's deposits move with, e.g. WETH for a volatile LP; others hold USD value
+  exposures?: Record<string, string>;
+  // Capital stays in cash until every condition holds at a snapshot
+  entry?: StrategyCondition[];
+  // Rebalance between scheduled dates once any weight drifts this far from target, 0-1
+  driftThreshold?: number;
+  // After a stop-loss or take-profit the strategy stays in cash for the rest of the run
+  exits?: StrategyExits;
+}
+
+export interface PriceSnapshot {
+  timestamp: Date;
+  prices: TokenPrices;
+}
+
+export interface BacktestData {
+  // Names, risk scores and activity; APY and TVL come from the snapshots
+  protocols: ProtocolData[];
+  snapshots: ProtocolSnapshot[];
+  prices?: PriceSnapshot[];
+}
+
+export interface BacktestOptions {
+  // Annual, in percent, subtracted from returns for the Sharpe ratio
+  riskFreeRate?: number;
+}
+
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+  // Below the running peak, in percent
+  drawdown: number;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  startDate: Date;
+  endDate: Date;
+  equityCurve: EquityPoint[];
+  finalEquity: number;
+  // Percentages
+  totalReturn: number;
+  realizedAPY: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  gasSpent: number;
+  rebalances: number;
+  compounds: number;
+  // Share of final equity per protocol
+  finalWeights: Record<string, number>;
+  enteredAt?: Date;
+  exit?: { timestamp: Date; reason: 'stopLoss' | 'takeProfit' };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const YEAR = 365 * DAY;
+
+const FREQUENCY_PERIODS: Record<BacktestFrequency, number> = {
+  never: Infinity,
+  daily: DAY,
+  weekly: 7 * DAY,
+  monthly: 30 * DAY
+};
+
+const DEFAULT_REBALANCE_THRESHOLD = 0.01;
+
+interface Holding {
+  value: number;
+  // Rewards earned since the last compound, in USD
+  pending: number;
+}
+
+// Latest reading at or before a time, each list sorted ascending
+const findAt = <T extends { timestamp: Date }>(items: T[], time: number): T | undefined => {
+  let found: T | undefined;
+  for (const item of items) {
+    if (item.timestamp.getTime() > time) break;
+    found = item;
+  }
+  return found;
+};
+
+// Protocols as they stood at a time; a protocol without a snapshot yet cannot be allocated to
+const getProtocolsAt = (
+  protocols: ProtocolData[],
+  history: Map<string, ProtocolSnapshot[]>,
+  time: number
+): ProtocolData[] => {
+  return protocols.flatMap(protocol => {
+    const snapshot = findAt(history.get(protocol.id) || [], time);
+    return snapshot && protocol.isActive ? [{ ...protocol, apy: snapshot.apy, tvl: snapshot.tvl, volume24h: snapshot.volume24h }] : [];
+  });
+};
+
+export const getTargetWeights = (rule: AllocationRule, protocols: ProtocolData[]): Record<string, number> => {
+  switch (rule.kind) {
+    case 'fixed': {
+      const available = Object.entries(rule.weights).filter(([id]) => protocols.some(protocol => protocol.id === id));
+      // Weights over 1 are scaled down; under 1 the rest stays in cash
+      const total = available.reduce((sum, [, weight]) => sum + Math.max(0, weight), 0);
+      const scale = total > 1 ? 1 / total : 1;
+      return Object.fromEntries(available.map(([id, weight]) => [id, Math.max(0, weight) * scale]));
+    }
+    case 'topApy': {
+      const picked = protocols
+        .filter(protocol => protocol.riskScore <= (rule.maxRisk ?? 10))
+        .sort((a, b) => b.apy - a.apy)
+        .slice(0, Math.max(0, rule.count));
+      return Object.fromEntries(picked.map(protocol => [protocol.id, 1 / picked.length]));
+    }
+    case 'optimal':
+      return Object.fromEntries(calculateOptimalAllocation(protocols, 1, rule.constraints).allocations
+        .map(allocation => [allocation.protocolId, allocation.weight]));
+    case 'targets':
+      return resolveTargetWeights(rule.allocations, protocols, rule.maxRisk);
+  }
+};
+
+export const toBacktestStrategy = (
+  definition: StrategyDefinition,
+  { initialCapital, gasCostPerTx, exposures }: Pick<BacktestStrategy, 'initialCapital' | 'gasCostPerTx' | 'exposures'>
+): BacktestStrategy => ({
+  name: definition.name,
+  initialCapital,
+  allocation: { kind: 'targets', allocations: definition.allocations, maxRisk: definition.maxRisk },
+  rebalance: definition.rebalance.schedule,
+  compound: definition.compound,
+  gasCostPerTx,
+  exposures,
+  entry: definition.entry,
+  driftThreshold: definition.rebalance.drift,
+  exits: definition.exits
+});
+
+const getSharpeRatio = (equity: number[], timestamps: number[], riskFreeRate: number): number => {
+  const returns = equity.slice(1).map((value, i) => equity[i] > 0 ? value / equity[i] - 1 : 0);
+  if (returns.length < 2) return 0;
+  const periodsPerYear = YEAR / ((timestamps[timestamps.length - 1] - timestamps[0]) / returns.length);
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+  const deviation = Math.sqrt(variance);
+  if (deviation === 0) return 0;
+  return (mean - riskFreeRate / 100 / periodsPerYear) / deviation * Math.sqrt(periodsPerYear);
+};
+
+export const runBacktest = (
+  data: BacktestData,
+  strategy: BacktestStrategy,
+  { riskFreeRate = 0 }: BacktestOptions = {}
+): BacktestResult => {
+  const timestamps = Array.from(new Set(data.snapshots.map(snapshot => snapshot.timestamp.getTime()))).sort((a, b) => a - b);
+  if (timestamps.length < 2) throw new Error('A backtest needs snapshots at two or more times');
+
+  const history = new Map<string, ProtocolSnapshot[]>();
+  [...data.snapshots]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach(snapshot => history.set(snapshot.protocolId, [...(history.get(snapshot.protocolId) || []), snapshot]));
+  const prices = [...(data.prices || [])].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  // Before the first price snapshot the earliest one is used, so early moves are flat
+  const getPrice = (symbol: string, time: number): number | undefined => {
+    return (findAt(prices, time) ?? prices[0])?.prices[symbol];
+  };
+
+  const holdings = new Map<string, Holding>();
+  const threshold = strategy.rebalanceThreshold ?? DEFAULT_REBALANCE_THRESHOLD;
+  let cash = strategy.initialCapital;
+  let gasSpent = 0;
+  let rebalances = 0;
+  let compounds = 0;
+
+  const getEquity = () => cash + Array.from(holdings.values()).reduce((sum, holding) => sum + holding.value + holding.pending, 0);
+
+  // Moves deployed capital and cash to the targets; pending rewards stay with their holding
+  const rebalance = (time: number): boolean => {
+    const weights = getTargetWeights(strategy.allocation, getProtocolsAt(data.protocols, history, time));
+    const total = cash + Array.from(holdings.values()).reduce((sum, holding) => sum + holding.value, 0);
+    const ids = Array.from(new Set([...holdings.keys(), ...Object.keys(weights)]));
+    const trading = ids.filter(id => Math.abs((weights[id] || 0) * total - (holdings.get(id)?.value || 0)) > threshold * total);
+    if (trading.length === 0) return false;
+
+    const gas = trading.length * strategy.gasCostPerTx;
+    const investable = Math.max(0, total - gas);
+    const untouched = ids.filter(id => !trading.includes(id)).reduce((sum, id) => sum + (holdings.get(id)?.value || 0), 0);
+    const wanted = trading.reduce((sum, id) => sum + (weights[id] || 0) * investable, 0);
+    // Holdings left in place inside the threshold can leave less than the targets need
+    const scale = wanted > 0 ? Math.min(1, Math.max(0, investable - untouched) / wanted) : 0;
+
+    trading.forEach(id => {
+      const holding = holdings.get(id) || { value: 0, pending: 0 };
+      holding.value = (weights[id] || 0) * investable * scale;
+      if (holding.value > 0 || holding.pending > 0) holdings.set(id, holding);
+      else holdings.delete(id);
+    });
+    cash = Math.max(0, investable - untouched - wanted * scale);
+    gasSpent += gas;
+    return true;
+  };
+
+  // Positions whose rewards would not cover the gas keep accruing instead
+  const compound = (): boolean => {
+    const due = Array.from(holdings.values()).filter(holding => holding.pending > strategy.gasCostPerTx);
+    due.forEach(holding => {
+      holding.value += holding.pending - strategy.gasCostPerTx;
+      holding.pending = 0;
+    });
+    gasSpent += due.length * strategy.gasCostPerTx;
+    return due.length > 0;
+  };
+
+  // Withdraws every position with its pending rewards into cash
+  const liquidate = () => {
+    const gas = holdings.size * strategy.gasCostPerTx;
+    cash = Math.max(0, getEquity() - gas);
+    gasSpent += gas;
+    holdings.clear();
+  };
+
+  // Largest gap between a position's share of deployed capital plus cash and its target
+  const getDrift = (time: number): number => {
+    const weights = getTargetWeights(strategy.allocation, getProtocolsAt(data.protocols, history, time));
+    const total = cash + Array.from(holdings.values()).reduce((sum, holding) => sum + holding.value, 0);
+    if (total <= 0) return 0;
+    const ids = Array.from(new Set([...holdings.keys(), ...Object.keys(weights)]));
+    return Math.max(0, ...ids.map(id => Math.abs((weights[id] || 0) - (holdings.get(id)?.value || 0) / total)));
+  };
+
+  let lastRebalance = timestamps[0];
+  let lastCompound = timestamps[0];
+  let enteredAt: number | undefined;
+  let exit: BacktestResult['exit'];
+  let entryEquity = 0;
+  let peakEquity = 0;
+
+  // The first deposit is not counted as a rebalance
+  const enter = (time: number) => {
+    if (!evaluateConditions(strategy.entry || [], getProtocolsAt(data.protocols, history, time))) return;
+    rebalance(time);
+    enteredAt = lastRebalance = lastCompound = time;
+    entryEquity = peakEquity = getEquity();
+  };
+
+  const getExitReason = (value: number): 'stopLoss' | 'takeProfit' | undefined => {
+    const { stopLoss, takeProfit, trailing } = strategy.exits || { trailing: false };
+    const reference = trailing ? peakEquity : entryEquity;
+    if (stopLoss !== undefined && value <= reference * (1 - stopLoss / 100)) return 'stopLoss';
+    if (takeProfit !== undefined && value >= entryEquity * (1 + takeProfit / 100)) return 'takeProfit';
+    return undefined;
+  };
+
+  enter(timestamps[0]);
+  const equity = [getEquity()];
+
+  for (let i = 1; i < timestamps.length; i++) {
+    const [from, to] = [timestamps[i - 1], timestamps[i]];
+    const years = (to - from) / YEAR;
+
+    holdings.forEach((holding, id) => {
+      const apy = findAt(history.get(id) || [], from)?.apy ?? 0;
+      holding.pending += holding.value * apy / 100 * years;
+      const exposure = strategy.exposures?.[id];
+      const [startPrice, endPrice] = exposure ? [getPrice(exposure, from), getPrice(exposure, to)] : [];
+      if (startPrice && endPrice) holding.value *= endPrice / startPrice;
+    });
+
+    if (enteredAt === undefined) {
+      enter(to);
+    } else if (!exit) {
+      if (to - lastCompound >= FREQUENCY_PERIODS[strategy.compound]) {
+        if (compound()) compounds++;
+        lastCompound = to;
+      }
+      const scheduled = to - lastRebalance >= FREQUENCY_PERIODS[strategy.rebalance];
+      if (scheduled || (strategy.driftThreshold !== undefined && getDrift(to) > strategy.driftThreshold)) {
+        if (rebalance(to)) rebalances++;
+        lastRebalance = to;
+      }
+
+      peakEquity = Math.max(peakEquity, getEquity());
+      const reason = getExitReason(getEquity());
+      if (reason) {
+        liquidate();
+        exit = { timestamp: new Date(to), reason };
+      }
+    }
+    equity.push(getEquity());
+  }
+
+  let peak = 0;
+  const equityCurve = equity.map((value, i) => {
+    peak = Math.max(peak, value);
+    return { timestamp: new Date(timestamps[i]), equity: value, drawdown: peak > 0 ? (1 - value / peak) * 100 : 0 };
+  });
+
+  const finalEquity = equity[equity.length - 1];
+  const years = (timestamps[timestamps.length - 1] - timestamps[0]) / YEAR;
+  const growth = strategy.initialCapital > 0 ? finalEquity / strategy.initialCapital : 0;
+
+  return {
+    strategy: strategy.name,
+    startDate: new Date(timestamps[0]),
+    endDate: new Date(timestamps[timestamps.length - 1]),
+    equityCurve,
+    finalEquity,
+    totalReturn: (growth - 1) * 100,
+    realizedAPY: growth > 0 ? (Math.pow(growth, 1 / years) - 1) * 100 : -100,
+    maxDrawdown: Math.max(...equityCurve.map(point => point.drawdown)),
+    sharpeRatio: getSharpeRatio(equity, timestamps, riskFreeRate),
+    gasSpent,
+    rebalances,
+    compounds,
+    finalWeights: Object.fromEntries(Array.from(holdings.entries())
+      .map(([id, holding]) => [id, finalEquity > 0 ? (holding.value + holding.pending) / finalEquity : 0])),
+    ...(enteredAt !== undefined ? { enteredAt: new Date(enteredAt) } : {}),
+    ...(exit ? { exit } : {})
+  };
+};
@@ -0,0 +1,38 @@
+import type { HealthStatus } from '@/utils/lending';
+
+/**
+ * @title Dashboard colors
+ * @description Shared chart palette, risk-level and health-factor colors
+ * @author Base DeFi Analytics Team
+ */
+
+export const COLORS = {
+  primary: '#3B82F6',
+  secondary: '#10B981',
+  warning: '#F59E0B',
+  danger: '#EF4444',
+  success: '#22C55E',
+  info: '#06B6D4',
+  purple: '#8B5CF6',
+  pink: '#EC4899'
+};
+
+export const RISK_COLORS: Record<number, string> = {
+  1: '#22C55E', 2: '#22C55E', 3: '#84CC16', 4: '#84CC16',
+  5: '#F59E0B', 6: '#F59E0B', 7: '#F97316', 8: '#F97316',
+  9: '#EF4444', 10: '#EF4444'
+};
+
+// Rounds and clamps a 1-10 risk value so averaged scores still map to a color
+export const getRiskColor = (risk: number): string => {
+  return RISK_COLORS[Math.min(10, Math.max(1, Math.round(risk)))];
+};
+
+export { getRiskLabel } from '@/utils/risk';
+
+export const HEALTH_STATUS_COLORS: Record<HealthStatus, string> = {
+  safe: '#22C55E',
+  warning: '#F59E0B',
+  danger: '#F97316',
+  liquidatable: '#EF4444'
+};
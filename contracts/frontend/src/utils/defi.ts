@@ -0,0 +1,69 @@
+// Relative import: backend tests compile this module too and the backend has no @/ alias
+import type { ApyBreakdown, ProtocolData, TokenPrices } from '../types/analytics';
+
+/**
+ * @title DeFi calculations
+ * @description Yield breakdown helpers used by the dashboard; risk scoring is in utils/risk.ts
+ * @author Base DeFi Analytics Team
+ */
+
+// Vault APYs already include compounding; a headline figure is split assuming daily harvests
+const HEADLINE_COMPOUNDS_PER_YEAR: Partial<Record<ProtocolData['category'], number>> = { Yield: 365 };
+
+// Percent APY from a percent APR reinvested `compoundsPerYear` times, unchanged when 0
+const compound = (apr: number, compoundsPerYear: number): number => {
+  if (compoundsPerYear <= 0) return apr;
+  return (Math.pow(1 + apr / 100 / compoundsPerYear, compoundsPerYear) - 1) * 100;
+};
+
+const uncompound = (apy: number, compoundsPerYear: number): number => {
+  if (compoundsPerYear <= 0) return apy;
+  return (Math.pow(1 + apy / 100, 1 / compoundsPerYear) - 1) * compoundsPerYear * 100;
+};
+
+/**
+ * Splits a protocol's yield into trading fees, lending interest, incentive rewards and
+ * the uplift from compounding them. Rewards are valued at current token prices, moved by
+ * `rewardPriceChange` percent to show how much of the yield an incentive-token dump removes.
+ *
+ * Protocols without yieldSources only have a headline APY, attributed whole to lending
+ * interest for Lending and to trading fees otherwise; rewards then cannot be separated out.
+ */
+export const calculateAPY = (
+  protocol: ProtocolData,
+  prices: TokenPrices,
+  { rewardPriceChange = 0 }: { rewardPriceChange?: number } = {}
+): ApyBreakdown => {
+  const sources = protocol.yieldSources;
+
+  if (!sources) {
+    const compoundsPerYear = HEADLINE_COMPOUNDS_PER_YEAR[protocol.category] ?? 0;
+    const apr = uncompound(protocol.apy, compoundsPerYear);
+    return {
+      tradingFeeApr: protocol.category === 'Lending' ? 0 : apr,
+      lendingInterestApr: protocol.category === 'Lending' ? apr : 0,
+      rewardApr: 0,
+      compoundingUplift: protocol.apy - apr,
+      apy: protocol.apy,
+      assumptions: { source: 'headline', compoundsPerYear, rewardPrices: {}, rewardPriceChange }
+    };
+  }
+
+  const rewardPrices: Record<string, number> = {};
+  const rewardValue = sources.rewardEmissions.reduce((sum, { token, amountPerYear }) => {
+    rewardPrices[token] = (prices[token] || 0) * (1 + rewardPriceChange / 100);
+    return sum + amountPerYear * rewardPrices[token];
+  }, 0);
+  const rewardApr = sources.tvl > 0 ? rewardValue / sources.tvl * 100 : 0;
+  const apr = sources.tradingFeeApr + sources.lendingInterestApr + rewardApr;
+  const apy = compound(apr, sources.compoundsPerYear);
+
+  return {
+    tradingFeeApr: sources.tradingFeeApr,
+    lendingInterestApr: sources.lendingInterestApr,
+    rewardApr,
+    compoundingUplift: apy - apr,
+    apy,
+    assumptions: { source: 'pools', compoundsPerYear: sources.compoundsPerYear, rewardPrices, rewardPriceChange }
+  };
+};
@@ -0,0 +1,71 @@
+// Relative import: backend tests compile this module too and the backend has no @/ alias
+import type { DerivativesMetrics, PerpPosition, ProtocolData } from '../types/analytics';
+
+/**
+ * @title Derivatives helpers
+ * @description Open interest skew, funding and insurance coverage of perp protocols, and
+ * notional, price P&L and liquidation distance of a single perp position
+ * @author Base DeFi Analytics Team
+ */
+
+export interface DerivativesChartRow {
+  protocolId: string;
+  name: string;
+  openInterest: number;
+  longOpenInterest: number;
+  shortOpenInterest: number;
+  // Percent of open interest, positive when longs outweigh shorts
+  skew: number;
+  // Annualized percent, positive when longs pay shorts
+  annualizedFunding: number;
+  insuranceFund: number | null;
+  // Insurance fund as a percent of open interest
+  insuranceCoverage: number | null;
+}
+
+export const getSkew = ({ longOpenInterest, shortOpenInterest }: DerivativesMetrics): number => {
+  const total = longOpenInterest + shortOpenInterest;
+  return total > 0 ? (longOpenInterest - shortOpenInterest) / total * 100 : 0;
+};
+
+export const annualizeFunding = (dailyRate: number): number => dailyRate * 365;
+
+export const getInsuranceCoverage = ({ insuranceFund, openInterest }: DerivativesMetrics): number | null => {
+  if (insuranceFund === undefined || openInterest <= 0) return null;
+  return insuranceFund / openInterest * 100;
+};
+
+// Protocols without published derivatives metrics are left out
+export const buildDerivativesChartData = (protocols: ProtocolData[]): DerivativesChartRow[] => {
+  return protocols
+    .filter((protocol): protocol is ProtocolData & { derivatives: DerivativesMetrics } => protocol.derivatives !== undefined)
+    .map(({ id, name, derivatives }) => ({
+      protocolId: id,
+      name,
+      openInterest: derivatives.openInterest,
+      longOpenInterest: derivatives.longOpenInterest,
+      shortOpenInterest: derivatives.shortOpenInterest,
+      skew: getSkew(derivatives),
+      annualizedFunding: annualizeFunding(derivatives.fundingRate),
+      insuranceFund: derivatives.insuranceFund ?? null,
+      insuranceCoverage: getInsuranceCoverage(derivatives)
+    }));
+};
+
+export const getPerpNotional = (position: PerpPosition): number => position.size * position.markPrice;
+
+// Before funding; UserPosition.pnl includes it
+export const getPerpPricePnl = (position: PerpPosition): number => {
+  const direction = position.side === 'long' ? 1 : -1;
+  return direction * position.size * (position.markPrice - position.entryPrice);
+};
+
+export const getPerpLeverage = (position: PerpPosition): number | null => {
+  return position.margin > 0 ? getPerpNotional(position) / position.margin : null;
+};
+
+// Move from the mark price to liquidation, negative for a drop
+export const getLiquidationDistance = (position: PerpPosition): number | null => {
+  if (position.liquidationPrice === null || position.markPrice <= 0) return null;
+  return (position.liquidationPrice - position.markPrice) / position.markPrice * 100;
+};
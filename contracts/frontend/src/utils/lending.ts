@@ -0,0 +1,144 @@
+// Relative import: the backend alert engine compiles this module too and has no @/ alias
+import type { LendingPosition, TokenPrices, UserPosition } from '../types/analytics';
+
+/**
+ * @title Lending account math
+ * @description Health factor, per-asset liquidation prices and price-shock simulation for
+ * borrow positions. A health factor below 1 means the account can be liquidated.
+ * @author Base DeFi Analytics Team
+ */
+
+export type HealthStatus = 'safe' | 'warning' | 'danger' | 'liquidatable';
+
+export interface LendingAccount {
+  // Owner and accountId, unique across the wallets of a portfolio
+  id: string;
+  accountId: string;
+  protocolId?: string;
+  owner?: string;
+  positions: LendingPosition[];
+}
+
+export interface LiquidationPrice {
+  asset: string;
+  currentPrice: number;
+  // Price at which the health factor reaches 1 with every other price unchanged,
+  // null when no move in this asset alone can liquidate the account
+  liquidationPrice: number | null;
+  // Move from the current price, negative for a drop
+  changePercentage: number | null;
+}
+
+export interface LendingAccountAnalysis {
+  collateralValue: number;
+  // Collateral weighted by liquidation thresholds
+  liquidationCollateralValue: number;
+  debtValue: number;
+  // Infinity for an account without debt
+  healthFactor: number;
+  status: HealthStatus;
+  liquidationPrices: LiquidationPrice[];
+}
+
+// Assets that move with the one named in a price shock
+export const CORRELATED_ASSETS: Record<string, string[]> = {
+  ETH: ['ETH', 'WETH', 'cbETH']
+};
+
+const WARNING_HEALTH_FACTOR = 1.5;
+const DANGER_HEALTH_FACTOR = 1.1;
+
+export const getHealthStatus = (healthFactor: number): HealthStatus => {
+  if (healthFactor < 1) return 'liquidatable';
+  if (healthFactor < DANGER_HEALTH_FACTOR) return 'danger';
+  if (healthFactor < WARNING_HEALTH_FACTOR) return 'warning';
+  return 'safe';
+};
+
+export const formatHealthFactor = (healthFactor: number): string => {
+  return Number.isFinite(healthFactor) ? healthFactor.toFixed(2) : '∞';
+};
+
+// Legs are margined per owner and protocol account; positions without lending data are ignored
+export const groupLendingAccounts = (positions: UserPosition[]): LendingAccount[] => {
+  const accounts = new Map<string, LendingAccount>();
+  positions.forEach(position => {
+    const leg = position.lendingPosition;
+    if (!leg) return;
+    const id = `${position.owner ?? ''}:${leg.accountId}`;
+    let account = accounts.get(id);
+    if (!account) {
+      account = { id, accountId: leg.accountId, protocolId: position.protocolId, owner: position.owner, positions: [] };
+      accounts.set(id, account);
+    }
+    account.positions.push(leg);
+  });
+  return Array.from(accounts.values());
+};
+
+const sumValue = (legs: LendingPosition[], prices: TokenPrices, weighted: boolean): number => {
+  return legs.reduce((sum, leg) => {
+    const value = leg.amount * (prices[leg.asset] || 0);
+    return sum + (weighted ? value * leg.liquidationThreshold : value);
+  }, 0);
+};
+
+export const calculateHealthFactor = (account: LendingAccount, prices: TokenPrices): number => {
+  const supplied = account.positions.filter(leg => leg.side === 'supply');
+  const debtValue = sumValue(account.positions.filter(leg => leg.side === 'borrow'), prices, false);
+  if (debtValue === 0) return Infinity;
+  return sumValue(supplied, prices, true) / debtValue;
+};
+
+// Solves (c * P + C) / (d * P + D) = 1 for the price P of one asset, where c and d are its
+// threshold-weighted collateral and debt amounts and C and D the value of everything else
+const getLiquidationPrice = (account: LendingAccount, asset: string, prices: TokenPrices): LiquidationPrice => {
+  const currentPrice = prices[asset] || 0;
+  const ownLegs = account.positions.filter(leg => leg.asset === asset);
+  const otherLegs = account.positions.filter(leg => leg.asset !== asset);
+
+  const weightedCollateral = ownLegs.filter(leg => leg.side === 'supply')
+    .reduce((sum, leg) => sum + leg.amount * leg.liquidationThreshold, 0);
+  const debt = ownLegs.filter(leg => leg.side === 'borrow').reduce((sum, leg) => sum + leg.amount, 0);
+  const otherCollateralValue = sumValue(otherLegs.filter(leg => leg.side === 'supply'), prices, true);
+  const otherDebtValue = sumValue(otherLegs.filter(leg => leg.side === 'borrow'), prices, false);
+
+  const exposure = weightedCollateral - debt;
+  const price = exposure !== 0 ? (otherDebtValue - otherCollateralValue) / exposure : null;
+  const liquidationPrice = price !== null && price > 0 ? price : null;
+
+  return {
+    asset,
+    currentPrice,
+    liquidationPrice,
+    changePercentage: liquidationPrice !== null && currentPrice > 0 ? (liquidationPrice / currentPrice - 1) * 100 : null
+  };
+};
+
+export const analyzeLendingAccount = (account: LendingAccount, prices: TokenPrices): LendingAccountAnalysis => {
+  const supplied = account.positions.filter(leg => leg.side === 'supply');
+  const borrowed = account.positions.filter(leg => leg.side === 'borrow');
+  const debtValue = sumValue(borrowed, prices, false);
+  const healthFactor = calculateHealthFactor(account, prices);
+
+  // Only collateral that counts toward the borrow limit can trigger a liquidation
+  const collateralAssets = Array.from(new Set(supplied.filter(leg => leg.liquidationThreshold > 0).map(leg => leg.asset)));
+
+  return {
+    collateralValue: sumValue(supplied, prices, false),
+    liquidationCollateralValue: sumValue(supplied, prices, true),
+    debtValue,
+    healthFactor,
+    status: getHealthStatus(healthFactor),
+    liquidationPrices: debtValue > 0 ? collateralAssets.map(asset => getLiquidationPrice(account, asset, prices)) : []
+  };
+};
+
+// Moves an asset and everything correlated with it by changePercentage, e.g. -30 for a 30% drop
+export const applyPriceShock = (prices: TokenPrices, asset: string, changePercentage: number): TokenPrices => {
+  const shocked = { ...prices };
+  (CORRELATED_ASSETS[asset] || [asset]).forEach(symbol => {
+    if (shocked[symbol] !== undefined) shocked[symbol] = shocked[symbol] * (1 + changePercentage / 100);
+  });
+  return shocked;
+};
@@ -0,0 +1,37 @@
+import type { TokenPrices, UserPosition } from '@/types/analytics';
+import { getPendingRewardValue } from '@/utils/rewards';
+
+/**
+ * @title Portfolio helpers
+ * @description Aggregates positions into the headline portfolio figures
+ * @author Base DeFi Analytics Team
+ */
+
+export interface PortfolioSummary {
+  totalValue: number;
+  totalPnL: number;
+  totalPnLPercentage: number;
+  totalPendingRewards: number;
+  weightedAPY: number;
+  averageRisk: number;
+  positionCount: number;
+}
+
+// Pending rewards held per token are valued at the given prices
+export const summarizePositions = (positions: UserPosition[], prices: TokenPrices): PortfolioSummary | null => {
+  if (!positions.length) return null;
+  const totalValue = positions.reduce((sum, pos) => sum + pos.currentValue, 0);
+  const totalPnL = positions.reduce((sum, pos) => sum + pos.pnl, 0);
+
+  return {
+    totalValue,
+    totalPnL,
+    totalPnLPercentage: totalValue > 0 ? (totalPnL / (totalValue - totalPnL)) * 100 : 0,
+    totalPendingRewards: positions.reduce((sum, pos) => sum + getPendingRewardValue(pos, prices), 0),
+    weightedAPY: totalValue > 0 ? positions.reduce((sum, pos) => sum + (pos.apy * pos.currentValue / totalValue), 0) : 0,
+    averageRisk: positions.reduce((sum, pos) => sum + pos.riskLevel, 0) / positions.length,
+    positionCount: positions.length
+  };
+};
+
+export const shortenAddress = (address: string): string => `${address.slice(0, 6)}…${address.slice(-4)}`;
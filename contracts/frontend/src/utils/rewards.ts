@@ -0,0 +1,109 @@
+// Relative import: the backend compiles this module too and has no @/ alias
+import type {
+  ClaimCosts,
+  ClaimSchedule,
+  RewardBalance,
+  RewardPlan,
+  RewardValuation,
+  TokenPrices,
+  UserPosition
+} from '../types/analytics';
+
+/**
+ * @title Reward claim planning
+ * @description Values pending reward tokens at current prices and weighs the gas of claiming
+ * or compounding them against the rewards, to find the schedule with the best net yield
+ * @author Base DeFi Analytics Team
+ */
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Claim once the gas is at most this share of the rewards claimed
+export const MAX_CLAIM_COST_SHARE = 0.02;
+
+// Under a day of accrual is too noisy to extrapolate, so the position's APY is used instead
+const MIN_OBSERVED_DAYS = 1;
+
+const MAX_COMPOUNDS_PER_YEAR = 365;
+
+export const valueRewards = (rewards: RewardBalance[], prices: TokenPrices): RewardValuation[] => {
+  return rewards.map(({ token, amount }) => {
+    const price = prices[token];
+    return price
+      ? { token, amount, price, priceSource: 'feed', value: amount * price }
+      : { token, amount, price: 0, priceSource: 'unpriced', value: 0 };
+  });
+};
+
+// Per-token rewards are revalued at current prices; otherwise pendingRewards is already USD
+export const getPendingRewardValue = (position: UserPosition, prices: TokenPrices): number => {
+  if (!position.rewards) return position.pendingRewards;
+  return valueRewards(position.rewards, prices).reduce((sum, reward) => sum + reward.value, 0);
+};
+
+export const hasClaimableRewards = (position: UserPosition): boolean => {
+  return (position.rewards?.length ?? 0) > 0 || position.pendingRewards > 0;
+};
+
+const getDailyRewardValue = (position: UserPosition, pendingValue: number, now: Date): number => {
+  const elapsedDays = (now.getTime() - position.lastRewardClaim.getTime()) / DAY;
+  if (pendingValue > 0 && elapsedDays >= MIN_OBSERVED_DAYS) return pendingValue / elapsedDays;
+  return position.apy / 100 * position.currentValue / 365;
+};
+
+// Claimed rewards earn nothing more, so claims are only spaced to keep gas a small share of them
+const getClaimSchedule = (yearlyRewards: number, cost: number): ClaimSchedule | null => {
+  if (yearlyRewards <= cost) return null;
+  const dailyRewards = yearlyRewards / 365;
+  const intervalDays = Math.min(Math.max(cost / MAX_CLAIM_COST_SHARE / dailyRewards, 1), 365);
+  return { kind: 'claim', intervalDays, netYearlyValue: yearlyRewards - 365 / intervalDays * cost };
+};
+
+// Each compound adds the rewards to the principal that earns them; more compounds grow the
+// position faster but each pays the gas again
+const getCompoundSchedule = (principal: number, yearlyRewards: number, cost: number): ClaimSchedule | null => {
+  if (principal <= 0 || yearlyRewards <= 0) return null;
+  const rate = yearlyRewards / principal;
+  let best: ClaimSchedule | null = null;
+  for (let compounds = 1; compounds <= MAX_COMPOUNDS_PER_YEAR; compounds++) {
+    const netYearlyValue = principal * (Math.pow(1 + rate / compounds, compounds) - 1) - compounds * cost;
+    if (netYearlyValue > 0 && (!best || netYearlyValue > best.netYearlyValue)) {
+      best = { kind: 'compound', intervalDays: 365 / compounds, netYearlyValue };
+    }
+  }
+  return best;
+};
+
+export const planRewardClaims = (
+  position: UserPosition,
+  prices: TokenPrices,
+  costs: ClaimCosts,
+  now: Date = new Date()
+): RewardPlan => {
+  const rewards = valueRewards(position.rewards || [], prices);
+  const pendingValue = getPendingRewardValue(position, prices);
+  const dailyRewardValue = getDailyRewardValue(position, pendingValue, now);
+  const yearlyRewards = dailyRewardValue * 365;
+
+  const schedule = [
+    getClaimSchedule(yearlyRewards, costs.claim),
+    getCompoundSchedule(position.currentValue, yearlyRewards, costs.compound)
+  ].reduce<ClaimSchedule | null>((best, candidate) => {
+    return candidate && (!best || candidate.netYearlyValue > best.netYearlyValue) ? candidate : best;
+  }, null);
+
+  // Rewards that should have accrued before each claim on the schedule
+  const target = schedule ? dailyRewardValue * schedule.intervalDays : 0;
+  const daysUntilDue = schedule ? Math.max(target - pendingValue, 0) / dailyRewardValue : 0;
+
+  return {
+    strategyId: position.strategyId,
+    rewards,
+    pendingValue,
+    dailyRewardValue,
+    claimCost: costs.claim,
+    action: schedule && daysUntilDue === 0 ? schedule.kind : 'wait',
+    schedule,
+    nextClaimAt: schedule ? new Date(now.getTime() + daysUntilDue * DAY) : null
+  };
+};
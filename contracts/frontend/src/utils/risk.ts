@@ -0,0 +1,169 @@
+// Relative import: the backend scores protocols with this module too and has no @/ alias
+import type {
+  ProtocolData,
+  ProtocolSnapshot,
+  RiskAssessment,
+  RiskFactor,
+  RiskFactorKey
+} from '../types/analytics';
+
+/**
+ * @title Protocol risk
+ * @description Scores protocols on explicit risk factors. The API scores every protocol it
+ * serves with it, so the dashboard, yield filters and headline risk agree.
+ * @author Base DeFi Analytics Team
+ */
+
+export const getRiskLabel = (risk: number): 'Low' | 'Medium' | 'High' => {
+  return risk <= 3 ? 'Low' : risk <= 6 ? 'Medium' : 'High';
+};
+
+// Relative importance of each factor; utilization only counts for lending markets
+export const RISK_FACTOR_WEIGHTS: Record<RiskFactorKey, number> = {
+  tvlSize: 0.15,
+  tvlVolatility: 0.15,
+  contractAge: 0.15,
+  oracle: 0.15,
+  adminControl: 0.15,
+  utilization: 0.1,
+  audits: 0.15
+};
+
+// Score given to a factor the profile has no data for
+const UNKNOWN_RISK = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ORACLE_RISK = { none: 1, chainlink: 3, twap: 5, custom: 8 } as const;
+const ORACLE_DETAIL = {
+  none: 'No price oracle dependency',
+  chainlink: 'Relies on Chainlink price feeds',
+  twap: 'Relies on on-chain TWAP prices',
+  custom: 'Relies on a custom price oracle'
+} as const;
+
+const ADMIN_RISK = { immutable: 1, timelock: 3, multisig: 6, eoa: 10 } as const;
+const ADMIN_DETAIL = {
+  immutable: 'Contracts are not upgradeable',
+  timelock: 'Upgrades go through a timelock',
+  multisig: 'Upgradeable by a multisig without timelock',
+  eoa: 'Upgradeable by a single key'
+} as const;
+
+// Kept here rather than taken from the dashboard formatters so the backend can score too
+const formatTvl = (tvl: number): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', notation: 'compact' }).format(tvl);
+};
+
+const clampRisk = (score: number): number => Math.min(10, Math.max(1, score));
+
+// Interpolates a risk score from (value, score) steps sorted by ascending value
+const interpolate = (value: number, steps: [number, number][]): number => {
+  if (value <= steps[0][0]) return steps[0][1];
+  for (let i = 1; i < steps.length; i++) {
+    const [x1, y1] = steps[i];
+    if (value <= x1) {
+      const [x0, y0] = steps[i - 1];
+      return y0 + ((value - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  return steps[steps.length - 1][1];
+};
+
+// Standard deviation of snapshot-to-snapshot TVL changes, in percent
+const getTvlVolatility = (history: ProtocolSnapshot[]): number | null => {
+  const changes: number[] = [];
+  for (let i = 1; i < history.length; i++) {
+    const previous = history[i - 1].tvl;
+    if (previous > 0) changes.push(((history[i].tvl - previous) / previous) * 100);
+  }
+  if (changes.length < 2) return null;
+  const mean = changes.reduce((sum, change) => sum + change, 0) / changes.length;
+  return Math.sqrt(changes.reduce((sum, change) => sum + (change - mean) ** 2, 0) / changes.length);
+};
+
+/**
+ * Scores a protocol on explicit risk factors and combines them into a 1-10 score.
+ * Each factor maps to 1 (safest) - 10 and carries its own explanation; factors the
+ * protocol's profile lacks data for score as unknown rather than safe.
+ *
+ * @param history Snapshots sorted oldest first, used for TVL volatility. Without
+ * enough history the 24h TVL change stands in.
+ */
+export const calculateRisk = (
+  protocol: ProtocolData,
+  history: ProtocolSnapshot[] = [],
+  now: Date = new Date()
+): RiskAssessment => {
+  const profile = protocol.riskProfile || {};
+  const factors: Omit<RiskFactor, 'weight'>[] = [];
+
+  factors.push({
+    key: 'tvlSize',
+    label: 'TVL size',
+    score: protocol.tvl > 0
+      ? interpolate(Math.log10(protocol.tvl), [[6, 9], [7, 6], [8, 4], [9, 2], [10, 1]])
+      : 10,
+    detail: `${formatTvl(protocol.tvl)} locked; deeper pools are harder to drain or destabilize`
+  });
+
+  const volatility = getTvlVolatility(history);
+  factors.push({
+    key: 'tvlVolatility',
+    label: 'TVL volatility',
+    score: interpolate(volatility ?? Math.abs(protocol.change24h), [[0, 1], [2, 3], [5, 6], [10, 9], [20, 10]]),
+    detail: volatility !== null
+      ? `TVL moves ${volatility.toFixed(1)}% between snapshots on average`
+      : `TVL changed ${protocol.change24h.toFixed(1)}% in 24h`
+  });
+
+  if (profile.launchDate) {
+    const months = (now.getTime() - profile.launchDate.getTime()) / (30 * DAY_MS);
+    factors.push({
+      key: 'contractAge',
+      label: 'Contract age',
+      score: interpolate(months, [[0, 10], [3, 9], [6, 7], [12, 5], [24, 3], [36, 1]]),
+      detail: `Live for ${Math.floor(months)} months`
+    });
+  } else {
+    factors.push({ key: 'contractAge', label: 'Contract age', score: UNKNOWN_RISK, detail: 'Launch date unknown' });
+  }
+
+  factors.push(profile.oracle
+    ? { key: 'oracle', label: 'Oracle dependency', score: ORACLE_RISK[profile.oracle], detail: ORACLE_DETAIL[profile.oracle] }
+    : { key: 'oracle', label: 'Oracle dependency', score: UNKNOWN_RISK, detail: 'Oracle setup unknown' });
+
+  factors.push(profile.adminControl
+    ? { key: 'adminControl', label: 'Admin keys', score: ADMIN_RISK[profile.adminControl], detail: ADMIN_DETAIL[profile.adminControl] }
+    : { key: 'adminControl', label: 'Admin keys', score: UNKNOWN_RISK, detail: 'Upgradeability unknown' });
+
+  if (protocol.category === 'Lending') {
+    factors.push(profile.utilization !== undefined
+      ? {
+        key: 'utilization',
+        label: 'Utilization',
+        score: interpolate(profile.utilization, [[0.5, 1], [0.7, 3], [0.8, 5], [0.9, 8], [0.95, 10]]),
+        detail: `${(profile.utilization * 100).toFixed(0)}% of supplied assets are borrowed; high utilization can block withdrawals`
+      }
+      : { key: 'utilization', label: 'Utilization', score: UNKNOWN_RISK, detail: 'Utilization unknown' });
+  }
+
+  factors.push(profile.audits !== undefined
+    ? {
+      key: 'audits',
+      label: 'Audits',
+      score: interpolate(profile.audits, [[0, 9], [1, 5], [2, 3], [3, 1]]),
+      detail: profile.audits === 0 ? 'No published audits' : `${profile.audits} published audit${profile.audits === 1 ? '' : 's'}`
+    }
+    : { key: 'audits', label: 'Audits', score: UNKNOWN_RISK, detail: 'Audit status unknown' });
+
+  const totalWeight = factors.reduce((sum, factor) => sum + RISK_FACTOR_WEIGHTS[factor.key], 0);
+  const weighted = factors.map(factor => ({
+    ...factor,
+    score: Math.round(clampRisk(factor.score) * 10) / 10,
+    weight: RISK_FACTOR_WEIGHTS[factor.key] / totalWeight
+  }));
+  const score = Math.round(clampRisk(weighted.reduce((sum, factor) => sum + factor.score * factor.weight, 0)) * 10) / 10;
+
+  return { score, label: getRiskLabel(score), factors: weighted };
+};
@@ -0,0 +1,326 @@
+// Relative imports: the backend and the backtest CLI compile this module too and have no @/ alias
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { ProtocolCategory, ProtocolData } from '../types/analytics';
+import {
+  STRATEGY_SCHEMA_VERSION,
+  type ComparisonOperator,
+  type StrategyAllocation,
+  type StrategyCondition,
+  type StrategyDefinition,
+  type StrategyFrequency,
+  type StrategyIssue,
+  type StrategyMetric,
+  type StrategyTarget
+} from '../types/strategy';
+
+/**
+ * @title Strategy documents
+ * @description Validates JSON or YAML strategy documents into a typed definition, writes
+ * definitions back in a canonical form that diffs cleanly, and evaluates their entry
+ * conditions and allocations against protocol data
+ * @author Base DeFi Analytics Team
+ *
+ * A version 1 document:
+ *
+ *   version: 1
+ *   name: Conservative lending
+ *   maxRisk: 4
+ *   entry:
+ *     - { category: Lending, metric: apy, operator: '>=', value: 4 }
+ *   allocations:
+ *     - { protocol: aave-v3, weight: 0.5 }
+ *     - { category: Lending, weight: 0.4, top: 2, by: apy }
+ *   rebalance: { schedule: weekly, drift: 0.05 }
+ *   compound: daily
+ *   exits: { stopLoss: 10, takeProfit: 25, trailing: true }
+ */
+
+export const STRATEGY_FREQUENCIES: StrategyFrequency[] = ['never', 'daily', 'weekly', 'monthly'];
+export const STRATEGY_METRICS: StrategyMetric[] = ['apy', 'tvl', 'riskScore', 'change24h', 'volume24h'];
+export const COMPARISON_OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<='];
+const CATEGORIES: ProtocolCategory[] = ['DEX', 'Lending', 'Yield', 'Derivatives'];
+
+// Allocations may sum to slightly over 1 from rounding in hand-written documents
+const WEIGHT_TOLERANCE = 1e-6;
+
+export class StrategyValidationError extends Error {
+  constructor(readonly issues: StrategyIssue[]) {
+    super(`Invalid strategy: ${issues.map(issue => `${issue.path || 'document'}: ${issue.message}`).join('; ')}`);
+    this.name = 'StrategyValidationError';
+  }
+}
+
+export type StrategyValidationResult =
+  | { ok: true; strategy: StrategyDefinition }
+  | { ok: false; issues: StrategyIssue[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const join = (path: string, key: string | number): string => (path ? `${path}.${key}` : String(key));
+
+// Collects every problem in one pass so an author can fix a document at once
+class Reader {
+  readonly issues: StrategyIssue[] = [];
+
+  fail(path: string, message: string): undefined {
+    this.issues.push({ path, message });
+    return undefined;
+  }
+
+  // Unknown fields are rejected so a typo does not silently fall back to a default
+  record(value: unknown, path: string, allowed: string[]): Record<string, unknown> | undefined {
+    if (!isRecord(value)) return this.fail(path, 'must be an object');
+    Object.keys(value).filter(key => !allowed.includes(key)).forEach(key => this.fail(join(path, key), 'is not a known field'));
+    return value;
+  }
+
+  number(value: unknown, path: string, { min, max, integer }: { min?: number; max?: number; integer?: boolean } = {}): number | undefined {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return this.fail(path, 'must be a number');
+    if (integer && !Number.isInteger(value)) return this.fail(path, 'must be a whole number');
+    if (min !== undefined && value < min) return this.fail(path, `must be at least ${min}`);
+    if (max !== undefined && value > max) return this.fail(path, `must be at most ${max}`);
+    return value;
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return this.fail(path, 'must be a non-empty string');
+    return value.trim();
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, options: T[]): T | undefined {
+    if (!options.includes(value as T)) return this.fail(path, `must be one of ${options.join(', ')}`);
+    return value as T;
+  }
+
+  list(value: unknown, path: string): unknown[] | undefined {
+    if (!Array.isArray(value)) return this.fail(path, 'must be a list');
+    return value;
+  }
+
+  target(value: Record<string, unknown>, path: string): StrategyTarget | undefined {
+    if ((value.protocol === undefined) === (value.category === undefined)) {
+      return this.fail(path, 'needs exactly one of protocol or category');
+    }
+    if (value.protocol !== undefined) {
+      const protocolId = this.string(value.protocol, join(path, 'protocol'));
+      return protocolId === undefined ? undefined : { kind: 'protocol', protocolId };
+    }
+    const category = this.oneOf(value.category, join(path, 'category'), CATEGORIES);
+    return category === undefined ? undefined : { kind: 'category', category };
+  }
+}
+
+const readCondition = (reader: Reader, value: unknown, path: string): StrategyCondition | undefined => {
+  const record = reader.record(value, path, ['protocol', 'category', 'metric', 'operator', 'value']);
+  if (!record) return undefined;
+  const target = reader.target(record, path);
+  const metric = reader.oneOf(record.metric, join(path, 'metric'), STRATEGY_METRICS);
+  const operator = reader.oneOf(record.operator, join(path, 'operator'), COMPARISON_OPERATORS);
+  const threshold = reader.number(record.value, join(path, 'value'));
+  if (!target || !metric || !operator || threshold === undefined) return undefined;
+  return { target, metric, operator, value: threshold };
+};
+
+const readAllocation = (reader: Reader, value: unknown, path: string): StrategyAllocation | undefined => {
+  const record = reader.record(value, path, ['protocol', 'category', 'weight', 'top', 'by']);
+  if (!record) return undefined;
+  const target = reader.target(record, path);
+  const weight = reader.number(record.weight, join(path, 'weight'), { min: 0, max: 1 });
+
+  let select: StrategyAllocation['select'];
+  if (record.top !== undefined || record.by !== undefined) {
+    if (target?.kind === 'protocol') return reader.fail(path, 'top and by only apply to a category');
+    const top = reader.number(record.top, join(path, 'top'), { min: 1, integer: true });
+    const by = reader.oneOf(record.by, join(path, 'by'), STRATEGY_METRICS);
+    if (top !== undefined && by !== undefined) select = { top, by };
+  }
+  if (!target || weight === undefined) return undefined;
+  return { target, weight, ...(select ? { select } : {}) };
+};
+
+export const validateStrategy = (input: unknown): StrategyValidationResult => {
+  const reader = new Reader();
+  const document = reader.record(input, '', [
+    'version', 'name', 'description', 'author', 'tags', 'maxRisk', 'entry', 'allocations', 'rebalance', 'compound', 'exits'
+  ]);
+  if (!document) return { ok: false, issues: reader.issues };
+
+  if (document.version !== STRATEGY_SCHEMA_VERSION) {
+    reader.fail('version', `must be ${STRATEGY_SCHEMA_VERSION}, the only version this build reads`);
+  }
+  const name = reader.string(document.name, 'name');
+  const description = document.description === undefined ? undefined : reader.string(document.description, 'description');
+  const author = document.author === undefined ? undefined : reader.string(document.author, 'author');
+  const tags = document.tags === undefined
+    ? []
+    : (reader.list(document.tags, 'tags') || []).map((tag, i) => reader.string(tag, join('tags', i)));
+  const maxRisk = document.maxRisk === undefined ? 10 : reader.number(document.maxRisk, 'maxRisk', { min: 1, max: 10 });
+
+  const entry = document.entry === undefined
+    ? []
+    : (reader.list(document.entry, 'entry') || []).map((condition, i) => readCondition(reader, condition, join('entry', i)));
+
+  const allocationList = reader.list(document.allocations, 'allocations') || [];
+  if (Array.isArray(document.allocations) && allocationList.length === 0) reader.fail('allocations', 'must not be empty');
+  const allocations = allocationList.map((allocation, i) => readAllocation(reader, allocation, join('allocations', i)));
+  const totalWeight = allocations.reduce((sum, allocation) => sum + (allocation?.weight || 0), 0);
+  if (totalWeight > 1 + WEIGHT_TOLERANCE) reader.fail('allocations', `weights add up to ${totalWeight}, more than 1`);
+
+  const rebalanceRecord = document.rebalance === undefined ? {} : reader.record(document.rebalance, 'rebalance', ['schedule', 'drift']);
+  const schedule = rebalanceRecord?.schedule === undefined
+    ? 'never'
+    : reader.oneOf(rebalanceRecord.schedule, 'rebalance.schedule', STRATEGY_FREQUENCIES);
+  const drift = rebalanceRecord?.drift === undefined
+    ? undefined
+    : reader.number(rebalanceRecord.drift, 'rebalance.drift', { min: 0, max: 1 });
+
+  const compound = document.compound === undefined ? 'never' : reader.oneOf(document.compound, 'compound', STRATEGY_FREQUENCIES);
+
+  const exitsRecord = document.exits === undefined ? {} : reader.record(document.exits, 'exits', ['stopLoss', 'takeProfit', 'trailing']);
+  const stopLoss = exitsRecord?.stopLoss === undefined
+    ? undefined
+    : reader.number(exitsRecord.stopLoss, 'exits.stopLoss', { min: 0, max: 100 });
+  const takeProfit = exitsRecord?.takeProfit === undefined
+    ? undefined
+    : reader.number(exitsRecord.takeProfit, 'exits.takeProfit', { min: 0 });
+  if (exitsRecord?.trailing !== undefined && typeof exitsRecord.trailing !== 'boolean') reader.fail('exits.trailing', 'must be true or false');
+
+  if (reader.issues.length) return { ok: false, issues: reader.issues };
+
+  return {
+    ok: true,
+    strategy: {
+      version: STRATEGY_SCHEMA_VERSION,
+      name: name as string,
+      ...(description !== undefined ? { description } : {}),
+      ...(author !== undefined ? { author } : {}),
+      tags: tags as string[],
+      maxRisk: maxRisk as number,
+      entry: entry as StrategyCondition[],
+      allocations: allocations as StrategyAllocation[],
+      rebalance: { schedule: schedule as StrategyFrequency, ...(drift !== undefined ? { drift } : {}) },
+      compound: compound as StrategyFrequency,
+      exits: {
+        ...(stopLoss !== undefined ? { stopLoss } : {}),
+        ...(takeProfit !== undefined ? { takeProfit } : {}),
+        trailing: exitsRecord?.trailing === true
+      }
+    }
+  };
+};
+
+// Accepts JSON or YAML; JSON is valid YAML, so one parser reads both
+export const parseStrategy = (source: string): StrategyDefinition => {
+  let document: unknown;
+  try {
+    document = parseYaml(source);
+  } catch (err) {
+    throw new StrategyValidationError([{ path: '', message: err instanceof Error ? err.message : 'is not valid JSON or YAML' }]);
+  }
+  const result = validateStrategy(document);
+  if (!result.ok) throw new StrategyValidationError(result.issues);
+  return result.strategy;
+};
+
+const targetFields = (target: StrategyTarget) => {
+  return target.kind === 'protocol' ? { protocol: target.protocolId } : { category: target.category };
+};
+
+// Document form with a fixed field order and every default written out, so two
+// definitions that mean the same thing serialize identically
+export const toStrategyDocument = (strategy: StrategyDefinition): Record<string, unknown> => ({
+  version: strategy.version,
+  name: strategy.name,
+  ...(strategy.description !== undefined ? { description: strategy.description } : {}),
+  ...(strategy.author !== undefined ? { author: strategy.author } : {}),
+  tags: strategy.tags,
+  maxRisk: strategy.maxRisk,
+  entry: strategy.entry.map(condition => ({
+    ...targetFields(condition.target),
+    metric: condition.metric,
+    operator: condition.operator,
+    value: condition.value
+  })),
+  allocations: strategy.allocations.map(allocation => ({
+    ...targetFields(allocation.target),
+    weight: allocation.weight,
+    ...(allocation.select ? { top: allocation.select.top, by: allocation.select.by } : {})
+  })),
+  rebalance: {
+    schedule: strategy.rebalance.schedule,
+    ...(strategy.rebalance.drift !== undefined ? { drift: strategy.rebalance.drift } : {})
+  },
+  compound: strategy.compound,
+  exits: {
+    ...(strategy.exits.stopLoss !== undefined ? { stopLoss: strategy.exits.stopLoss } : {}),
+    ...(strategy.exits.takeProfit !== undefined ? { takeProfit: strategy.exits.takeProfit } : {}),
+    trailing: strategy.exits.trailing
+  }
+});
+
+export const serializeStrategy = (strategy: StrategyDefinition, format: 'json' | 'yaml' = 'yaml'): string => {
+  const document = toStrategyDocument(strategy);
+  return format === 'json' ? `${JSON.stringify(document, null, 2)}\n` : stringifyYaml(document);
+};
+
+const getTargetProtocols = (target: StrategyTarget, protocols: ProtocolData[]): ProtocolData[] => {
+  return protocols.filter(protocol => target.kind === 'protocol'
+    ? protocol.id === target.protocolId
+    : protocol.category === target.category);
+};
+
+// Sums for size metrics, TVL-weighted averages for rates and scores; undefined without protocols
+export const getTargetMetric = (target: StrategyTarget, metric: StrategyMetric, protocols: ProtocolData[]): number | undefined => {
+  const matched = getTargetProtocols(target, protocols).filter(protocol => protocol.isActive);
+  if (matched.length === 0) return undefined;
+  if (metric === 'tvl' || metric === 'volume24h') return matched.reduce((sum, protocol) => sum + protocol[metric], 0);
+  const tvl = matched.reduce((sum, protocol) => sum + protocol.tvl, 0);
+  return tvl > 0
+    ? matched.reduce((sum, protocol) => sum + protocol[metric] * protocol.tvl, 0) / tvl
+    : matched.reduce((sum, protocol) => sum + protocol[metric], 0) / matched.length;
+};
+
+const compare = (left: number, operator: ComparisonOperator, right: number): boolean => {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+  }
+};
+
+// A condition on a protocol or category with no data does not hold
+export const evaluateConditions = (conditions: StrategyCondition[], protocols: ProtocolData[]): boolean => {
+  return conditions.every(condition => {
+    const value = getTargetMetric(condition.target, condition.metric, protocols);
+    return value !== undefined && compare(value, condition.operator, condition.value);
+  });
+};
+
+// Weights by protocol id. Protocols that are inactive or above maxRisk are skipped, and a
+// protocol named directly and through its category receives both shares.
+export const resolveTargetWeights = (
+  allocations: StrategyAllocation[],
+  protocols: ProtocolData[],
+  maxRisk = 10
+): Record<string, number> => {
+  const eligible = protocols.filter(protocol => protocol.isActive && protocol.riskScore <= maxRisk);
+  const weights: Record<string, number> = {};
+
+  allocations.forEach(allocation => {
+    let matched = getTargetProtocols(allocation.target, eligible);
+    if (allocation.select) {
+      const { top, by } = allocation.select;
+      // Lower risk ranks first; every other metric ranks highest first
+      matched = [...matched]
+        .sort((a, b) => by === 'riskScore' ? a[by] - b[by] : b[by] - a[by])
+        .slice(0, top);
+    }
+    matched.forEach(protocol => {
+      weights[protocol.id] = (weights[protocol.id] || 0) + allocation.weight / matched.length;
+    });
+  });
+  return weights;
+};
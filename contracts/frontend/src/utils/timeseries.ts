@@ -0,0 +1,101 @@
+import type { ProtocolHistory, ProtocolSnapshot, Timeframe } from '@/types/analytics';
+
+/**
+ * @title Time-series helpers
+ * @description Windowing and bucketing of protocol snapshots for the historical charts
+ * @author Base DeFi Analytics Team
+ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const TIMEFRAMES: Timeframe[] = ['24h', '7d', '30d', '90d'];
+
+// Length of each window and the bucket size used to keep charts readable
+export const TIMEFRAME_CONFIG: Record<Timeframe, { duration: number; bucket: number }> = {
+  '24h': { duration: DAY, bucket: HOUR },
+  '7d': { duration: 7 * DAY, bucket: 4 * HOUR },
+  '30d': { duration: 30 * DAY, bucket: DAY },
+  '90d': { duration: 90 * DAY, bucket: DAY }
+};
+
+export type SnapshotMetric = 'tvl' | 'apy' | 'volume24h';
+
+export interface TimeSeriesPoint {
+  timestamp: number;
+  [protocolId: string]: number;
+}
+
+export const getTimeframeStart = (timeframe: Timeframe, now: number = Date.now()): number => {
+  return now - TIMEFRAME_CONFIG[timeframe].duration;
+};
+
+export const filterSnapshots = (
+  snapshots: ProtocolSnapshot[],
+  timeframe: Timeframe,
+  now: number = Date.now()
+): ProtocolSnapshot[] => {
+  const start = getTimeframeStart(timeframe, now);
+  return snapshots.filter(snapshot => {
+    const time = snapshot.timestamp.getTime();
+    return time >= start && time <= now;
+  });
+};
+
+/**
+ * Pivots per-protocol snapshots into one row per bucket with a column per protocol.
+ * Each bucket keeps the latest reading, and protocols missing a bucket carry their
+ * previous value forward so stacked charts do not dip to zero.
+ */
+export const buildTimeSeries = (
+  history: ProtocolHistory,
+  protocolIds: string[],
+  metric: SnapshotMetric,
+  timeframe: Timeframe,
+  now: number = Date.now()
+): TimeSeriesPoint[] => {
+  const { bucket } = TIMEFRAME_CONFIG[timeframe];
+  const buckets = new Map<number, Record<string, { time: number; value: number }>>();
+
+  protocolIds.forEach(protocolId => {
+    filterSnapshots(history[protocolId] || [], timeframe, now).forEach(snapshot => {
+      const time = snapshot.timestamp.getTime();
+      const key = Math.floor(time / bucket) * bucket;
+      const row = buckets.get(key) || {};
+      const existing = row[protocolId];
+      if (!existing || existing.time <= time) {
+        row[protocolId] = { time, value: snapshot[metric] };
+      }
+      buckets.set(key, row);
+    });
+  });
+
+  const lastValues: Record<string, number> = {};
+  return Array.from(buckets.keys())
+    .sort((a, b) => a - b)
+    .map(key => {
+      const row = buckets.get(key)!;
+      const point: TimeSeriesPoint = { timestamp: key };
+      protocolIds.forEach(protocolId => {
+        if (row[protocolId]) lastValues[protocolId] = row[protocolId].value;
+        if (lastValues[protocolId] !== undefined) point[protocolId] = lastValues[protocolId];
+      });
+      return point;
+    });
+};
+
+// Sums every protocol column of a series into a single `total` column
+export const totalTimeSeries = (series: TimeSeriesPoint[], protocolIds: string[]): TimeSeriesPoint[] => {
+  return series.map(point => ({
+    timestamp: point.timestamp,
+    total: protocolIds.reduce((sum, protocolId) => sum + (point[protocolId] || 0), 0)
+  }));
+};
+
+export const formatTimestamp = (timestamp: number, timeframe: Timeframe): string => {
+  const date = new Date(timestamp);
+  if (timeframe === '24h') {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
@@ -0,0 +1,125 @@
+// Relative import: the backend vote planner compiles this module too and has no @/ alias
+import type { GaugeEpoch, VeLock, VoteAllocation } from '../types/analytics';
+
+/**
+ * @title Vote-escrow math
+ * @description Epoch boundaries and voting power decay of Aerodrome veAERO locks, and the
+ * vote split across gauges that earns a lock the most fees and bribes
+ * @author Base DeFi Analytics Team
+ */
+
+// Epochs start every Thursday 00:00 UTC, which the Unix epoch also fell on
+export const EPOCH_DURATION = 7 * 24 * 60 * 60 * 1000;
+export const MAX_LOCK_DURATION = 4 * 365 * 24 * 60 * 60 * 1000;
+export const EPOCHS_PER_YEAR = 365 * 24 * 60 * 60 * 1000 / EPOCH_DURATION;
+
+// Aerodrome's Voter rejects votes for more pools than this
+export const MAX_VOTED_POOLS = 30;
+
+export interface VotingPowerPoint {
+  timestamp: Date;
+  votingPower: number;
+}
+
+export interface VoteCandidate {
+  pool: string;
+  name: string;
+  // USD of fees and bribes paid to the pool's voters
+  rewardValue: number;
+  // Votes from everyone but the lock being planned
+  otherVotes: number;
+}
+
+export const getEpochStart = (at: Date): Date => new Date(at.getTime() - at.getTime() % EPOCH_DURATION);
+
+export const getVotingPower = (lock: Pick<VeLock, 'amount' | 'unlockAt'>, at: Date): number => {
+  if (lock.unlockAt === null) return lock.amount;
+  const remaining = lock.unlockAt.getTime() - at.getTime();
+  return remaining > 0 ? lock.amount * Math.min(remaining / MAX_LOCK_DURATION, 1) : 0;
+};
+
+// One point per epoch start until the lock expires; a permanent lock is flat
+export const getVotingPowerSchedule = (lock: Pick<VeLock, 'amount' | 'unlockAt'>, from: Date, maxPoints = 60): VotingPowerPoint[] => {
+  const points: VotingPowerPoint[] = [{ timestamp: from, votingPower: getVotingPower(lock, from) }];
+  let epochStart = getEpochStart(from).getTime() + EPOCH_DURATION;
+  while (points.length < maxPoints) {
+    const timestamp = new Date(lock.unlockAt ? Math.min(epochStart, lock.unlockAt.getTime()) : epochStart);
+    points.push({ timestamp, votingPower: getVotingPower(lock, timestamp) });
+    if (lock.unlockAt && timestamp.getTime() >= lock.unlockAt.getTime()) break;
+    epochStart += EPOCH_DURATION;
+  }
+  return points;
+};
+
+// A pool nobody votes for is treated as holding one vote, so its reward is not credited in
+// full to a dust vote
+export const getVoteReward = (candidate: Pick<VoteCandidate, 'rewardValue' | 'otherVotes'>, votes: number): number => {
+  if (votes <= 0) return 0;
+  return candidate.rewardValue * votes / (Math.max(candidate.otherVotes, 1) + votes);
+};
+
+// Votes that bring a pool's marginal reward down to `marginal`: R·W / (W + v)² = marginal
+const getVotesAtMarginal = (candidate: VoteCandidate, marginal: number): number => {
+  const others = Math.max(candidate.otherVotes, 1);
+  return Math.max(Math.sqrt(candidate.rewardValue * others / marginal) - others, 0);
+};
+
+const solveAllocation = (votingPower: number, candidates: VoteCandidate[]): Map<string, number> => {
+  const total = (marginal: number) => candidates.reduce((sum, candidate) => sum + getVotesAtMarginal(candidate, marginal), 0);
+  // The first vote on a pool earns R / W, no pool is worth more than that
+  let high = Math.max(...candidates.map(candidate => candidate.rewardValue / Math.max(candidate.otherVotes, 1)));
+  let low = high;
+  while (total(low) < votingPower && low > 1e-30) low /= 2;
+  // Marginals span many orders of magnitude, so bisect geometrically
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const mid = Math.sqrt(low * high);
+    if (total(mid) > votingPower) low = mid;
+    else high = mid;
+  }
+  const votes = new Map(candidates.map(candidate => [candidate.pool, getVotesAtMarginal(candidate, high)]));
+  // Scale away the bisection's remainder so every unit of voting power is used
+  const allocated = Array.from(votes.values()).reduce((sum, value) => sum + value, 0);
+  if (allocated > 0) votes.forEach((value, pool) => votes.set(pool, value * votingPower / allocated));
+  return votes;
+};
+
+/**
+ * Pool rewards are split pro rata to votes, so each extra vote on a pool earns less than the
+ * last. The best split gives every voted pool the same marginal reward; when that spreads over
+ * more than `maxPools`, the pools receiving the fewest votes are dropped and the rest re-solved.
+ */
+export const optimizeVotes = (
+  votingPower: number,
+  candidates: VoteCandidate[],
+  maxPools: number = MAX_VOTED_POOLS
+): VoteAllocation[] => {
+  let eligible = candidates.filter(candidate => candidate.rewardValue > 0);
+  if (votingPower <= 0 || eligible.length === 0) return [];
+
+  let votes = solveAllocation(votingPower, eligible);
+  const ranked = () => eligible.filter(candidate => (votes.get(candidate.pool) || 0) > 0)
+    .sort((a, b) => (votes.get(b.pool) || 0) - (votes.get(a.pool) || 0));
+  if (ranked().length > maxPools) {
+    eligible = ranked().slice(0, maxPools);
+    votes = solveAllocation(votingPower, eligible);
+  }
+
+  return ranked().map(candidate => {
+    const candidateVotes = votes.get(candidate.pool) || 0;
+    return {
+      pool: candidate.pool,
+      name: candidate.name,
+      votes: candidateVotes,
+      weight: candidateVotes / votingPower * 100,
+      expectedReward: getVoteReward(candidate, candidateVotes)
+    };
+  });
+};
+
+// Each gauge's votes less the lock's own, so the lock can be re-planned from scratch
+export const toVoteCandidates = (gauges: GaugeEpoch[], lock?: Pick<VeLock, 'votes'>): VoteCandidate[] => {
+  return gauges.map(gauge => {
+    const own = lock?.votes.find(vote => vote.pool === gauge.pool)?.votes ?? 0;
+    return { pool: gauge.pool, name: gauge.name, rewardValue: gauge.rewardValue, otherVotes: Math.max(gauge.votes - own, 0) };
+  });
+};
@@ -0,0 +1,43 @@
+import path from 'path';
+import { subtask, task, type HardhatUserConfig } from 'hardhat/config';
+import { TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS, TASK_TEST } from 'hardhat/builtin-tasks/task-names';
+import '@nomicfoundation/hardhat-toolbox';
+
+/**
+ * @title Hardhat configuration
+ * @description Compiles, tests and deploys contracts/BaseAnalytics.sol
+ * @author Base DeFi Analytics Team
+ */
+
+// Mocks in test/contracts are compiled for `hardhat test` only, so they never reach a deployment
+const TEST_CONTRACTS = ['MockERC20.sol'].map(file => path.join(__dirname, 'test', 'contracts', file));
+let withTestContracts = false;
+
+task(TASK_TEST, async (args, _hre, runSuper) => {
+  withTestContracts = true;
+  return runSuper(args);
+});
+
+subtask(TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS, async (args, _hre, runSuper) => {
+  const sources: string[] = await runSuper(args);
+  return withTestContracts ? [...sources, ...TEST_CONTRACTS] : sources;
+});
+
+const config: HardhatUserConfig = {
+  solidity: {
+    version: '0.8.19',
+    settings: { optimizer: { enabled: true, runs: 200 } }
+  },
+  networks: {
+    base: {
+      url: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
+      chainId: 8453,
+      accounts: process.env.DEPLOYER_PRIVATE_KEY ? [process.env.DEPLOYER_PRIVATE_KEY] : []
+    }
+  },
+  etherscan: {
+    apiKey: { base: process.env.BASESCAN_API_KEY || '' }
+  }
+};
+
+export default config;
@@ -0,0 +1,22 @@
+import { ethers, network } from 'hardhat';
+
+/**
+ * @title BaseAnalytics deployment
+ * @description Deploys contracts/BaseAnalytics.sol streaming REWARD_TOKEN_ADDRESS to depositors
+ * @author Base DeFi Analytics Team
+ */
+
+const main = async () => {
+  const rewardToken = process.env.REWARD_TOKEN_ADDRESS;
+  if (!rewardToken) throw new Error('Set REWARD_TOKEN_ADDRESS to the token BaseAnalytics pays rewards in');
+
+  const analytics = await ethers.deployContract('BaseAnalytics', [rewardToken]);
+  await analytics.waitForDeployment();
+  // BASE_ANALYTICS_ADDRESS points the dashboard at this deployment
+  console.log(`BaseAnalytics deployed to ${await analytics.getAddress()} on ${network.name}`);
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
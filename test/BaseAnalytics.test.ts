@@ -0,0 +1,139 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+
+const RATE = ethers.parseEther('1');
+const DEPOSIT = ethers.parseEther('100');
+
+const deployFixture = async () => {
+  const [owner, alice, bob] = await ethers.getSigners();
+  const rewardToken = await ethers.deployContract('MockERC20', ['Reward', 'RWD']);
+  const depositToken = await ethers.deployContract('MockERC20', ['USD Coin', 'USDC']);
+  const analytics = await ethers.deployContract('BaseAnalytics', [await rewardToken.getAddress()]);
+  const analyticsAddress = await analytics.getAddress();
+
+  await analytics.registerStrategy('USDC lending', await depositToken.getAddress(), 3, RATE);
+  await rewardToken.mint(owner.address, ethers.parseEther('1000000'));
+  await rewardToken.approve(analyticsAddress, ethers.MaxUint256);
+  await analytics.fundRewards(ethers.parseEther('1000000'));
+
+  for (const user of [alice, bob]) {
+    await depositToken.mint(user.address, DEPOSIT * 10n);
+    await depositToken.connect(user).approve(analyticsAddress, ethers.MaxUint256);
+  }
+  return { analytics, rewardToken, depositToken, owner, alice, bob };
+};
+
+describe('BaseAnalytics', () => {
+  describe('strategies', () => {
+    it('registers strategies as active', async () => {
+      const { analytics } = await loadFixture(deployFixture);
+      const strategy = await analytics.strategies(0);
+      expect(strategy.name).to.equal('USDC lending');
+      expect(strategy.active).to.equal(true);
+      expect(await analytics.activeStrategies()).to.equal(1n);
+    });
+
+    it('only lets the owner register strategies', async () => {
+      const { analytics, depositToken, alice } = await loadFixture(deployFixture);
+      await expect(analytics.connect(alice).registerStrategy('Rogue', await depositToken.getAddress(), 3, RATE))
+        .to.be.revertedWith('Ownable: caller is not the owner');
+    });
+
+    it('rejects risk levels outside 1-10', async () => {
+      const { analytics, depositToken } = await loadFixture(deployFixture);
+      await expect(analytics.registerStrategy('Too risky', await depositToken.getAddress(), 11, RATE))
+        .to.be.revertedWithCustomError(analytics, 'InvalidRiskLevel').withArgs(11);
+    });
+  });
+
+  describe('rewards', () => {
+    it('streams rewards pro rata to deposits', async () => {
+      const { analytics, alice, bob } = await loadFixture(deployFixture);
+      await analytics.connect(alice).deposit(0, DEPOSIT);
+      await analytics.connect(bob).deposit(0, DEPOSIT * 3n);
+      // Alice earns alone for the second between the deposits, then a quarter of every second
+      await time.increase(100);
+
+      expect(await analytics.pendingRewards(0, alice.address)).to.equal(RATE + RATE * 100n / 4n);
+      expect(await analytics.pendingRewards(0, bob.address)).to.equal(RATE * 100n * 3n / 4n);
+    });
+
+    it('pays claims from the reward reserve', async () => {
+      const { analytics, rewardToken, alice } = await loadFixture(deployFixture);
+      await analytics.connect(alice).deposit(0, DEPOSIT);
+      await time.increase(9);
+
+      await expect(analytics.connect(alice).claimRewards(0))
+        .to.emit(analytics, 'RewardsClaimed').withArgs(alice.address, 0, RATE * 10n);
+      expect(await rewardToken.balanceOf(alice.address)).to.equal(RATE * 10n);
+      expect(await analytics.totalRewardsDistributed()).to.equal(RATE * 10n);
+      expect((await analytics.positions(0, alice.address)).rewardsClaimed).to.equal(RATE * 10n);
+    });
+
+    it('refuses claims the reserve cannot cover', async () => {
+      const { analytics, alice } = await loadFixture(deployFixture);
+      const token = await ethers.deployContract('MockERC20', ['Wrapped Ether', 'WETH']);
+      // Pays out faster than the reserve can cover within seconds
+      await analytics.registerStrategy('Overpaying', await token.getAddress(), 5, ethers.parseEther('1000000'));
+      await token.mint(alice.address, DEPOSIT);
+      await token.connect(alice).approve(await analytics.getAddress(), DEPOSIT);
+      await analytics.connect(alice).deposit(1, DEPOSIT);
+      await time.increase(9);
+
+      await expect(analytics.connect(alice).claimRewards(1))
+        .to.be.revertedWithCustomError(analytics, 'InsufficientRewardReserve');
+    });
+
+    it('stops accruing while a strategy is inactive', async () => {
+      const { analytics, alice } = await loadFixture(deployFixture);
+      await analytics.connect(alice).deposit(0, DEPOSIT);
+      await time.increase(9);
+      await analytics.updateStrategy(0, RATE, 3, false);
+      const accrued = await analytics.pendingRewards(0, alice.address);
+      expect(accrued).to.equal(RATE * 10n);
+
+      await time.increase(100);
+      expect(await analytics.pendingRewards(0, alice.address)).to.equal(accrued);
+
+      // Reactivating resumes the stream without paying for the inactive stretch
+      await analytics.updateStrategy(0, RATE, 3, true);
+      await time.increase(10);
+      expect(await analytics.pendingRewards(0, alice.address)).to.equal(accrued + RATE * 10n);
+    });
+  });
+
+  describe('deposits and withdrawals', () => {
+    it('lists each strategy a user entered once', async () => {
+      const { analytics, alice } = await loadFixture(deployFixture);
+      await analytics.connect(alice).deposit(0, DEPOSIT);
+      await analytics.connect(alice).deposit(0, DEPOSIT);
+      expect(await analytics.getUserStrategyIds(alice.address)).to.deep.equal([0n]);
+      expect((await analytics.strategies(0)).totalDeposited).to.equal(DEPOSIT * 2n);
+    });
+
+    it('rejects deposits into an inactive strategy', async () => {
+      const { analytics, alice } = await loadFixture(deployFixture);
+      await analytics.updateStrategy(0, RATE, 3, false);
+      await expect(analytics.connect(alice).deposit(0, DEPOSIT))
+        .to.be.revertedWithCustomError(analytics, 'StrategyInactive').withArgs(0);
+    });
+
+    it('keeps withdrawals open while paused', async () => {
+      const { analytics, depositToken, alice } = await loadFixture(deployFixture);
+      await analytics.connect(alice).deposit(0, DEPOSIT);
+      await analytics.pause();
+
+      await expect(analytics.connect(alice).deposit(0, DEPOSIT)).to.be.revertedWith('Pausable: paused');
+      await analytics.connect(alice).withdraw(0, DEPOSIT);
+      expect(await depositToken.balanceOf(alice.address)).to.equal(DEPOSIT * 10n);
+    });
+
+    it('rejects withdrawing more than the position holds', async () => {
+      const { analytics, alice } = await loadFixture(deployFixture);
+      await analytics.connect(alice).deposit(0, DEPOSIT);
+      await expect(analytics.connect(alice).withdraw(0, DEPOSIT + 1n))
+        .to.be.revertedWithCustomError(analytics, 'InsufficientBalance').withArgs(DEPOSIT + 1n, DEPOSIT);
+    });
+  });
+});